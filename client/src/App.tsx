@@ -12,14 +12,20 @@ import {
   CreateLivestreamForm,
   type CreateLivestreamFormData,
 } from './components/livestream/CreateLivestreamForm';
-import { LivestreamStatus } from './types/api.types';
+import { LivestreamStatus, LivestreamVisibility } from './types/api.types';
 import type { Livestream } from './types/api.types';
-import { apiService } from './services/api.service';
+import { apiService, getAuthenticatedUserId } from './services/api.service';
 
 function App() {
   const [selectedLivestream, setSelectedLivestream] = useState<Livestream | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [currentUserId] = useState(() => {
+    // Prefer the identity from the auth token (the server only trusts the token)
+    const authenticatedUserId = getAuthenticatedUserId();
+    if (authenticatedUserId) {
+      return authenticatedUserId;
+    }
+
     // Check localStorage for existing user ID
     const storedUserId = localStorage.getItem('favorited_user_id');
     if (storedUserId) {
@@ -39,12 +45,15 @@ function App() {
     error,
     hasMore,
     statusFilter,
+    visibilityFilter,
     loadMore,
     setStatusFilter,
+    setVisibilityFilter,
     refresh,
   } = useLivestreams({
     initialLimit: 12,
     pollInterval: 30000, // Poll every 30 seconds
+    currentUserId,
   });
 
   /**
@@ -69,12 +78,25 @@ function App() {
     await refresh(); // Refresh the list to show the new livestream
   };
 
+  /**
+   * Handle ending a livestream
+   */
+  const handleEndLivestream = async (livestream: Livestream) => {
+    try {
+      await apiService.endLivestream(livestream.id);
+      await refresh(); // Refresh the list
+    } catch (error) {
+      console.error('Failed to end livestream:', error);
+      alert('Failed to end livestream: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
   /**
    * Handle deleting a livestream
    */
   const handleDeleteLivestream = async (livestream: Livestream) => {
     try {
-      await apiService.deleteLivestream(livestream.id, currentUserId);
+      await apiService.deleteLivestream(livestream.id);
       await refresh(); // Refresh the list
     } catch (error) {
       console.error('Failed to delete livestream:', error);
@@ -87,6 +109,7 @@ function App() {
     return (
       <LivestreamRoom
         livestream={selectedLivestream}
+        currentUserId={currentUserId}
         onLeave={handleLeaveLivestream}
       />
     );
@@ -154,7 +177,6 @@ function App() {
             <CreateLivestreamForm
               onClose={() => setShowCreateModal(false)}
               onSubmit={handleCreateLivestream}
-              currentUserId={currentUserId}
             />
           </div>
         )}
@@ -163,6 +185,8 @@ function App() {
         <LivestreamFilters
           activeFilter={statusFilter}
           onFilterChange={(status: LivestreamStatus | undefined) => setStatusFilter(status)}
+          activeVisibility={visibilityFilter}
+          onVisibilityChange={(visibility: LivestreamVisibility | undefined) => setVisibilityFilter(visibility)}
         />
 
         {/* Grid */}
@@ -173,6 +197,7 @@ function App() {
           hasMore={hasMore}
           onLoadMore={loadMore}
           onJoinLivestream={handleJoinLivestream}
+          onEndLivestream={handleEndLivestream}
           onDeleteLivestream={handleDeleteLivestream}
           currentUserId={currentUserId}
           error={error}
@@ -0,0 +1,182 @@
+/**
+ * ChatPanel Component
+ * Live chat for a livestream: history, real-time messages over SSE and sending
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { ChatMessage } from '../../types/api.types';
+import { apiService } from '../../services/api.service';
+import { useSSE } from '../../hooks/useSSE';
+
+interface ChatPanelProps {
+  livestreamId: string;
+  currentUserId: string;
+  canModerate: boolean; // Creator - can delete messages
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * ChatPanel component
+ * Loads the latest history, appends chat_message events and removes deleted messages
+ */
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  livestreamId,
+  currentUserId,
+  canModerate,
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Load the latest messages
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const history = await apiService.getChatHistory(livestreamId);
+        // Keep messages that arrived over SSE while the history was loading
+        setMessages((current) => [
+          ...history.data,
+          ...current.filter((message) => !history.data.some((m) => m.id === message.id)),
+        ]);
+        setNextCursor(history.nextCursor);
+      } catch (err) {
+        console.error('Failed to load chat history:', err);
+      }
+    };
+
+    loadHistory();
+  }, [livestreamId]);
+
+  useSSE({
+    livestreamId,
+    onChatMessage: (message) => {
+      setMessages((current) =>
+        current.some((m) => m.id === message.id) ? current : [...current, message]
+      );
+      bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+    },
+    onChatMessageDeleted: (deleted) => {
+      setMessages((current) => current.filter((message) => message.id !== deleted.id));
+    },
+  });
+
+  /**
+   * Load the page of messages before the oldest one shown
+   */
+  const handleLoadOlder = async () => {
+    if (!nextCursor) {
+      return;
+    }
+
+    try {
+      const history = await apiService.getChatHistory(livestreamId, nextCursor);
+      setMessages((current) => [...history.data, ...current]);
+      setNextCursor(history.nextCursor);
+    } catch (err) {
+      console.error('Failed to load older messages:', err);
+    }
+  };
+
+  /**
+   * Send the draft message (it is shown when the chat_message event comes back)
+   */
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content) {
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      setError(null);
+      await apiService.sendChatMessage(livestreamId, content);
+      setDraft('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  /**
+   * Delete a message (creator only)
+   */
+  const handleDelete = async (messageId: string) => {
+    try {
+      await apiService.deleteChatMessage(livestreamId, messageId);
+    } catch (err) {
+      console.error('Failed to delete chat message:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900/90 text-white">
+      <div className="px-4 py-3 border-b border-gray-700 font-semibold">Chat</div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-2 space-y-2">
+        {nextCursor && (
+          <button
+            onClick={handleLoadOlder}
+            className="w-full text-xs text-gray-400 hover:text-white py-1"
+          >
+            Load older messages
+          </button>
+        )}
+
+        {messages.map((message) => (
+          <div key={message.id} className="group text-sm break-words">
+            <span
+              className={`font-medium mr-2 ${
+                message.userId === currentUserId ? 'text-blue-400' : 'text-gray-300'
+              }`}
+            >
+              {message.displayName}
+              {message.role !== 'VIEWER' && (
+                <span className="ml-1 text-xs text-yellow-400">({message.role})</span>
+              )}
+            </span>
+            <span>{message.content}</span>
+            {canModerate && (
+              <button
+                onClick={() => handleDelete(message.id)}
+                className="ml-2 text-xs text-red-400 opacity-0 group-hover:opacity-100"
+                title="Delete message"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="p-3 border-t border-gray-700">
+        {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder="Say something..."
+            className="flex-1 px-3 py-2 rounded-md bg-gray-800 border border-gray-600 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !draft.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm font-medium py-2 px-3 rounded-md transition-colors"
+          >
+            Send
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -4,31 +4,36 @@
  */
 
 import { useState, type FormEvent } from 'react';
+import { LivestreamVisibility } from '../../types/api.types';
 
 interface CreateLivestreamFormProps {
   onClose: () => void;
   onSubmit: (data: CreateLivestreamFormData) => Promise<void>;
-  currentUserId: string;
 }
 
 export interface CreateLivestreamFormData {
   roomName: string;
   title: string;
   description?: string;
-  createdBy: string;
+  scheduledStartAt?: string; // ISO 8601 - omit to go live immediately
+  visibility?: LivestreamVisibility;
+  passcode?: string; // PRIVATE only
+  allowedUserIds?: string[]; // PRIVATE only
 }
 
 export const CreateLivestreamForm: React.FC<CreateLivestreamFormProps> = ({
   onClose,
   onSubmit,
-  currentUserId,
 }) => {
   const [formData, setFormData] = useState<CreateLivestreamFormData>({
     roomName: '',
     title: '',
     description: '',
-    createdBy: currentUserId,
+    visibility: LivestreamVisibility.PUBLIC,
   });
+  const [scheduledStartLocal, setScheduledStartLocal] = useState(''); // datetime-local value
+  const [passcode, setPasscode] = useState('');
+  const [allowedUsersInput, setAllowedUsersInput] = useState(''); // comma-separated user IDs
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,11 +48,33 @@ export const CreateLivestreamForm: React.FC<CreateLivestreamFormProps> = ({
       return;
     }
 
+    // datetime-local has no timezone - interpret in the browser's local time
+    const scheduledStartAt = scheduledStartLocal
+      ? new Date(scheduledStartLocal).toISOString()
+      : undefined;
+
+    // Passcode and allowlist only apply to private livestreams
+    const isPrivate = formData.visibility === LivestreamVisibility.PRIVATE;
+    const allowedUserIds = allowedUsersInput
+      .split(',')
+      .map((userId) => userId.trim())
+      .filter(Boolean);
+
+    if (isPrivate && !passcode && allowedUserIds.length === 0) {
+      setError('Private livestreams need a passcode or at least one allowed user');
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        scheduledStartAt,
+        passcode: isPrivate && passcode ? passcode : undefined,
+        allowedUserIds: isPrivate && allowedUserIds.length > 0 ? allowedUserIds : undefined,
+      });
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create livestream');
@@ -122,6 +149,96 @@ export const CreateLivestreamForm: React.FC<CreateLivestreamFormProps> = ({
         />
       </div>
 
+      {/* Scheduled Start */}
+      <div className="mt-4">
+        <label
+          htmlFor="scheduledStartAt"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          Start Time (optional)
+        </label>
+        <input
+          id="scheduledStartAt"
+          type="datetime-local"
+          value={scheduledStartLocal}
+          onChange={(e) => setScheduledStartLocal(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          disabled={isSubmitting}
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Leave empty to go live now, or pick a future time to schedule the livestream
+        </p>
+      </div>
+
+      {/* Visibility */}
+      <div className="mt-4">
+        <label
+          htmlFor="visibility"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          Visibility
+        </label>
+        <select
+          id="visibility"
+          value={formData.visibility}
+          onChange={(e) =>
+            setFormData({ ...formData, visibility: e.target.value as LivestreamVisibility })
+          }
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          disabled={isSubmitting}
+        >
+          <option value={LivestreamVisibility.PUBLIC}>Public - listed for everyone</option>
+          <option value={LivestreamVisibility.UNLISTED}>Unlisted - anyone with the link can join</option>
+          <option value={LivestreamVisibility.PRIVATE}>Private - passcode or allowed users only</option>
+        </select>
+      </div>
+
+      {formData.visibility === LivestreamVisibility.PRIVATE && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          {/* Passcode */}
+          <div>
+            <label
+              htmlFor="passcode"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Passcode
+            </label>
+            <input
+              id="passcode"
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              placeholder="At least 4 characters"
+              minLength={4}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Allowed Users */}
+          <div>
+            <label
+              htmlFor="allowedUserIds"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Allowed Users
+            </label>
+            <input
+              id="allowedUserIds"
+              type="text"
+              value={allowedUsersInput}
+              onChange={(e) => setAllowedUsersInput(e.target.value)}
+              placeholder="user-1, user-2"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              disabled={isSubmitting}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Comma-separated user IDs who can join without the passcode
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="mt-4 p-3 bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-200 rounded-md text-sm">
@@ -14,7 +14,6 @@ export interface CreateLivestreamFormData {
   roomName: string;
   title: string;
   description?: string;
-  createdBy: string;
 }
 
 export const CreateLivestreamModal: React.FC<CreateLivestreamModalProps> = ({
@@ -25,7 +24,6 @@ export const CreateLivestreamModal: React.FC<CreateLivestreamModalProps> = ({
     roomName: '',
     title: '',
     description: '',
-    createdBy: `user-${Math.random().toString(36).substr(2, 9)}`, // Random user ID for demo
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
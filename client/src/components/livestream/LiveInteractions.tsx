@@ -0,0 +1,261 @@
+/**
+ * LiveInteractions Component
+ * Emoji reactions and live polls for a livestream (updates over SSE)
+ */
+
+import { useEffect, useState } from 'react';
+import type { Poll, ReactionBurst } from '../../types/api.types';
+import { apiService } from '../../services/api.service';
+import { useSSE } from '../../hooks/useSSE';
+
+interface LiveInteractionsProps {
+  livestreamId: string;
+  isCreator: boolean; // Creator - can create and close polls
+}
+
+// Must match the reactions allowed by the server
+const REACTIONS = ['❤️', '👍', '😂', '😮', '👏', '🔥'];
+
+// How long a reaction burst stays on screen
+const BURST_DISPLAY_MS = 2000;
+
+/**
+ * LiveInteractions component
+ * Shows reaction bursts and the latest poll, and lets participants react and vote
+ */
+export const LiveInteractions: React.FC<LiveInteractionsProps> = ({
+  livestreamId,
+  isCreator,
+}) => {
+  const [burst, setBurst] = useState<ReactionBurst | null>(null);
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [myVote, setMyVote] = useState<{ pollId: string; optionIndex: number } | null>(null);
+  const [showPollForm, setShowPollForm] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the latest poll
+  useEffect(() => {
+    const loadPolls = async () => {
+      try {
+        const response = await apiService.getPolls(livestreamId);
+        if (response.success && response.data.length > 0) {
+          const latest = response.data[0];
+          setPoll(latest);
+          if (latest.myVote != null) {
+            setMyVote({ pollId: latest.id, optionIndex: latest.myVote });
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load polls:', err);
+      }
+    };
+
+    loadPolls();
+  }, [livestreamId]);
+
+  // Hide the reaction burst after a while
+  useEffect(() => {
+    if (!burst) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => setBurst(null), BURST_DISPLAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [burst]);
+
+  useSSE({
+    livestreamId,
+    onReactionBurst: setBurst,
+    onPollUpdate: setPoll, // A new poll replaces the shown one
+  });
+
+  /**
+   * Send a reaction
+   */
+  const handleReaction = async (emoji: string) => {
+    try {
+      await apiService.sendReaction(livestreamId, emoji);
+    } catch (err) {
+      console.error('Failed to send reaction:', err);
+    }
+  };
+
+  /**
+   * Vote for a poll option
+   */
+  const handleVote = async (optionIndex: number) => {
+    if (!poll) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await apiService.votePoll(livestreamId, poll.id, optionIndex);
+      setMyVote({ pollId: poll.id, optionIndex });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to vote');
+    }
+  };
+
+  /**
+   * Create a poll (one option per line)
+   */
+  const handleCreatePoll = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError(null);
+      const created = await apiService.createPoll(
+        livestreamId,
+        question.trim(),
+        options.split('\n').map((option) => option.trim()).filter(Boolean)
+      );
+      setPoll(created);
+      setShowPollForm(false);
+      setQuestion('');
+      setOptions('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create poll');
+    }
+  };
+
+  /**
+   * Close the shown poll
+   */
+  const handleClosePoll = async () => {
+    if (!poll) {
+      return;
+    }
+
+    try {
+      await apiService.closePoll(livestreamId, poll.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close poll');
+    }
+  };
+
+  return (
+    <div className="w-80 space-y-3 text-white">
+      {/* Poll */}
+      {poll && (
+        <div className="bg-gray-900/90 rounded-lg p-4">
+          <div className="flex items-start justify-between mb-2">
+            <p className="font-semibold">{poll.question}</p>
+            {poll.status === 'CLOSED' && (
+              <span className="ml-2 text-xs text-gray-400">Closed</span>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {poll.options.map((option, index) => {
+              const percent =
+                poll.totalVotes > 0 ? Math.round((option.votes / poll.totalVotes) * 100) : 0;
+
+              return (
+                <button
+                  key={index}
+                  onClick={() => handleVote(index)}
+                  disabled={poll.status !== 'OPEN'}
+                  className={`relative w-full text-left text-sm rounded-md overflow-hidden border ${
+                    myVote?.pollId === poll.id && myVote.optionIndex === index
+                      ? 'border-blue-500'
+                      : 'border-gray-600'
+                  }`}
+                >
+                  <span
+                    className="absolute inset-y-0 left-0 bg-blue-600/40"
+                    style={{ width: `${percent}%` }}
+                  />
+                  <span className="relative flex justify-between px-3 py-1">
+                    <span>{option.text}</span>
+                    <span>{percent}%</span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+            <span>{poll.totalVotes} votes</span>
+            {isCreator && poll.status === 'OPEN' && (
+              <button onClick={handleClosePoll} className="text-red-400 hover:text-red-300">
+                Close poll
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Poll creation (creator only) */}
+      {isCreator && (showPollForm ? (
+        <form onSubmit={handleCreatePoll} className="bg-gray-900/90 rounded-lg p-4 space-y-2">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Question"
+            className="w-full px-3 py-2 rounded-md bg-gray-800 border border-gray-600 text-sm"
+          />
+          <textarea
+            value={options}
+            onChange={(e) => setOptions(e.target.value)}
+            placeholder="One option per line"
+            rows={3}
+            className="w-full px-3 py-2 rounded-md bg-gray-800 border border-gray-600 text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-sm font-medium py-2 rounded-md transition-colors"
+            >
+              Start poll
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowPollForm(false)}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-sm font-medium py-2 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowPollForm(true)}
+          className="bg-gray-900/90 hover:bg-gray-800 text-sm font-medium py-2 px-4 rounded-md transition-colors"
+        >
+          New poll
+        </button>
+      ))}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {/* Reactions */}
+      {burst && (
+        <div className="flex gap-2 text-2xl animate-bounce">
+          {Object.entries(burst.counts).map(([emoji, count]) => (
+            <span key={emoji}>
+              {emoji}
+              {count > 1 && <span className="text-xs ml-0.5">x{count}</span>}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-1 bg-gray-900/90 rounded-full px-3 py-1 w-fit">
+        {REACTIONS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => handleReaction(emoji)}
+            className="text-xl hover:scale-125 transition-transform"
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LiveInteractions;
@@ -14,8 +14,9 @@ import { apiService } from '../../services/api.service';
 interface LivestreamCardProps {
   livestream: Livestream;
   onJoin?: (livestream: Livestream) => void;
+  onEnd?: (livestream: Livestream) => void;
   onDelete?: (livestream: Livestream) => void;
-  currentUserId?: string; // For checking if user can delete
+  currentUserId?: string; // For checking if user can end/delete
 }
 
 /**
@@ -47,6 +48,7 @@ const truncateText = (text: string | null, maxLength: number = 100): string => {
 export const LivestreamCard: React.FC<LivestreamCardProps> = ({
   livestream,
   onJoin,
+  onEnd,
   onDelete,
   currentUserId,
 }) => {
@@ -57,10 +59,12 @@ export const LivestreamCard: React.FC<LivestreamCardProps> = ({
   // Only connect to SSE for LIVE streams
   const isLive = livestream.status === LivestreamStatus.LIVE;
 
-  // Check if current user is the creator and livestream hasn't ended
-  const canDelete = currentUserId &&
-                    livestream.createdBy === currentUserId &&
-                    livestream.status !== LivestreamStatus.ENDED;
+  // Only the creator can end or delete the livestream
+  const isCreator = !!currentUserId && livestream.createdBy === currentUserId;
+
+  // Ending applies to started streams (scheduled ones are cancelled instead)
+  const canEnd = isCreator &&
+                 (isLive || livestream.status === LivestreamStatus.ERROR);
 
   const { state: streamState } = useSSE({
     livestreamId: livestream.id,
@@ -113,6 +117,11 @@ export const LivestreamCard: React.FC<LivestreamCardProps> = ({
           <h3 className="text-lg font-bold text-gray-900 dark:text-white line-clamp-2 flex-1">
             {livestream.title}
           </h3>
+          {livestream.visibility !== 'PUBLIC' && (
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 flex-shrink-0">
+              {livestream.visibility === 'PRIVATE' ? 'Private' : 'Unlisted'}
+            </span>
+          )}
           <Badge status={livestream.status} />
         </div>
 
@@ -165,6 +174,16 @@ export const LivestreamCard: React.FC<LivestreamCardProps> = ({
                           (Host)
                         </span>
                       )}
+                      {participant.role === 'CO_HOST' && (
+                        <span className="text-blue-600 dark:text-blue-400 font-medium flex-shrink-0">
+                          (Co-host)
+                        </span>
+                      )}
+                      {participant.role === 'MODERATOR' && (
+                        <span className="text-purple-600 dark:text-purple-400 font-medium flex-shrink-0">
+                          (Mod)
+                        </span>
+                      )}
                     </div>
                   ))
                 )}
@@ -172,6 +191,16 @@ export const LivestreamCard: React.FC<LivestreamCardProps> = ({
             </div>
           )}
 
+          {/* Scheduled Start (only while waiting to go live) */}
+          {livestream.status === LivestreamStatus.SCHEDULED && livestream.scheduledStartAt && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Starts:</span>
+              <span className="text-sm text-gray-900 dark:text-white">
+                {formatDate(livestream.scheduledStartAt)}
+              </span>
+            </div>
+          )}
+
           {/* Started At */}
           {livestream.startedAt && (
             <div className="flex items-center justify-between">
@@ -207,7 +236,7 @@ export const LivestreamCard: React.FC<LivestreamCardProps> = ({
               <span className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate" title={livestream.createdBy}>
                 {livestream.createdBy}
               </span>
-              {canDelete && (
+              {isCreator && (
                 <span
                   className="text-xs text-green-600 dark:text-green-400 flex-shrink-0"
                   title="You created this stream"
@@ -231,8 +260,23 @@ export const LivestreamCard: React.FC<LivestreamCardProps> = ({
             </button>
           )}
 
+          {/* End Button (only show for creator while running) */}
+          {canEnd && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (window.confirm('Are you sure you want to end this livestream? All participants will be disconnected.')) {
+                  onEnd?.(livestream);
+                }
+              }}
+              className="mt-2 w-full bg-orange-600 hover:bg-orange-700 text-white font-medium py-2 px-4 rounded-md transition-colors flex items-center justify-center gap-2"
+            >
+              End Livestream
+            </button>
+          )}
+
           {/* Delete Button (only show for creator) */}
-          {canDelete && (
+          {isCreator && (
             <button
               onClick={(e) => {
                 e.stopPropagation();
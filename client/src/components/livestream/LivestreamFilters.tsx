@@ -1,14 +1,16 @@
 /**
  * LivestreamFilters Component
- * Filter buttons for livestream status
+ * Filter buttons for livestream status and visibility
  */
 
 import React from 'react';
-import { LivestreamStatus } from '../../types/api.types';
+import { LivestreamStatus, LivestreamVisibility } from '../../types/api.types';
 
 interface LivestreamFiltersProps {
   activeFilter: LivestreamStatus | undefined;
   onFilterChange: (status: LivestreamStatus | undefined) => void;
+  activeVisibility: LivestreamVisibility | undefined;
+  onVisibilityChange: (visibility: LivestreamVisibility | undefined) => void;
 }
 
 interface FilterOption {
@@ -25,32 +27,53 @@ const filterOptions: FilterOption[] = [
   { label: 'Error', value: LivestreamStatus.ERROR },
 ];
 
+// Unlisted/private livestreams are only listed for their creator
+const visibilityOptions: { label: string; value: LivestreamVisibility | undefined }[] = [
+  { label: 'Public', value: undefined },
+  { label: 'My Unlisted', value: LivestreamVisibility.UNLISTED },
+  { label: 'My Private', value: LivestreamVisibility.PRIVATE },
+];
+
+const buttonClassName = (isActive: boolean) => `
+  px-4 py-2 rounded-lg text-sm font-medium transition-colors
+  ${
+    isActive
+      ? 'bg-blue-600 text-white shadow-md'
+      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+  }
+`;
+
 export const LivestreamFilters: React.FC<LivestreamFiltersProps> = ({
   activeFilter,
   onFilterChange,
+  activeVisibility,
+  onVisibilityChange,
 }) => {
   return (
-    <div className="flex flex-wrap gap-2 mb-6">
-      {filterOptions.map((option) => {
-        const isActive = activeFilter === option.value;
-
-        return (
+    <div className="mb-6 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {filterOptions.map((option) => (
           <button
             key={option.label}
             onClick={() => onFilterChange(option.value)}
-            className={`
-              px-4 py-2 rounded-lg text-sm font-medium transition-colors
-              ${
-                isActive
-                  ? 'bg-blue-600 text-white shadow-md'
-                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
-              }
-            `}
+            className={buttonClassName(activeFilter === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {visibilityOptions.map((option) => (
+          <button
+            key={option.label}
+            onClick={() => onVisibilityChange(option.value)}
+            className={buttonClassName(activeVisibility === option.value)}
           >
             {option.label}
           </button>
-        );
-      })}
+        ))}
+      </div>
     </div>
   );
 };
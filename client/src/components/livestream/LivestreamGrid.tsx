@@ -15,6 +15,7 @@ interface LivestreamGridProps {
   hasMore: boolean;
   onLoadMore: () => void;
   onJoinLivestream?: (livestream: Livestream) => void;
+  onEndLivestream?: (livestream: Livestream) => void;
   onDeleteLivestream?: (livestream: Livestream) => void;
   currentUserId?: string;
   error?: string | null;
@@ -27,6 +28,7 @@ export const LivestreamGrid: React.FC<LivestreamGridProps> = ({
   hasMore,
   onLoadMore,
   onJoinLivestream,
+  onEndLivestream,
   onDeleteLivestream,
   currentUserId,
   error,
@@ -120,6 +122,7 @@ export const LivestreamGrid: React.FC<LivestreamGridProps> = ({
             key={livestream.id}
             livestream={livestream}
             onJoin={onJoinLivestream}
+            onEnd={onEndLivestream}
             onDelete={onDeleteLivestream}
             currentUserId={currentUserId}
           />
@@ -3,38 +3,76 @@
  * Connects to a LiveKit room and displays video/audio streams
  */
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { LiveKitRoom } from '@livekit/components-react';
 import '@livekit/components-styles';
+import { DisconnectReason } from 'livekit-client';
 import type { Livestream } from '../../types/api.types';
-import { ParticipantRole } from '../../types/api.types';
+import { LivestreamStatus, ParticipantRole } from '../../types/api.types';
 import { apiService } from '../../services/api.service';
+import { useSSE } from '../../hooks/useSSE';
 import { Spinner } from '../ui/Spinner';
+import { ChatPanel } from './ChatPanel';
+import { LiveInteractions } from './LiveInteractions';
+import { ViewerCountChart } from './ViewerCountChart';
 
 interface LivestreamRoomProps {
   livestream: Livestream;
+  currentUserId: string;
   onLeave: () => void;
 }
 
 interface JoinData {
   token: string;
   url: string;
+  expiresAt: string;
 }
 
+interface WaitingRoomPosition {
+  position: number;
+  queueLength: number;
+}
+
+// Refresh the access token this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+// Retry a failed refresh after this delay (until the token expires)
+const TOKEN_REFRESH_RETRY_MS = 10 * 1000;
+// Poll the waiting room status in case an SSE update is missed
+const WAITING_ROOM_POLL_MS = 15 * 1000;
+// Reconnect this many times after the connection is lost, then leave
+const MAX_RECONNECT_ATTEMPTS = 3;
+// Disconnects that end the session - any other one is a lost connection
+const FINAL_DISCONNECT_REASONS = new Set<DisconnectReason>([
+  DisconnectReason.CLIENT_INITIATED,
+  DisconnectReason.DUPLICATE_IDENTITY,
+  DisconnectReason.PARTICIPANT_REMOVED,
+  DisconnectReason.ROOM_DELETED,
+  DisconnectReason.ROOM_CLOSED,
+]);
+
 /**
  * LivestreamRoom component
  * Handles joining a LiveKit room and displaying participants
  */
 export const LivestreamRoom: React.FC<LivestreamRoomProps> = ({
   livestream,
+  currentUserId,
   onLeave,
 }) => {
   const [joinData, setJoinData] = useState<JoinData | null>(null);
   const [isJoining, setIsJoining] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [userId] = useState(() => `user-${Math.random().toString(36).substring(2, 11)}`);
   const [displayName, setDisplayName] = useState('');
+  const [passcode, setPasscode] = useState('');
   const [isReady, setIsReady] = useState(false);
+  const [waitingRoom, setWaitingRoom] = useState<WaitingRoomPosition | null>(null);
+  const [showViewerChart, setShowViewerChart] = useState(false);
+  const [connectionAttempt, setConnectionAttempt] = useState(0);
+  const latestTokenRef = useRef<JoinData | null>(null); // Most recent token, refresh retries stop once it expires
+  const reconnectAttemptsRef = useRef(0);
+  const isJoiningRef = useRef(false); // Prevents concurrent joins (SSE admission + poll)
+  const joinLivestreamRef = useRef<() => void>(() => {});
+  const isWaiting = waitingRoom !== null;
 
   // Join the livestream when component mounts
   useEffect(() => {
@@ -43,46 +81,184 @@ export const LivestreamRoom: React.FC<LivestreamRoomProps> = ({
     }
   }, [isReady, displayName]);
 
+  // Refresh the access token before it expires, so the session never runs on an expired token
+  // The connected room keeps its session - a reconnect fetches its own token (handleDisconnected)
+  useEffect(() => {
+    if (!joinData) {
+      return;
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout>;
+    latestTokenRef.current = joinData;
+
+    const scheduleRefresh = (expiresAt: string) => {
+      const delay = new Date(expiresAt).getTime() - Date.now() - TOKEN_REFRESH_MARGIN_MS;
+      timeoutId = setTimeout(refreshToken, Math.max(delay, 0));
+    };
+
+    const refreshToken = async () => {
+      const expiresAt = latestTokenRef.current?.expiresAt ?? joinData.expiresAt;
+      try {
+        const response = await apiService.refreshToken(livestream.id);
+
+        if (response.success) {
+          latestTokenRef.current = response.data;
+          scheduleRefresh(response.data.expiresAt);
+        }
+      } catch (err) {
+        console.error('Failed to refresh access token:', err);
+        if (Date.now() + TOKEN_REFRESH_RETRY_MS < new Date(expiresAt).getTime()) {
+          timeoutId = setTimeout(refreshToken, TOKEN_REFRESH_RETRY_MS);
+        }
+      }
+    };
+
+    scheduleRefresh(joinData.expiresAt);
+
+    return () => clearTimeout(timeoutId);
+  }, [joinData, livestream.id]);
+
+  // Keep a stable reference for the waiting room handlers below
+  useEffect(() => {
+    joinLivestreamRef.current = joinLivestream;
+  });
+
+  // Fetch the user's own position (updates only carry counts) and join once admitted
+  // Also admits users into slots freed by expired admissions
+  const checkWaitingRoomStatus = useCallback(async () => {
+    try {
+      const response = await apiService.getWaitingRoomStatus(livestream.id);
+
+      if (response.success) {
+        if (response.data.admitted) {
+          joinLivestreamRef.current();
+        } else if (response.data.position !== null) {
+          setWaitingRoom({
+            position: response.data.position,
+            queueLength: response.data.queueLength,
+          });
+        }
+      }
+    } catch (err) {
+      console.error('Failed to fetch waiting room status:', err);
+    }
+  }, [livestream.id]);
+
+  // While waiting for a slot, follow queue updates over SSE
+  useSSE({
+    livestreamId: livestream.id,
+    enabled: isWaiting,
+    onWaitingRoomUpdate: () => {
+      checkWaitingRoomStatus();
+    },
+  });
+
+  // Fallback poll in case an SSE update is missed
+  useEffect(() => {
+    if (!isWaiting) {
+      return;
+    }
+
+    const intervalId = setInterval(checkWaitingRoomStatus, WAITING_ROOM_POLL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isWaiting, checkWaitingRoomStatus]);
+
   /**
    * Join the livestream via API
    */
   const joinLivestream = async () => {
+    if (isJoiningRef.current) {
+      return;
+    }
+
     try {
+      isJoiningRef.current = true;
       setIsJoining(true);
       setError(null);
 
       const response = await apiService.joinLivestream(livestream.id, {
-        userId,
         displayName: displayName || 'Anonymous',
         role: ParticipantRole.VIEWER,
+        passcode: passcode || undefined,
       });
 
       if (response.success) {
+        // Livestream is full - wait in the queue until admitted
+        if ('queued' in response.data) {
+          setWaitingRoom({
+            position: response.data.position,
+            queueLength: response.data.queueLength,
+          });
+          return;
+        }
+
+        setWaitingRoom(null);
         setJoinData({
           token: response.data.token,
           url: response.data.url,
+          expiresAt: response.data.expiresAt,
         });
       }
     } catch (err) {
       console.error('Failed to join livestream:', err);
+      setWaitingRoom(null);
       setError(err instanceof Error ? err.message : 'Failed to join livestream');
     } finally {
+      isJoiningRef.current = false;
       setIsJoining(false);
     }
   };
 
+  /**
+   * Leave the waiting room without joining
+   */
+  const handleLeaveWaitingRoom = async () => {
+    await apiService.leaveWaitingRoom(livestream.id);
+    onLeave();
+  };
+
   /**
    * Leave the livestream
    */
   const handleLeave = async () => {
     try {
-      await apiService.leaveLivestream(livestream.id, userId);
+      await apiService.leaveLivestream(livestream.id);
     } catch (err) {
       console.error('Failed to leave livestream:', err);
     }
     onLeave();
   };
 
+  /**
+   * Reconnect when the connection is lost, leave otherwise
+   * The session ends (LEFT) once LiveKit gives up on the participant - its token can then
+   * no longer be refreshed and the user rejoins through the API instead
+   */
+  const handleDisconnected = async (reason?: DisconnectReason) => {
+    if (
+      (reason !== undefined && FINAL_DISCONNECT_REASONS.has(reason)) ||
+      reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS
+    ) {
+      handleLeave();
+      return;
+    }
+
+    reconnectAttemptsRef.current += 1;
+
+    try {
+      const response = await apiService.refreshToken(livestream.id);
+
+      if (response.success) {
+        setJoinData(response.data);
+        setConnectionAttempt(attempt => attempt + 1); // Remounts LiveKitRoom with the new token
+      }
+    } catch (err) {
+      console.warn('Session is no longer active, rejoining:', err);
+      joinLivestream();
+    }
+  };
+
   /**
    * Handle display name submission
    */
@@ -125,6 +301,25 @@ export const LivestreamRoom: React.FC<LivestreamRoomProps> = ({
               />
             </div>
 
+            {livestream.visibility === 'PRIVATE' && livestream.hasPasscode && (
+              <div className="mb-4">
+                <label
+                  htmlFor="passcode"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Passcode
+                </label>
+                <input
+                  id="passcode"
+                  type="password"
+                  value={passcode}
+                  onChange={(e) => setPasscode(e.target.value)}
+                  placeholder="Not needed if you were invited"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+            )}
+
             <div className="flex gap-3">
               <button
                 type="submit"
@@ -147,6 +342,34 @@ export const LivestreamRoom: React.FC<LivestreamRoomProps> = ({
     );
   }
 
+  // Show waiting room while the livestream is full
+  if (waitingRoom && !error) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+            Livestream is Full
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-2">
+            You're in the waiting room for {livestream.title}.
+          </p>
+          <p className="text-gray-900 dark:text-white font-medium mb-6">
+            Position {waitingRoom.position} of {waitingRoom.queueLength}
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            You'll join automatically when a spot opens up.
+          </p>
+          <button
+            onClick={handleLeaveWaitingRoom}
+            className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white font-medium py-2 px-4 rounded-md transition-colors"
+          >
+            Leave Queue
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Show loading state
   if (isJoining || !joinData) {
     return (
@@ -190,28 +413,63 @@ export const LivestreamRoom: React.FC<LivestreamRoomProps> = ({
             <p className="text-sm text-gray-300">Description: {livestream.description}</p>
             <p className="text-sm text-gray-300">Participant name: {displayName}</p>
           </div>
-          <div>
+          <div className="flex gap-2">
             <button
               onClick={handleLeave}
               className="bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
             >
               Leave
             </button>
+            <button
+              onClick={() => setShowViewerChart((show) => !show)}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-md transition-colors"
+            >
+              {showViewerChart ? 'Hide viewers' : 'Viewers'}
+            </button>
           </div>
+          {showViewerChart && (
+            <div className="mt-3 w-80 bg-gray-900/90 rounded-lg p-3">
+              <ViewerCountChart
+                livestreamId={livestream.id}
+                isLive={livestream.status === LivestreamStatus.LIVE}
+              />
+            </div>
+          )}
         </div>
       </div>
 
       {/* LiveKit Room */}
       <LiveKitRoom
+        key={connectionAttempt}
         video={false}
         audio={false}
         token={joinData.token}
         serverUrl={joinData.url}
         connect={true}
-        onDisconnected={handleLeave}
+        onConnected={() => {
+          reconnectAttemptsRef.current = 0;
+        }}
+        onDisconnected={handleDisconnected}
         className="h-full"
       >
       </LiveKitRoom>
+
+      {/* Reactions and polls */}
+      <div className="absolute bottom-4 left-4 z-20">
+        <LiveInteractions
+          livestreamId={livestream.id}
+          isCreator={livestream.createdBy === currentUserId}
+        />
+      </div>
+
+      {/* Live chat */}
+      <div className="absolute top-0 right-0 bottom-0 w-80 z-20">
+        <ChatPanel
+          livestreamId={livestream.id}
+          currentUserId={currentUserId}
+          canModerate={livestream.createdBy === currentUserId}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,96 @@
+/**
+ * ViewerCountChart Component
+ * Line chart of the viewer count history of a livestream (SVG, no chart library)
+ */
+
+import { useEffect, useState } from 'react';
+import type { ViewerCountSeries } from '../../types/api.types';
+import { apiService } from '../../services/api.service';
+
+interface ViewerCountChartProps {
+  livestreamId: string;
+  isLive: boolean; // Refresh periodically while LIVE
+}
+
+// Matches the default server sampling interval
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 4;
+
+/**
+ * ViewerCountChart component
+ * Plots the average viewer count per bucket, with the highest max as the scale
+ */
+export const ViewerCountChart: React.FC<ViewerCountChartProps> = ({ livestreamId, isLive }) => {
+  const [series, setSeries] = useState<ViewerCountSeries | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSeries = async () => {
+      try {
+        const response = await apiService.getViewerCountSeries(livestreamId);
+        if (response.success) {
+          setSeries(response.data);
+          setError(null);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load viewer history');
+      }
+    };
+
+    loadSeries();
+
+    if (!isLive) {
+      return;
+    }
+
+    const intervalId = setInterval(loadSeries, REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [livestreamId, isLive]);
+
+  if (error) {
+    return <p className="text-xs text-red-400">{error}</p>;
+  }
+
+  if (!series || series.points.length === 0) {
+    return <p className="text-xs text-gray-400">No viewer history yet</p>;
+  }
+
+  const from = new Date(series.from).getTime();
+  const span = new Date(series.to).getTime() - from || 1;
+  const maxViewers = Math.max(1, ...series.points.map((point) => point.max));
+
+  const toX = (timestamp: string) =>
+    PADDING + ((new Date(timestamp).getTime() - from) / span) * (WIDTH - 2 * PADDING);
+  const toY = (viewers: number) =>
+    HEIGHT - PADDING - (viewers / maxViewers) * (HEIGHT - 2 * PADDING);
+
+  const line = series.points
+    .map((point) => `${toX(point.timestamp).toFixed(1)},${toY(point.average).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>Viewers</span>
+        <span>Peak {maxViewers}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto bg-gray-800 rounded-md"
+        role="img"
+        aria-label="Viewer count history"
+      >
+        <polyline points={line} fill="none" stroke="#3b82f6" strokeWidth="2" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{new Date(series.from).toLocaleTimeString()}</span>
+        <span>{new Date(series.to).toLocaleTimeString()}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ViewerCountChart;
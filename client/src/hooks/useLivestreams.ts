@@ -6,12 +6,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { apiService } from '../services/api.service';
 import type { Livestream } from '../types/api.types';
-import type { LivestreamStatus } from '../types/api.types';
+import type { LivestreamStatus, LivestreamVisibility } from '../types/api.types';
 
 interface UseLivestreamsOptions {
   initialLimit?: number;
   pollInterval?: number; // Polling interval in milliseconds (default: 30000 = 30 seconds)
   statusFilter?: LivestreamStatus;
+  currentUserId?: string; // Required to list the user's own UNLISTED/PRIVATE livestreams
 }
 
 interface UseLivestreamsReturn {
@@ -21,9 +22,11 @@ interface UseLivestreamsReturn {
   error: string | null;
   hasMore: boolean;
   statusFilter: LivestreamStatus | undefined;
+  visibilityFilter: LivestreamVisibility | undefined;
   loadMore: () => Promise<void>;
   refresh: () => Promise<void>;
   setStatusFilter: (status: LivestreamStatus | undefined) => void;
+  setVisibilityFilter: (visibility: LivestreamVisibility | undefined) => void;
 }
 
 const DEFAULT_LIMIT = 12; // Number of items per page
@@ -37,6 +40,7 @@ export const useLivestreams = (options: UseLivestreamsOptions = {}): UseLivestre
     initialLimit = DEFAULT_LIMIT,
     pollInterval = DEFAULT_POLL_INTERVAL,
     statusFilter: initialStatusFilter,
+    currentUserId,
   } = options;
 
   const [livestreams, setLivestreams] = useState<Livestream[]>([]);
@@ -45,6 +49,7 @@ export const useLivestreams = (options: UseLivestreamsOptions = {}): UseLivestre
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const [statusFilter, setStatusFilter] = useState<LivestreamStatus | undefined>(initialStatusFilter);
+  const [visibilityFilter, setVisibilityFilter] = useState<LivestreamVisibility | undefined>(undefined);
 
   const offsetRef = useRef(0);
   const limitRef = useRef(initialLimit);
@@ -64,8 +69,13 @@ export const useLivestreams = (options: UseLivestreamsOptions = {}): UseLivestre
         }
         setError(null);
 
+        // Unlisted/private livestreams are only listed for their creator
+        const isOwnListing = visibilityFilter !== undefined && visibilityFilter !== 'PUBLIC';
+
         const response = await apiService.getLivestreams({
           status: statusFilter,
+          visibility: visibilityFilter,
+          createdBy: isOwnListing ? currentUserId : undefined,
           limit: limitRef.current,
           offset,
         });
@@ -92,7 +102,7 @@ export const useLivestreams = (options: UseLivestreamsOptions = {}): UseLivestre
         }
       }
     },
-    [statusFilter]
+    [statusFilter, visibilityFilter, currentUserId]
   );
 
   /**
@@ -152,7 +162,7 @@ export const useLivestreams = (options: UseLivestreamsOptions = {}): UseLivestre
     offsetRef.current = 0;
     setHasMore(true);
     fetchLivestreams(0, false);
-  }, [statusFilter, fetchLivestreams]);
+  }, [statusFilter, visibilityFilter, fetchLivestreams]);
 
   /**
    * Cleanup on unmount
@@ -175,9 +185,11 @@ export const useLivestreams = (options: UseLivestreamsOptions = {}): UseLivestre
     error,
     hasMore,
     statusFilter,
+    visibilityFilter,
     loadMore,
     refresh,
     setStatusFilter,
+    setVisibilityFilter,
   };
 };
 
@@ -4,13 +4,26 @@
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { StreamState, StateEventType } from '../types/api.types';
+import type {
+  ChatMessage,
+  ChatMessageDeletedEvent,
+  Poll,
+  ReactionBurst,
+  StreamState,
+  StateEventType,
+  WaitingRoomUpdate,
+} from '../types/api.types';
 
 interface UseSSEOptions {
   livestreamId: string;
   enabled?: boolean; // Allow disabling the connection
   onStateUpdate?: (state: StreamState) => void;
   onEvent?: (type: StateEventType, state: StreamState) => void;
+  onWaitingRoomUpdate?: (update: WaitingRoomUpdate) => void;
+  onChatMessage?: (message: ChatMessage) => void;
+  onChatMessageDeleted?: (deleted: ChatMessageDeletedEvent) => void;
+  onReactionBurst?: (burst: ReactionBurst) => void;
+  onPollUpdate?: (poll: Poll) => void;
   onError?: (error: Event) => void;
 }
 
@@ -25,7 +38,18 @@ interface UseSSEReturn {
  * Custom hook to subscribe to SSE events for a livestream
  */
 export const useSSE = (options: UseSSEOptions): UseSSEReturn => {
-  const { livestreamId, enabled = true, onStateUpdate, onEvent, onError } = options;
+  const {
+    livestreamId,
+    enabled = true,
+    onStateUpdate,
+    onEvent,
+    onWaitingRoomUpdate,
+    onChatMessage,
+    onChatMessageDeleted,
+    onReactionBurst,
+    onPollUpdate,
+    onError,
+  } = options;
 
   const [state, setState] = useState<StreamState | null>(null);
   const [isConnected, setIsConnected] = useState(false);
@@ -38,14 +62,33 @@ export const useSSE = (options: UseSSEOptions): UseSSEReturn => {
   // Use refs for callbacks to prevent reconnections when they change
   const onStateUpdateRef = useRef(onStateUpdate);
   const onEventRef = useRef(onEvent);
+  const onWaitingRoomUpdateRef = useRef(onWaitingRoomUpdate);
+  const onChatMessageRef = useRef(onChatMessage);
+  const onChatMessageDeletedRef = useRef(onChatMessageDeleted);
+  const onReactionBurstRef = useRef(onReactionBurst);
+  const onPollUpdateRef = useRef(onPollUpdate);
   const onErrorRef = useRef(onError);
 
   // Keep refs up to date
   useEffect(() => {
     onStateUpdateRef.current = onStateUpdate;
     onEventRef.current = onEvent;
+    onWaitingRoomUpdateRef.current = onWaitingRoomUpdate;
+    onChatMessageRef.current = onChatMessage;
+    onChatMessageDeletedRef.current = onChatMessageDeleted;
+    onReactionBurstRef.current = onReactionBurst;
+    onPollUpdateRef.current = onPollUpdate;
     onErrorRef.current = onError;
-  }, [onStateUpdate, onEvent, onError]);
+  }, [
+    onStateUpdate,
+    onEvent,
+    onWaitingRoomUpdate,
+    onChatMessage,
+    onChatMessageDeleted,
+    onReactionBurst,
+    onPollUpdate,
+    onError,
+  ]);
 
   /**
    * Create and manage SSE connection
@@ -105,6 +148,68 @@ export const useSSE = (options: UseSSEOptions): UseSSEReturn => {
         }
       });
 
+      // Handle destination_update event (simulcast destination status changed)
+      eventSource.addEventListener('destination_update', (e: MessageEvent) => {
+        try {
+          const streamState: StreamState = JSON.parse(e.data);
+          setState(streamState);
+          onStateUpdateRef.current?.(streamState);
+          onEventRef.current?.('destination_update', streamState);
+        } catch (err) {
+          console.error('Failed to parse destination_update event:', err);
+        }
+      });
+
+      // Handle waiting_room_update event (queue positions and admitted users of a full stream)
+      eventSource.addEventListener('waiting_room_update', (e: MessageEvent) => {
+        try {
+          const update: WaitingRoomUpdate = JSON.parse(e.data);
+          onWaitingRoomUpdateRef.current?.(update);
+        } catch (err) {
+          console.error('Failed to parse waiting_room_update event:', err);
+        }
+      });
+
+      // Handle chat_message event (new chat message)
+      eventSource.addEventListener('chat_message', (e: MessageEvent) => {
+        try {
+          const message: ChatMessage = JSON.parse(e.data);
+          onChatMessageRef.current?.(message);
+        } catch (err) {
+          console.error('Failed to parse chat_message event:', err);
+        }
+      });
+
+      // Handle chat_message_deleted event (message removed by the host or a moderator)
+      eventSource.addEventListener('chat_message_deleted', (e: MessageEvent) => {
+        try {
+          const deleted: ChatMessageDeletedEvent = JSON.parse(e.data);
+          onChatMessageDeletedRef.current?.(deleted);
+        } catch (err) {
+          console.error('Failed to parse chat_message_deleted event:', err);
+        }
+      });
+
+      // Handle reaction_burst event (reactions aggregated per second)
+      eventSource.addEventListener('reaction_burst', (e: MessageEvent) => {
+        try {
+          const burst: ReactionBurst = JSON.parse(e.data);
+          onReactionBurstRef.current?.(burst);
+        } catch (err) {
+          console.error('Failed to parse reaction_burst event:', err);
+        }
+      });
+
+      // Handle poll_update event (poll created, results changed or poll closed)
+      eventSource.addEventListener('poll_update', (e: MessageEvent) => {
+        try {
+          const poll: Poll = JSON.parse(e.data);
+          onPollUpdateRef.current?.(poll);
+        } catch (err) {
+          console.error('Failed to parse poll_update event:', err);
+        }
+      });
+
       // Handle room_ended event
       eventSource.addEventListener('room_ended', (e: MessageEvent) => {
         try {
@@ -6,6 +6,7 @@
 import axios, { AxiosError } from 'axios';
 import type { AxiosInstance } from 'axios';
 import type {
+  ChatMessage,
   Livestream,
   ApiResponse,
   GetLivestreamsParams,
@@ -13,9 +14,13 @@ import type {
   StreamState,
   JoinLivestreamRequest,
   JoinLivestreamResponse,
-  LeaveLivestreamRequest,
+  RefreshTokenResponse,
+  WaitingRoomResponse,
+  WaitingRoomStatus,
   CreateLivestreamRequest,
   Participant,
+  Poll,
+  ViewerCountSeries,
 } from '../types/api.types';
 
 /**
@@ -29,6 +34,52 @@ const apiClient: AxiosInstance = axios.create({
   timeout: 10000, // 10 seconds
 });
 
+const AUTH_TOKEN_STORAGE_KEY = 'favorited_auth_token';
+
+/**
+ * Get the stored JWT issued by the identity provider (if signed in)
+ */
+export const getAuthToken = (): string | null => localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+
+/**
+ * Store (or clear) the JWT used to authenticate API requests
+ */
+export const setAuthToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+  }
+};
+
+/**
+ * Get the authenticated user ID (`sub` claim) from the stored token
+ * The server verifies the signature - this is only used for UI decisions
+ */
+export const getAuthenticatedUserId = (): string | null => {
+  const token = getAuthToken();
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Attach the bearer token to every request
+ */
+apiClient.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
 /**
  * Error handler for API requests
  */
@@ -69,13 +120,24 @@ export const apiService = {
   },
 
   /**
-   * Delete a livestream
+   * End a running livestream (only the authenticated creator may end)
+   * The livestream stays visible with status ENDED
    */
-  async deleteLivestream(livestreamId: string, requestingUserId: string): Promise<void> {
+  async endLivestream(livestreamId: string): Promise<void> {
     try {
-      await apiClient.delete(`/livestreams/${livestreamId}`, {
-        data: { requestingUserId },
-      });
+      await apiClient.post(`/livestreams/${livestreamId}/end`);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Delete a livestream (only the authenticated creator may delete)
+   * Deleted livestreams no longer appear in listings
+   */
+  async deleteLivestream(livestreamId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/livestreams/${livestreamId}`);
     } catch (error) {
       return handleApiError(error);
     }
@@ -89,6 +151,8 @@ export const apiService = {
       const response = await apiClient.get<ApiResponse<Livestream[]>>('/livestreams', {
         params: {
           status: params?.status,
+          createdBy: params?.createdBy,
+          visibility: params?.visibility,
           limit: params?.limit,
           offset: params?.offset,
         },
@@ -143,13 +207,14 @@ export const apiService = {
 
   /**
    * Join a livestream
+   * Returns a waiting room position instead of a token if the livestream is full
    */
   async joinLivestream(
     livestreamId: string,
     request: JoinLivestreamRequest
-  ): Promise<ApiResponse<JoinLivestreamResponse>> {
+  ): Promise<ApiResponse<JoinLivestreamResponse | WaitingRoomResponse>> {
     try {
-      const response = await apiClient.post<ApiResponse<JoinLivestreamResponse>>(
+      const response = await apiClient.post<ApiResponse<JoinLivestreamResponse | WaitingRoomResponse>>(
         `/livestreams/${livestreamId}/join`,
         request
       );
@@ -164,13 +229,205 @@ export const apiService = {
     }
   },
 
+  /**
+   * Get a new access token for the current participant session (before the old one expires)
+   */
+  async refreshToken(livestreamId: string): Promise<ApiResponse<RefreshTokenResponse>> {
+    try {
+      const response = await apiClient.post<ApiResponse<RefreshTokenResponse>>(
+        `/livestreams/${livestreamId}/token/refresh`
+      );
+
+      if (!response.data.success) {
+        throw new Error('Failed to refresh token');
+      }
+
+      return response.data;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Get the current user's waiting room status for a full livestream
+   */
+  async getWaitingRoomStatus(livestreamId: string): Promise<ApiResponse<WaitingRoomStatus>> {
+    try {
+      const response = await apiClient.get<ApiResponse<WaitingRoomStatus>>(
+        `/livestreams/${livestreamId}/queue`
+      );
+
+      if (!response.data.success) {
+        throw new Error('Failed to fetch waiting room status');
+      }
+
+      return response.data;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Leave the waiting room of a full livestream
+   */
+  async leaveWaitingRoom(livestreamId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/livestreams/${livestreamId}/queue`);
+    } catch (error) {
+      // Don't throw on leave errors - just log them
+      console.error('Failed to leave waiting room:', error);
+    }
+  },
+
+  /**
+   * Get a page of chat history (oldest first)
+   * Pass the returned nextCursor as `before` to load older messages
+   */
+  async getChatHistory(
+    livestreamId: string,
+    before?: string
+  ): Promise<{ data: ChatMessage[]; nextCursor: string | null }> {
+    try {
+      const response = await apiClient.get<ApiResponse<ChatMessage[]>>(
+        `/livestreams/${livestreamId}/chat`,
+        { params: { before } }
+      );
+
+      if (!response.data.success) {
+        throw new Error('Failed to fetch chat history');
+      }
+
+      return {
+        data: response.data.data,
+        nextCursor: response.data.nextCursor ?? null,
+      };
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Send a chat message (must have joined the livestream)
+   */
+  async sendChatMessage(livestreamId: string, content: string): Promise<ChatMessage> {
+    try {
+      const response = await apiClient.post<ApiResponse<ChatMessage>>(
+        `/livestreams/${livestreamId}/chat`,
+        { content }
+      );
+
+      if (!response.data.success) {
+        throw new Error('Failed to send chat message');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Delete a chat message (creator or moderator)
+   */
+  async deleteChatMessage(livestreamId: string, messageId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/livestreams/${livestreamId}/chat/${messageId}`);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Get the viewer count history of a livestream (downsampled for charts)
+   */
+  async getViewerCountSeries(
+    livestreamId: string,
+    points?: number
+  ): Promise<ApiResponse<ViewerCountSeries>> {
+    try {
+      const response = await apiClient.get<ApiResponse<ViewerCountSeries>>(
+        `/livestreams/${livestreamId}/viewer-series`,
+        { params: { points } }
+      );
+      return response.data;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Send an emoji reaction (must have joined the livestream)
+   */
+  async sendReaction(livestreamId: string, emoji: string): Promise<void> {
+    try {
+      await apiClient.post(`/livestreams/${livestreamId}/reactions`, { emoji });
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * List polls with results (newest first)
+   */
+  async getPolls(livestreamId: string): Promise<ApiResponse<Poll[]>> {
+    try {
+      const response = await apiClient.get<ApiResponse<Poll[]>>(
+        `/livestreams/${livestreamId}/polls`
+      );
+      return response.data;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Create a poll (creator only)
+   */
+  async createPoll(livestreamId: string, question: string, options: string[]): Promise<Poll> {
+    try {
+      const response = await apiClient.post<ApiResponse<Poll>>(
+        `/livestreams/${livestreamId}/polls`,
+        { question, options }
+      );
+
+      if (!response.data.success) {
+        throw new Error('Failed to create poll');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Vote in a poll (voting again changes the vote)
+   */
+  async votePoll(livestreamId: string, pollId: string, optionIndex: number): Promise<void> {
+    try {
+      await apiClient.post(`/livestreams/${livestreamId}/polls/${pollId}/votes`, { optionIndex });
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  /**
+   * Close a poll (creator only)
+   */
+  async closePoll(livestreamId: string, pollId: string): Promise<void> {
+    try {
+      await apiClient.post(`/livestreams/${livestreamId}/polls/${pollId}/close`);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
   /**
    * Leave a livestream
    */
-  async leaveLivestream(livestreamId: string, userId: string): Promise<void> {
+  async leaveLivestream(livestreamId: string): Promise<void> {
     try {
-      const request: LeaveLivestreamRequest = { userId };
-      await apiClient.post(`/livestreams/${livestreamId}/leave`, request);
+      await apiClient.post(`/livestreams/${livestreamId}/leave`);
     } catch (error) {
       // Don't throw on leave errors - just log them
       console.error('Failed to leave livestream:', error);
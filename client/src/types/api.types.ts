@@ -13,8 +13,18 @@ export const LivestreamStatus = {
 
 export type LivestreamStatus = (typeof LivestreamStatus)[keyof typeof LivestreamStatus];
 
+export const LivestreamVisibility = {
+  PUBLIC: 'PUBLIC',
+  UNLISTED: 'UNLISTED',
+  PRIVATE: 'PRIVATE',
+} as const;
+
+export type LivestreamVisibility = (typeof LivestreamVisibility)[keyof typeof LivestreamVisibility];
+
 export const ParticipantRole = {
   HOST: 'HOST',
+  CO_HOST: 'CO_HOST',
+  MODERATOR: 'MODERATOR',
   VIEWER: 'VIEWER',
 } as const;
 
@@ -34,12 +44,15 @@ export interface Livestream {
   title: string;
   description: string | null;
   status: LivestreamStatus;
+  visibility: LivestreamVisibility;
+  hasPasscode: boolean;
   createdBy: string;
   maxParticipants: number;
   emptyTimeout: number;
   metadata: Record<string, unknown> | null;
   createdAt: string;
   updatedAt: string;
+  scheduledStartAt: string | null;
   startedAt: string | null;
   endedAt: string | null;
 }
@@ -64,6 +77,7 @@ export interface ApiSuccessResponse<T> {
   success: true;
   data: T;
   count?: number;
+  nextCursor?: string | null; // Cursor-paginated lists (chat history)
 }
 
 export interface ApiErrorResponse {
@@ -81,6 +95,14 @@ export interface HostInfo {
   displayName: string;
 }
 
+// Simulcast destination status in stream state
+export interface DestinationState {
+  id: string;
+  name: string;
+  status: 'IDLE' | 'STARTING' | 'ACTIVE' | 'STOPPING' | 'FAILED';
+  error: string | null;
+}
+
 export interface StreamState {
   streamId: string;
   status: 'LIVE' | 'ENDED';
@@ -90,9 +112,15 @@ export interface StreamState {
   totalViewers: number; // All-time total
   peakViewerCount: number; // Highest concurrent
   hostInfo: HostInfo;
+  destinations?: DestinationState[]; // Simulcast destinations (creator's restreams)
 }
 
-export type StateEventType = 'state' | 'room_started' | 'room_ended' | 'viewer_count_update';
+export type StateEventType =
+  | 'state'
+  | 'room_started'
+  | 'room_ended'
+  | 'viewer_count_update'
+  | 'destination_update';
 
 export interface StreamStateEvent {
   type: StateEventType;
@@ -100,37 +128,116 @@ export interface StreamStateEvent {
   timestamp?: string;
 }
 
+// waiting_room_update SSE event
+export interface WaitingRoomUpdate {
+  queueLength: number; // Users waiting
+  admittedCount: number; // Users with a reserved slot - fetch your own status to know if you are one
+}
+
+// Chat message (chat history and chat_message SSE event)
+export interface ChatMessage {
+  id: string;
+  livestreamId: string;
+  userId: string;
+  displayName: string;
+  role: ParticipantRole;
+  content: string;
+  createdAt: string;
+}
+
+// chat_message_deleted SSE event
+export interface ChatMessageDeletedEvent {
+  id: string;
+  livestreamId: string;
+  deletedBy: string;
+}
+
+// reaction_burst SSE event - reactions of the last second
+export interface ReactionBurst {
+  livestreamId: string;
+  counts: Record<string, number>; // Emoji -> count
+  total: number;
+}
+
+export type PollStatus = 'OPEN' | 'CLOSED';
+
+// Poll with results (poll list and poll_update SSE event)
+export interface Poll {
+  id: string;
+  livestreamId: string;
+  question: string;
+  options: Array<{ text: string; votes: number }>;
+  totalVotes: number;
+  status: PollStatus;
+  createdAt: string;
+  closedAt: string | null;
+  myVote?: number | null; // Only in the poll list (authenticated)
+}
+
+// Downsampled viewer count history (one point per time bucket with samples)
+export interface ViewerCountSeries {
+  livestreamId: string;
+  from: string;
+  to: string;
+  bucketSeconds: number;
+  points: Array<{ timestamp: string; average: number; max: number }>;
+}
+
 // Request types
+// Caller identity (creator / participant) comes from the auth token, not the body
 export interface CreateLivestreamRequest {
   roomName: string;
   title: string;
   description?: string;
-  createdBy: string;
   maxParticipants?: number;
   emptyTimeout?: number;
   metadata?: Record<string, unknown>;
+  scheduledStartAt?: string; // ISO 8601 - omit to go live immediately
+  visibility?: LivestreamVisibility; // Default: PUBLIC
+  passcode?: string; // PRIVATE only
+  allowedUserIds?: string[]; // PRIVATE only
 }
 
 export interface JoinLivestreamRequest {
-  userId: string;
   displayName: string;
   role: ParticipantRole;
+  inviteCode?: string;
+  passcode?: string; // PRIVATE livestreams only
   metadata?: Record<string, unknown>;
 }
 
 export interface JoinLivestreamResponse {
   token: string;
   url: string;
+  expiresAt: string; // Token expiration (ISO 8601)
   participant: Participant;
 }
 
-export interface LeaveLivestreamRequest {
-  userId: string;
+// Returned by join (HTTP 202) when the livestream is full
+export interface WaitingRoomResponse {
+  queued: true;
+  position: number; // 1-based
+  queueLength: number;
+}
+
+export interface WaitingRoomStatus {
+  position: number | null; // Null if not waiting (or already admitted)
+  queueLength: number;
+  admitted: boolean;
+  admissionExpiresAt: string | null;
+}
+
+export interface RefreshTokenResponse {
+  token: string;
+  url: string;
+  expiresAt: string;
 }
 
 // Query parameters
 export interface GetLivestreamsParams {
   status?: LivestreamStatus;
+  createdBy?: string;
+  visibility?: LivestreamVisibility; // UNLISTED/PRIVATE only list the caller's own livestreams
   limit?: number;
   offset?: number;
 }
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "livestreams" ADD COLUMN     "scheduledStartAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "livestreams_status_scheduledStartAt_idx" ON "livestreams"("status", "scheduledStartAt");
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "TransitionSource" AS ENUM ('API', 'SCHEDULER', 'WEBHOOK', 'RECONCILIATION');
+
+-- CreateTable
+CREATE TABLE "livestream_status_transitions" (
+    "id" TEXT NOT NULL,
+    "livestreamId" TEXT NOT NULL,
+    "fromStatus" "LivestreamStatus",
+    "toStatus" "LivestreamStatus" NOT NULL,
+    "source" "TransitionSource" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "livestream_status_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "livestream_status_transitions_livestreamId_createdAt_idx" ON "livestream_status_transitions"("livestreamId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "livestream_status_transitions" ADD CONSTRAINT "livestream_status_transitions_livestreamId_fkey" FOREIGN KEY ("livestreamId") REFERENCES "livestreams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "livestreams" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "livestreams_deletedAt_createdAt_idx" ON "livestreams"("deletedAt", "createdAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "livestream_bans" (
+    "id" TEXT NOT NULL,
+    "livestreamId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bannedBy" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "livestream_bans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "livestream_bans_livestreamId_userId_key" ON "livestream_bans"("livestreamId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "livestream_bans" ADD CONSTRAINT "livestream_bans_livestreamId_fkey" FOREIGN KEY ("livestreamId") REFERENCES "livestreams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "ParticipantRole" ADD VALUE 'CO_HOST';
+ALTER TYPE "ParticipantRole" ADD VALUE 'MODERATOR';
+
+-- CreateTable
+CREATE TABLE "role_invites" (
+    "id" TEXT NOT NULL,
+    "livestreamId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "ParticipantRole" NOT NULL,
+    "invitedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "role_invites_livestreamId_userId_key" ON "role_invites"("livestreamId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "role_invites" ADD CONSTRAINT "role_invites_livestreamId_fkey" FOREIGN KEY ("livestreamId") REFERENCES "livestreams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
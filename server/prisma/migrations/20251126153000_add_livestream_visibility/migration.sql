@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "LivestreamVisibility" AS ENUM ('PUBLIC', 'UNLISTED', 'PRIVATE');
+
+-- AlterTable
+ALTER TABLE "livestreams" ADD COLUMN     "allowedUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "passcodeHash" TEXT,
+ADD COLUMN     "visibility" "LivestreamVisibility" NOT NULL DEFAULT 'PUBLIC';
+
+-- CreateIndex
+CREATE INDEX "livestreams_visibility_status_idx" ON "livestreams"("visibility", "status");
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "RecordingStatus" AS ENUM ('STARTING', 'ACTIVE', 'ENDING', 'COMPLETE', 'FAILED', 'ABORTED');
+
+-- CreateTable
+CREATE TABLE "recordings" (
+    "id" TEXT NOT NULL,
+    "livestreamId" TEXT NOT NULL,
+    "egressId" TEXT NOT NULL,
+    "status" "RecordingStatus" NOT NULL DEFAULT 'STARTING',
+    "startedBy" TEXT NOT NULL,
+    "filename" TEXT,
+    "location" TEXT,
+    "duration" INTEGER,
+    "size" BIGINT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "recordings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recordings_egressId_key" ON "recordings"("egressId");
+
+-- CreateIndex
+CREATE INDEX "recordings_livestreamId_createdAt_idx" ON "recordings"("livestreamId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "recordings" ADD CONSTRAINT "recordings_livestreamId_fkey" FOREIGN KEY ("livestreamId") REFERENCES "livestreams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
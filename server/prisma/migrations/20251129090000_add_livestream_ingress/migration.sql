@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "IngressType" AS ENUM ('RTMP', 'WHIP');
+
+-- AlterTable
+ALTER TABLE "livestreams" ADD COLUMN     "ingressId" TEXT,
+ADD COLUMN     "ingressType" "IngressType",
+ADD COLUMN     "ingressUrl" TEXT,
+ADD COLUMN     "ingressStreamKey" TEXT,
+ADD COLUMN     "ingressPublishing" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "livestreams_ingressId_key" ON "livestreams"("ingressId");
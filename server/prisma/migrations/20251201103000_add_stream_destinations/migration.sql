@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "StreamDestinationStatus" AS ENUM ('IDLE', 'STARTING', 'ACTIVE', 'STOPPING', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "stream_destinations" (
+    "id" TEXT NOT NULL,
+    "livestreamId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rtmpUrl" TEXT NOT NULL,
+    "streamKeyEncrypted" TEXT NOT NULL,
+    "status" "StreamDestinationStatus" NOT NULL DEFAULT 'IDLE',
+    "egressId" TEXT,
+    "error" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stream_destinations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stream_destinations_egressId_key" ON "stream_destinations"("egressId");
+
+-- CreateIndex
+CREATE INDEX "stream_destinations_livestreamId_idx" ON "stream_destinations"("livestreamId");
+
+-- AddForeignKey
+ALTER TABLE "stream_destinations" ADD CONSTRAINT "stream_destinations_livestreamId_fkey" FOREIGN KEY ("livestreamId") REFERENCES "livestreams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "livestream_stats" (
+    "livestreamId" TEXT NOT NULL,
+    "uniqueViewers" INTEGER NOT NULL,
+    "totalWatchTimeSeconds" INTEGER NOT NULL,
+    "averageWatchTimeSeconds" INTEGER NOT NULL,
+    "peakConcurrentViewers" INTEGER NOT NULL,
+    "timeToPeakSeconds" INTEGER,
+    "durationSeconds" INTEGER NOT NULL,
+    "retention" JSONB NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "livestream_stats_pkey" PRIMARY KEY ("livestreamId")
+);
+
+-- AddForeignKey
+ALTER TABLE "livestream_stats" ADD CONSTRAINT "livestream_stats_livestreamId_fkey" FOREIGN KEY ("livestreamId") REFERENCES "livestreams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "viewer_count_samples" (
+    "id" TEXT NOT NULL,
+    "livestreamId" TEXT NOT NULL,
+    "viewerCount" INTEGER NOT NULL,
+    "sampledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "viewer_count_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "viewer_count_samples_livestreamId_sampledAt_idx" ON "viewer_count_samples"("livestreamId", "sampledAt");
+
+-- AddForeignKey
+ALTER TABLE "viewer_count_samples" ADD CONSTRAINT "viewer_count_samples_livestreamId_fkey" FOREIGN KEY ("livestreamId") REFERENCES "livestreams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
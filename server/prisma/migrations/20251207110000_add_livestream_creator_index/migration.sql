@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "livestreams_createdBy_deletedAt_idx" ON "livestreams"("createdBy", "deletedAt");
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "WebhookEventStatus" AS ENUM ('PENDING', 'PROCESSING', 'DONE', 'FAILED');
+
+-- AlterTable
+-- Existing rows were recorded by the previous deduplication check and are treated as processed
+ALTER TABLE "webhook_events" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "leaseId" TEXT,
+ADD COLUMN     "status" "WebhookEventStatus" NOT NULL DEFAULT 'DONE',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "processedAt" DROP NOT NULL,
+ALTER COLUMN "processedAt" DROP DEFAULT;
+
+UPDATE "webhook_events" SET "createdAt" = "processedAt", "updatedAt" = "processedAt", "attempts" = 1;
+
+ALTER TABLE "webhook_events" ALTER COLUMN "status" SET DEFAULT 'PENDING',
+ALTER COLUMN "updatedAt" DROP DEFAULT;
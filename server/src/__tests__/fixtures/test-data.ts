@@ -17,14 +17,24 @@ export function createMockLivestream(overrides?: Partial<Livestream>): Livestrea
     title: 'Test Livestream',
     description: 'A test livestream',
     status: LivestreamStatus.LIVE,
+    visibility: 'PUBLIC',
+    passcodeHash: null,
+    allowedUserIds: [],
     createdBy: 'user-123',
     maxParticipants: 100,
     emptyTimeout: 600,
     metadata: null,
+    ingressId: null,
+    ingressType: null,
+    ingressUrl: null,
+    ingressStreamKey: null,
+    ingressPublishing: false,
     createdAt: now,
     updatedAt: now,
+    scheduledStartAt: null,
     startedAt: now,
     endedAt: null,
+    deletedAt: null,
     ...overrides,
   };
 }
@@ -5,11 +5,17 @@
  */
 
 import { mockDeep, mockReset, DeepMockProxy } from 'jest-mock-extended';
-import type { RoomServiceClient, AccessToken, WebhookReceiver } from 'livekit-server-sdk';
+import type { RoomServiceClient, EgressClient, IngressClient, AccessToken, WebhookReceiver } from 'livekit-server-sdk';
 
 // Mock RoomServiceClient
 export const mockRoomServiceClient = mockDeep<RoomServiceClient>();
 
+// Mock EgressClient (recordings)
+export const mockEgressClient = mockDeep<EgressClient>();
+
+// Mock IngressClient (RTMP/WHIP ingress)
+export const mockIngressClient = mockDeep<IngressClient>();
+
 // Mock AccessToken
 export class MockAccessToken {
   private grants: any = {};
@@ -57,11 +63,16 @@ export class MockWebhookReceiver {
 // Reset mocks before each test
 beforeEach(() => {
   mockReset(mockRoomServiceClient);
+  mockReset(mockEgressClient);
+  mockReset(mockIngressClient);
 });
 
 // Mock the livekit-server-sdk module
 jest.mock('livekit-server-sdk', () => ({
   RoomServiceClient: jest.fn(() => mockRoomServiceClient),
+  EgressClient: jest.fn(() => mockEgressClient),
+  IngressClient: jest.fn(() => mockIngressClient),
+  IngressInput: { RTMP_INPUT: 0, WHIP_INPUT: 1, URL_INPUT: 2 },
   AccessToken: MockAccessToken,
   WebhookReceiver: MockWebhookReceiver,
   RoomOptions: {},
@@ -69,3 +80,5 @@ jest.mock('livekit-server-sdk', () => ({
 }));
 
 export { mockRoomServiceClient as roomServiceClientMock };
+export { mockEgressClient as egressClientMock };
+export { mockIngressClient as ingressClientMock };
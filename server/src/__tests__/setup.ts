@@ -13,8 +13,14 @@ process.env.LIVEKIT_URL = 'wss://test.livekit.cloud';
 process.env.LIVEKIT_API_KEY = 'test-api-key';
 process.env.LIVEKIT_API_SECRET = 'test-api-secret';
 process.env.TOKEN_EXPIRATION_HOURS = '24';
+process.env.TOKEN_REFRESH_TTL_MINUTES = '15';
 process.env.WEBHOOK_QUEUE_CONCURRENCY = '10';
 process.env.RECONCILIATION_INTERVAL_MINUTES = '10';
+process.env.VIEWER_COUNT_SAMPLE_INTERVAL_SECONDS = '30';
+process.env.AUTH_JWT_SECRET = 'test-jwt-secret';
+process.env.AUTH_API_KEYS = 'test-service:test-api-key';
+process.env.INVITE_CODE_SECRET = 'test-invite-secret';
+process.env.STREAM_KEY_ENCRYPTION_KEY = 'test-stream-key-secret';
 
 // Suppress console output during tests (optional - comment out for debugging)
 // Uncomment the lines below to suppress console output
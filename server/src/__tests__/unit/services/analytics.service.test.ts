@@ -0,0 +1,143 @@
+/**
+ * Tests for Analytics Service
+ *
+ * Spies on the database service (no database access)
+ */
+
+import { jest } from '@jest/globals';
+import type { LivestreamStats } from '@prisma/client';
+import { createMockLivestream } from '../../fixtures/test-data.js';
+import { AuthorizationError, ValidationError } from '../../../utils/errors.js';
+
+const startedAt = new Date('2025-01-01T12:00:00Z');
+const at = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000);
+
+describe('Analytics Service', () => {
+  describe('getAnalytics', () => {
+    it('should only allow the creator to see analytics', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { analyticsService } = await import('../../../services/analytics.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+
+      await expect(
+        analyticsService.getAnalytics('test-livestream-id', 'user-456')
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should compute and persist the stats of an ended livestream from participant sessions', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { analyticsService } = await import('../../../services/analytics.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(
+        createMockLivestream({ status: 'ENDED', startedAt, endedAt: at(100) })
+      );
+      jest.spyOn(databaseService, 'getLivestreamStats').mockResolvedValue(null);
+      jest.spyOn(databaseService, 'listParticipantSessions').mockResolvedValue([
+        { userId: 'user-123', joinedAt: at(0), leftAt: at(100) }, // Creator - not a viewer
+        { userId: 'viewer-a', joinedAt: at(0), leftAt: at(50) },
+        { userId: 'viewer-b', joinedAt: at(20), leftAt: null }, // Still JOINED - counted until endedAt
+        { userId: 'viewer-a', joinedAt: at(60), leftAt: at(80) }, // Rejoined
+      ]);
+      const upsertStats = jest
+        .spyOn(databaseService, 'upsertLivestreamStats')
+        .mockImplementation(async data => data as LivestreamStats);
+
+      const analytics = await analyticsService.getAnalytics('test-livestream-id', 'user-123');
+
+      expect(upsertStats).toHaveBeenCalledTimes(1);
+      expect(analytics).toMatchObject({
+        final: true,
+        uniqueViewers: 2,
+        totalWatchTimeSeconds: 150,
+        averageWatchTimeSeconds: 75,
+        peakConcurrentViewers: 2,
+        timeToPeakSeconds: 20,
+        durationSeconds: 100,
+      });
+      expect(analytics.retention).toHaveLength(20);
+      expect(analytics.retention[0]).toEqual({ offsetSeconds: 3, viewers: 1, percent: 50 });
+      expect(analytics.retention[19]).toEqual({ offsetSeconds: 98, viewers: 1, percent: 50 });
+    });
+  });
+
+  describe('getAnalytics of a failed livestream', () => {
+    it('should compute the metrics of an ERROR livestream up to when it failed', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { analyticsService } = await import('../../../services/analytics.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(
+        createMockLivestream({ status: 'ERROR', startedAt, endedAt: null, updatedAt: at(90) })
+      );
+      jest
+        .spyOn(databaseService, 'listParticipantSessions')
+        .mockResolvedValue([{ userId: 'viewer-a', joinedAt: at(30), leftAt: null }]);
+
+      const analytics = await analyticsService.getAnalytics('test-livestream-id', 'user-123');
+
+      expect(analytics).toMatchObject({
+        final: false,
+        durationSeconds: 90,
+        totalWatchTimeSeconds: 60,
+      });
+    });
+  });
+
+  describe('getViewerCountSeries', () => {
+    it('should downsample samples to the average and max of each bucket', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { analyticsService } = await import('../../../services/analytics.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(
+        createMockLivestream({ status: 'ENDED', startedAt, endedAt: at(120) })
+      );
+      jest.spyOn(databaseService, 'listViewerCountSamples').mockResolvedValue([
+        { viewerCount: 4, sampledAt: at(0) },
+        { viewerCount: 7, sampledAt: at(30) },
+        { viewerCount: 10, sampledAt: at(90) }, // Nothing sampled in the second bucket
+        { viewerCount: 6, sampledAt: at(120) }, // Window end - belongs to the last bucket
+      ]);
+
+      const series = await analyticsService.getViewerCountSeries('test-livestream-id', undefined, {
+        points: 3,
+      });
+
+      expect(series.bucketSeconds).toBe(40);
+      expect(series.points).toEqual([
+        { timestamp: at(0), average: 5.5, max: 7 },
+        { timestamp: at(80), average: 8, max: 10 },
+      ]);
+    });
+
+    it('should reject a window that ends before it starts', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { analyticsService } = await import('../../../services/analytics.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+
+      await expect(
+        analyticsService.getViewerCountSeries('test-livestream-id', undefined, {
+          from: at(60),
+          to: at(0),
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse the series of a private livestream to users without access', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { analyticsService } = await import('../../../services/analytics.service.js');
+
+      jest
+        .spyOn(databaseService, 'getLivestreamById')
+        .mockResolvedValue(createMockLivestream({ visibility: 'PRIVATE' }));
+      jest.spyOn(databaseService, 'getRoleInvite').mockResolvedValue(null);
+      jest.spyOn(databaseService, 'listParticipants').mockResolvedValue([]);
+      const listSamples = jest.spyOn(databaseService, 'listViewerCountSamples');
+
+      await expect(
+        analyticsService.getViewerCountSeries('test-livestream-id', 'user-999', {})
+      ).rejects.toThrow(AuthorizationError);
+      expect(listSamples).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for Auth Service
+ *
+ * Uses the HS256 secret and API key configured in setup.ts
+ */
+
+import { SignJWT } from 'jose';
+import { AuthenticationError } from '../../../utils/errors.js';
+
+const secret = new TextEncoder().encode('test-jwt-secret');
+
+async function signToken(claims: Record<string, unknown>, expiresIn: string = '1h') {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(secret);
+}
+
+describe('Auth Service', () => {
+  describe('Bearer Tokens', () => {
+    it('should resolve the user from the sub claim', async () => {
+      const { authService } = await import('../../../services/auth.service.js');
+      const token = await signToken({ sub: 'user-123', name: 'Test User' });
+
+      const user = await authService.verifyBearerToken(token);
+
+      expect(user).toEqual({ id: 'user-123', displayName: 'Test User', method: 'jwt' });
+    });
+
+    it('should reject tokens signed with another key', async () => {
+      const { authService } = await import('../../../services/auth.service.js');
+      const token = await new SignJWT({ sub: 'user-123' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .sign(new TextEncoder().encode('wrong-secret'));
+
+      await expect(authService.verifyBearerToken(token)).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should reject expired tokens', async () => {
+      const { authService } = await import('../../../services/auth.service.js');
+      const token = await new SignJWT({ sub: 'user-123' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+        .sign(secret);
+
+      await expect(authService.verifyBearerToken(token)).rejects.toThrow('Token has expired');
+    });
+
+    it('should reject tokens without a subject', async () => {
+      const { authService } = await import('../../../services/auth.service.js');
+      const token = await signToken({ name: 'No Subject' });
+
+      await expect(authService.verifyBearerToken(token)).rejects.toThrow('sub');
+    });
+  });
+
+  describe('API Keys', () => {
+    it('should authenticate a configured service', async () => {
+      const { authService } = await import('../../../services/auth.service.js');
+
+      const user = authService.verifyApiKey('test-api-key');
+
+      expect(user).toEqual({
+        id: 'service:test-service',
+        method: 'api_key',
+        serviceName: 'test-service',
+      });
+    });
+
+    it('should act on behalf of a user when requested', async () => {
+      const { authService } = await import('../../../services/auth.service.js');
+
+      const user = authService.verifyApiKey('test-api-key', 'user-789');
+
+      expect(user.id).toBe('user-789');
+      expect(user.serviceName).toBe('test-service');
+    });
+
+    it('should reject unknown API keys', async () => {
+      const { authService } = await import('../../../services/auth.service.js');
+
+      expect(() => authService.verifyApiKey('not-a-key')).toThrow(AuthenticationError);
+    });
+  });
+});
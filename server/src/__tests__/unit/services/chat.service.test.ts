@@ -0,0 +1,127 @@
+/**
+ * Tests for Chat Service
+ *
+ * Spies on the database and state services (no database or Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import type { ChatMessage } from '@prisma/client';
+import { createMockLivestream, createMockParticipant } from '../../fixtures/test-data.js';
+import { AuthorizationError, ValidationError } from '../../../utils/errors.js';
+
+function createMockChatMessage(overrides?: Partial<ChatMessage>): ChatMessage {
+  return {
+    id: 'message-1',
+    livestreamId: 'test-livestream-id',
+    userId: 'user-456',
+    displayName: 'Test User',
+    role: 'VIEWER',
+    content: 'Hello!',
+    createdAt: new Date(),
+    deletedAt: null,
+    deletedBy: null,
+    ...overrides,
+  };
+}
+
+describe('Chat Service', () => {
+  afterAll(async () => {
+    // The state, waiting room and queue services connect to Redis on import - close the connections so Jest can exit
+    const { stateService } = await import('../../../services/state.service.js');
+    const { waitingRoomService } = await import('../../../services/waiting-room.service.js');
+    const { queueService } = await import('../../../services/queue.service.js');
+    await stateService.shutdown();
+    await waitingRoomService.shutdown();
+    await queueService.shutdown();
+  });
+
+  describe('sendMessage', () => {
+    it('should store and broadcast a message from a joined participant', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { stateService } = await import('../../../services/state.service.js');
+      const { chatService } = await import('../../../services/chat.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest
+        .spyOn(databaseService, 'getActiveParticipant')
+        .mockResolvedValue(createMockParticipant({ userId: 'user-456' }));
+      const createMessage = jest
+        .spyOn(databaseService, 'createChatMessage')
+        .mockResolvedValue(createMockChatMessage());
+      const broadcast = jest.spyOn(stateService, 'broadcastChatMessage').mockResolvedValue();
+
+      const message = await chatService.sendMessage('test-livestream-id', 'user-456', {
+        content: '  Hello!  ',
+      });
+
+      expect(createMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'Hello!', displayName: 'Test User', role: 'VIEWER' })
+      );
+      expect(broadcast).toHaveBeenCalledWith('test-livestream-id', message);
+      expect(message).not.toHaveProperty('deletedAt');
+    });
+
+    it('should reject users who have not joined the livestream', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { chatService } = await import('../../../services/chat.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest.spyOn(databaseService, 'getActiveParticipant').mockResolvedValue(null);
+
+      await expect(
+        chatService.sendMessage('test-livestream-id', 'user-789', { content: 'Hi' })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should reject messages over the length limit', async () => {
+      const { chatService } = await import('../../../services/chat.service.js');
+
+      await expect(
+        chatService.sendMessage('test-livestream-id', 'user-456', { content: 'a'.repeat(501) })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return a full page oldest first with a cursor to older messages', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { chatService } = await import('../../../services/chat.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest
+        .spyOn(databaseService, 'listChatMessages')
+        .mockResolvedValue([
+          createMockChatMessage({ id: 'message-3' }),
+          createMockChatMessage({ id: 'message-2' }),
+        ]);
+
+      const history = await chatService.getHistory('test-livestream-id', undefined, { limit: 2 });
+
+      expect(history.messages.map(message => message.id)).toEqual(['message-2', 'message-3']);
+      expect(history.nextCursor).toBe('message-2');
+    });
+
+    it('should page from the cursor position even when the cursor message was deleted', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { chatService } = await import('../../../services/chat.service.js');
+
+      const cursorCreatedAt = new Date('2025-12-01T18:00:00.000Z');
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest
+        .spyOn(databaseService, 'getChatMessageById')
+        .mockResolvedValue(
+          createMockChatMessage({ id: 'message-2', createdAt: cursorCreatedAt, deletedAt: new Date() })
+        );
+      const listMessages = jest
+        .spyOn(databaseService, 'listChatMessages')
+        .mockResolvedValue([createMockChatMessage({ id: 'message-1' })]);
+
+      await chatService.getHistory('test-livestream-id', undefined, { before: 'message-2', limit: 2 });
+
+      expect(listMessages).toHaveBeenCalledWith('test-livestream-id', {
+        before: { createdAt: cursorCreatedAt, id: 'message-2' },
+        limit: 2,
+      });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for Creator Service
+ *
+ * Spies on the database service (no database access)
+ */
+
+import { jest } from '@jest/globals';
+import { AuthorizationError, ValidationError } from '../../../utils/errors.js';
+
+describe('Creator Service', () => {
+  describe('getSummary', () => {
+    it('should only allow the creator to see their summary', async () => {
+      const { creatorService } = await import('../../../services/creator.service.js');
+
+      await expect(creatorService.getSummary('user-123', 'user-456')).rejects.toThrow(
+        AuthorizationError
+      );
+    });
+
+    it('should reject an invalid number of weeks', async () => {
+      const { creatorService } = await import('../../../services/creator.service.js');
+
+      await expect(
+        creatorService.getSummary('user-123', 'user-123', { weeks: 53 })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        creatorService.getSummary('user-123', 'user-123', { weeks: NaN })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should combine the SQL aggregations and convert seconds live to hours', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { creatorService } = await import('../../../services/creator.service.js');
+
+      jest.spyOn(databaseService, 'getCreatorTotals').mockResolvedValue({
+        totalStreams: 3,
+        liveStreams: 1,
+        secondsLive: 5000,
+        uniqueViewers: 42,
+      });
+      const listTopStreams = jest
+        .spyOn(databaseService, 'listCreatorTopStreams')
+        .mockResolvedValue([]);
+      const listWeeklyTrends = jest
+        .spyOn(databaseService, 'listCreatorWeeklyTrends')
+        .mockResolvedValue([]);
+
+      const summary = await creatorService.getSummary('user-123', 'user-123');
+
+      expect(listTopStreams).toHaveBeenCalledWith('user-123', 5);
+      expect(listWeeklyTrends).toHaveBeenCalledWith('user-123', 12);
+      expect(summary).toEqual({
+        userId: 'user-123',
+        totalStreams: 3,
+        liveStreams: 1,
+        totalHoursLive: 1.39,
+        totalUniqueViewers: 42,
+        topStreams: [],
+        weeklyTrends: [],
+      });
+    });
+  });
+});
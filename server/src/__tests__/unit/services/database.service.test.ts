@@ -8,6 +8,7 @@
  * 3. Use integration tests with a real database
  */
 
+import { jest } from '@jest/globals';
 import { DatabaseError, NotFoundError } from '../../../utils/errors.js';
 import { Prisma } from '@prisma/client';
 
@@ -40,6 +41,9 @@ describe('Database Service', () => {
       expect(typeof databaseService.getLivestreamByRoomName).toBe('function');
       expect(typeof databaseService.listLivestreams).toBe('function');
       expect(typeof databaseService.updateLivestream).toBe('function');
+      expect(typeof databaseService.transitionLivestreamStatus).toBe('function');
+      expect(typeof databaseService.listStatusTransitions).toBe('function');
+      expect(typeof databaseService.softDeleteLivestream).toBe('function');
       expect(typeof databaseService.deleteLivestream).toBe('function');
       expect(typeof databaseService.createParticipant).toBe('function');
       expect(typeof databaseService.getParticipantById).toBe('function');
@@ -48,8 +52,58 @@ describe('Database Service', () => {
       expect(typeof databaseService.updateParticipant).toBe('function');
       expect(typeof databaseService.updateParticipantWithLiveKitSids).toBe('function');
       expect(typeof databaseService.markParticipantAsLeftBySid).toBe('function');
-      expect(typeof databaseService.checkWebhookProcessed).toBe('function');
-      expect(typeof databaseService.recordWebhookProcessed).toBe('function');
+      expect(typeof databaseService.markAllParticipantsAsLeft).toBe('function');
+      expect(typeof databaseService.createInvite).toBe('function');
+      expect(typeof databaseService.getInviteById).toBe('function');
+      expect(typeof databaseService.listInvites).toBe('function');
+      expect(typeof databaseService.revokeInvite).toBe('function');
+      expect(typeof databaseService.countActiveParticipants).toBe('function');
+      expect(typeof databaseService.createParticipantWithinCapacity).toBe('function');
+      expect(typeof databaseService.createRoleInvite).toBe('function');
+      expect(typeof databaseService.getRoleInvite).toBe('function');
+      expect(typeof databaseService.listRoleInvites).toBe('function');
+      expect(typeof databaseService.deleteRoleInvite).toBe('function');
+      expect(typeof databaseService.createBan).toBe('function');
+      expect(typeof databaseService.getBan).toBe('function');
+      expect(typeof databaseService.listBans).toBe('function');
+      expect(typeof databaseService.deleteBan).toBe('function');
+      expect(typeof databaseService.setLivestreamIngress).toBe('function');
+      expect(typeof databaseService.clearLivestreamIngress).toBe('function');
+      expect(typeof databaseService.updateIngressPublishing).toBe('function');
+      expect(typeof databaseService.createStreamDestination).toBe('function');
+      expect(typeof databaseService.listStreamDestinations).toBe('function');
+      expect(typeof databaseService.updateStreamDestination).toBe('function');
+      expect(typeof databaseService.deleteStreamDestination).toBe('function');
+      expect(typeof databaseService.createChatMessage).toBe('function');
+      expect(typeof databaseService.getChatMessageById).toBe('function');
+      expect(typeof databaseService.listChatMessages).toBe('function');
+      expect(typeof databaseService.deleteChatMessage).toBe('function');
+      expect(typeof databaseService.listParticipantSessions).toBe('function');
+      expect(typeof databaseService.getLivestreamStats).toBe('function');
+      expect(typeof databaseService.upsertLivestreamStats).toBe('function');
+      expect(typeof databaseService.createViewerCountSamples).toBe('function');
+      expect(typeof databaseService.listViewerCountSamples).toBe('function');
+      expect(typeof databaseService.countLivestreamsByStatus).toBe('function');
+      expect(typeof databaseService.getCreatorTotals).toBe('function');
+      expect(typeof databaseService.listCreatorTopStreams).toBe('function');
+      expect(typeof databaseService.listCreatorWeeklyTrends).toBe('function');
+      expect(typeof databaseService.createPoll).toBe('function');
+      expect(typeof databaseService.getPollById).toBe('function');
+      expect(typeof databaseService.listPolls).toBe('function');
+      expect(typeof databaseService.closePoll).toBe('function');
+      expect(typeof databaseService.closeAllPolls).toBe('function');
+      expect(typeof databaseService.upsertPollVote).toBe('function');
+      expect(typeof databaseService.countPollVotes).toBe('function');
+      expect(typeof databaseService.listPollVotesByUser).toBe('function');
+      expect(typeof databaseService.createRecording).toBe('function');
+      expect(typeof databaseService.getRecordingById).toBe('function');
+      expect(typeof databaseService.getRecordingByEgressId).toBe('function');
+      expect(typeof databaseService.listRecordings).toBe('function');
+      expect(typeof databaseService.updateRecordingByEgressId).toBe('function');
+      expect(typeof databaseService.claimWebhookEvent).toBe('function');
+      expect(typeof databaseService.completeWebhookEvent).toBe('function');
+      expect(typeof databaseService.failWebhookEvent).toBe('function');
+      expect(typeof databaseService.resetWebhookEvent).toBe('function');
       expect(typeof databaseService.cleanupOldWebhooks).toBe('function');
       expect(typeof databaseService.connect).toBe('function');
       expect(typeof databaseService.disconnect).toBe('function');
@@ -120,6 +174,191 @@ describe('Database Service', () => {
     });
   });
 
+  describe('Webhook Claims', () => {
+    // Spies on the Prisma client (no database access)
+    const duplicateId = () =>
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      });
+
+    it('should claim a webhook on first delivery', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const webhookEvent = (databaseService as any).prisma.webhookEvent;
+
+      const create = jest.spyOn(webhookEvent, 'create').mockResolvedValue({} as never);
+
+      await expect(
+        databaseService.claimWebhookEvent('WH_1', 'participant_joined', 'lease-1', 60_000)
+      ).resolves.toEqual({ status: 'claimed' });
+      expect(create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          id: 'WH_1',
+          status: 'PROCESSING',
+          attempts: 1,
+          leaseId: 'lease-1',
+        }),
+      });
+    });
+
+    it('should take over a failed webhook or one whose lease expired', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const webhookEvent = (databaseService as any).prisma.webhookEvent;
+
+      jest.spyOn(webhookEvent, 'create').mockRejectedValue(duplicateId() as never);
+      const updateMany = jest
+        .spyOn(webhookEvent, 'updateMany')
+        .mockResolvedValue({ count: 1 } as never);
+
+      await expect(
+        databaseService.claimWebhookEvent('WH_1', 'participant_joined', 'lease-2', 60_000)
+      ).resolves.toEqual({ status: 'claimed' });
+
+      const { where, data } = updateMany.mock.calls[0]![0] as any;
+      expect(where.OR).toEqual([
+        { status: { in: ['PENDING', 'FAILED'] } },
+        { status: 'PROCESSING', leaseExpiresAt: { lt: expect.any(Date) } },
+      ]);
+      expect(data).toMatchObject({
+        status: 'PROCESSING',
+        attempts: { increment: 1 },
+        leaseId: 'lease-2',
+      });
+    });
+
+    it('should report a processed webhook as done', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const webhookEvent = (databaseService as any).prisma.webhookEvent;
+
+      jest.spyOn(webhookEvent, 'create').mockRejectedValue(duplicateId() as never);
+      jest.spyOn(webhookEvent, 'updateMany').mockResolvedValue({ count: 0 } as never);
+      jest
+        .spyOn(webhookEvent, 'findUnique')
+        .mockResolvedValue({ status: 'DONE', leaseExpiresAt: null } as never);
+
+      await expect(
+        databaseService.claimWebhookEvent('WH_1', 'participant_joined', 'lease-2', 60_000)
+      ).resolves.toEqual({ status: 'done' });
+    });
+
+    it('should report when the lease of another worker expires', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const webhookEvent = (databaseService as any).prisma.webhookEvent;
+      const leaseExpiresAt = new Date(Date.now() + 30_000);
+
+      jest.spyOn(webhookEvent, 'create').mockRejectedValue(duplicateId() as never);
+      jest.spyOn(webhookEvent, 'updateMany').mockResolvedValue({ count: 0 } as never);
+      jest
+        .spyOn(webhookEvent, 'findUnique')
+        .mockResolvedValue({ status: 'PROCESSING', leaseExpiresAt } as never);
+
+      await expect(
+        databaseService.claimWebhookEvent('WH_1', 'participant_joined', 'lease-2', 60_000)
+      ).resolves.toEqual({ status: 'in_progress', leaseExpiresAt });
+    });
+
+    it('should complete and fail a webhook only while holding its lease', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const webhookEvent = (databaseService as any).prisma.webhookEvent;
+
+      const updateMany = jest
+        .spyOn(webhookEvent, 'updateMany')
+        .mockResolvedValueOnce({ count: 1 } as never)
+        .mockResolvedValueOnce({ count: 0 } as never);
+
+      await expect(databaseService.completeWebhookEvent('WH_1', 'lease-1')).resolves.toBe(true);
+      // The lease expired and another worker claimed the webhook
+      await expect(databaseService.failWebhookEvent('WH_1', 'lease-1', 'boom')).resolves.toBe(false);
+
+      expect(updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 'WH_1', status: 'PROCESSING', leaseId: 'lease-1' },
+        data: expect.objectContaining({ status: 'DONE', leaseId: null }),
+      });
+      expect(updateMany).toHaveBeenNthCalledWith(2, {
+        where: { id: 'WH_1', status: 'PROCESSING', leaseId: 'lease-1' },
+        data: expect.objectContaining({ status: 'FAILED', leaseId: null, error: 'boom' }),
+      });
+    });
+  });
+
+  describe('markParticipantAsLeftBySid', () => {
+    /**
+     * Run the transaction against spied participant queries (no database access)
+     */
+    async function mockTransaction(participant: Record<string, unknown>) {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const prisma = (databaseService as any).prisma;
+
+      jest
+        .spyOn(prisma, '$transaction')
+        .mockImplementation((async (callback: (tx: unknown) => unknown) =>
+          callback({ participant })) as never);
+      return databaseService;
+    }
+
+    it('should mark the participant with the SID as left', async () => {
+      const update = jest.fn(async (args: any) => ({ id: 'test-participant-id', ...args.data }));
+      const findFirst = jest.fn();
+      const databaseService = await mockTransaction({
+        findUnique: jest.fn(async () => ({ id: 'test-participant-id', status: 'JOINED' })),
+        findFirst,
+        update,
+      });
+
+      await expect(
+        databaseService.markParticipantAsLeftBySid('PA_1', {
+          userId: 'user-456',
+          livestreamId: 'test-livestream-id',
+        })
+      ).resolves.toMatchObject({ status: 'LEFT' });
+      expect(findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should mark the session of the user when its join was not applied yet', async () => {
+      const update = jest.fn(async (args: any) => ({ id: 'test-participant-id', ...args.data }));
+      const findFirst = jest.fn(async () => ({ id: 'test-participant-id', status: 'JOINED' }));
+      const databaseService = await mockTransaction({
+        findUnique: jest.fn(async () => null),
+        findFirst,
+        update,
+      });
+
+      await expect(
+        databaseService.markParticipantAsLeftBySid('PA_1', {
+          userId: 'user-456',
+          livestreamId: 'test-livestream-id',
+        })
+      ).resolves.toMatchObject({ status: 'LEFT', livekitParticipantSid: 'PA_1' });
+      expect(findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-456',
+            livestreamId: 'test-livestream-id',
+            status: 'JOINED',
+            livekitParticipantSid: null,
+          },
+        })
+      );
+    });
+
+    it('should not fall back to the user session when the SID is already LEFT', async () => {
+      const findFirst = jest.fn();
+      const databaseService = await mockTransaction({
+        findUnique: jest.fn(async () => ({ id: 'test-participant-id', status: 'LEFT' })),
+        findFirst,
+        update: jest.fn(),
+      });
+
+      await expect(
+        databaseService.markParticipantAsLeftBySid('PA_1', {
+          userId: 'user-456',
+          livestreamId: 'test-livestream-id',
+        })
+      ).resolves.toBeNull();
+      expect(findFirst).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Transaction Safety', () => {
     it('should use transactions for mark participant as left', () => {
       // The markParticipantAsLeftBySid method uses Prisma transactions
@@ -0,0 +1,98 @@
+/**
+ * Tests for Ingress Service
+ *
+ * Uses a stubbed Ingress client and spies on the database service (no LiveKit or database access)
+ */
+
+import { jest } from '@jest/globals';
+import { mockDeep } from 'jest-mock-extended';
+import { IngressInfo, IngressInput, type IngressClient } from 'livekit-server-sdk';
+import { createMockLivestream } from '../../fixtures/test-data.js';
+import { AuthorizationError, ConflictError } from '../../../utils/errors.js';
+
+describe('Ingress Service', () => {
+  describe('createIngress', () => {
+    it('should create an ingress bound to the room and store the stream key', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { ingressService } = await import('../../../services/ingress.service.js');
+
+      const ingressClient = mockDeep<IngressClient>();
+      ingressClient.createIngress.mockResolvedValue(
+        new IngressInfo({
+          ingressId: 'IN_test123',
+          url: 'rtmp://ingress.example.com/x',
+          streamKey: 'stream-key',
+        })
+      );
+      Object.assign(livekitService, { ingressClient });
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      const setIngress = jest.spyOn(databaseService, 'setLivestreamIngress').mockResolvedValue(
+        createMockLivestream({
+          ingressId: 'IN_test123',
+          ingressType: 'RTMP',
+          ingressUrl: 'rtmp://ingress.example.com/x',
+          ingressStreamKey: 'stream-key',
+        })
+      );
+
+      const ingress = await ingressService.createIngress('test-livestream-id', 'user-123', {});
+
+      expect(ingressClient.createIngress).toHaveBeenCalledWith(
+        IngressInput.RTMP_INPUT,
+        expect.objectContaining({ roomName: 'test-room' })
+      );
+      expect(setIngress).toHaveBeenCalledWith('test-livestream-id', {
+        ingressId: 'IN_test123',
+        ingressType: 'RTMP',
+        ingressUrl: 'rtmp://ingress.example.com/x',
+        ingressStreamKey: 'stream-key',
+      });
+      expect(ingress).toMatchObject({ inputType: 'RTMP', streamKey: 'stream-key', publishing: false });
+    });
+
+    it('should only allow the creator to create an ingress', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { ingressService } = await import('../../../services/ingress.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+
+      await expect(
+        ingressService.createIngress('test-livestream-id', 'user-456', {})
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should reject a second ingress', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { ingressService } = await import('../../../services/ingress.service.js');
+
+      jest
+        .spyOn(databaseService, 'getLivestreamById')
+        .mockResolvedValue(createMockLivestream({ ingressId: 'IN_existing' }));
+
+      await expect(
+        ingressService.createIngress('test-livestream-id', 'user-123', { inputType: 'WHIP' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('revokeIngress', () => {
+    it('should delete the LiveKit ingress and clear it from the livestream', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { ingressService } = await import('../../../services/ingress.service.js');
+
+      const ingressClient = mockDeep<IngressClient>();
+      Object.assign(livekitService, { ingressClient });
+      const clearIngress = jest
+        .spyOn(databaseService, 'clearLivestreamIngress')
+        .mockResolvedValue(true);
+
+      await ingressService.revokeIngress(createMockLivestream({ ingressId: 'IN_test123' }));
+
+      expect(ingressClient.deleteIngress).toHaveBeenCalledWith('IN_test123');
+      expect(clearIngress).toHaveBeenCalledWith('IN_test123');
+    });
+  });
+});
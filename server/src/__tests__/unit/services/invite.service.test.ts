@@ -0,0 +1,35 @@
+/**
+ * Tests for Invite Service
+ *
+ * Covers invite code signing (INVITE_CODE_SECRET is configured in setup.ts)
+ */
+
+describe('Invite Service', () => {
+  describe('Invite Codes', () => {
+    it('should round-trip a signed code to its invite ID', async () => {
+      const { inviteService } = await import('../../../services/invite.service.js');
+      const inviteId = '3f6c1f5e-8a43-4d8e-9b0a-1c2d3e4f5a6b';
+
+      const code = inviteService.signCode(inviteId);
+
+      expect(code.startsWith(`${inviteId}.`)).toBe(true);
+      expect(inviteService.verifyCode(code)).toBe(inviteId);
+    });
+
+    it('should reject codes with a tampered invite ID', async () => {
+      const { inviteService } = await import('../../../services/invite.service.js');
+      const code = inviteService.signCode('invite-1');
+      const signature = code.split('.')[1];
+
+      expect(inviteService.verifyCode(`invite-2.${signature}`)).toBeNull();
+    });
+
+    it('should reject malformed codes', async () => {
+      const { inviteService } = await import('../../../services/invite.service.js');
+
+      expect(inviteService.verifyCode('')).toBeNull();
+      expect(inviteService.verifyCode('no-signature')).toBeNull();
+      expect(inviteService.verifyCode('invite-1.not-the-signature')).toBeNull();
+    });
+  });
+});
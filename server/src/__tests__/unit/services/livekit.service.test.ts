@@ -6,6 +6,7 @@
  * initializes on import, we test its public API behavior.
  */
 
+import { jest } from '@jest/globals';
 import { LiveKitError } from '../../../utils/errors.js';
 
 describe('LiveKit Service', () => {
@@ -54,7 +55,17 @@ describe('LiveKit Service', () => {
       expect(typeof livekitService.listRooms).toBe('function');
       expect(typeof livekitService.deleteRoom).toBe('function');
       expect(typeof livekitService.roomExists).toBe('function');
+      expect(typeof livekitService.getParticipant).toBe('function');
+      expect(typeof livekitService.removeParticipant).toBe('function');
+      expect(typeof livekitService.mutePublishedTrack).toBe('function');
+      expect(typeof livekitService.updateParticipant).toBe('function');
+      expect(typeof livekitService.startRoomRecording).toBe('function');
+      expect(typeof livekitService.startStreamEgress).toBe('function');
+      expect(typeof livekitService.stopEgress).toBe('function');
+      expect(typeof livekitService.createIngress).toBe('function');
+      expect(typeof livekitService.deleteIngress).toBe('function');
       expect(typeof livekitService.generateAccessToken).toBe('function');
+      expect(typeof livekitService.getTokenExpiresAt).toBe('function');
       expect(typeof livekitService.verifyWebhook).toBe('function');
       expect(typeof livekitService.getLiveKitUrl).toBe('function');
     });
@@ -71,6 +82,28 @@ describe('LiveKit Service', () => {
     });
   });
 
+  describe('findParticipant', () => {
+    it('should return null when the participant is not in the room', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const client = (livekitService as any).client;
+
+      // The SDK rejects with a TwirpError carrying the Twirp error code
+      const notFound = Object.assign(new Error('participant does not exist'), { code: 'not_found' });
+      jest.spyOn(client, 'getParticipant').mockRejectedValue(notFound as never);
+
+      await expect(livekitService.findParticipant('test-room', 'user-456')).resolves.toBeNull();
+    });
+
+    it('should throw LiveKitError on other failures', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const client = (livekitService as any).client;
+
+      jest.spyOn(client, 'getParticipant').mockRejectedValue(new Error('connection refused') as never);
+
+      await expect(livekitService.findParticipant('test-room', 'user-456')).rejects.toThrow(LiveKitError);
+    });
+  });
+
   describe('Token Generation Logic', () => {
     it('should differentiate HOST and VIEWER permissions', () => {
       // HOST permissions: can publish audio/video + subscribe
@@ -96,6 +129,56 @@ describe('LiveKit Service', () => {
       expect(viewerPermissions.canSubscribe).toBe(true);
     });
 
+    it('should grant publish rights to HOST and CO_HOST only', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { decodeJwt } = await import('jose');
+
+      const grantsFor = async (role: 'HOST' | 'CO_HOST' | 'MODERATOR' | 'VIEWER') => {
+        const token = await livekitService.generateAccessToken({
+          roomName: 'test-room',
+          participantIdentity: `user-${role}`,
+          participantName: role,
+          role,
+        });
+        return decodeJwt(token).video as Record<string, unknown>;
+      };
+
+      expect(await grantsFor('HOST')).toMatchObject({ canPublish: true, canSubscribe: true });
+      expect(await grantsFor('CO_HOST')).toMatchObject({ canPublish: true, canSubscribe: true });
+      expect(await grantsFor('MODERATOR')).toMatchObject({
+        canPublish: false,
+        canPublishData: true,
+        canSubscribe: true,
+      });
+      expect(await grantsFor('VIEWER')).toMatchObject({
+        canPublish: false,
+        canPublishData: false,
+        canSubscribe: true,
+      });
+    });
+
+    it('should grant explicit permissions instead of the role ones', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { decodeJwt } = await import('jose');
+
+      // e.g. a co-host whose publishing was revoked by a moderator
+      const token = await livekitService.generateAccessToken({
+        roomName: 'test-room',
+        participantIdentity: 'user-revoked',
+        participantName: 'Revoked',
+        role: 'CO_HOST',
+        permission: { canPublish: false, canPublishData: false, canSubscribe: true },
+      });
+
+      expect(decodeJwt(token).video).toMatchObject({
+        roomJoin: true,
+        room: 'test-room',
+        canPublish: false,
+        canPublishData: false,
+        canSubscribe: true,
+      });
+    });
+
     it('should use configurable token expiration', () => {
       const defaultExpiration = '24h';
       const expirationHours = parseInt(process.env.TOKEN_EXPIRATION_HOURS || '24', 10);
@@ -103,5 +186,23 @@ describe('LiveKit Service', () => {
       expect(expirationHours).toBe(24);
       expect(`${expirationHours}h`).toBe(defaultExpiration);
     });
+
+    it('should honour ttlSeconds and report the token expiration', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+
+      const before = Date.now();
+      const token = await livekitService.generateAccessToken({
+        roomName: 'test-room',
+        participantIdentity: 'user-refresh',
+        participantName: 'Refresh',
+        role: 'VIEWER',
+        ttlSeconds: 15 * 60,
+      });
+      const expiresAt = livekitService.getTokenExpiresAt(token);
+
+      // exp has second precision
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 15 * 60 * 1000 - 1000);
+      expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 15 * 60 * 1000);
+    });
   });
 });
@@ -0,0 +1,80 @@
+/**
+ * Tests for Livestream Access Service
+ *
+ * Spies on the database service (no database access)
+ */
+
+import { jest } from '@jest/globals';
+import type { RoleInvite } from '@prisma/client';
+import { createMockLivestream, createMockParticipant } from '../../fixtures/test-data.js';
+import { AuthorizationError } from '../../../utils/errors.js';
+
+describe('Livestream Access Service', () => {
+  it('should let anyone access a public livestream', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { livestreamAccessService } = await import('../../../services/livestream-access.service.js');
+
+    const listParticipants = jest.spyOn(databaseService, 'listParticipants');
+
+    await expect(
+      livestreamAccessService.canAccessLivestream(createMockLivestream(), undefined)
+    ).resolves.toBe(true);
+    expect(listParticipants).not.toHaveBeenCalled();
+  });
+
+  it('should let the creator and allowlisted users access a private livestream', async () => {
+    const { livestreamAccessService } = await import('../../../services/livestream-access.service.js');
+    const livestream = createMockLivestream({ visibility: 'PRIVATE', allowedUserIds: ['user-789'] });
+
+    await expect(livestreamAccessService.canAccessLivestream(livestream, 'user-123')).resolves.toBe(true);
+    await expect(livestreamAccessService.canAccessLivestream(livestream, 'user-789')).resolves.toBe(true);
+  });
+
+  it('should let users who joined or hold a role invite access a private livestream', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { livestreamAccessService } = await import('../../../services/livestream-access.service.js');
+    const livestream = createMockLivestream({ visibility: 'PRIVATE' });
+
+    jest.spyOn(databaseService, 'getRoleInvite').mockResolvedValue(null);
+    jest
+      .spyOn(databaseService, 'listParticipants')
+      .mockResolvedValueOnce([createMockParticipant({ status: 'LEFT' })])
+      .mockResolvedValueOnce([]);
+
+    await expect(livestreamAccessService.canAccessLivestream(livestream, 'user-456')).resolves.toBe(true);
+
+    jest
+      .spyOn(databaseService, 'getRoleInvite')
+      .mockResolvedValue({ role: 'MODERATOR' } as RoleInvite);
+
+    await expect(livestreamAccessService.canAccessLivestream(livestream, 'user-999')).resolves.toBe(true);
+  });
+
+  it('should refuse anonymous and unrelated users on a private livestream', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { livestreamAccessService } = await import('../../../services/livestream-access.service.js');
+    const livestream = createMockLivestream({ visibility: 'PRIVATE' });
+
+    jest.spyOn(databaseService, 'getRoleInvite').mockResolvedValue(null);
+    jest.spyOn(databaseService, 'listParticipants').mockResolvedValue([]);
+
+    await expect(livestreamAccessService.canAccessLivestream(livestream, undefined)).resolves.toBe(false);
+    await expect(
+      livestreamAccessService.assertCanAccessLivestream(livestream, 'user-999', 'Chat is not available')
+    ).rejects.toThrow(new AuthorizationError('Chat is not available'));
+  });
+
+  it('should load the livestream when checking access by ID', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { livestreamAccessService } = await import('../../../services/livestream-access.service.js');
+
+    const getLivestream = jest
+      .spyOn(databaseService, 'getLivestreamById')
+      .mockResolvedValue(createMockLivestream({ visibility: 'PRIVATE' }));
+
+    await expect(
+      livestreamAccessService.assertCanAccessLivestreamById('test-livestream-id', undefined)
+    ).rejects.toThrow(AuthorizationError);
+    expect(getLivestream).toHaveBeenCalledWith('test-livestream-id');
+  });
+});
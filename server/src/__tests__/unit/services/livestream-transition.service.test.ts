@@ -0,0 +1,60 @@
+/**
+ * Tests for Livestream Transition Service
+ *
+ * Covers the status state machine rules (no database access)
+ */
+
+import { InvalidTransitionError } from '../../../utils/errors.js';
+import type { Livestream } from '../../../types/livestream.types.js';
+
+describe('Livestream Transition Service', () => {
+  afterAll(async () => {
+    // The queue service (outbound webhooks) connects to Redis on import - close the connection so Jest can exit
+    const { queueService } = await import('../../../services/queue.service.js');
+    await queueService.shutdown();
+  });
+
+  describe('canTransition', () => {
+    it('should allow a SCHEDULED livestream to go LIVE, end or fail', async () => {
+      const { livestreamTransitionService } = await import('../../../services/livestream-transition.service.js');
+
+      expect(livestreamTransitionService.canTransition('SCHEDULED', 'LIVE')).toBe(true);
+      expect(livestreamTransitionService.canTransition('SCHEDULED', 'ENDED')).toBe(true);
+      expect(livestreamTransitionService.canTransition('SCHEDULED', 'ERROR')).toBe(true);
+    });
+
+    it('should allow a LIVE livestream to end or fail', async () => {
+      const { livestreamTransitionService } = await import('../../../services/livestream-transition.service.js');
+
+      expect(livestreamTransitionService.canTransition('LIVE', 'ENDED')).toBe(true);
+      expect(livestreamTransitionService.canTransition('LIVE', 'ERROR')).toBe(true);
+      expect(livestreamTransitionService.canTransition('LIVE', 'SCHEDULED')).toBe(false);
+    });
+
+    it('should only allow an ERROR livestream to end', async () => {
+      const { livestreamTransitionService } = await import('../../../services/livestream-transition.service.js');
+
+      expect(livestreamTransitionService.canTransition('ERROR', 'ENDED')).toBe(true);
+      expect(livestreamTransitionService.canTransition('ERROR', 'LIVE')).toBe(false);
+    });
+
+    it('should treat ENDED as terminal', async () => {
+      const { livestreamTransitionService } = await import('../../../services/livestream-transition.service.js');
+
+      expect(livestreamTransitionService.canTransition('ENDED', 'LIVE')).toBe(false);
+      expect(livestreamTransitionService.canTransition('ENDED', 'SCHEDULED')).toBe(false);
+      expect(livestreamTransitionService.canTransition('ENDED', 'ERROR')).toBe(false);
+    });
+  });
+
+  describe('transition', () => {
+    it('should reject illegal transitions before touching the database', async () => {
+      const { livestreamTransitionService } = await import('../../../services/livestream-transition.service.js');
+      const livestream = { id: 'ls-1', status: 'ENDED' } as Livestream;
+
+      await expect(
+        livestreamTransitionService.transition(livestream, 'LIVE', { source: 'API' })
+      ).rejects.toThrow(InvalidTransitionError);
+    });
+  });
+});
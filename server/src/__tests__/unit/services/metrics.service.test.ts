@@ -0,0 +1,70 @@
+/**
+ * Tests for Metrics Service
+ *
+ * Metrics are process-wide, so assertions only look at series each test creates
+ */
+
+const emptySnapshot = { webhookQueue: null, sse: null, livestreamsByStatus: null };
+
+describe('Metrics Service', () => {
+  it('should render the scrape snapshot in the Prometheus text format', async () => {
+    const { metricsService } = await import('../../../services/metrics.service.js');
+
+    const metrics = await metricsService.getMetrics({
+      webhookQueue: { waiting: 3, active: 1, completed: 10, failed: 2 },
+      webhookDeadLetter: 5,
+      sse: { activeConnections: 7, subscribedStreams: 2 },
+      livestreamsByStatus: { SCHEDULED: 1, LIVE: 4, ENDED: 9, ERROR: 0 },
+    });
+
+    expect(metrics).toContain('orchestrator_webhook_queue_jobs{state="waiting"} 3');
+    expect(metrics).toContain('orchestrator_webhook_queue_jobs{state="failed"} 2');
+    expect(metrics).toContain('orchestrator_webhook_dead_letter_jobs 5');
+    expect(metrics).toContain('orchestrator_sse_connections 7');
+    expect(metrics).toContain('orchestrator_livestreams{status="LIVE"} 4');
+    expect(metrics).toContain('orchestrator_livestreams{status="ERROR"} 0');
+  });
+
+  it('should drop the series of components that could not be sampled', async () => {
+    const { metricsService } = await import('../../../services/metrics.service.js');
+
+    const metrics = await metricsService.getMetrics(emptySnapshot);
+
+    expect(metrics).not.toContain('orchestrator_webhook_queue_jobs{');
+    expect(metrics).not.toContain('orchestrator_livestreams{');
+  });
+
+  it('should time LiveKit calls and count failures per operation', async () => {
+    const { metricsService } = await import('../../../services/metrics.service.js');
+
+    await expect(
+      metricsService.trackLiveKitCall('listRooms', async () => [])
+    ).resolves.toEqual([]);
+    await expect(
+      metricsService.trackLiveKitCall('deleteRoom', async () => {
+        throw new Error('twirp error');
+      })
+    ).rejects.toThrow('twirp error');
+
+    const metrics = await metricsService.getMetrics(emptySnapshot);
+
+    expect(metrics).toContain(
+      'orchestrator_livekit_request_duration_seconds_count{operation="listRooms"} 1'
+    );
+    expect(metrics).toContain('orchestrator_livekit_request_errors_total{operation="deleteRoom"} 1');
+    expect(metrics).not.toContain('orchestrator_livekit_request_errors_total{operation="listRooms"}');
+  });
+
+  it('should record reconciliation runs', async () => {
+    const { metricsService } = await import('../../../services/metrics.service.js');
+
+    metricsService.recordReconciliation({ staleLivestreams: 2, participantsUpdated: 5, errors: 1 }, 0.3);
+
+    const metrics = await metricsService.getMetrics(emptySnapshot);
+
+    expect(metrics).toContain('orchestrator_reconciliation_runs_total 1');
+    expect(metrics).toContain('orchestrator_reconciliation_stale_livestreams_total 2');
+    expect(metrics).toContain('orchestrator_reconciliation_participants_updated_total 5');
+    expect(metrics).toContain('orchestrator_reconciliation_errors_total 1');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for Outbound Webhook Service
+ *
+ * Spies on the database and queue services and on fetch (no database, Redis or network access)
+ */
+
+import { jest } from '@jest/globals';
+import { createHmac } from 'node:crypto';
+import type { WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { createMockLivestream } from '../../fixtures/test-data.js';
+import { ValidationError } from '../../../utils/errors.js';
+
+function createMockSubscription(overrides?: Partial<WebhookSubscription>): WebhookSubscription {
+  return {
+    id: 'sub-1',
+    url: 'https://backend.example.com/hooks',
+    events: ['livestream.live'],
+    secret: 'whsec_test',
+    description: null,
+    active: true,
+    createdBy: 'backend',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createMockDelivery(overrides?: Partial<WebhookDelivery>): WebhookDelivery {
+  return {
+    id: 'delivery-1',
+    subscriptionId: 'sub-1',
+    eventId: 'event-1',
+    event: 'livestream.live',
+    payload: { id: 'event-1', type: 'livestream.live', data: {} },
+    status: 'PENDING',
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deliveredAt: null,
+    ...overrides,
+  };
+}
+
+describe('Outbound Webhook Service', () => {
+  afterAll(async () => {
+    // The queue service connects to Redis on import - close the connection so Jest can exit
+    const { queueService } = await import('../../../services/queue.service.js');
+    await queueService.shutdown();
+  });
+
+  describe('createSubscription', () => {
+    it('should reject invalid URLs and unknown event types', async () => {
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+
+      await expect(
+        outboundWebhookService.createSubscription(
+          { url: 'ftp://backend.example.com', events: ['livestream.live'] },
+          'backend'
+        )
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        outboundWebhookService.createSubscription(
+          { url: 'https://backend.example.com', events: ['room_started' as any] },
+          'backend'
+        )
+      ).rejects.toThrow('Unknown event type(s): room_started');
+      await expect(
+        outboundWebhookService.createSubscription(
+          { url: 'https://backend.example.com', events: [] },
+          'backend'
+        )
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should generate a signing secret and only return it on creation', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+
+      const create = jest
+        .spyOn(databaseService, 'createWebhookSubscription')
+        .mockImplementation(async data => createMockSubscription(data as Partial<WebhookSubscription>));
+      jest
+        .spyOn(databaseService, 'getWebhookSubscriptionById')
+        .mockResolvedValue(createMockSubscription());
+
+      const created = await outboundWebhookService.createSubscription(
+        { url: 'https://backend.example.com/hooks', events: ['livestream.live', 'livestream.live'] },
+        'backend'
+      );
+
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ events: ['livestream.live'], createdBy: 'backend' })
+      );
+      expect(created.secret).toMatch(/^whsec_/);
+      expect((await outboundWebhookService.getSubscription('sub-1')).secret).toBeUndefined();
+    });
+  });
+
+  describe('publish', () => {
+    it('should create one delivery per subscription and queue them', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { queueService } = await import('../../../services/queue.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+
+      const list = jest
+        .spyOn(databaseService, 'listWebhookSubscriptions')
+        .mockResolvedValue([createMockSubscription(), createMockSubscription({ id: 'sub-2' })]);
+      const createDeliveries = jest
+        .spyOn(databaseService, 'createWebhookDeliveries')
+        .mockResolvedValue([createMockDelivery(), createMockDelivery({ id: 'delivery-2' })]);
+      const addJobs = jest.spyOn(queueService, 'addWebhookDeliveryJobs').mockResolvedValue();
+
+      await outboundWebhookService.publishLivestreamEvent('livestream.live', createMockLivestream(), {
+        source: 'SCHEDULER',
+      });
+
+      expect(list).toHaveBeenCalledWith({ active: true, event: 'livestream.live' });
+      const deliveries = createDeliveries.mock.calls[0]![0];
+      expect(deliveries.map(delivery => delivery.subscriptionId)).toEqual(['sub-1', 'sub-2']);
+      expect(deliveries[0]!.eventId).toBe(deliveries[1]!.eventId);
+      expect(deliveries[0]!.payload).toMatchObject({
+        type: 'livestream.live',
+        data: { livestream: { id: 'test-livestream-id', status: 'LIVE' }, source: 'SCHEDULER' },
+      });
+      expect(deliveries[0]!.payload).not.toHaveProperty('data.livestream.passcodeHash');
+      expect(addJobs).toHaveBeenCalledWith(['delivery-1', 'delivery-2']);
+    });
+
+    it('should not fail the caller when publishing fails', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest
+        .spyOn(databaseService, 'listWebhookSubscriptions')
+        .mockRejectedValue(new Error('database down'));
+
+      await expect(
+        outboundWebhookService.publishLivestreamEvent('livestream.created', createMockLivestream())
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('deliver', () => {
+    it('should POST the payload signed with the subscription secret', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+
+      jest
+        .spyOn(databaseService, 'getWebhookDeliveryById')
+        .mockResolvedValue({ ...createMockDelivery(), subscription: createMockSubscription() });
+      const update = jest.spyOn(databaseService, 'updateWebhookDelivery').mockResolvedValue(null);
+      const fetchSpy = jest
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue(new Response(null, { status: 204 }));
+
+      await outboundWebhookService.deliver('delivery-1', false);
+
+      const [url, init] = fetchSpy.mock.calls[0]!;
+      const headers = init!.headers as Record<string, string>;
+      const expected = createHmac('sha256', 'whsec_test')
+        .update(`${headers['X-Orchestrator-Timestamp']}.${init!.body}`)
+        .digest('hex');
+      expect(url).toBe('https://backend.example.com/hooks');
+      expect(headers['X-Orchestrator-Signature']).toBe(`sha256=${expected}`);
+      expect(headers['X-Orchestrator-Event']).toBe('livestream.live');
+      expect(update).toHaveBeenCalledWith(
+        'delivery-1',
+        expect.objectContaining({ status: 'DELIVERED', responseStatus: 204 })
+      );
+    });
+
+    it('should keep a failed delivery pending for a retry and dead-letter it after the final attempt', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest
+        .spyOn(databaseService, 'getWebhookDeliveryById')
+        .mockResolvedValue({ ...createMockDelivery(), subscription: createMockSubscription() });
+      const update = jest.spyOn(databaseService, 'updateWebhookDelivery').mockResolvedValue(null);
+      jest
+        .spyOn(globalThis, 'fetch')
+        .mockImplementation(async () => new Response('unavailable', { status: 503 }));
+
+      await expect(outboundWebhookService.deliver('delivery-1', false)).rejects.toThrow(
+        'Endpoint responded with HTTP 503'
+      );
+      expect(update).toHaveBeenLastCalledWith(
+        'delivery-1',
+        expect.objectContaining({ status: 'PENDING', responseStatus: 503 })
+      );
+
+      await expect(outboundWebhookService.deliver('delivery-1', true)).rejects.toThrow();
+      expect(update).toHaveBeenLastCalledWith(
+        'delivery-1',
+        expect.objectContaining({
+          status: 'DEAD_LETTERED',
+          error: 'Endpoint responded with HTTP 503',
+        })
+      );
+    });
+
+    it('should skip deliveries that were already delivered', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+
+      jest.spyOn(databaseService, 'getWebhookDeliveryById').mockResolvedValue({
+        ...createMockDelivery({ status: 'DELIVERED' }),
+        subscription: createMockSubscription(),
+      });
+      const fetchSpy = jest.spyOn(globalThis, 'fetch');
+
+      await outboundWebhookService.deliver('delivery-1', false);
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for Poll Service
+ *
+ * Spies on the database and state services (no database or Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import type { Poll } from '@prisma/client';
+import { createMockLivestream } from '../../fixtures/test-data.js';
+import { AuthorizationError, ValidationError } from '../../../utils/errors.js';
+
+function createMockPoll(overrides?: Partial<Poll>): Poll {
+  return {
+    id: 'poll-1',
+    livestreamId: 'test-livestream-id',
+    question: 'Next topic?',
+    options: ['Testing', 'Deployment'],
+    status: 'OPEN',
+    createdBy: 'user-123',
+    createdAt: new Date(),
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Poll Service', () => {
+  afterAll(async () => {
+    // The state service connects to Redis on import - close the connections so Jest can exit
+    const { stateService } = await import('../../../services/state.service.js');
+    await stateService.shutdown();
+  });
+
+  describe('createPoll', () => {
+    it('should only allow the creator to create polls', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { pollService } = await import('../../../services/poll.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+
+      await expect(
+        pollService.createPoll('test-livestream-id', 'user-456', {
+          question: 'Next topic?',
+          options: ['Testing', 'Deployment'],
+        })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should broadcast the new poll with empty results', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { stateService } = await import('../../../services/state.service.js');
+      const { pollService } = await import('../../../services/poll.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest.spyOn(databaseService, 'createPoll').mockResolvedValue(createMockPoll());
+      const broadcast = jest.spyOn(stateService, 'broadcastPollUpdate').mockResolvedValue();
+
+      const poll = await pollService.createPoll('test-livestream-id', 'user-123', {
+        question: ' Next topic? ',
+        options: ['Testing', 'Deployment'],
+      });
+
+      expect(poll.options).toEqual([
+        { text: 'Testing', votes: 0 },
+        { text: 'Deployment', votes: 0 },
+      ]);
+      expect(broadcast).toHaveBeenCalledWith('test-livestream-id', poll);
+    });
+  });
+
+  describe('vote', () => {
+    it('should reject votes in closed polls', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { pollService } = await import('../../../services/poll.service.js');
+
+      jest
+        .spyOn(databaseService, 'getPollById')
+        .mockResolvedValue(createMockPoll({ status: 'CLOSED' }));
+
+      await expect(
+        pollService.vote('test-livestream-id', 'poll-1', 'user-456', { optionIndex: 0 })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject users who have not joined the livestream', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { pollService } = await import('../../../services/poll.service.js');
+
+      jest.spyOn(databaseService, 'getPollById').mockResolvedValue(createMockPoll());
+      jest.spyOn(databaseService, 'getActiveParticipant').mockResolvedValue(null);
+
+      await expect(
+        pollService.vote('test-livestream-id', 'poll-1', 'user-456', { optionIndex: 1 })
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('listPolls', () => {
+    it('should return results per option and the requesting user vote', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { pollService } = await import('../../../services/poll.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest.spyOn(databaseService, 'listPolls').mockResolvedValue([createMockPoll()]);
+      jest.spyOn(databaseService, 'countPollVotes').mockResolvedValue([
+        { pollId: 'poll-1', optionIndex: 1, count: 3 },
+      ]);
+      jest.spyOn(databaseService, 'listPollVotesByUser').mockResolvedValue([
+        {
+          id: 'vote-1',
+          pollId: 'poll-1',
+          userId: 'user-456',
+          optionIndex: 1,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      const [poll] = await pollService.listPolls('test-livestream-id', 'user-456');
+
+      expect(poll!.options.map(option => option.votes)).toEqual([0, 3]);
+      expect(poll!.totalVotes).toBe(3);
+      expect(poll!.myVote).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for Queue Service
+ *
+ * Covers scheduled starts (spies on the BullMQ schedule queue - no Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import { ConflictError } from '../../../utils/errors.js';
+
+const startAt = new Date(Date.now() + 60 * 60 * 1000);
+
+function createMockJob(state: string, scheduledStartAt = startAt) {
+  return {
+    id: 'start-test-livestream-id',
+    data: { livestreamId: 'test-livestream-id', scheduledStartAt: scheduledStartAt.toISOString() },
+    getState: jest.fn(async () => state),
+    remove: jest.fn(async () => undefined),
+  };
+}
+
+describe('Queue Service', () => {
+  afterAll(async () => {
+    // The service connects to Redis on import - close the connections so Jest can exit
+    const { queueService } = await import('../../../services/queue.service.js');
+    await queueService.shutdown();
+  });
+
+  describe('scheduleLivestreamStart', () => {
+    it('should replace a pending start job', async () => {
+      const { queueService } = await import('../../../services/queue.service.js');
+      const scheduleQueue = (queueService as any).scheduleQueue;
+
+      const pending = createMockJob('delayed', new Date(startAt.getTime() - 1000));
+      jest.spyOn(scheduleQueue, 'getJob').mockResolvedValue(pending as never);
+      const add = jest
+        .spyOn(scheduleQueue, 'add')
+        .mockResolvedValue(createMockJob('delayed') as never);
+
+      await queueService.scheduleLivestreamStart('test-livestream-id', startAt);
+
+      expect(pending.remove).toHaveBeenCalled();
+      expect(add).toHaveBeenCalledWith(
+        'start-livestream',
+        expect.objectContaining({ scheduledStartAt: startAt.toISOString() }),
+        expect.objectContaining({ jobId: 'start-test-livestream-id' })
+      );
+    });
+
+    it('should refuse to reschedule while the start job is running', async () => {
+      const { queueService } = await import('../../../services/queue.service.js');
+      const scheduleQueue = (queueService as any).scheduleQueue;
+
+      jest.spyOn(scheduleQueue, 'getJob').mockResolvedValue(createMockJob('active') as never);
+      const add = jest.spyOn(scheduleQueue, 'add');
+
+      await expect(
+        queueService.scheduleLivestreamStart('test-livestream-id', startAt)
+      ).rejects.toThrow(ConflictError);
+      expect(add).not.toHaveBeenCalled();
+    });
+
+    it('should detect a start job that became active before the new one was added', async () => {
+      const { queueService } = await import('../../../services/queue.service.js');
+      const scheduleQueue = (queueService as any).scheduleQueue;
+
+      jest.spyOn(scheduleQueue, 'getJob').mockResolvedValue(undefined as never);
+      // BullMQ returns the existing job instead of adding one with the same ID
+      jest
+        .spyOn(scheduleQueue, 'add')
+        .mockResolvedValue(createMockJob('active', new Date(startAt.getTime() - 1000)) as never);
+
+      await expect(
+        queueService.scheduleLivestreamStart('test-livestream-id', startAt)
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('cancelLivestreamStart', () => {
+    it('should remove a pending start job but not a running one', async () => {
+      const { queueService } = await import('../../../services/queue.service.js');
+      const scheduleQueue = (queueService as any).scheduleQueue;
+
+      const pending = createMockJob('delayed');
+      const running = createMockJob('active');
+      jest
+        .spyOn(scheduleQueue, 'getJob')
+        .mockResolvedValueOnce(pending as never)
+        .mockResolvedValueOnce(running as never)
+        .mockResolvedValueOnce(undefined as never);
+
+      await expect(queueService.cancelLivestreamStart('test-livestream-id')).resolves.toBe(true);
+      await expect(queueService.cancelLivestreamStart('test-livestream-id')).resolves.toBe(false);
+      await expect(queueService.cancelLivestreamStart('test-livestream-id')).resolves.toBe(false);
+
+      expect(pending.remove).toHaveBeenCalled();
+      expect(running.remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for Reaction Service
+ *
+ * Spies on the database service and the state service's Redis publisher (no database or Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import { createMockLivestream, createMockParticipant } from '../../fixtures/test-data.js';
+import { ValidationError } from '../../../utils/errors.js';
+
+describe('Reaction Service', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(async () => {
+    // The state service connects to Redis on import - close the connections so Jest can exit
+    const { stateService } = await import('../../../services/state.service.js');
+    await stateService.shutdown();
+  });
+
+  it('should reject reactions that are not allowed', async () => {
+    const { reactionService } = await import('../../../services/reaction.service.js');
+
+    await expect(
+      reactionService.sendReaction('test-livestream-id', 'user-456', { emoji: 'spam' })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should broadcast reactions of the same second as one reaction_burst event', async () => {
+    jest.useFakeTimers();
+
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { stateService } = await import('../../../services/state.service.js');
+    const { reactionService } = await import('../../../services/reaction.service.js');
+
+    jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+    jest
+      .spyOn(databaseService, 'getActiveParticipant')
+      .mockResolvedValue(createMockParticipant({ userId: 'user-456' }));
+    const publish = jest
+      .spyOn((stateService as any).redisPubClient, 'publish')
+      .mockResolvedValue(1 as never);
+
+    await reactionService.sendReaction('test-livestream-id', 'user-456', { emoji: '🔥' });
+    await reactionService.sendReaction('test-livestream-id', 'user-456', { emoji: '🔥' });
+    await reactionService.sendReaction('test-livestream-id', 'user-456', { emoji: '👏' });
+
+    expect(publish).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    const event = JSON.parse(publish.mock.calls[0]![1] as string);
+    expect(event.type).toBe('reaction_burst');
+    expect(event.data).toEqual({
+      livestreamId: 'test-livestream-id',
+      counts: { '🔥': 2, '👏': 1 },
+      total: 3,
+    });
+  });
+});
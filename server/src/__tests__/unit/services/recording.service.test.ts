@@ -0,0 +1,188 @@
+/**
+ * Tests for Recording Service
+ *
+ * Uses a stubbed Egress client and spies on the database service (no LiveKit or database access)
+ */
+
+import { jest } from '@jest/globals';
+import { mockDeep } from 'jest-mock-extended';
+import { EgressInfo, EgressStatus, type EgressClient } from 'livekit-server-sdk';
+import type { Recording } from '@prisma/client';
+import { createMockLivestream } from '../../fixtures/test-data.js';
+import { AuthorizationError } from '../../../utils/errors.js';
+
+function createMockRecording(overrides?: Partial<Recording>): Recording {
+  const now = new Date();
+  return {
+    id: 'recording-1',
+    livestreamId: 'test-livestream-id',
+    egressId: 'EG_test123',
+    status: 'ACTIVE',
+    startedBy: 'user-123',
+    filename: null,
+    location: null,
+    duration: null,
+    size: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    startedAt: now,
+    endedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Recording Service', () => {
+  describe('Recording Output', () => {
+    afterEach(() => {
+      delete process.env.RECORDING_S3_BUCKET;
+    });
+
+    it('should record to a file on the egress server by default', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+
+      const output = livekitService.buildRecordingOutput();
+
+      expect(output.filepath).toBe('recordings/{room_name}-{time}.mp4');
+      expect(output.output.case).toBeUndefined();
+    });
+
+    it('should upload to S3 when a bucket is configured', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      process.env.RECORDING_S3_BUCKET = 'recordings';
+
+      const output = livekitService.buildRecordingOutput();
+
+      expect(output.output.case).toBe('s3');
+      expect(output.output.value).toMatchObject({ bucket: 'recordings' });
+    });
+  });
+
+  describe('startRecording', () => {
+    it('should start a room composite egress and store the recording', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { recordingService } = await import('../../../services/recording.service.js');
+
+      const egressClient = mockDeep<EgressClient>();
+      egressClient.startRoomCompositeEgress.mockResolvedValue(
+        new EgressInfo({ egressId: 'EG_test123', status: EgressStatus.EGRESS_STARTING })
+      );
+      Object.assign(livekitService, { egressClient });
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest.spyOn(databaseService, 'listRecordings').mockResolvedValue([]);
+      const createRecording = jest
+        .spyOn(databaseService, 'createRecording')
+        .mockResolvedValue(createMockRecording({ status: 'STARTING' }));
+
+      const recording = await recordingService.startRecording('test-livestream-id', 'user-123');
+
+      expect(egressClient.startRoomCompositeEgress).toHaveBeenCalledWith(
+        'test-room',
+        expect.objectContaining({ file: expect.anything() })
+      );
+      expect(createRecording).toHaveBeenCalledWith({
+        livestreamId: 'test-livestream-id',
+        egressId: 'EG_test123',
+        status: 'STARTING',
+        startedBy: 'user-123',
+      });
+      expect(recording.status).toBe('STARTING');
+    });
+
+    it('should only allow the creator to record', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { recordingService } = await import('../../../services/recording.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+
+      await expect(
+        recordingService.startRecording('test-livestream-id', 'user-456')
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('stopRecording', () => {
+    it('should keep the final status stored by egress_ended while stopping', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { recordingService } = await import('../../../services/recording.service.js');
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      jest
+        .spyOn(databaseService, 'getRecordingById')
+        .mockResolvedValueOnce(createMockRecording())
+        .mockResolvedValueOnce(createMockRecording({ status: 'COMPLETE' }));
+      jest.spyOn(livekitService, 'stopEgress').mockResolvedValue(new EgressInfo());
+      // egress_ended completed the recording before the ENDING update
+      const updateRecording = jest
+        .spyOn(databaseService, 'updateRecordingByEgressId')
+        .mockResolvedValue(null);
+
+      const recording = await recordingService.stopRecording(
+        'test-livestream-id',
+        'user-123',
+        'recording-1'
+      );
+
+      expect(updateRecording).toHaveBeenCalledWith('EG_test123', { status: 'ENDING' }, [
+        'STARTING',
+        'ACTIVE',
+      ]);
+      expect(recording.status).toBe('COMPLETE');
+    });
+  });
+
+  describe('handleEgressEvent', () => {
+    it('should store the file result when the egress completes', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { recordingService } = await import('../../../services/recording.service.js');
+
+      jest.spyOn(databaseService, 'getRecordingByEgressId').mockResolvedValue(createMockRecording());
+      const updateRecording = jest
+        .spyOn(databaseService, 'updateRecordingByEgressId')
+        .mockResolvedValue(null);
+
+      await recordingService.handleEgressEvent({
+        egressId: 'EG_test123',
+        status: 'EGRESS_COMPLETE',
+        startedAt: '1700000000000000000',
+        endedAt: '1700000060000000000',
+        fileResults: [
+          {
+            filename: 'test-room-1700000000.mp4',
+            location: 'https://s3.example.com/recordings/test-room-1700000000.mp4',
+            duration: '60000000000',
+            size: '5242880',
+          },
+        ],
+      });
+
+      expect(updateRecording).toHaveBeenCalledWith('EG_test123', {
+        status: 'COMPLETE',
+        startedAt: new Date(1700000000000),
+        endedAt: new Date(1700000060000),
+        error: null,
+        filename: 'test-room-1700000000.mp4',
+        location: 'https://s3.example.com/recordings/test-room-1700000000.mp4',
+        duration: 60,
+        size: 5242880n,
+      });
+    });
+
+    it('should not reopen a finished recording on a late update', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { recordingService } = await import('../../../services/recording.service.js');
+
+      jest
+        .spyOn(databaseService, 'getRecordingByEgressId')
+        .mockResolvedValue(createMockRecording({ status: 'COMPLETE' }));
+      const updateRecording = jest.spyOn(databaseService, 'updateRecordingByEgressId');
+
+      await recordingService.handleEgressEvent({ egressId: 'EG_test123', status: 'EGRESS_ACTIVE' });
+
+      expect(updateRecording).not.toHaveBeenCalled();
+    });
+  });
+});
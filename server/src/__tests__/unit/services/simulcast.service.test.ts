@@ -0,0 +1,140 @@
+/**
+ * Tests for Simulcast Service
+ *
+ * Uses a stubbed Egress client and spies on the database and state services
+ * (no LiveKit, database or Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import { mockDeep } from 'jest-mock-extended';
+import { EgressInfo, type EgressClient } from 'livekit-server-sdk';
+import type { StreamDestination } from '@prisma/client';
+import { createMockLivestream } from '../../fixtures/test-data.js';
+import { ValidationError } from '../../../utils/errors.js';
+
+function createMockDestination(overrides?: Partial<StreamDestination>): StreamDestination {
+  const now = new Date();
+  return {
+    id: 'destination-1',
+    livestreamId: 'test-livestream-id',
+    name: 'YouTube',
+    rtmpUrl: 'rtmp://a.rtmp.youtube.com/live2',
+    streamKeyEncrypted: '',
+    status: 'IDLE',
+    egressId: null,
+    error: null,
+    createdBy: 'user-123',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('Simulcast Service', () => {
+  afterAll(async () => {
+    // The state service connects to Redis on import - close the connections so Jest can exit
+    const { stateService } = await import('../../../services/state.service.js');
+    await stateService.shutdown();
+  });
+
+  describe('addDestination', () => {
+    it('should encrypt the stream key and start pushing to a LIVE livestream', async () => {
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { stateService } = await import('../../../services/state.service.js');
+      const { simulcastService } = await import('../../../services/simulcast.service.js');
+
+      const egressClient = mockDeep<EgressClient>();
+      egressClient.startRoomCompositeEgress.mockResolvedValue(
+        new EgressInfo({ egressId: 'EG_stream123' })
+      );
+      Object.assign(livekitService, { egressClient });
+
+      jest.spyOn(databaseService, 'getLivestreamById').mockResolvedValue(createMockLivestream());
+      const createDestination = jest
+        .spyOn(databaseService, 'createStreamDestination')
+        .mockImplementation(async data =>
+          createMockDestination({ streamKeyEncrypted: data.streamKeyEncrypted })
+        );
+      const updateDestination = jest
+        .spyOn(databaseService, 'updateStreamDestination')
+        .mockImplementation(async (_id, data) =>
+          createMockDestination({ status: 'STARTING', egressId: data.egressId as string })
+        );
+      jest.spyOn(databaseService, 'listStreamDestinations').mockResolvedValue([]);
+      jest.spyOn(stateService, 'updateDestinations').mockResolvedValue();
+
+      const destination = await simulcastService.addDestination('test-livestream-id', 'user-123', {
+        name: 'YouTube',
+        rtmpUrl: 'rtmp://a.rtmp.youtube.com/live2/',
+        streamKey: 'secret-key',
+      });
+
+      const stored = createDestination.mock.calls[0]![0];
+      expect(stored.rtmpUrl).toBe('rtmp://a.rtmp.youtube.com/live2');
+      expect(stored.streamKeyEncrypted).not.toContain('secret-key');
+
+      const output = egressClient.startRoomCompositeEgress.mock.calls[0]![1] as any;
+      expect(output.stream.urls).toEqual(['rtmp://a.rtmp.youtube.com/live2/secret-key']);
+      expect(updateDestination).toHaveBeenCalledWith('destination-1', {
+        status: 'STARTING',
+        egressId: 'EG_stream123',
+        error: null,
+      });
+      expect(destination).not.toHaveProperty('streamKeyEncrypted');
+      expect(destination.status).toBe('STARTING');
+    });
+
+    it('should reject a destination that is not an RTMP URL', async () => {
+      const { simulcastService } = await import('../../../services/simulcast.service.js');
+
+      await expect(
+        simulcastService.addDestination('test-livestream-id', 'user-123', {
+          name: 'YouTube',
+          rtmpUrl: 'https://youtube.com',
+          streamKey: 'secret-key',
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('handleEgressEvent', () => {
+    it('should leave egresses of other features (recordings) alone', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { simulcastService } = await import('../../../services/simulcast.service.js');
+
+      jest.spyOn(databaseService, 'getStreamDestinationByEgressId').mockResolvedValue(null);
+
+      await expect(
+        simulcastService.handleEgressEvent({ egressId: 'EG_recording', status: 'EGRESS_ACTIVE' })
+      ).resolves.toBe(false);
+    });
+
+    it('should mark the destination FAILED with the egress error', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { stateService } = await import('../../../services/state.service.js');
+      const { simulcastService } = await import('../../../services/simulcast.service.js');
+
+      jest
+        .spyOn(databaseService, 'getStreamDestinationByEgressId')
+        .mockResolvedValue(createMockDestination({ status: 'ACTIVE', egressId: 'EG_stream123' }));
+      const updateDestination = jest
+        .spyOn(databaseService, 'updateStreamDestination')
+        .mockResolvedValue(null);
+      jest.spyOn(databaseService, 'listStreamDestinations').mockResolvedValue([]);
+      const updateState = jest.spyOn(stateService, 'updateDestinations').mockResolvedValue();
+
+      await simulcastService.handleEgressEvent({
+        egressId: 'EG_stream123',
+        status: 'EGRESS_FAILED',
+        error: 'connection refused',
+      });
+
+      expect(updateDestination).toHaveBeenCalledWith('destination-1', {
+        status: 'FAILED',
+        error: 'connection refused',
+      });
+      expect(updateState).toHaveBeenCalledWith('test-livestream-id', []);
+    });
+  });
+});
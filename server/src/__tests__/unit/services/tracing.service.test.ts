@@ -0,0 +1,119 @@
+/**
+ * Tests for the Tracing Service (file exporter)
+ */
+
+import { jest } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SpanKind } from '@opentelemetry/api';
+import { tracingService } from '../../../services/tracing.service.js';
+import { logger } from '../../../utils/logger.js';
+
+interface ExportedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: string;
+  status: { code: number; message?: string };
+  attributes: Record<string, unknown>;
+}
+
+describe('TracingService', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'traces-'));
+  const file = join(dir, 'traces.jsonl');
+
+  const readSpans = (): ExportedSpan[] =>
+    readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as ExportedSpan);
+
+  const findSpan = (name: string) => readSpans().find(span => span.name === name)!;
+
+  beforeAll(() => {
+    process.env.OTEL_TRACES_EXPORTER = 'file';
+    process.env.OTEL_TRACES_FILE = file;
+    tracingService.start();
+  });
+
+  afterAll(async () => {
+    await tracingService.shutdown();
+    delete process.env.OTEL_TRACES_EXPORTER;
+    delete process.env.OTEL_TRACES_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should export nested spans with their parent, kind and attributes', async () => {
+    const result = await tracingService.withSpan('parent', {}, () =>
+      tracingService.withSpan(
+        'redis GET',
+        { kind: SpanKind.CLIENT, attributes: { 'db.operation.name': 'GET' } },
+        async () => 'value'
+      )
+    );
+
+    expect(result).toBe('value');
+    const parent = findSpan('parent');
+    const child = findSpan('redis GET');
+    expect(child).toMatchObject({
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+      kind: 'CLIENT',
+      attributes: { 'db.operation.name': 'GET' },
+    });
+    expect(parent.parentSpanId).toBeUndefined();
+  });
+
+  it('should record an error status and rethrow when the function throws', async () => {
+    await expect(
+      tracingService.withSpan('livekit createRoom', {}, async () => {
+        throw new Error('room exists');
+      })
+    ).rejects.toThrow('room exists');
+
+    expect(findSpan('livekit createRoom').status).toEqual({ code: 2, message: 'room exists' });
+  });
+
+  it('should continue a trace from an injected context (webhook job data)', async () => {
+    let carrier = {};
+    await tracingService.withSpan('webhooks publish', { kind: SpanKind.PRODUCER }, async () => {
+      carrier = tracingService.injectContext();
+    });
+
+    // Later, in the worker
+    await tracingService.runWithContext(carrier, () =>
+      tracingService.withSpan('webhooks process room_started', { kind: SpanKind.CONSUMER }, async () => {})
+    );
+
+    const producer = findSpan('webhooks publish');
+    expect(findSpan('webhooks process room_started')).toMatchObject({
+      traceId: producer.traceId,
+      parentSpanId: producer.spanId,
+    });
+  });
+
+  it('should start a new trace without a carrier', async () => {
+    await tracingService.withSpan('outer', {}, () =>
+      tracingService.runWithContext(undefined, () =>
+        tracingService.withSpan('detached', {}, async () => {})
+      )
+    );
+
+    expect(findSpan('detached').parentSpanId).toBeUndefined();
+    expect(findSpan('detached').traceId).not.toBe(findSpan('outer').traceId);
+  });
+
+  it('should add the trace and span IDs to log lines written inside a span', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await tracingService.withSpan('logged', {}, async () => {
+      logger.info('Inside span');
+    });
+
+    const entry = JSON.parse(log.mock.calls[log.mock.calls.length - 1]![0] as string);
+    const span = findSpan('logged');
+    expect(entry).toMatchObject({ traceId: span.traceId, spanId: span.spanId });
+  });
+});
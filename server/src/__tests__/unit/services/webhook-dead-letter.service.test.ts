@@ -0,0 +1,120 @@
+/**
+ * Tests for Webhook Dead-Letter Service
+ *
+ * Spies on the database and queue services (no database or Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import type { DeadLetterWebhookJob } from '../../../services/queue.service.js';
+import { NotFoundError } from '../../../utils/errors.js';
+
+function createDeadLetterJob(overrides?: Partial<DeadLetterWebhookJob>): DeadLetterWebhookJob {
+  return {
+    webhookId: 'webhook-1',
+    event: 'participant_joined',
+    payload: { event: 'participant_joined', room: { name: 'test-room' } },
+    receivedAt: '2025-12-01T18:00:00.000Z',
+    failedReason: 'Failed to update participant',
+    attemptsMade: 3,
+    deadLetteredAt: '2025-12-01T18:00:07.000Z',
+    ...overrides,
+  };
+}
+
+describe('Webhook Dead-Letter Service', () => {
+  afterAll(async () => {
+    // The queue service connects to Redis on import - close the connection so Jest can exit
+    const { queueService } = await import('../../../services/queue.service.js');
+    await queueService.shutdown();
+  });
+
+  it('should list failed webhooks with their error', async () => {
+    const { queueService } = await import('../../../services/queue.service.js');
+    const { webhookDeadLetterService } = await import('../../../services/webhook-dead-letter.service.js');
+
+    jest.spyOn(queueService, 'getDeadLetterJobs').mockResolvedValue([createDeadLetterJob()]);
+
+    const webhooks = await webhookDeadLetterService.listFailedWebhooks();
+
+    expect(queueService.getDeadLetterJobs).toHaveBeenCalledWith(0, 50);
+    expect(webhooks).toEqual([
+      {
+        webhookId: 'webhook-1',
+        event: 'participant_joined',
+        roomName: 'test-room',
+        receivedAt: '2025-12-01T18:00:00.000Z',
+        deadLetteredAt: '2025-12-01T18:00:07.000Z',
+        attempts: 3,
+        error: 'Failed to update participant',
+      },
+    ]);
+  });
+
+  it('should reset the processing state before re-queueing a replayed webhook', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { queueService } = await import('../../../services/queue.service.js');
+    const { webhookDeadLetterService } = await import('../../../services/webhook-dead-letter.service.js');
+
+    const calls: string[] = [];
+    jest.spyOn(queueService, 'getDeadLetterJob').mockResolvedValue(createDeadLetterJob());
+    jest.spyOn(databaseService, 'resetWebhookEvent').mockImplementation(async () => {
+      calls.push('resetWebhookEvent');
+      return true;
+    });
+    jest.spyOn(queueService, 'replayWebhookJob').mockImplementation(async () => {
+      calls.push('replayWebhookJob');
+      return 'webhook-1-replay-1';
+    });
+    jest.spyOn(queueService, 'removeDeadLetterJob').mockImplementation(async () => {
+      calls.push('removeDeadLetterJob');
+      return true;
+    });
+
+    const jobId = await webhookDeadLetterService.replayFailedWebhook('webhook-1');
+
+    expect(jobId).toBe('webhook-1-replay-1');
+    expect(calls).toEqual(['resetWebhookEvent', 'replayWebhookJob', 'removeDeadLetterJob']);
+    expect(databaseService.resetWebhookEvent).toHaveBeenCalledWith('webhook-1');
+  });
+
+  it('should keep replaying after a failure and leave the failed webhook in the queue', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { queueService } = await import('../../../services/queue.service.js');
+    const { webhookDeadLetterService } = await import('../../../services/webhook-dead-letter.service.js');
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const getJobs = jest
+      .spyOn(queueService, 'getDeadLetterJobs')
+      .mockResolvedValueOnce([
+        createDeadLetterJob({ webhookId: 'webhook-1' }),
+        createDeadLetterJob({ webhookId: 'webhook-2' }),
+      ])
+      .mockResolvedValueOnce([]);
+    jest
+      .spyOn(databaseService, 'resetWebhookEvent')
+      .mockRejectedValueOnce(new Error('database down'))
+      .mockResolvedValue(true);
+    jest.spyOn(queueService, 'replayWebhookJob').mockResolvedValue('job');
+    const remove = jest.spyOn(queueService, 'removeDeadLetterJob').mockResolvedValue(true);
+
+    const result = await webhookDeadLetterService.replayAllFailedWebhooks();
+
+    expect(result).toEqual({ replayed: 1, failed: 1 });
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(remove).toHaveBeenCalledWith('webhook-2');
+    // The next batch skips the webhook that is still dead-lettered
+    expect(getJobs).toHaveBeenLastCalledWith(1, 100);
+  });
+
+  it('should throw NotFoundError when discarding an unknown webhook', async () => {
+    const { queueService } = await import('../../../services/queue.service.js');
+    const { webhookDeadLetterService } = await import('../../../services/webhook-dead-letter.service.js');
+
+    jest.spyOn(queueService, 'removeDeadLetterJob').mockResolvedValue(false);
+
+    await expect(webhookDeadLetterService.discardFailedWebhook('unknown')).rejects.toThrow(
+      NotFoundError
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for Webhook Ordering Service
+ *
+ * Covers which room and ordering fields a webhook maps to, and stale detection
+ * (spies on the Redis client - no Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import { createMockWebhookEvent } from '../../fixtures/test-data.js';
+
+describe('Webhook Ordering Service', () => {
+  afterAll(async () => {
+    // The service connects to Redis on import - close the connection so Jest can exit
+    const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+    await webhookOrderingService.shutdown();
+  });
+
+  describe('getRoomName', () => {
+    it('should read the room from room, egress and ingress events', async () => {
+      const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+      expect(webhookOrderingService.getRoomName(createMockWebhookEvent('participant_joined'))).toBe(
+        'test-room'
+      );
+      expect(
+        webhookOrderingService.getRoomName(
+          createMockWebhookEvent('egress_ended', {
+            egressInfo: { egressId: 'EG_1', roomName: 'egress-room' },
+          })
+        )
+      ).toBe('egress-room');
+      expect(
+        webhookOrderingService.getRoomName(createMockWebhookEvent('ingress_ended'))
+      ).toBeNull();
+    });
+  });
+
+  describe('getOrderingFields', () => {
+    it('should check participant events against the room and the participant', async () => {
+      const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+      const fields = webhookOrderingService.getOrderingFields(
+        createMockWebhookEvent('participant_left')
+      );
+
+      expect(fields).toEqual({
+        check: ['room', 'participant:user-456'],
+        record: ['participant:user-456'],
+      });
+    });
+
+    it('should order room events by room and egress events by egress', async () => {
+      const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+      expect(
+        webhookOrderingService.getOrderingFields(createMockWebhookEvent('room_finished'))
+      ).toEqual({ check: ['room'], record: ['room'] });
+      expect(
+        webhookOrderingService.getOrderingFields(
+          createMockWebhookEvent('egress_updated', { egressInfo: { egressId: 'EG_1' } })
+        )
+      ).toEqual({ check: ['egress:EG_1'], record: ['egress:EG_1'] });
+    });
+
+    it('should not order events it does not know', async () => {
+      const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+      expect(
+        webhookOrderingService.getOrderingFields(createMockWebhookEvent('track_published'))
+      ).toEqual({ check: [], record: [] });
+    });
+  });
+
+  describe('isStale', () => {
+    it('should drop events older than the last applied event of the same target', async () => {
+      const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+      jest
+        .spyOn((webhookOrderingService as any).redisClient, 'hmget')
+        .mockResolvedValue([null, '1700000010:participant_joined'] as never);
+
+      await expect(
+        webhookOrderingService.isStale(
+          'test-room',
+          createMockWebhookEvent('participant_left', { createdAt: 1700000009 })
+        )
+      ).resolves.toBe(true);
+      await expect(
+        webhookOrderingService.isStale(
+          'test-room',
+          createMockWebhookEvent('participant_left', { createdAt: 1700000010 })
+        )
+      ).resolves.toBe(false);
+    });
+
+    it('should order events of the same second by type', async () => {
+      const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+      const hmget = jest.spyOn((webhookOrderingService as any).redisClient, 'hmget');
+      const joined = createMockWebhookEvent('participant_joined', { createdAt: 1700000010 });
+
+      // A join is older than a leave of the same second
+      hmget.mockResolvedValueOnce([null, '1700000010:participant_left'] as never);
+      await expect(webhookOrderingService.isStale('test-room', joined)).resolves.toBe(true);
+
+      // Participant events are older than a room_finished of the same second
+      hmget.mockResolvedValueOnce(['1700000010:room_finished', null] as never);
+      await expect(webhookOrderingService.isStale('test-room', joined)).resolves.toBe(true);
+
+      // A leave is newer than a join of the same second
+      hmget.mockResolvedValueOnce([null, '1700000010:participant_joined'] as never);
+      await expect(
+        webhookOrderingService.isStale(
+          'test-room',
+          createMockWebhookEvent('participant_left', { createdAt: 1700000010 })
+        )
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('releaseRoomLock', () => {
+    it('should compare and delete the lock atomically', async () => {
+      const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+      const evalScript = jest
+        .spyOn((webhookOrderingService as any).redisClient, 'eval')
+        .mockResolvedValue(1 as never);
+
+      await webhookOrderingService.releaseRoomLock('test-room', 'lock-token');
+
+      expect(evalScript).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('del'"),
+        1,
+        'webhook:room:test-room:lock',
+        'lock-token'
+      );
+    });
+  });
+});
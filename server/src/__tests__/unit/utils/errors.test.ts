@@ -10,6 +10,9 @@ import {
   LiveKitError,
   DatabaseError,
   AuthorizationError,
+  AuthenticationError,
+  InvalidTransitionError,
+  CapacityError,
 } from '../../../utils/errors.js';
 
 describe('Error Classes', () => {
@@ -155,6 +158,40 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('AuthenticationError', () => {
+    it('should create a 401 error with default message', () => {
+      const error = new AuthenticationError();
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.message).toBe('Authentication required');
+      expect(error.statusCode).toBe(401);
+      expect(error.isOperational).toBe(true);
+    });
+  });
+
+  describe('InvalidTransitionError', () => {
+    it('should create a 409 error with default message', () => {
+      const error = new InvalidTransitionError();
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toBeInstanceOf(InvalidTransitionError);
+      expect(error.message).toBe('Invalid livestream status transition');
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
+  describe('CapacityError', () => {
+    it('should create a 409 error with default message', () => {
+      const error = new CapacityError();
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toBeInstanceOf(CapacityError);
+      expect(error.message).toBe('Livestream is full');
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
   describe('Error Hierarchy', () => {
     it('should allow catching all custom errors with AppError', () => {
       const errors = [
@@ -164,6 +201,7 @@ describe('Error Classes', () => {
         new LiveKitError(),
         new DatabaseError(),
         new AuthorizationError(),
+        new AuthenticationError(),
       ];
 
       errors.forEach((error) => {
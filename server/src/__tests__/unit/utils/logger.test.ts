@@ -0,0 +1,64 @@
+/**
+ * Tests for the Structured Logger and Request Context
+ */
+
+import { jest } from '@jest/globals';
+import { logger } from '../../../utils/logger.js';
+import { getRequestId, runWithRequestId } from '../../../utils/request-context.js';
+
+/**
+ * Parse the JSON line written by the last console call
+ */
+const lastEntry = (spy: { mock: { calls: unknown[][] } }) =>
+  JSON.parse(spy.mock.calls[spy.mock.calls.length - 1]![0] as string);
+
+describe('Logger', () => {
+  it('should write one JSON line with the level, bindings, message and fields', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    logger.child({ component: 'Test' }).info('Livestream started', { livestreamId: 'ls-1' });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(lastEntry(log)).toMatchObject({
+      level: 'info',
+      component: 'Test',
+      msg: 'Livestream started',
+      livestreamId: 'ls-1',
+    });
+    expect(lastEntry(log).time).toEqual(expect.any(String));
+  });
+
+  it('should write errors to stderr with the error name, message and stack', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    logger.error('Failed', { error: new TypeError('boom') });
+
+    expect(lastEntry(error).error).toMatchObject({
+      name: 'TypeError',
+      message: 'boom',
+      stack: expect.stringContaining('boom'),
+    });
+  });
+
+  it('should add the request ID of the current context, across async calls', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await runWithRequestId('req-123', async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      expect(getRequestId()).toBe('req-123');
+      logger.info('Inside request');
+    });
+    logger.info('Outside request');
+
+    expect(JSON.parse(log.mock.calls[0]![0] as string).requestId).toBe('req-123');
+    expect(JSON.parse(log.mock.calls[1]![0] as string).requestId).toBeUndefined();
+  });
+
+  it('should skip entries below LOG_LEVEL (default: info)', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    logger.debug('Verbose details');
+
+    expect(log).not.toHaveBeenCalled();
+  });
+});
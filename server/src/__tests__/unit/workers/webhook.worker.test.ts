@@ -0,0 +1,278 @@
+/**
+ * Tests for Webhook Worker
+ *
+ * Runs the job processor the worker registers with the queue service
+ * (spies on the database, ordering and livestream services - no database or Redis access)
+ */
+
+import { jest } from '@jest/globals';
+import type { WebhookJob } from '../../../services/queue.service.js';
+import {
+  createMockLivestream,
+  createMockParticipant,
+  createMockWebhookEvent,
+} from '../../fixtures/test-data.js';
+
+/**
+ * Start the worker without BullMQ and return its job processor
+ */
+async function getProcessor() {
+  const { queueService } = await import('../../../services/queue.service.js');
+  const { startWebhookWorker } = await import('../../../workers/webhook.worker.js');
+
+  const startWorker = jest.spyOn(queueService, 'startWorker').mockImplementation(() => {});
+  startWebhookWorker();
+
+  return startWorker.mock.calls[0]![0];
+}
+
+function createJob(payload: ReturnType<typeof createMockWebhookEvent>): WebhookJob {
+  return {
+    webhookId: payload.id,
+    event: payload.event,
+    payload,
+    receivedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Let the worker take the room lock
+ */
+async function mockRoomLock() {
+  const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+  jest.spyOn(webhookOrderingService, 'acquireRoomLock').mockResolvedValue('lock-token');
+  jest.spyOn(webhookOrderingService, 'keepRoomLock').mockReturnValue(() => {});
+  jest.spyOn(webhookOrderingService, 'releaseRoomLock').mockResolvedValue(undefined);
+}
+
+/**
+ * Let the worker claim the webhook and apply it in order
+ */
+async function mockClaimAndOrdering() {
+  const { databaseService } = await import('../../../services/database.service.js');
+  const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+
+  jest.spyOn(databaseService, 'claimWebhookEvent').mockResolvedValue({ status: 'claimed' });
+  jest.spyOn(databaseService, 'completeWebhookEvent').mockResolvedValue(true);
+  jest.spyOn(webhookOrderingService, 'isStale').mockResolvedValue(false);
+  jest.spyOn(webhookOrderingService, 'recordApplied').mockResolvedValue(undefined);
+}
+
+/**
+ * Keep the order of applied webhooks in memory instead of Redis
+ */
+async function mockOrderStore() {
+  const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+  const redisClient = (webhookOrderingService as any).redisClient;
+  const applied = new Map<string, string>();
+
+  jest
+    .spyOn(redisClient, 'hmget')
+    .mockImplementation((async (_key: string, ...fields: string[]) =>
+      fields.map(field => applied.get(field) ?? null)) as never);
+  jest.spyOn(redisClient, 'multi').mockImplementation((() => {
+    const transaction = {
+      hset: (_key: string, values: Record<string, string>) => {
+        Object.entries(values).forEach(([field, value]) => applied.set(field, value));
+        return transaction;
+      },
+      expire: () => transaction,
+      exec: async () => [],
+    };
+    return transaction;
+  }) as never);
+}
+
+describe('Webhook Worker', () => {
+  afterAll(async () => {
+    // These services connect to Redis on import - close the connections so Jest can exit
+    const { stopWebhookWorker } = await import('../../../workers/webhook.worker.js');
+    const { stateService } = await import('../../../services/state.service.js');
+    const { waitingRoomService } = await import('../../../services/waiting-room.service.js');
+    await stopWebhookWorker();
+    await stateService.shutdown();
+    await waitingRoomService.shutdown();
+  });
+
+  it('should apply a claimed webhook and mark it done', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { livestreamService } = await import('../../../services/livestream.service.js');
+    const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+    const processWebhook = await getProcessor();
+    await mockRoomLock();
+
+    jest.spyOn(databaseService, 'claimWebhookEvent').mockResolvedValue({ status: 'claimed' });
+    jest.spyOn(webhookOrderingService, 'isStale').mockResolvedValue(false);
+    jest.spyOn(webhookOrderingService, 'recordApplied').mockResolvedValue(undefined);
+    const handle = jest.spyOn(livestreamService, 'handleWebhookEvent').mockResolvedValue(undefined);
+    const complete = jest.spyOn(databaseService, 'completeWebhookEvent').mockResolvedValue(true);
+
+    const payload = createMockWebhookEvent('participant_joined');
+    await processWebhook(createJob(payload));
+
+    expect(handle).toHaveBeenCalledWith(payload);
+    expect(complete).toHaveBeenCalledWith(payload.id, expect.any(String));
+  });
+
+  it('should release the claim when applying the webhook fails', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { livestreamService } = await import('../../../services/livestream.service.js');
+    const { webhookOrderingService } = await import('../../../services/webhook-ordering.service.js');
+    const processWebhook = await getProcessor();
+    await mockRoomLock();
+
+    jest.spyOn(databaseService, 'claimWebhookEvent').mockResolvedValue({ status: 'claimed' });
+    jest.spyOn(webhookOrderingService, 'isStale').mockResolvedValue(false);
+    jest.spyOn(livestreamService, 'handleWebhookEvent').mockRejectedValue(new Error('boom'));
+    const fail = jest.spyOn(databaseService, 'failWebhookEvent').mockResolvedValue(true);
+
+    const payload = createMockWebhookEvent('participant_joined');
+    await expect(processWebhook(createJob(payload))).rejects.toThrow('boom');
+
+    expect(fail).toHaveBeenCalledWith(payload.id, expect.any(String), 'boom');
+  });
+
+  it('should defer a webhook held by another worker until its lease expires', async () => {
+    const { databaseService } = await import('../../../services/database.service.js');
+    const { livestreamService } = await import('../../../services/livestream.service.js');
+    const { DeferJobError } = await import('../../../services/queue.service.js');
+    const processWebhook = await getProcessor();
+    await mockRoomLock();
+
+    const leaseExpiresAt = new Date(Date.now() + 30_000);
+    jest
+      .spyOn(databaseService, 'claimWebhookEvent')
+      .mockResolvedValue({ status: 'in_progress', leaseExpiresAt });
+    const handle = jest.spyOn(livestreamService, 'handleWebhookEvent');
+
+    const job = createJob(createMockWebhookEvent('participant_joined'));
+    const error = await processWebhook(job).catch((e: unknown) => e);
+
+    // Deferred, not failed - the retry does not use up an attempt
+    expect(error).toBeInstanceOf(DeferJobError);
+    const { delayMs } = error as InstanceType<typeof DeferJobError>;
+    expect(delayMs).toBeGreaterThan(29_000);
+    expect(delayMs).toBeLessThanOrEqual(30_000);
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  describe('participant_joined', () => {
+    it('should remove a banned user who reconnects with an earlier token', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const processWebhook = await getProcessor();
+      await mockRoomLock();
+      await mockClaimAndOrdering();
+
+      jest.spyOn(databaseService, 'getLivestreamByRoomName').mockResolvedValue(createMockLivestream());
+      jest.spyOn(databaseService, 'getBan').mockResolvedValue({ userId: 'user-456' } as never);
+      const updateSids = jest.spyOn(databaseService, 'updateParticipantWithLiveKitSids');
+      const remove = jest.spyOn(livekitService, 'removeParticipant').mockResolvedValue(undefined);
+
+      await processWebhook(createJob(createMockWebhookEvent('participant_joined')));
+
+      expect(remove).toHaveBeenCalledWith('test-room', 'user-456');
+      expect(updateSids).not.toHaveBeenCalled();
+    });
+
+    it('should remove a kicked user who no longer has a JOINED session', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const processWebhook = await getProcessor();
+      await mockRoomLock();
+      await mockClaimAndOrdering();
+
+      jest.spyOn(databaseService, 'getLivestreamByRoomName').mockResolvedValue(createMockLivestream());
+      jest.spyOn(databaseService, 'getBan').mockResolvedValue(null);
+      jest.spyOn(databaseService, 'updateParticipantWithLiveKitSids').mockResolvedValue(null);
+      jest.spyOn(databaseService, 'getActiveParticipant').mockResolvedValue(null);
+      const remove = jest.spyOn(livekitService, 'removeParticipant').mockResolvedValue(undefined);
+
+      await processWebhook(createJob(createMockWebhookEvent('participant_joined')));
+
+      expect(remove).toHaveBeenCalledWith('test-room', 'user-456');
+    });
+
+    it('should keep a participant with a JOINED session', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+      const { stateService } = await import('../../../services/state.service.js');
+      const processWebhook = await getProcessor();
+      await mockRoomLock();
+      await mockClaimAndOrdering();
+
+      jest.spyOn(databaseService, 'getLivestreamByRoomName').mockResolvedValue(createMockLivestream());
+      jest.spyOn(databaseService, 'getBan').mockResolvedValue(null);
+      jest
+        .spyOn(databaseService, 'updateParticipantWithLiveKitSids')
+        .mockResolvedValue(createMockParticipant({ livekitParticipantSid: 'PA_test123' }));
+      jest.spyOn(outboundWebhookService, 'publishParticipantEvent').mockResolvedValue(undefined);
+      jest.spyOn(stateService, 'handleParticipantJoined').mockResolvedValue(undefined);
+      const remove = jest.spyOn(livekitService, 'removeParticipant');
+
+      await processWebhook(createJob(createMockWebhookEvent('participant_joined')));
+
+      expect(remove).not.toHaveBeenCalled();
+    });
+
+    it('should not remove the ingress, which has no session', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { livekitService } = await import('../../../services/livekit.service.js');
+      const processWebhook = await getProcessor();
+      await mockRoomLock();
+      await mockClaimAndOrdering();
+
+      jest.spyOn(databaseService, 'getLivestreamByRoomName').mockResolvedValue(createMockLivestream());
+      const remove = jest.spyOn(livekitService, 'removeParticipant');
+
+      const payload = createMockWebhookEvent('participant_joined', {
+        participant: { sid: 'PA_ingress', identity: 'ingress-test-livestream-id', name: 'Host' },
+      });
+      await processWebhook(createJob(payload));
+
+      expect(remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('participant_left before participant_joined', () => {
+    it('should end the session and drop the late join', async () => {
+      const { databaseService } = await import('../../../services/database.service.js');
+      const { outboundWebhookService } = await import('../../../services/outbound-webhook.service.js');
+      const { stateService } = await import('../../../services/state.service.js');
+      const { waitingRoomService } = await import('../../../services/waiting-room.service.js');
+      const processWebhook = await getProcessor();
+      await mockRoomLock();
+      await mockOrderStore();
+
+      const livestream = createMockLivestream();
+      jest.spyOn(databaseService, 'claimWebhookEvent').mockResolvedValue({ status: 'claimed' });
+      const complete = jest.spyOn(databaseService, 'completeWebhookEvent').mockResolvedValue(true);
+      jest.spyOn(databaseService, 'getLivestreamByRoomName').mockResolvedValue(livestream);
+      const markLeft = jest
+        .spyOn(databaseService, 'markParticipantAsLeftBySid')
+        .mockResolvedValue(createMockParticipant({ status: 'LEFT' }));
+      const updateSids = jest.spyOn(databaseService, 'updateParticipantWithLiveKitSids');
+      jest.spyOn(outboundWebhookService, 'publishParticipantEvent').mockResolvedValue(undefined);
+      jest.spyOn(stateService, 'handleParticipantLeft').mockResolvedValue(undefined);
+      jest.spyOn(waitingRoomService, 'admitNext').mockResolvedValue(undefined);
+
+      // LiveKit sent the join first, but the leave is processed first
+      const joined = createMockWebhookEvent('participant_joined', { createdAt: 1700000010 });
+      const left = createMockWebhookEvent('participant_left', { createdAt: 1700000011 });
+
+      await processWebhook(createJob(left));
+      await processWebhook(createJob(joined));
+
+      // The session is ended by user, as its SID is only stored by the join
+      expect(markLeft).toHaveBeenCalledWith('PA_test123', {
+        userId: 'user-456',
+        livestreamId: livestream.id,
+      });
+      // The join is stale - it does not revive the session
+      expect(updateSids).not.toHaveBeenCalled();
+      expect(complete).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -4,21 +4,40 @@
  */
 
 import 'dotenv/config';
+import { timingSafeEqual } from 'node:crypto';
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import livestreamRoutes from './routes/livestream.routes.js';
 import stateRoutes from './routes/state.routes.js';
 import webhookRoutes from './routes/webhook.routes.js';
+import creatorRoutes from './routes/creator.routes.js';
+import webhookSubscriptionRoutes from './routes/webhook-subscription.routes.js';
+import adminRoutes from './routes/admin.routes.js';
 import { databaseService } from './services/database.service.js';
+import { metricsService } from './services/metrics.service.js';
+import { tracingService } from './services/tracing.service.js';
 import { queueService } from './services/queue.service.js';
+import { waitingRoomService } from './services/waiting-room.service.js';
 import { stateService } from './services/state.service.js';
 import { startWebhookWorker, stopWebhookWorker } from './workers/webhook.worker.js';
+import { startScheduledStartWorker, stopScheduledStartWorker } from './workers/scheduled-start.worker.js';
+import { startWebhookDeliveryWorker, stopWebhookDeliveryWorker } from './workers/webhook-delivery.worker.js';
 import { startCleanupJob, stopCleanupJob } from './jobs/webhook-cleanup.job.js';
 import { startReconciliationJob, stopReconciliationJob } from './jobs/livestream-cleanup.job.js';
+import { startViewerCountSamplerJob, stopViewerCountSamplerJob } from './jobs/viewer-count-sampler.job.js';
+import { httpMetrics } from './middleware/metrics.middleware.js';
+import { requestId } from './middleware/request-id.middleware.js';
+import { httpTracing } from './middleware/tracing.middleware.js';
 import { AppError } from './utils/errors.js';
+import { logger } from './utils/logger.js';
 import type { ErrorResponse } from './types/livestream.types.js';
 
+const log = logger.child({ component: 'Server' });
+
+// Start tracing before any request or database query is handled
+tracingService.start();
+
 // Initialize Express app
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -32,6 +51,12 @@ const PORT = process.env.PORT || 3001;
 // This enables Express to correctly read X-Forwarded-* headers
 app.set('trust proxy', 1);
 
+// Request ID - Registered first so every response and log line carries it
+app.use(requestId);
+
+// Tracing - One server span per request, the parent of Prisma, LiveKit and Redis spans
+app.use(httpTracing);
+
 // CORS - Allow cross-origin requests with proper security
 const allowedOrigins = process.env.CLIENT_URL
   ? process.env.CLIENT_URL.split(',').map(origin => origin.trim())
@@ -51,20 +76,24 @@ app.use(cors({
 
     // In development, be more lenient
     if (process.env.NODE_ENV === 'development') {
-      console.warn(`[CORS] Warning: allowing origin ${origin} in development mode`);
+      log.warn(`CORS: allowing origin ${origin} in development mode`);
       return callback(null, true);
     }
 
     // Reject in production
-    console.error(`[CORS] Blocked origin: ${origin}`);
+    log.error(`CORS: blocked origin ${origin}`);
     callback(new Error('Not allowed by CORS'));
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-On-Behalf-Of', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id'],
   maxAge: 86400, // 24 hours
 }));
 
+// HTTP metrics - Request latency per route (registered first so rate-limited requests are counted)
+app.use(httpMetrics);
+
 // Rate Limiting - Prevent DoS attacks and API abuse
 // General API rate limit (100 requests per 15 minutes per IP)
 const generalApiLimiter = rateLimit({
@@ -107,6 +136,32 @@ const createLivestreamLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Rate limit for chat messages (30 per minute per IP)
+const chatMessageLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  message: {
+    success: false,
+    error: 'TooManyRequests',
+    message: 'Too many chat messages, please slow down',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Rate limit for reactions (60 per minute per IP - aggregated before broadcasting)
+const reactionLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60,
+  message: {
+    success: false,
+    error: 'TooManyRequests',
+    message: 'Too many reactions, please slow down',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Apply general rate limiter to all API routes
 app.use('/api/v1/', generalApiLimiter);
 
@@ -119,14 +174,6 @@ app.use('/api/v1/webhooks', express.raw({
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Request logging middleware (development only)
-if (process.env.NODE_ENV === 'development') {
-  app.use((req: Request, _res: Response, next: NextFunction) => {
-    console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-    next();
-  });
-}
-
 // ===========================================
 // API Routes
 // ===========================================
@@ -177,6 +224,7 @@ app.get('/health', async (_req: Request, res: Response) => {
             active: queueHealth.active,
             completed: queueHealth.completed,
             failed: queueHealth.failed,
+            deadLettered: queueHealth.deadLettered,
           } : undefined,
         },
         state: {
@@ -193,7 +241,7 @@ app.get('/health', async (_req: Request, res: Response) => {
     });
   } catch (error) {
     // Health check should not crash the server
-    console.error('Health check error:', error);
+    log.error('Health check error', { error });
     res.status(503).json({
       success: false,
       message: 'Health check failed',
@@ -202,17 +250,99 @@ app.get('/health', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * Constant-time check of the metrics scrape credentials (Authorization: Bearer <token>)
+ */
+function isValidMetricsToken(authorization: string | undefined, metricsToken: string): boolean {
+  const presented = Buffer.from(authorization ?? '');
+  const expected = Buffer.from(`Bearer ${metricsToken}`);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+// Prometheus metrics endpoint
+// Protected by METRICS_TOKEN (Authorization: Bearer <token>) when set
+app.get('/metrics', async (req: Request, res: Response) => {
+  const metricsToken = process.env.METRICS_TOKEN;
+  if (metricsToken && !isValidMetricsToken(req.header('authorization'), metricsToken)) {
+    res.status(401).json({
+      success: false,
+      error: 'AuthenticationError',
+      message: 'Invalid metrics token',
+      statusCode: 401,
+    });
+    return;
+  }
+
+  try {
+    // Sample queue, SSE and livestream state - a failing component does not fail the scrape
+    const [queueHealth, stateHealth, livestreamsByStatus] = await Promise.all([
+      queueService.getHealthStatus(),
+      stateService.getHealthStatus(),
+      databaseService.countLivestreamsByStatus().catch(() => null),
+    ]);
+
+    const metrics = await metricsService.getMetrics({
+      webhookQueue: queueHealth.isHealthy ? {
+        waiting: queueHealth.waiting,
+        active: queueHealth.active,
+        completed: queueHealth.completed,
+        failed: queueHealth.failed,
+      } : null,
+      webhookDeadLetter: queueHealth.isHealthy ? queueHealth.deadLettered : null,
+      sse: stateHealth.isHealthy ? {
+        activeConnections: stateHealth.activeConnections,
+        subscribedStreams: stateHealth.subscribedStreams,
+      } : null,
+      livestreamsByStatus,
+    });
+
+    res.set('Content-Type', metricsService.getContentType());
+    res.status(200).send(metrics);
+  } catch (error) {
+    log.error('Metrics error', { error });
+    res.status(500).send('# Failed to collect metrics\n');
+  }
+});
+
 // API v1 routes
 // Apply stricter rate limits to specific write operations
 app.post('/api/v1/livestreams', createLivestreamLimiter); // Create livestream
 app.delete('/api/v1/livestreams/:id', writeOperationsLimiter); // Delete livestream
+app.post('/api/v1/livestreams/:id/end', writeOperationsLimiter); // End livestream
 app.post('/api/v1/livestreams/:id/join', writeOperationsLimiter); // Join livestream
 app.post('/api/v1/livestreams/:id/leave', writeOperationsLimiter); // Leave livestream
+app.post('/api/v1/livestreams/:id/token/refresh', writeOperationsLimiter); // Refresh access token
+app.delete('/api/v1/livestreams/:id/queue', writeOperationsLimiter); // Leave waiting room
+app.post('/api/v1/livestreams/:id/chat', chatMessageLimiter); // Send chat message
+app.post('/api/v1/livestreams/:id/reactions', reactionLimiter); // Send reaction
+app.post('/api/v1/livestreams/:id/polls', writeOperationsLimiter); // Create poll
+app.post('/api/v1/livestreams/:id/polls/:pollId/votes', writeOperationsLimiter); // Vote in poll
+app.post('/api/v1/livestreams/:id/polls/:pollId/close', writeOperationsLimiter); // Close poll
+app.post('/api/v1/livestreams/:id/recordings', writeOperationsLimiter); // Start recording
+app.post('/api/v1/livestreams/:id/recordings/:recordingId/stop', writeOperationsLimiter); // Stop recording
+app.post('/api/v1/livestreams/:id/ingress', writeOperationsLimiter); // Create RTMP/WHIP ingress
+app.delete('/api/v1/livestreams/:id/ingress', writeOperationsLimiter); // Delete ingress
+app.post('/api/v1/livestreams/:id/destinations', writeOperationsLimiter); // Add simulcast destination
+app.delete('/api/v1/livestreams/:id/destinations/:destinationId', writeOperationsLimiter); // Remove simulcast destination
+app.post('/api/v1/livestreams/:id/reschedule', writeOperationsLimiter); // Reschedule livestream
+app.post('/api/v1/livestreams/:id/cancel', writeOperationsLimiter); // Cancel scheduled livestream
+app.post('/api/v1/livestreams/:id/invites', writeOperationsLimiter); // Create invite code
+app.delete('/api/v1/livestreams/:id/invites/:inviteId', writeOperationsLimiter); // Revoke invite code
+app.post('/api/v1/livestreams/:id/role-invites', writeOperationsLimiter); // Invite co-host/moderator
+app.delete('/api/v1/livestreams/:id/role-invites/:userId', writeOperationsLimiter); // Revoke role invite
+app.post('/api/v1/livestreams/:id/participants/:userId/kick', writeOperationsLimiter); // Kick participant
+app.post('/api/v1/livestreams/:id/participants/:userId/mute', writeOperationsLimiter); // Mute participant
+app.patch('/api/v1/livestreams/:id/participants/:userId', writeOperationsLimiter); // Update participant permissions
+app.post('/api/v1/livestreams/:id/bans', writeOperationsLimiter); // Ban user
+app.delete('/api/v1/livestreams/:id/bans/:userId', writeOperationsLimiter); // Unban user
 
 // Mount routes
 app.use('/api/v1/livestreams', livestreamRoutes);
 app.use('/api/v1/livestreams', stateRoutes); // State routes for /livestreams/:id/state and /livestreams/:id/events
 app.use('/api/v1/webhooks', webhookRoutes);
+app.use('/api/v1/creators', creatorRoutes);
+app.use('/api/v1/webhook-subscriptions', webhookSubscriptionRoutes);
+app.use('/api/v1/admin', adminRoutes);
 
 // 404 handler for undefined routes
 app.use((req: Request, res: Response) => {
@@ -228,8 +358,12 @@ app.use((req: Request, res: Response) => {
 // ===========================================
 
 app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  // Log error for debugging
-  console.error('Error:', err);
+  // Log error for debugging (expected client errors at warn level)
+  if (err instanceof AppError && err.statusCode < 500) {
+    log.warn(err.message, { error: err.constructor.name, statusCode: err.statusCode });
+  } else {
+    log.error('Unhandled error', { error: err });
+  }
 
   // Handle custom application errors
   if (err instanceof AppError) {
@@ -268,72 +402,100 @@ async function startServer() {
   try {
     // Test database connection
     await databaseService.connect();
-    console.log('✓ Database connected successfully');
+    log.info('Database connected successfully');
 
     // Start webhook worker (for processing LiveKit webhooks from queue)
     startWebhookWorker();
-    console.log('✓ Webhook worker started');
+    log.info('Webhook worker started');
+
+    // Start scheduled start worker (starts SCHEDULED livestreams at scheduledStartAt)
+    startScheduledStartWorker();
+    log.info('Scheduled start worker started');
+
+    // Start webhook delivery worker (sends orchestrator events to subscribed services)
+    startWebhookDeliveryWorker();
+    log.info('Webhook delivery worker started');
 
     // Start webhook cleanup job (removes expired webhook records)
     startCleanupJob();
-    console.log('✓ Webhook cleanup job started');
+    log.info('Webhook cleanup job started');
 
     // Start livestream reconciliation job (syncs database with LiveKit state)
     startReconciliationJob();
-    console.log('✓ Livestream reconciliation job started');
+    log.info('Livestream reconciliation job started');
+
+    // Start viewer count sampler job (records viewer count history for charts)
+    startViewerCountSamplerJob();
+    log.info('Viewer count sampler job started');
 
     // Start Express server
     app.listen(PORT, () => {
-      console.log('===========================================');
-      console.log('  Livestream Orchestrator API');
-      console.log('===========================================');
-      console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-      console.log(`Server running on: http://localhost:${PORT}`);
-      console.log(`Health check: http://localhost:${PORT}/health`);
-      console.log(`API Base URL: http://localhost:${PORT}/api/v1`);
-      console.log('===========================================');
-      console.log('Redis URL:', process.env.REDIS_URL || 'redis://localhost:6379');
-      console.log('Webhook queue concurrency:', process.env.WEBHOOK_QUEUE_CONCURRENCY || '10');
-      console.log('===========================================');
+      log.info(`Livestream Orchestrator API running on http://localhost:${PORT}`, {
+        environment: process.env.NODE_ENV || 'development',
+        port: Number(PORT),
+        healthCheck: `http://localhost:${PORT}/health`,
+        metrics: `http://localhost:${PORT}/metrics`,
+        apiBaseUrl: `http://localhost:${PORT}/api/v1`,
+        redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+        webhookQueueConcurrency: process.env.WEBHOOK_QUEUE_CONCURRENCY || '10',
+      });
     });
   } catch (error) {
-    console.error('Failed to start server:', error);
+    log.error('Failed to start server', { error });
     process.exit(1);
   }
 }
 
 // Graceful shutdown handler
 async function shutdown() {
-  console.log('\nShutting down gracefully...');
+  log.info('Shutting down gracefully...');
 
   try {
     // Stop cleanup jobs first
     stopCleanupJob();
-    console.log('✓ Webhook cleanup job stopped');
+    log.info('Webhook cleanup job stopped');
 
     stopReconciliationJob();
-    console.log('✓ Livestream reconciliation job stopped');
+    log.info('Livestream reconciliation job stopped');
+
+    stopViewerCountSamplerJob();
+    log.info('Viewer count sampler job stopped');
+
+    // Stop scheduled start worker (wait for in-flight starts to complete)
+    await stopScheduledStartWorker();
+    log.info('Scheduled start worker stopped');
+
+    // Stop webhook delivery worker (wait for in-flight deliveries to complete)
+    await stopWebhookDeliveryWorker();
+    log.info('Webhook delivery worker stopped');
 
     // Stop webhook worker (wait for in-flight jobs to complete)
     await stopWebhookWorker();
-    console.log('✓ Webhook worker stopped');
+    log.info('Webhook worker stopped');
 
     // Shutdown state service (close SSE connections and Redis)
     await stateService.shutdown();
-    console.log('✓ State service shutdown');
+    log.info('State service shutdown');
+
+    // Shutdown waiting room service (close Redis)
+    await waitingRoomService.shutdown();
+    log.info('Waiting room service shutdown');
 
     // Shutdown queue service
     await queueService.shutdown();
-    console.log('✓ Queue service shutdown');
+    log.info('Queue service shutdown');
 
     // Disconnect from database
     await databaseService.disconnect();
-    console.log('✓ Database disconnected');
+    log.info('Database disconnected');
+
+    // Flush pending spans
+    await tracingService.shutdown();
 
-    console.log('Shutdown complete');
+    log.info('Shutdown complete');
     process.exit(0);
   } catch (error) {
-    console.error('Error during shutdown:', error);
+    log.error('Error during shutdown', { error });
     process.exit(1);
   }
 }
@@ -15,7 +15,12 @@
 
 import { livekitService } from '../services/livekit.service.js';
 import { databaseService } from '../services/database.service.js';
-import { stateService } from '../services/state.service.js';
+import { livestreamService } from '../services/livestream.service.js';
+import { livestreamTransitionService } from '../services/livestream-transition.service.js';
+import { metricsService } from '../services/metrics.service.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Reconciliation' });
 
 // Reconciliation interval in minutes (default: 10 minutes)
 const RECONCILIATION_INTERVAL_MINUTES =
@@ -45,9 +50,10 @@ export async function runReconciliation(): Promise<ReconciliationStats> {
     participantsUpdated: 0,
     errors: 0,
   };
+  const startedAt = Date.now();
 
   try {
-    console.log('[Reconciliation] Starting livestream reconciliation...');
+    log.info('Starting livestream reconciliation...');
 
     // 1. Get all LIVE livestreams from database
     const liveLivestreams = await databaseService.listLivestreams({
@@ -56,21 +62,17 @@ export async function runReconciliation(): Promise<ReconciliationStats> {
     stats.totalLiveLivestreams = liveLivestreams.length;
 
     if (liveLivestreams.length === 0) {
-      console.log('[Reconciliation] No LIVE livestreams found in database');
+      log.info('No LIVE livestreams found in database');
       return stats;
     }
 
-    console.log(
-      `[Reconciliation] Found ${liveLivestreams.length} LIVE livestreams in database`
-    );
+    log.info(`Found ${liveLivestreams.length} LIVE livestreams in database`);
 
     // 2. Get all active rooms from LiveKit
     const liveKitRooms = await livekitService.listRooms();
     const liveKitRoomNames = new Set(liveKitRooms.map((room) => room.name));
 
-    console.log(
-      `[Reconciliation] Found ${liveKitRooms.length} active rooms in LiveKit`
-    );
+    log.info(`Found ${liveKitRooms.length} active rooms in LiveKit`);
 
     // 3. Find stale livestreams (marked LIVE but room doesn't exist in LiveKit)
     const staleLivestreams = liveLivestreams.filter(
@@ -79,92 +81,54 @@ export async function runReconciliation(): Promise<ReconciliationStats> {
     stats.staleLivestreams = staleLivestreams.length;
 
     if (staleLivestreams.length === 0) {
-      console.log('[Reconciliation] No stale livestreams detected. All in sync.');
+      log.info('No stale livestreams detected. All in sync.');
       return stats;
     }
 
-    console.log(
-      `[Reconciliation] Found ${staleLivestreams.length} stale livestreams to reconcile`
-    );
+    log.info(`Found ${staleLivestreams.length} stale livestreams to reconcile`);
 
     // 4. Reconcile each stale livestream
     for (const livestream of staleLivestreams) {
       try {
-        console.log(
-          `[Reconciliation] Reconciling livestream ${livestream.id} (room: ${livestream.roomName})`
-        );
-
-        // Get all active participants
-        const activeParticipants = await databaseService.listParticipants({
-          livestreamId: livestream.id,
-          status: 'JOINED',
-        });
-
-        console.log(
-          `[Reconciliation] Found ${activeParticipants.length} active participants to mark as LEFT`
-        );
-
-        // Mark each participant as LEFT using SID-based method (transaction-safe)
-        let participantUpdateCount = 0;
-        for (const participant of activeParticipants) {
-          if (participant.livekitParticipantSid) {
-            const updated = await databaseService.markParticipantAsLeftBySid(
-              participant.livekitParticipantSid
-            );
-            if (updated) {
-              participantUpdateCount++;
-            }
-          } else {
-            // Fallback for participants without LiveKit SID (shouldn't happen in normal flow)
-            console.warn(
-              `[Reconciliation] Participant ${participant.id} missing livekitParticipantSid`
-            );
-          }
-        }
-
-        stats.participantsUpdated += participantUpdateCount;
-        console.log(
-          `[Reconciliation] Marked ${participantUpdateCount} participants as LEFT`
-        );
+        log.info(`Reconciling livestream ${livestream.id} (room: ${livestream.roomName})`);
 
         // Update livestream status to ENDED
-        await databaseService.updateLivestream(livestream.id, {
-          status: 'ENDED',
-          endedAt: new Date(),
-        });
-        console.log(
-          `[Reconciliation] Updated livestream ${livestream.id} status to ENDED`
+        await livestreamTransitionService.transition(
+          livestream,
+          'ENDED',
+          { source: 'RECONCILIATION', reason: 'LiveKit room no longer exists' },
+          { endedAt: new Date() }
         );
-
-        // Cleanup state and broadcast SSE event (closes connections, updates Redis)
-        await stateService.handleRoomEnded(livestream.id);
-        console.log(
-          `[Reconciliation] Cleaned up state for livestream ${livestream.id}`
+        log.info(`Updated livestream ${livestream.id} status to ENDED`);
+
+        // Mark participants as left (publishing participant.left), clean up state
+        // and broadcast SSE event (closes connections, updates Redis)
+        const participantsLeft = await livestreamService.releaseEndedLivestream(livestream);
+        stats.participantsUpdated += participantsLeft.length;
+        log.info(
+          `Marked ${participantsLeft.length} participants as LEFT and cleaned up state for livestream ${livestream.id}`
         );
 
-        console.log(
-          `[Reconciliation] Successfully reconciled livestream ${livestream.id}`
-        );
+        log.info(`Successfully reconciled livestream ${livestream.id}`);
       } catch (error) {
         stats.errors++;
-        console.error(
-          `[Reconciliation] Error reconciling livestream ${livestream.id}:`,
-          error
-        );
+        log.error(`Error reconciling livestream ${livestream.id}`, { error });
         // Continue with next livestream (don't let one error stop entire job)
       }
     }
 
     // Log final summary
-    console.log(
-      `[Reconciliation] Completed. Stats: ${stats.staleLivestreams} stale livestreams reconciled, ${stats.participantsUpdated} participants updated, ${stats.errors} errors`
+    log.info(
+      `Completed. Stats: ${stats.staleLivestreams} stale livestreams reconciled, ${stats.participantsUpdated} participants updated, ${stats.errors} errors`
     );
 
     return stats;
   } catch (error) {
-    console.error('[Reconciliation] Fatal error during reconciliation:', error);
+    log.error('Fatal error during reconciliation', { error });
     stats.errors++;
     return stats;
+  } finally {
+    metricsService.recordReconciliation(stats, (Date.now() - startedAt) / 1000);
   }
 }
 
@@ -172,7 +136,7 @@ export async function runReconciliation(): Promise<ReconciliationStats> {
  * Start the periodic reconciliation job
  */
 export function startReconciliationJob(): void {
-  console.log('[Reconciliation] Starting periodic livestream reconciliation job...');
+  log.info('Starting periodic livestream reconciliation job...');
 
   // Run immediately on startup
   runReconciliation();
@@ -182,9 +146,7 @@ export function startReconciliationJob(): void {
     runReconciliation();
   }, RECONCILIATION_INTERVAL_MS);
 
-  console.log(
-    `[Reconciliation] Job started (runs every ${RECONCILIATION_INTERVAL_MINUTES} minutes)`
-  );
+  log.info(`Job started (runs every ${RECONCILIATION_INTERVAL_MINUTES} minutes)`);
 }
 
 /**
@@ -194,6 +156,6 @@ export function stopReconciliationJob(): void {
   if (reconciliationTimer) {
     clearInterval(reconciliationTimer);
     reconciliationTimer = null;
-    console.log('[Reconciliation] Livestream reconciliation job stopped');
+    log.info('Livestream reconciliation job stopped');
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * Viewer Count Sampler Job
+ * Periodically records the concurrent viewers of every LIVE livestream
+ *
+ * Purpose: Keep a viewer count history for charts (the Redis stream state only has the current count)
+ * Frequency: Runs every 30 seconds (configurable via VIEWER_COUNT_SAMPLE_INTERVAL_SECONDS)
+ * Source: Redis stream state, or JOINED participants in the database when the state is missing
+ */
+
+import { databaseService } from '../services/database.service.js';
+import { stateService } from '../services/state.service.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Viewer Sampler' });
+
+// Sampling interval in seconds (default: 30 seconds)
+const SAMPLE_INTERVAL_SECONDS =
+  parseInt(process.env.VIEWER_COUNT_SAMPLE_INTERVAL_SECONDS || '30', 10);
+const SAMPLE_INTERVAL_MS = SAMPLE_INTERVAL_SECONDS * 1000;
+
+let samplerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Record one viewer count sample per LIVE livestream
+ * @returns Number of samples recorded
+ */
+export async function runSampling(): Promise<number> {
+  try {
+    const liveLivestreams = await databaseService.listLivestreams({ status: 'LIVE' });
+    if (liveLivestreams.length === 0) {
+      return 0;
+    }
+
+    const sampledAt = new Date();
+    const samples = await Promise.all(
+      liveLivestreams.map(async livestream => {
+        const state = await stateService.getState(livestream.id);
+        const viewerCount =
+          state?.viewerCount ?? (await databaseService.countActiveParticipants(livestream.id));
+
+        return { livestreamId: livestream.id, viewerCount, sampledAt };
+      })
+    );
+
+    return await databaseService.createViewerCountSamples(samples);
+  } catch (error) {
+    log.error('Error during viewer count sampling', { error });
+    return 0;
+  }
+}
+
+/**
+ * Start the periodic sampling job
+ */
+export function startViewerCountSamplerJob(): void {
+  log.info('Starting periodic viewer count sampling job...');
+
+  samplerTimer = setInterval(() => {
+    runSampling();
+  }, SAMPLE_INTERVAL_MS);
+
+  log.info(`Job started (runs every ${SAMPLE_INTERVAL_SECONDS} seconds)`);
+}
+
+/**
+ * Stop the sampling job gracefully
+ */
+export function stopViewerCountSamplerJob(): void {
+  if (samplerTimer) {
+    clearInterval(samplerTimer);
+    samplerTimer = null;
+    log.info('Viewer count sampling job stopped');
+  }
+}
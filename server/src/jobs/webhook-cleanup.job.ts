@@ -2,16 +2,23 @@
  * Webhook Cleanup Job
  * Periodically removes expired webhook records from the database
  *
- * Purpose: Prevent unbounded growth of webhook_events table
+ * Purpose: Prevent unbounded growth of webhook_events and webhook_deliveries tables
  * Frequency: Runs every hour
- * Retention: Keeps webhooks for 24 hours (configurable via expiresAt)
+ * Retention: Keeps webhooks for 24 hours (configurable via expiresAt), finished outbound
+ * webhook deliveries for 30 days
  */
 
 import { databaseService } from '../services/database.service.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Cleanup' });
 
 // Cleanup interval in milliseconds (1 hour)
 const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
 
+// Delivery log retention in milliseconds (30 days)
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
 let cleanupTimer: NodeJS.Timeout | null = null;
 
 /**
@@ -23,12 +30,20 @@ export async function runCleanup(): Promise<number> {
     const deletedCount = await databaseService.cleanupOldWebhooks();
 
     if (deletedCount > 0) {
-      console.log(`[Cleanup] Removed ${deletedCount} expired webhook records`);
+      log.info(`Removed ${deletedCount} expired webhook records`);
+    }
+
+    const deletedDeliveries = await databaseService.cleanupOldWebhookDeliveries(
+      new Date(Date.now() - DELIVERY_RETENTION_MS)
+    );
+
+    if (deletedDeliveries > 0) {
+      log.info(`Removed ${deletedDeliveries} old webhook deliveries`);
     }
 
     return deletedCount;
   } catch (error) {
-    console.error('[Cleanup] Error during webhook cleanup:', error);
+    log.error('Error during webhook cleanup', { error });
     return 0;
   }
 }
@@ -37,7 +52,7 @@ export async function runCleanup(): Promise<number> {
  * Start the periodic cleanup job
  */
 export function startCleanupJob(): void {
-  console.log('[Cleanup] Starting periodic webhook cleanup job...');
+  log.info('Starting periodic webhook cleanup job...');
 
   // Run immediately on startup
   runCleanup();
@@ -47,7 +62,7 @@ export function startCleanupJob(): void {
     runCleanup();
   }, CLEANUP_INTERVAL_MS);
 
-  console.log(`[Cleanup] Webhook cleanup job started (runs every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes)`);
+  log.info(`Webhook cleanup job started (runs every ${CLEANUP_INTERVAL_MS / 1000 / 60} minutes)`);
 }
 
 /**
@@ -57,6 +72,6 @@ export function stopCleanupJob(): void {
   if (cleanupTimer) {
     clearInterval(cleanupTimer);
     cleanupTimer = null;
-    console.log('[Cleanup] Webhook cleanup job stopped');
+    log.info('Webhook cleanup job stopped');
   }
 }
@@ -0,0 +1,105 @@
+/**
+ * Authentication Middleware
+ * Resolves the caller's identity and attaches it to `req.user`
+ *
+ * Accepted credentials:
+ * - Authorization: Bearer <jwt>      (end users)
+ * - X-API-Key: <key>                 (trusted services)
+ *   X-On-Behalf-Of: <userId>         (optional, user the service acts for)
+ *
+ * Route handlers must read identity from `req.user`, never from the request body.
+ * Service-only endpoints (e.g. webhook subscriptions) use requireApiKey.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authService } from '../services/auth.service.js';
+import type { AuthenticatedUser } from '../types/auth.types.js';
+import { AuthenticationError, AuthorizationError } from '../utils/errors.js';
+
+/**
+ * Resolve credentials from the request, if any were presented
+ * @returns The authenticated user, or null when no credentials were sent
+ */
+async function resolveUser(req: Request): Promise<AuthenticatedUser | null> {
+  const apiKey = req.header('x-api-key');
+  if (apiKey) {
+    return authService.verifyApiKey(apiKey, req.header('x-on-behalf-of'));
+  }
+
+  const authHeader = req.header('authorization');
+  if (authHeader) {
+    const [scheme, token] = authHeader.split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new AuthenticationError('Authorization header must use the Bearer scheme');
+    }
+    return authService.verifyBearerToken(token);
+  }
+
+  return null;
+}
+
+/**
+ * Attach `req.user` when credentials are presented, but allow anonymous callers
+ * Invalid credentials are still rejected (401)
+ */
+export async function optionalAuth(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = await resolveUser(req);
+    if (user) {
+      req.user = user;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require an authenticated caller (401 otherwise)
+ */
+export async function requireAuth(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = await resolveUser(req);
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require a trusted service caller (X-API-Key) - 401 without credentials, 403 for end users
+ */
+export async function requireApiKey(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = await resolveUser(req);
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    if (user.method !== 'api_key') {
+      throw new AuthorizationError('This endpoint is only available to services (X-API-Key)');
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Metrics Middleware
+ * Records the latency of every HTTP request in the Prometheus metrics
+ *
+ * Requests are labelled with the matched route pattern (e.g. /api/v1/livestreams/:id),
+ * not the raw path, so IDs do not create new series. Requests that match no route
+ * are labelled "unmatched".
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { metricsService } from '../services/metrics.service.js';
+
+/**
+ * Get the route pattern a request matched
+ * Errors passed to next() leave the router, which resets req.baseUrl - the mount path
+ * is then recovered from the URL (route patterns have a fixed number of segments)
+ */
+export function getRouteLabel(req: Request): string {
+  if (!req.route) {
+    return 'unmatched';
+  }
+
+  const routePath: string = req.route.path;
+
+  if (req.baseUrl) {
+    return `${req.baseUrl}${routePath}`;
+  }
+
+  const segments = req.originalUrl.split('?')[0]!.split('/').filter(Boolean);
+  const routeSegments = routePath.split('/').filter(Boolean).length;
+  const mountPath = segments.slice(0, segments.length - routeSegments).join('/');
+
+  return mountPath ? `/${mountPath}${routePath}` : routePath;
+}
+
+/**
+ * Observe the request duration once the response is finished
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const durationSeconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+    metricsService.observeHttpRequest(
+      req.method,
+      getRouteLabel(req),
+      res.statusCode,
+      durationSeconds
+    );
+  });
+
+  next();
+}
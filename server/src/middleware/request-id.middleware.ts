@@ -0,0 +1,44 @@
+/**
+ * Request ID Middleware
+ * Gives every request an ID for log correlation and runs the rest of the request in its context
+ *
+ * - Accepts the caller's X-Request-Id header (e.g. from nginx or another service) if it is valid,
+ *   otherwise generates a UUID
+ * - Echoes the ID in the X-Request-Id response header
+ * - Logs every request once the response is finished
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger.js';
+import { runWithRequestId } from '../utils/request-context.js';
+
+const log = logger.child({ component: 'HTTP' });
+
+// Accepted incoming request IDs (prevents log injection and oversized values)
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Assign the request ID and log the request when it completes
+ */
+export function requestId(req: Request, res: Response, next: NextFunction): void {
+  const incomingId = req.header('x-request-id');
+  const id = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+  const path = req.originalUrl.split('?')[0]; // Query strings may hold invite codes
+  const startedAt = Date.now();
+
+  res.setHeader('X-Request-Id', id);
+
+  // 'finish' is emitted outside the request context - pass the ID explicitly
+  res.on('finish', () => {
+    log.info(`${req.method} ${path} ${res.statusCode}`, {
+      requestId: id,
+      method: req.method,
+      path,
+      statusCode: res.statusCode,
+      durationMs: Date.now() - startedAt,
+    });
+  });
+
+  runWithRequestId(id, next);
+}
@@ -0,0 +1,51 @@
+/**
+ * Tracing Middleware
+ * Runs every HTTP request in an OpenTelemetry server span
+ *
+ * Continues the caller's trace when a W3C traceparent header is sent. The span is
+ * named after the matched route pattern (e.g. GET /api/v1/livestreams/:id/join)
+ * once the response is closed (finished or aborted by the client, e.g. SSE streams).
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { tracingService } from '../services/tracing.service.js';
+import { getRouteLabel } from './metrics.middleware.js';
+import { getRequestId } from '../utils/request-context.js';
+
+/**
+ * Start the request span and end it when the response is closed
+ */
+export function httpTracing(req: Request, res: Response, next: NextFunction): void {
+  const parentContext = propagation.extract(context.active(), req.headers);
+  const span = tracingService.getTracer().startSpan(
+    req.method,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        'http.request.method': req.method,
+        'url.path': req.originalUrl.split('?')[0], // Query strings may hold invite codes
+        'request.id': getRequestId(),
+      },
+    },
+    parentContext
+  );
+
+  res.on('close', () => {
+    const route = getRouteLabel(req);
+
+    span.updateName(`${req.method} ${route}`);
+    span.setAttributes({
+      'http.route': route,
+      'http.response.status_code': res.statusCode,
+    });
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    } else if (!res.writableFinished) {
+      span.addEvent('connection closed by client');
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parentContext, span), next);
+}
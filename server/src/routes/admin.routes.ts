@@ -0,0 +1,137 @@
+/**
+ * Admin API Routes
+ * Handles HTTP endpoints for operating the orchestrator (LiveKit webhook dead-letter queue)
+ *
+ * Authentication: Required on every route - services only (X-API-Key)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { webhookDeadLetterService } from '../services/webhook-dead-letter.service.js';
+import { requireApiKey } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+router.use(requireApiKey);
+
+/**
+ * GET /api/v1/admin/webhooks/dead-letter
+ * List LiveKit webhooks that failed every processing attempt (newest first)
+ *
+ * Query parameters:
+ * - offset: Number of webhooks to skip (default 0)
+ * - limit: Maximum number of webhooks (default 50, max 200)
+ */
+router.get('/webhooks/dead-letter', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { offset, limit } = req.query;
+
+    const webhooks = await webhookDeadLetterService.listFailedWebhooks({
+      offset: offset ? parseInt(offset as string, 10) : undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: webhooks,
+      count: webhooks.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/admin/webhooks/dead-letter/replay
+ * Re-queue every dead-lettered webhook for processing
+ */
+router.post('/webhooks/dead-letter/replay', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await webhookDeadLetterService.replayAllFailedWebhooks();
+
+    res.status(202).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/admin/webhooks/dead-letter
+ * Discard every dead-lettered webhook
+ */
+router.delete('/webhooks/dead-letter', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const discarded = await webhookDeadLetterService.discardAllFailedWebhooks();
+
+    res.status(200).json({
+      success: true,
+      data: { discarded },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/admin/webhooks/dead-letter/:webhookId
+ * Get a dead-lettered webhook with the error of its last attempt
+ */
+router.get('/webhooks/dead-letter/:webhookId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { webhookId } = req.params;
+
+    const webhook = await webhookDeadLetterService.getFailedWebhook(webhookId!);
+
+    res.status(200).json({
+      success: true,
+      data: webhook,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/admin/webhooks/dead-letter/:webhookId/replay
+ * Re-queue a dead-lettered webhook for processing (its processing state is reset)
+ */
+router.post(
+  '/webhooks/dead-letter/:webhookId/replay',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { webhookId } = req.params;
+
+      const jobId = await webhookDeadLetterService.replayFailedWebhook(webhookId!);
+
+      res.status(202).json({
+        success: true,
+        data: { webhookId, jobId },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/admin/webhooks/dead-letter/:webhookId
+ * Discard a dead-lettered webhook without processing it
+ */
+router.delete('/webhooks/dead-letter/:webhookId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { webhookId } = req.params;
+
+    await webhookDeadLetterService.discardFailedWebhook(webhookId!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Failed webhook discarded successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
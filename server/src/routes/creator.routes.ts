@@ -0,0 +1,37 @@
+/**
+ * Creator API Routes
+ * Handles HTTP endpoints for creator dashboards
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { creatorService } from '../services/creator.service.js';
+import { requireAuth } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+/**
+ * GET /api/v1/creators/:userId/summary
+ * Get totals, top streams and weekly trends across all livestreams of a creator
+ * Query: weeks (number of weeks of trends, default 12)
+ *
+ * Authentication: Required - only the creator can see their summary
+ */
+router.get('/:userId/summary', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId } = req.params;
+    const { weeks } = req.query;
+
+    const summary = await creatorService.getSummary(userId!, req.user!.id, {
+      weeks: weeks ? parseInt(weeks as string, 10) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -5,10 +5,34 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { livestreamService } from '../services/livestream.service.js';
+import { moderationService } from '../services/moderation.service.js';
+import { inviteService } from '../services/invite.service.js';
+import { recordingService } from '../services/recording.service.js';
+import { ingressService } from '../services/ingress.service.js';
+import { simulcastService } from '../services/simulcast.service.js';
+import { chatService } from '../services/chat.service.js';
+import { reactionService } from '../services/reaction.service.js';
+import { pollService } from '../services/poll.service.js';
+import { analyticsService } from '../services/analytics.service.js';
+import { livestreamAccessService } from '../services/livestream-access.service.js';
+import { optionalAuth, requireAuth } from '../middleware/auth.middleware.js';
 import type {
+  BanParticipantRequest,
+  CreateIngressRequest,
+  CreateInviteRequest,
   CreateLivestreamRequest,
+  CreatePollRequest,
+  CreateStreamDestinationRequest,
   JoinLivestreamRequest,
-  LeaveLivestreamRequest
+  LivestreamVisibility,
+  MuteParticipantRequest,
+  ParticipantRole,
+  RescheduleLivestreamRequest,
+  RoleInviteRequest,
+  SendChatMessageRequest,
+  SendReactionRequest,
+  UpdateParticipantPermissionsRequest,
+  VotePollRequest
 } from '../types/livestream.types.js';
 
 const router = Router();
@@ -16,11 +40,19 @@ const router = Router();
 /**
  * POST /api/v1/livestreams
  * Create a new livestream
+ *
+ * Authentication: Required - the authenticated user becomes the creator (createdBy)
+ *
+ * Optional "scheduledStartAt" (ISO 8601, future) creates a SCHEDULED livestream
+ * that goes LIVE automatically at that time instead of immediately.
+ *
+ * Optional "visibility": PUBLIC (default), UNLISTED (not listed, joinable by ID) or
+ * PRIVATE (requires "passcode" and/or "allowedUserIds" to join).
  */
-router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const requestData: CreateLivestreamRequest = req.body;
-    const livestream = await livestreamService.createLivestream(requestData);
+    const livestream = await livestreamService.createLivestream(requestData, req.user!.id);
 
     res.status(201).json({
       success: true,
@@ -33,20 +65,30 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
 
 /**
  * GET /api/v1/livestreams
- * List all livestreams with optional filters
+ * List livestreams with optional filters
+ *
+ * Authentication: Optional - only PUBLIC livestreams are listed, unless an
+ * authenticated caller lists their own (createdBy = caller)
+ *
+ * Query parameters:
+ * - status: Filter by status
+ * - createdBy: Filter by creator
+ * - visibility: Filter by visibility (UNLISTED/PRIVATE require createdBy = caller)
+ * - limit / offset: Pagination
  */
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { status, createdBy, limit, offset } = req.query;
+    const { status, createdBy, visibility, limit, offset } = req.query;
 
     const filters = {
       status: status as 'SCHEDULED' | 'LIVE' | 'ENDED' | 'ERROR' | undefined,
       createdBy: createdBy as string | undefined,
+      visibility: visibility as LivestreamVisibility | undefined,
       limit: limit ? parseInt(limit as string, 10) : undefined,
       offset: offset ? parseInt(offset as string, 10) : undefined,
     };
 
-    const livestreams = await livestreamService.listLivestreams(filters);
+    const livestreams = await livestreamService.listLivestreams(filters, req.user?.id);
 
     res.status(200).json({
       success: true,
@@ -85,24 +127,40 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+/**
+ * POST /api/v1/livestreams/:id/end
+ * End a running livestream (disconnects everyone, status becomes ENDED)
+ * The livestream remains queryable afterwards
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can end their livestream
+ */
+router.post('/:id/end', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const livestream = await livestreamService.endLivestream(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Livestream ended successfully',
+      data: livestream,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * DELETE /api/v1/livestreams/:id
- * Delete a livestream (soft delete - sets status to ENDED)
+ * Delete a livestream (soft delete - ends it if needed, then hides it from the API)
  *
+ * Authentication: Required
  * Authorization: Only the creator can delete their livestream
- *
- * Request body:
- * {
- *   "requestingUserId": "user-id-123"
- * }
- *
- * Note: In a production app, requestingUserId would come from
- * authentication middleware (JWT token, session, etc.)
  */
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+router.delete('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { id } = req.params;
-    const { requestingUserId } = req.body;
 
     // Validate id is provided
     if (!id) {
@@ -115,18 +173,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction): P
       return;
     }
 
-    // Validate requestingUserId is provided
-    if (!requestingUserId || typeof requestingUserId !== 'string') {
-      res.status(400).json({
-        success: false,
-        error: 'ValidationError',
-        message: 'requestingUserId is required in request body',
-        statusCode: 400,
-      });
-      return;
-    }
-
-    const livestream = await livestreamService.deleteLivestream(id, requestingUserId);
+    const livestream = await livestreamService.deleteLivestream(id, req.user!.id);
 
     res.status(200).json({
       success: true,
@@ -138,26 +185,104 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction): P
   }
 });
 
+/**
+ * POST /api/v1/livestreams/:id/reschedule
+ * Move a SCHEDULED livestream to a new start time
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can reschedule their livestream
+ *
+ * Request body:
+ * {
+ *   "scheduledStartAt": "2025-12-01T18:00:00Z"
+ * }
+ */
+router.post('/:id/reschedule', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: RescheduleLivestreamRequest = req.body;
+
+    const livestream = await livestreamService.rescheduleLivestream(id!, req.user!.id, requestData);
+
+    res.status(200).json({
+      success: true,
+      data: livestream,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/cancel
+ * Cancel a SCHEDULED livestream before it goes live (status becomes ENDED)
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can cancel their livestream
+ */
+router.post('/:id/cancel', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const livestream = await livestreamService.cancelScheduledLivestream(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Scheduled livestream cancelled successfully',
+      data: livestream,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/v1/livestreams/:id/join
  * Join a livestream and get an access token
  *
+ * Authentication: Required - the authenticated user is the participant
+ *
  * Request body:
  * {
- *   "userId": "user-id-123",
  *   "displayName": "John Doe",
- *   "role": "VIEWER",  // or "HOST" (only creator can be HOST)
+ *   "role": "VIEWER",  // "HOST" (creator only), "CO_HOST" or "MODERATOR" (requires a role invite)
+ *   "inviteCode": "...", // optional - grants the invite's role (role may then be omitted)
+ *   "passcode": "...",   // PRIVATE livestreams only, unless allowlisted or invited
  *   "metadata": { ... } // optional
  * }
  *
- * Note: In production, userId would come from authentication middleware
+ * If the livestream is full, responds 202 with the user's waiting room position
+ * ({ "queued": true, "position": 3, "queueLength": 5 }). Once admitted (waiting_room_update
+ * SSE event, or GET /:id/queue), call join again with the same body.
  */
-router.post('/:id/join', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/join', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const requestData: JoinLivestreamRequest = req.body;
 
-    const result = await livestreamService.joinLivestream(id!, requestData);
+    const result = await livestreamService.joinLivestream(id!, req.user!.id, requestData);
+
+    res.status('queued' in result ? 202 : 200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/token/refresh
+ * Get a new short-lived access token for the current participant session
+ * Does not create a new participant record - the user must already have joined
+ *
+ * Authentication: Required - the authenticated user is the participant
+ */
+router.post('/:id/token/refresh', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const result = await livestreamService.refreshToken(id!, req.user!.id);
 
     res.status(200).json({
       success: true,
@@ -168,23 +293,59 @@ router.post('/:id/join', async (req: Request, res: Response, next: NextFunction)
   }
 });
 
+/**
+ * GET /api/v1/livestreams/:id/queue
+ * Get the authenticated user's waiting room status (position, or admitted)
+ *
+ * Authentication: Required
+ */
+router.get('/:id/queue', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const status = await livestreamService.getWaitingRoomStatus(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/livestreams/:id/queue
+ * Leave the waiting room (gives up the place in the queue or a reserved slot)
+ *
+ * Authentication: Required
+ */
+router.delete('/:id/queue', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await livestreamService.leaveWaitingRoom(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Left waiting room successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/v1/livestreams/:id/leave
  * Leave a livestream
  *
- * Request body:
- * {
- *   "userId": "user-id-123"
- * }
- *
- * Note: In production, userId would come from authentication middleware
+ * Authentication: Required - the authenticated user is the participant leaving
  */
-router.post('/:id/leave', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/leave', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const requestData: LeaveLivestreamRequest = req.body;
 
-    await livestreamService.leaveLivestream(id!, requestData);
+    await livestreamService.leaveLivestream(id!, req.user!.id);
 
     res.status(200).json({
       success: true,
@@ -201,19 +362,27 @@ router.post('/:id/leave', async (req: Request, res: Response, next: NextFunction
  *
  * Query parameters:
  * - status: Filter by status (JOINED or LEFT)
- * - role: Filter by role (HOST or VIEWER)
+ * - role: Filter by role (HOST, CO_HOST, MODERATOR or VIEWER) - comma-separated for several
  * - limit: Number of results to return
  * - offset: Number of results to skip
+ *
+ * Authentication: Optional - required for the participants of PRIVATE livestreams
  */
-router.get('/:id/participants', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/participants', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { status, role, limit, offset } = req.query;
 
+    await livestreamAccessService.assertCanAccessLivestreamById(
+      id!,
+      req.user?.id,
+      'Participants of this private livestream are not available'
+    );
+
     const filters = {
       livestreamId: id,
       status: status as 'JOINED' | 'LEFT' | undefined,
-      role: role as 'HOST' | 'VIEWER' | undefined,
+      roles: role ? (role as string).split(',').map(r => r.trim() as ParticipantRole) : undefined,
       limit: limit ? parseInt(limit as string, 10) : undefined,
       offset: offset ? parseInt(offset as string, 10) : undefined,
     };
@@ -230,4 +399,771 @@ router.get('/:id/participants', async (req: Request, res: Response, next: NextFu
   }
 });
 
+/**
+ * GET /api/v1/livestreams/:id/invites
+ * List invite codes created for a livestream (codes themselves are not returned)
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can view invites
+ */
+router.get('/:id/invites', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const invites = await inviteService.listInvites(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: invites,
+      count: invites.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/invites
+ * Create a signed invite code to share with guests
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can create invites
+ *
+ * Request body (all optional):
+ * {
+ *   "role": "VIEWER",                        // or "CO_HOST" / "MODERATOR"
+ *   "expiresAt": "2025-12-01T18:00:00Z",
+ *   "maxUses": 10,
+ *   "singleUse": true                        // shorthand for maxUses: 1
+ * }
+ */
+router.post('/:id/invites', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: CreateInviteRequest = req.body ?? {};
+
+    const invite = await inviteService.createInvite(id!, req.user!.id, requestData);
+
+    res.status(201).json({
+      success: true,
+      data: invite,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/livestreams/:id/invites/:inviteId
+ * Revoke an invite code
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can revoke invites
+ */
+router.delete('/:id/invites/:inviteId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, inviteId } = req.params;
+
+    await inviteService.revokeInvite(id!, req.user!.id, inviteId!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invite revoked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/role-invites
+ * List users invited as CO_HOST or MODERATOR
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can view role invites
+ */
+router.get('/:id/role-invites', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const roleInvites = await livestreamService.listRoleInvites(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: roleInvites,
+      count: roleInvites.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/role-invites
+ * Invite a user to join as CO_HOST (can publish) or MODERATOR (can moderate)
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can invite
+ *
+ * Request body:
+ * {
+ *   "userId": "user-456",
+ *   "role": "CO_HOST"  // or "MODERATOR"
+ * }
+ */
+router.post('/:id/role-invites', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: RoleInviteRequest = req.body;
+
+    const roleInvite = await livestreamService.inviteToRole(id!, req.user!.id, requestData);
+
+    res.status(201).json({
+      success: true,
+      data: roleInvite,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/livestreams/:id/role-invites/:userId
+ * Revoke a user's CO_HOST/MODERATOR invite
+ *
+ * Authentication: Required
+ * Authorization: Only the creator can revoke invites
+ */
+router.delete('/:id/role-invites/:userId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+
+    await livestreamService.revokeRoleInvite(id!, req.user!.id, userId!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role invite revoked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/participants/:userId/kick
+ * Remove a participant from a LIVE livestream (they may rejoin unless banned)
+ *
+ * Authentication: Required
+ * Authorization: The creator or a MODERATOR of the livestream
+ */
+router.post('/:id/participants/:userId/kick', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+
+    await moderationService.kickParticipant(id!, req.user!.id, userId!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Participant removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/participants/:userId/mute
+ * Mute (or unmute) a participant's published tracks
+ *
+ * Authentication: Required
+ * Authorization: The creator or a MODERATOR of the livestream
+ *
+ * Request body (optional):
+ * {
+ *   "trackSid": "TR_xxx",  // Omit to mute all audio tracks
+ *   "muted": true          // false to unmute
+ * }
+ */
+router.post('/:id/participants/:userId/mute', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+    const requestData: MuteParticipantRequest = req.body ?? {};
+
+    const result = await moderationService.muteParticipant(id!, req.user!.id, userId!, requestData);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/v1/livestreams/:id/participants/:userId
+ * Update a participant's permissions in the room (e.g. revoke publishing)
+ *
+ * Authentication: Required
+ * Authorization: The creator or a MODERATOR of the livestream
+ *
+ * Request body:
+ * {
+ *   "canPublish": false,
+ *   "canPublishData": false,
+ *   "canSubscribe": true
+ * }
+ */
+router.patch('/:id/participants/:userId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+    const requestData: UpdateParticipantPermissionsRequest = req.body ?? {};
+
+    const result = await moderationService.updateParticipantPermissions(
+      id!,
+      req.user!.id,
+      userId!,
+      requestData
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/bans
+ * List users banned from a livestream
+ *
+ * Authentication: Required
+ * Authorization: The creator or a MODERATOR of the livestream
+ */
+router.get('/:id/bans', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const bans = await moderationService.listBans(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: bans,
+      count: bans.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/bans
+ * Ban a user from a livestream (removes them if currently connected)
+ *
+ * Authentication: Required
+ * Authorization: The creator or a MODERATOR of the livestream
+ *
+ * Request body:
+ * {
+ *   "userId": "user-456",
+ *   "reason": "Spam"  // Optional
+ * }
+ */
+router.post('/:id/bans', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: BanParticipantRequest = req.body;
+
+    const ban = await moderationService.banParticipant(id!, req.user!.id, requestData);
+
+    res.status(201).json({
+      success: true,
+      data: ban,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/livestreams/:id/bans/:userId
+ * Lift a user's ban
+ *
+ * Authentication: Required
+ * Authorization: The creator or a MODERATOR of the livestream
+ */
+router.delete('/:id/bans/:userId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+
+    await moderationService.unbanParticipant(id!, req.user!.id, userId!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Ban removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/chat
+ * Get chat history (oldest first within the page)
+ * Query: before (message ID cursor - from nextCursor), limit (default 50, max 100)
+ *
+ * Authentication: Optional - required for the chat of PRIVATE livestreams
+ */
+router.get('/:id/chat', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { before, limit } = req.query;
+
+    const history = await chatService.getHistory(id!, req.user?.id, {
+      before: before as string | undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: history.messages,
+      count: history.messages.length,
+      nextCursor: history.nextCursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/chat
+ * Send a chat message (broadcast as a chat_message SSE event)
+ * Body: { content }
+ *
+ * Authentication: Required - only JOINED participants can chat
+ */
+router.post('/:id/chat', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: SendChatMessageRequest = req.body ?? {};
+
+    const message = await chatService.sendMessage(id!, req.user!.id, requestData);
+
+    res.status(201).json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/livestreams/:id/chat/:messageId
+ * Delete a chat message (broadcast as a chat_message_deleted SSE event)
+ *
+ * Authentication: Required - creator or moderator
+ */
+router.delete('/:id/chat/:messageId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, messageId } = req.params;
+
+    await chatService.deleteMessage(id!, req.user!.id, messageId!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Chat message deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/reactions
+ * Send an emoji reaction (broadcast in aggregated reaction_burst SSE events)
+ * Body: { emoji }
+ *
+ * Authentication: Required - only JOINED participants can react
+ */
+router.post('/:id/reactions', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: SendReactionRequest = req.body ?? {};
+
+    await reactionService.sendReaction(id!, req.user!.id, requestData);
+
+    res.status(202).json({
+      success: true,
+      message: 'Reaction sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/polls
+ * List polls with results (newest first)
+ *
+ * Authentication: Optional - required for the polls of PRIVATE livestreams (adds myVote)
+ */
+router.get('/:id/polls', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const polls = await pollService.listPolls(id!, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      data: polls,
+      count: polls.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/polls
+ * Create a poll (broadcast as a poll_update SSE event)
+ * Body: { question, options: string[] }
+ *
+ * Authentication: Required - only the creator can create polls
+ */
+router.post('/:id/polls', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: CreatePollRequest = req.body ?? {};
+
+    const poll = await pollService.createPoll(id!, req.user!.id, requestData);
+
+    res.status(201).json({
+      success: true,
+      data: poll,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/polls/:pollId/votes
+ * Vote in an open poll (voting again changes the vote)
+ * Body: { optionIndex }
+ *
+ * Authentication: Required - only JOINED participants can vote
+ */
+router.post('/:id/polls/:pollId/votes', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, pollId } = req.params;
+    const requestData: VotePollRequest = req.body ?? {};
+
+    await pollService.vote(id!, pollId!, req.user!.id, requestData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Vote recorded successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/polls/:pollId/close
+ * Close a poll (final results are broadcast as a poll_update SSE event)
+ *
+ * Authentication: Required - only the creator can close polls
+ */
+router.post('/:id/polls/:pollId/close', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, pollId } = req.params;
+
+    const poll = await pollService.closePoll(id!, pollId!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: poll,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/analytics
+ * Get watch-time and engagement metrics (final once the livestream has ended)
+ *
+ * Authentication: Required - only the creator can see analytics
+ */
+router.get('/:id/analytics', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const analytics = await analyticsService.getAnalytics(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: analytics,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/viewer-series
+ * Get the viewer count history, downsampled for charts
+ * Query: from, to (ISO 8601 - default: the whole broadcast), points (buckets, default 60)
+ *
+ * Authentication: Optional - required for the series of PRIVATE livestreams
+ */
+router.get('/:id/viewer-series', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { from, to, points } = req.query;
+
+    const series = await analyticsService.getViewerCountSeries(id!, req.user?.id, {
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+      points: points ? parseInt(points as string, 10) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: series,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/recordings
+ * List recordings of a livestream (newest first)
+ *
+ * Authentication: Optional - the creator also sees recordings that are in progress or failed,
+ * other users only see COMPLETE recordings
+ */
+router.get('/:id/recordings', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const recordings = await recordingService.listRecordings(id!, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      data: recordings,
+      count: recordings.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/recordings
+ * Start recording a LIVE livestream (LiveKit room composite egress)
+ *
+ * Authentication: Required - only the creator can start a recording
+ */
+router.post('/:id/recordings', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const recording = await recordingService.startRecording(id!, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: recording,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/recordings/:recordingId/stop
+ * Stop a recording (the file is finalized asynchronously)
+ *
+ * Authentication: Required - only the creator can stop a recording
+ */
+router.post('/:id/recordings/:recordingId/stop', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, recordingId } = req.params;
+
+    const recording = await recordingService.stopRecording(id!, req.user!.id, recordingId!);
+
+    res.status(200).json({
+      success: true,
+      data: recording,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/ingress
+ * Create an RTMP or WHIP ingress so the host can publish from OBS or another encoder
+ * Body: { inputType?: 'RTMP' | 'WHIP' } (default: RTMP)
+ *
+ * Authentication: Required - only the creator can create an ingress (the response contains the stream key)
+ */
+router.post('/:id/ingress', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: CreateIngressRequest = req.body ?? {};
+
+    const ingress = await ingressService.createIngress(id!, req.user!.id, requestData);
+
+    res.status(201).json({
+      success: true,
+      data: ingress,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/ingress
+ * Get the ingress of a livestream (stream URL, stream key and publishing state)
+ *
+ * Authentication: Required - only the creator can see the ingress
+ */
+router.get('/:id/ingress', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const ingress = await ingressService.getIngress(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: ingress,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/livestreams/:id/ingress
+ * Delete the ingress of a livestream (the stream key stops working)
+ *
+ * Authentication: Required - only the creator can delete the ingress
+ */
+router.delete('/:id/ingress', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await ingressService.deleteIngress(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Ingress deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/destinations
+ * List simulcast destinations of a livestream (stream keys are never returned)
+ *
+ * Authentication: Required - only the creator can see destinations
+ */
+router.get('/:id/destinations', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const destinations = await simulcastService.listDestinations(id!, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: destinations,
+      count: destinations.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/livestreams/:id/destinations
+ * Add an external RTMP destination the livestream is simulcast to
+ * Body: { name, rtmpUrl, streamKey }
+ *
+ * Pushing starts when the livestream goes LIVE (immediately if it already is)
+ *
+ * Authentication: Required - only the creator can add destinations
+ */
+router.post('/:id/destinations', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: CreateStreamDestinationRequest = req.body;
+
+    const destination = await simulcastService.addDestination(id!, req.user!.id, requestData);
+
+    res.status(201).json({
+      success: true,
+      data: destination,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/livestreams/:id/destinations/:destinationId
+ * Remove a simulcast destination (stops pushing to it)
+ *
+ * Authentication: Required - only the creator can remove destinations
+ */
+router.delete('/:id/destinations/:destinationId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, destinationId } = req.params;
+
+    await simulcastService.removeDestination(id!, req.user!.id, destinationId!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Destination removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/livestreams/:id/history
+ * Get the status transition history of a livestream (oldest first)
+ *
+ * Authentication: Optional - required for the history of PRIVATE livestreams
+ */
+router.get('/:id/history', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await livestreamAccessService.assertCanAccessLivestreamById(
+      id!,
+      req.user?.id,
+      'History of this private livestream is not available'
+    );
+    const history = await livestreamService.getLivestreamHistory(id!);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+      count: history.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,19 +1,26 @@
 /**
  * Stream State API Routes
  * Handles HTTP endpoints for real-time stream state tracking
+ *
+ * Authentication: Optional - required for the state and events of PRIVATE livestreams
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { stateService } from '../services/state.service.js';
+import { livestreamAccessService } from '../services/livestream-access.service.js';
+import { optionalAuth } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
 /**
  * GET /api/v1/livestreams/:id/state
  * Get current state snapshot for a livestream
+ *
+ * Authentication: Optional - required for the state of PRIVATE livestreams
  */
 router.get(
   '/:id/state',
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { id } = req.params;
@@ -28,6 +35,12 @@ router.get(
         return;
       }
 
+      await livestreamAccessService.assertCanAccessLivestreamById(
+        id,
+        req.user?.id,
+        'State of this private livestream is not available'
+      );
+
       const state = await stateService.getState(id);
 
       if (!state) {
@@ -61,6 +74,14 @@ router.get(
  * - room_started: Stream goes live
  * - room_ended: Stream finishes
  * - viewer_count_update: Periodic viewer count changes
+ * - waiting_room_update: Number of waiting and admitted users changed
+ * - destination_update: Simulcast destination status changed
+ * - chat_message / chat_message_deleted: Live chat
+ * - reaction_burst: Aggregated emoji reactions
+ * - poll_update: Poll created, results changed or closed
+ *
+ * Authentication: Optional - events of PRIVATE livestreams are limited to the creator,
+ * allowlisted users, role invite holders and participants
  *
  * Example client usage:
  * ```javascript
@@ -90,6 +111,7 @@ router.get(
  */
 router.get(
   '/:id/events',
+  optionalAuth,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { id } = req.params;
@@ -104,6 +126,13 @@ router.get(
         return;
       }
 
+      // Chat, polls and reactions of PRIVATE livestreams are streamed here too
+      await livestreamAccessService.assertCanAccessLivestreamById(
+        id,
+        req.user?.id,
+        'Events of this private livestream are not available'
+      );
+
       // Check if state exists
       const state = await stateService.getState(id);
       if (!state) {
@@ -0,0 +1,150 @@
+/**
+ * Webhook Subscription API Routes
+ * Handles HTTP endpoints for outbound webhooks (orchestrator events sent to other services)
+ *
+ * Authentication: Required on every route - services only (X-API-Key)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { outboundWebhookService } from '../services/outbound-webhook.service.js';
+import { requireApiKey } from '../middleware/auth.middleware.js';
+import type {
+  CreateWebhookSubscriptionRequest,
+  UpdateWebhookSubscriptionRequest,
+} from '../types/webhook.types.js';
+
+const router = Router();
+
+router.use(requireApiKey);
+
+/**
+ * POST /api/v1/webhook-subscriptions
+ * Register an endpoint for orchestrator events
+ * Body: { url, events, description? }
+ *
+ * The response contains the signing secret - it is not returned again
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const requestData: CreateWebhookSubscriptionRequest = req.body;
+
+    const subscription = await outboundWebhookService.createSubscription(
+      requestData,
+      req.user!.serviceName!
+    );
+
+    res.status(201).json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/webhook-subscriptions
+ * List webhook subscriptions
+ */
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscriptions = await outboundWebhookService.listSubscriptions();
+
+    res.status(200).json({
+      success: true,
+      data: subscriptions,
+      count: subscriptions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/webhook-subscriptions/:id
+ * Get a webhook subscription
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const subscription = await outboundWebhookService.getSubscription(id!);
+
+    res.status(200).json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/v1/webhook-subscriptions/:id
+ * Update a webhook subscription
+ * Body: { url?, events?, description?, active? }
+ */
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const requestData: UpdateWebhookSubscriptionRequest = req.body;
+
+    const subscription = await outboundWebhookService.updateSubscription(id!, requestData);
+
+    res.status(200).json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/webhook-subscriptions/:id
+ * Delete a webhook subscription and its delivery log
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    await outboundWebhookService.deleteSubscription(id!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhook subscription deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/webhook-subscriptions/:id/deliveries
+ * Delivery log of a subscription (newest first)
+ *
+ * Query parameters:
+ * - status: PENDING, DELIVERED or DEAD_LETTERED
+ * - limit: Maximum number of deliveries (default 50, max 200)
+ */
+router.get('/:id/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { status, limit } = req.query;
+
+    const deliveries = await outboundWebhookService.listDeliveries(id!, {
+      status: status as string | undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: deliveries,
+      count: deliveries.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
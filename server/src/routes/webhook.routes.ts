@@ -6,12 +6,16 @@
  * 1. Verify webhook signature
  * 2. Add to Redis queue for async processing
  * 3. Return 200 immediately
- * 4. Worker processes webhook from queue
+ * 4. Worker processes webhook from queue (logged with the webhook request ID)
  */
 
 import { Router, Request, Response } from 'express';
 import { livekitService } from '../services/livekit.service.js';
 import { queueService } from '../services/queue.service.js';
+import { logger } from '../utils/logger.js';
+import { getRequestId } from '../utils/request-context.js';
+
+const log = logger.child({ component: 'Webhook' });
 
 const router = Router();
 
@@ -27,6 +31,8 @@ const router = Router();
  * - participant_left: Participant disconnected from room
  * - room_started: Room became active
  * - room_finished: Room was closed
+ * - egress_started / egress_updated / egress_ended: Recording or simulcast push status changed
+ * - ingress_started / ingress_ended: Encoder started/stopped publishing through an ingress
  *
  * IMPORTANT: Raw body parsing is handled at the app level (index.ts) for all /api/v1/webhooks routes
  *
@@ -40,7 +46,7 @@ router.post('/livekit', async (req: Request, res: Response) => {
     try {
       // Ensure we have a Buffer body
       if (!Buffer.isBuffer(req.body)) {
-        console.error('[Webhook] Body is not a Buffer:', typeof req.body);
+        log.error('Body is not a Buffer', { bodyType: typeof req.body });
         res.status(400).json({
           success: false,
           error: 'BadRequest',
@@ -58,7 +64,7 @@ router.post('/livekit', async (req: Request, res: Response) => {
 
       if (!event) {
         // Invalid signature - reject immediately
-        console.warn('[Webhook] Received webhook with invalid signature');
+        log.warn('Received webhook with invalid signature');
         res.status(401).json({
           success: false,
           error: 'Unauthorized',
@@ -68,13 +74,14 @@ router.post('/livekit', async (req: Request, res: Response) => {
       }
 
       // Webhook is valid - add to queue for processing
-      console.log(`[Webhook] Received ${event.event} event (webhook ID: ${event.id})`);
+      log.info(`Received ${event.event} event (webhook ID: ${event.id})`);
 
       await queueService.addWebhookJob({
         webhookId: event.id,
         event: event.event,
         payload: event,
         receivedAt: new Date().toISOString(),
+        requestId: getRequestId(),
       });
 
       // Respond immediately to LiveKit (they expect a 200 response)
@@ -84,7 +91,7 @@ router.post('/livekit', async (req: Request, res: Response) => {
         message: 'Webhook queued for processing',
       });
     } catch (error) {
-      console.error('[Webhook] Error handling webhook:', error);
+      log.error('Error handling webhook', { error });
 
       // Still return 200 to prevent LiveKit from retrying
       // Worker will handle failed jobs with exponential backoff
@@ -0,0 +1,305 @@
+/**
+ * Analytics Service - Watch-time and engagement metrics per livestream
+ * Metrics are computed from participant sessions (joinedAt / leftAt) and persisted
+ * to LivestreamStats when the livestream ends, since the Redis stream state expires
+ *
+ * Viewers are all participants except the creator
+ */
+
+import { Prisma } from '@prisma/client';
+import { databaseService } from './database.service.js';
+import { livestreamAccessService } from './livestream-access.service.js';
+import type {
+  Livestream,
+  LivestreamAnalyticsResponse,
+  LivestreamStats,
+  RetentionPoint,
+  ViewerCountPoint,
+  ViewerCountSeriesResponse,
+} from '../types/livestream.types.js';
+import { AuthorizationError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Analytics' });
+
+// Number of samples in the retention curve (taken at the middle of equal time buckets)
+const RETENTION_POINTS = 20;
+
+// Viewer count series - number of buckets the window is downsampled to
+const DEFAULT_SERIES_POINTS = 60;
+const MAX_SERIES_POINTS = 500;
+
+interface ViewerSession {
+  userId: string;
+  joinedAt: Date;
+  leftAt: Date | null;
+}
+
+type LivestreamMetrics = Omit<LivestreamAnalyticsResponse, 'livestreamId' | 'final' | 'computedAt'>;
+
+class AnalyticsService {
+  /**
+   * Get analytics of a livestream
+   * ENDED livestreams return the persisted stats (computed on first request if missing),
+   * LIVE livestreams are computed up to now, ERROR ones up to when they failed
+   * Authorization: Only the creator can see analytics
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (must be the creator)
+   */
+  async getAnalytics(
+    livestreamId: string,
+    requestingUserId: string
+  ): Promise<LivestreamAnalyticsResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the livestream creator can see analytics');
+    }
+
+    if (!livestream.startedAt) {
+      throw new ValidationError('Analytics are available once the livestream has started');
+    }
+
+    if (livestream.status === 'ENDED') {
+      const stats =
+        (await databaseService.getLivestreamStats(livestreamId)) ??
+        (await this.saveStats(livestream));
+
+      return this.formatStatsResponse(stats);
+    }
+
+    const sessions = await databaseService.listParticipantSessions(livestreamId);
+
+    return {
+      livestreamId,
+      final: false,
+      ...this.computeMetrics(livestream, sessions, this.getBroadcastEnd(livestream)),
+      computedAt: new Date(),
+    };
+  }
+
+  /**
+   * Get the viewer count history of a livestream, downsampled to equal time buckets
+   * (average and max of the samples recorded by the viewer count sampler job)
+   * The series of PRIVATE livestreams is limited to users with access (see livestreamAccessService)
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (optional)
+   * @param options.from Window start (default: startedAt)
+   * @param options.to Window end (default: endedAt, now while LIVE, or when an ERROR livestream failed)
+   * @param options.points Number of buckets (default 60, max 500)
+   */
+  async getViewerCountSeries(
+    livestreamId: string,
+    requestingUserId: string | undefined,
+    options: { from?: Date; to?: Date; points?: number }
+  ): Promise<ViewerCountSeriesResponse> {
+    const points = options.points ?? DEFAULT_SERIES_POINTS;
+
+    if (!Number.isInteger(points) || points < 1 || points > MAX_SERIES_POINTS) {
+      throw new ValidationError(`points must be between 1 and ${MAX_SERIES_POINTS}`);
+    }
+
+    if (
+      (options.from && isNaN(options.from.getTime())) ||
+      (options.to && isNaN(options.to.getTime()))
+    ) {
+      throw new ValidationError('from and to must be ISO 8601 dates');
+    }
+
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    await livestreamAccessService.assertCanAccessLivestream(
+      livestream,
+      requestingUserId,
+      'Viewer counts of this private livestream are not available'
+    );
+
+    const from = options.from ?? livestream.startedAt ?? livestream.createdAt;
+    const to = options.to ?? this.getBroadcastEnd(livestream);
+
+    if (from >= to) {
+      throw new ValidationError('from must be before to');
+    }
+
+    const samples = await databaseService.listViewerCountSamples(livestreamId, from, to);
+
+    const bucketMs = (to.getTime() - from.getTime()) / points;
+    const buckets = new Map<number, number[]>();
+    for (const sample of samples) {
+      const index = Math.min(
+        Math.floor((sample.sampledAt.getTime() - from.getTime()) / bucketMs),
+        points - 1
+      );
+      const counts = buckets.get(index) ?? [];
+      counts.push(sample.viewerCount);
+      buckets.set(index, counts);
+    }
+
+    const series: ViewerCountPoint[] = Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, counts]) => {
+        const average = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+
+        return {
+          timestamp: new Date(from.getTime() + index * bucketMs),
+          average: Math.round(average * 10) / 10,
+          max: Math.max(...counts),
+        };
+      });
+
+    return {
+      livestreamId,
+      from,
+      to,
+      bucketSeconds: Math.round(bucketMs / 1000),
+      points: series,
+    };
+  }
+
+  /**
+   * Compute and persist the analytics of a livestream that ended (best effort)
+   * Called after all participants have been marked as left
+   */
+  async persistStats(livestreamId: string): Promise<void> {
+    try {
+      const livestream = await databaseService.getLivestreamById(livestreamId);
+      if (!livestream.startedAt) {
+        return;
+      }
+
+      const stats = await this.saveStats(livestream);
+
+      log.info(
+        `Saved stats for livestream ${livestreamId}: ${stats.uniqueViewers} unique viewers, peak ${stats.peakConcurrentViewers}`
+      );
+    } catch (error) {
+      log.error(`Failed to save stats for livestream ${livestreamId}`, { error });
+    }
+  }
+
+  /**
+   * Compute the metrics of an ended livestream and store them
+   */
+  private async saveStats(livestream: Livestream): Promise<LivestreamStats> {
+    const sessions = await databaseService.listParticipantSessions(livestream.id);
+    const metrics = this.computeMetrics(livestream, sessions, this.getBroadcastEnd(livestream));
+
+    return databaseService.upsertLivestreamStats({
+      livestreamId: livestream.id,
+      ...metrics,
+      retention: metrics.retention as unknown as Prisma.InputJsonValue,
+      computedAt: new Date(),
+    });
+  }
+
+  /**
+   * When the broadcast ended: endedAt, now while LIVE, and the last update for a livestream
+   * that failed (ERROR has no endedAt) - same rule as the creator summary
+   */
+  private getBroadcastEnd(livestream: Livestream): Date {
+    if (livestream.endedAt) {
+      return livestream.endedAt;
+    }
+    return livestream.status === 'LIVE' ? new Date() : livestream.updatedAt;
+  }
+
+  /**
+   * Compute metrics from participant sessions between startedAt and end
+   * Sessions still open (no leftAt) are counted until end
+   */
+  private computeMetrics(
+    livestream: Livestream,
+    sessions: ViewerSession[],
+    end: Date
+  ): LivestreamMetrics {
+    const start = livestream.startedAt!.getTime();
+    const endTime = Math.max(end.getTime(), start);
+
+    // Viewer sessions clamped to the broadcast
+    const intervals = sessions
+      .filter(session => session.userId !== livestream.createdBy)
+      .map(session => ({
+        userId: session.userId,
+        from: Math.max(session.joinedAt.getTime(), start),
+        to: Math.min(session.leftAt?.getTime() ?? endTime, endTime),
+      }))
+      .filter(interval => interval.to >= interval.from);
+
+    const uniqueViewers = new Set(intervals.map(interval => interval.userId)).size;
+    const totalWatchTimeMs = intervals.reduce(
+      (sum, interval) => sum + (interval.to - interval.from),
+      0
+    );
+
+    // Peak concurrency - sweep over joins (+1) and leaves (-1), leaves first on ties
+    const changes = intervals
+      .flatMap(interval => [
+        { time: interval.from, delta: 1 },
+        { time: interval.to, delta: -1 },
+      ])
+      .sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+    let concurrent = 0;
+    let peakConcurrentViewers = 0;
+    let peakTime: number | null = null;
+    for (const change of changes) {
+      concurrent += change.delta;
+      if (concurrent > peakConcurrentViewers) {
+        peakConcurrentViewers = concurrent;
+        peakTime = change.time;
+      }
+    }
+
+    // Retention - concurrent viewers at the middle of each time bucket
+    const durationMs = endTime - start;
+    const retention: RetentionPoint[] = [];
+    if (durationMs > 0) {
+      for (let i = 0; i < RETENTION_POINTS; i++) {
+        const time = start + (durationMs * (i + 0.5)) / RETENTION_POINTS;
+        const viewers = intervals.filter(
+          interval => interval.from <= time && interval.to > time
+        ).length;
+
+        retention.push({
+          offsetSeconds: Math.round((time - start) / 1000),
+          viewers,
+          percent: uniqueViewers > 0 ? Math.round((viewers / uniqueViewers) * 100) : 0,
+        });
+      }
+    }
+
+    return {
+      uniqueViewers,
+      totalWatchTimeSeconds: Math.round(totalWatchTimeMs / 1000),
+      averageWatchTimeSeconds:
+        uniqueViewers > 0 ? Math.round(totalWatchTimeMs / uniqueViewers / 1000) : 0,
+      peakConcurrentViewers,
+      timeToPeakSeconds: peakTime !== null ? Math.round((peakTime - start) / 1000) : null,
+      durationSeconds: Math.round(durationMs / 1000),
+      retention,
+    };
+  }
+
+  /**
+   * Format persisted stats for API response
+   */
+  private formatStatsResponse(stats: LivestreamStats): LivestreamAnalyticsResponse {
+    return {
+      livestreamId: stats.livestreamId,
+      final: true,
+      uniqueViewers: stats.uniqueViewers,
+      totalWatchTimeSeconds: stats.totalWatchTimeSeconds,
+      averageWatchTimeSeconds: stats.averageWatchTimeSeconds,
+      peakConcurrentViewers: stats.peakConcurrentViewers,
+      timeToPeakSeconds: stats.timeToPeakSeconds,
+      durationSeconds: stats.durationSeconds,
+      retention: stats.retention as unknown as RetentionPoint[],
+      computedAt: stats.computedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const analyticsService = new AnalyticsService();
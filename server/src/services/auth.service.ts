@@ -0,0 +1,190 @@
+/**
+ * Auth Service - Verifies caller credentials
+ * Supports signed JWT bearer tokens (end users) and API keys (service-to-service)
+ *
+ * JWT verification key (first configured wins):
+ * - AUTH_JWKS_FILE: Path to a JWKS JSON document (key selected by `kid`)
+ * - AUTH_JWT_PUBLIC_KEY_FILE: Path to a PEM-encoded SPKI public key (AUTH_JWT_ALGORITHM, default RS256)
+ * - AUTH_JWT_SECRET: Shared HMAC secret (HS256)
+ *
+ * API keys:
+ * - AUTH_API_KEYS: Comma-separated `serviceName:apiKey` pairs
+ */
+
+import { readFileSync } from 'node:fs';
+import { timingSafeEqual } from 'node:crypto';
+import {
+  jwtVerify,
+  importSPKI,
+  createLocalJWKSet,
+  errors as joseErrors,
+  type JWTPayload,
+  type JWTVerifyOptions,
+  type KeyLike,
+} from 'jose';
+import type { AuthenticatedUser } from '../types/auth.types.js';
+import { AuthenticationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Auth' });
+
+class AuthService {
+  private verifyJwt: ((token: string) => Promise<JWTPayload>) | null = null;
+  private verifyOptions: JWTVerifyOptions;
+  private apiKeys: Map<string, string> = new Map(); // apiKey -> serviceName
+
+  constructor() {
+    this.verifyOptions = {
+      issuer: process.env.AUTH_JWT_ISSUER || undefined,
+      audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+    };
+
+    this.loadJwtKey();
+    this.loadApiKeys();
+
+    if (!this.verifyJwt && this.apiKeys.size === 0) {
+      log.warn(
+        'No authentication configured. Set AUTH_JWKS_FILE, AUTH_JWT_PUBLIC_KEY_FILE, AUTH_JWT_SECRET or AUTH_API_KEYS - authenticated routes will reject all requests'
+      );
+    }
+  }
+
+  /**
+   * Load the JWT verification key from the configured source
+   */
+  private loadJwtKey(): void {
+    const jwksFile = process.env.AUTH_JWKS_FILE;
+    const publicKeyFile = process.env.AUTH_JWT_PUBLIC_KEY_FILE;
+    const secret = process.env.AUTH_JWT_SECRET;
+
+    if (jwksFile) {
+      // Key (and algorithm) is selected per token by its `kid` header
+      const getKey = createLocalJWKSet(JSON.parse(readFileSync(jwksFile, 'utf-8')));
+      this.verifyJwt = async (token) =>
+        (await jwtVerify(token, getKey, this.verifyOptions)).payload;
+      log.info(`Verifying JWTs against JWKS file ${jwksFile}`);
+      return;
+    }
+
+    if (publicKeyFile) {
+      const algorithm = process.env.AUTH_JWT_ALGORITHM || 'RS256';
+      const pem = readFileSync(publicKeyFile, 'utf-8');
+      let publicKey: KeyLike | null = null;
+      this.verifyJwt = async (token) => {
+        // Imported lazily so a bad key surfaces as an auth failure, not a crash
+        publicKey ??= await importSPKI(pem, algorithm);
+        return (await jwtVerify(token, publicKey, {
+          ...this.verifyOptions,
+          algorithms: [algorithm],
+        })).payload;
+      };
+      log.info(`Verifying JWTs (${algorithm}) against public key ${publicKeyFile}`);
+      return;
+    }
+
+    if (secret) {
+      const key = new TextEncoder().encode(secret);
+      this.verifyJwt = async (token) =>
+        (await jwtVerify(token, key, { ...this.verifyOptions, algorithms: ['HS256'] })).payload;
+      log.info('Verifying JWTs (HS256) with shared secret');
+    }
+  }
+
+  /**
+   * Parse configured API keys (format: "serviceName:apiKey,otherService:otherKey")
+   */
+  private loadApiKeys(): void {
+    const raw = process.env.AUTH_API_KEYS;
+    if (!raw) {
+      return;
+    }
+
+    for (const entry of raw.split(',')) {
+      const separatorIndex = entry.indexOf(':');
+      if (separatorIndex <= 0) {
+        log.warn('Ignoring malformed AUTH_API_KEYS entry (expected serviceName:apiKey)');
+        continue;
+      }
+
+      const serviceName = entry.substring(0, separatorIndex).trim();
+      const apiKey = entry.substring(separatorIndex + 1).trim();
+      if (serviceName && apiKey) {
+        this.apiKeys.set(apiKey, serviceName);
+      }
+    }
+
+    log.info(`Loaded ${this.apiKeys.size} service API key(s)`);
+  }
+
+  /**
+   * Verify a JWT bearer token and return the authenticated user
+   * @param token Raw JWT (without the "Bearer " prefix)
+   */
+  async verifyBearerToken(token: string): Promise<AuthenticatedUser> {
+    if (!this.verifyJwt) {
+      throw new AuthenticationError('Bearer token authentication is not configured');
+    }
+
+    try {
+      const payload = await this.verifyJwt(token);
+
+      if (!payload.sub) {
+        throw new AuthenticationError('Token is missing the subject (sub) claim');
+      }
+
+      return {
+        id: payload.sub,
+        displayName: typeof payload.name === 'string' ? payload.name : undefined,
+        method: 'jwt',
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      if (error instanceof joseErrors.JWTExpired) {
+        throw new AuthenticationError('Token has expired');
+      }
+      throw new AuthenticationError('Invalid bearer token');
+    }
+  }
+
+  /**
+   * Verify a service API key
+   * @param apiKey API key presented by the caller
+   * @param onBehalfOf Optional user ID the service is acting for
+   */
+  verifyApiKey(apiKey: string, onBehalfOf?: string): AuthenticatedUser {
+    const serviceName = this.findServiceForApiKey(apiKey);
+
+    if (!serviceName) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    return {
+      // Trusted services may act for a user; otherwise the service is the principal
+      id: onBehalfOf?.trim() || `service:${serviceName}`,
+      method: 'api_key',
+      serviceName,
+    };
+  }
+
+  /**
+   * Constant-time lookup of the service that owns an API key
+   */
+  private findServiceForApiKey(apiKey: string): string | null {
+    const presented = Buffer.from(apiKey);
+    let match: string | null = null;
+
+    for (const [key, serviceName] of this.apiKeys) {
+      const candidate = Buffer.from(key);
+      if (candidate.length === presented.length && timingSafeEqual(candidate, presented)) {
+        match = serviceName;
+      }
+    }
+
+    return match;
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -0,0 +1,177 @@
+/**
+ * Chat Service - Live chat for livestreams
+ * Messages are stored in the database and fanned out through the stream state
+ * Redis Pub/Sub + SSE pipeline (chat_message / chat_message_deleted events)
+ *
+ * Only JOINED participants of a LIVE livestream can send messages. The creator and
+ * moderators can delete messages (hidden from history, kept for moderation)
+ */
+
+import { databaseService } from './database.service.js';
+import { livestreamAccessService } from './livestream-access.service.js';
+import { moderationService } from './moderation.service.js';
+import { stateService } from './state.service.js';
+import type {
+  ChatHistoryResponse,
+  ChatMessage,
+  ChatMessageResponse,
+  SendChatMessageRequest,
+} from '../types/livestream.types.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Chat' });
+
+const MAX_MESSAGE_LENGTH = 500;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 100;
+
+class ChatService {
+  /**
+   * Send a chat message and broadcast it to SSE subscribers
+   * Authorization: Only JOINED participants can send messages
+   *
+   * @param livestreamId Livestream ID
+   * @param userId Authenticated user ID of the sender
+   * @param data Message content
+   */
+  async sendMessage(
+    livestreamId: string,
+    userId: string,
+    data: SendChatMessageRequest
+  ): Promise<ChatMessageResponse> {
+    const content = typeof data.content === 'string' ? data.content.trim() : '';
+
+    if (content.length === 0) {
+      throw new ValidationError('Message content is required');
+    }
+
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      throw new ValidationError(`Message must be at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.status !== 'LIVE') {
+      throw new ValidationError(
+        `Cannot chat in livestream with status ${livestream.status}. Livestream must be LIVE.`
+      );
+    }
+
+    const participant = await databaseService.getActiveParticipant(userId, livestreamId);
+    if (!participant) {
+      throw new AuthorizationError('Only participants who joined the livestream can chat');
+    }
+
+    const message = await databaseService.createChatMessage({
+      livestreamId,
+      userId,
+      displayName: participant.displayName,
+      role: participant.role,
+      content,
+    });
+
+    const response = this.formatMessageResponse(message);
+    await stateService.broadcastChatMessage(livestreamId, response);
+
+    return response;
+  }
+
+  /**
+   * Get a page of chat history (oldest first within the page)
+   * Chat of PRIVATE livestreams is limited to users with access (see livestreamAccessService)
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (optional)
+   * @param options.before Message ID cursor - only older messages are returned
+   * @param options.limit Page size (default 50, max 100)
+   */
+  async getHistory(
+    livestreamId: string,
+    requestingUserId: string | undefined,
+    options: { before?: string; limit?: number }
+  ): Promise<ChatHistoryResponse> {
+    const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      throw new ValidationError(`Limit must be between 1 and ${MAX_HISTORY_LIMIT}`);
+    }
+
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    await livestreamAccessService.assertCanAccessLivestream(
+      livestream,
+      requestingUserId,
+      'Chat of this private livestream is not available'
+    );
+
+    let before: { createdAt: Date; id: string } | undefined;
+    if (options.before) {
+      const cursor = await databaseService.getChatMessageById(options.before);
+      if (!cursor || cursor.livestreamId !== livestreamId) {
+        throw new ValidationError('Invalid cursor');
+      }
+      before = { createdAt: cursor.createdAt, id: cursor.id };
+    }
+
+    const messages = await databaseService.listChatMessages(livestreamId, { before, limit });
+
+    return {
+      messages: messages.reverse().map(message => this.formatMessageResponse(message)),
+      nextCursor: messages.length === limit ? messages[0]!.id : null,
+    };
+  }
+
+  /**
+   * Delete a chat message and broadcast the deletion
+   * Authorization: The creator or a moderator
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (creator or moderator)
+   * @param messageId Chat message ID
+   */
+  async deleteMessage(
+    livestreamId: string,
+    requestingUserId: string,
+    messageId: string
+  ): Promise<void> {
+    await moderationService.getModeratedLivestream(livestreamId, requestingUserId);
+
+    const message = await databaseService.getChatMessageById(messageId);
+    if (!message || message.livestreamId !== livestreamId) {
+      throw new NotFoundError(`Chat message with ID ${messageId} not found`);
+    }
+
+    // Idempotent operation - already deleted
+    const deleted = await databaseService.deleteChatMessage(messageId, requestingUserId);
+    if (!deleted) {
+      return;
+    }
+
+    await stateService.broadcastChatMessageDeleted(livestreamId, {
+      id: messageId,
+      livestreamId,
+      deletedBy: requestingUserId,
+    });
+
+    log.info(`Message ${messageId} in livestream ${livestreamId} deleted by ${requestingUserId}`);
+  }
+
+  /**
+   * Format chat message for API response
+   */
+  private formatMessageResponse(message: ChatMessage): ChatMessageResponse {
+    return {
+      id: message.id,
+      livestreamId: message.livestreamId,
+      userId: message.userId,
+      displayName: message.displayName,
+      role: message.role,
+      content: message.content,
+      createdAt: message.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const chatService = new ChatService();
@@ -0,0 +1,61 @@
+/**
+ * Creator Service - Dashboard aggregations across all livestreams of a creator
+ * Totals, top streams and weekly trends are computed in SQL over livestreams and participants
+ *
+ * Viewers are all participants except the creator
+ */
+
+import { databaseService } from './database.service.js';
+import type { CreatorSummaryResponse } from '../types/livestream.types.js';
+import { AuthorizationError, ValidationError } from '../utils/errors.js';
+
+// Weekly trends - number of weeks (including the current one)
+const DEFAULT_TREND_WEEKS = 12;
+const MAX_TREND_WEEKS = 52;
+
+// Number of livestreams in the top streams (by peak concurrent viewers)
+const TOP_STREAMS_LIMIT = 5;
+
+class CreatorService {
+  /**
+   * Get the dashboard summary of a creator
+   * Authorization: Only the creator can see their own summary
+   *
+   * @param userId Creator user ID
+   * @param requestingUserId Authenticated user ID (must be the creator)
+   * @param options.weeks Number of weeks of trends (default 12, max 52)
+   */
+  async getSummary(
+    userId: string,
+    requestingUserId: string,
+    options: { weeks?: number } = {}
+  ): Promise<CreatorSummaryResponse> {
+    if (userId !== requestingUserId) {
+      throw new AuthorizationError('Only the creator can see their summary');
+    }
+
+    const weeks = options.weeks ?? DEFAULT_TREND_WEEKS;
+
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_TREND_WEEKS) {
+      throw new ValidationError(`weeks must be between 1 and ${MAX_TREND_WEEKS}`);
+    }
+
+    const [totals, topStreams, weeklyTrends] = await Promise.all([
+      databaseService.getCreatorTotals(userId),
+      databaseService.listCreatorTopStreams(userId, TOP_STREAMS_LIMIT),
+      databaseService.listCreatorWeeklyTrends(userId, weeks),
+    ]);
+
+    return {
+      userId,
+      totalStreams: totals.totalStreams,
+      liveStreams: totals.liveStreams,
+      totalHoursLive: Math.round((totals.secondsLive / 3600) * 100) / 100,
+      totalUniqueViewers: totals.uniqueViewers,
+      topStreams,
+      weeklyTrends,
+    };
+  }
+}
+
+export const creatorService = new CreatorService();
@@ -4,8 +4,39 @@
  */
 
 import { PrismaClient, Prisma } from '@prisma/client';
-import type { Livestream, LivestreamStatus } from '../types/livestream.types.js';
-import { DatabaseError, NotFoundError } from '../utils/errors.js';
+import type {
+  ChatMessage,
+  CreatorTopStream,
+  CreatorWeeklyTrend,
+  IngressType,
+  Invite,
+  Livestream,
+  LivestreamBan,
+  LivestreamStats,
+  LivestreamStatus,
+  LivestreamStatusTransition,
+  LivestreamVisibility,
+  Participant,
+  ParticipantRole,
+  Poll,
+  PollVote,
+  Recording,
+  RecordingStatus,
+  RoleInvite,
+  StreamDestination,
+  TransitionContext,
+  WebhookClaimResult,
+} from '../types/livestream.types.js';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+} from '../types/webhook.types.js';
+import { CapacityError, DatabaseError, NotFoundError } from '../utils/errors.js';
+
+// When a livestream's broadcast ended, for durations: LIVE ones run until now, ERROR ones
+// (no endedAt) stopped when they failed - their last update
+const BROADCAST_END_SQL = Prisma.sql`COALESCE("endedAt", CASE WHEN status = 'LIVE' THEN now() AT TIME ZONE 'UTC' ELSE "updatedAt" END)`;
 
 class DatabaseService {
   private prisma: PrismaClient;
@@ -29,11 +60,12 @@ class DatabaseService {
 
   /**
    * Get a livestream by ID
+   * Soft-deleted livestreams are treated as not found
    */
   async getLivestreamById(id: string): Promise<Livestream> {
     try {
-      const livestream = await this.prisma.livestream.findUnique({
-        where: { id },
+      const livestream = await this.prisma.livestream.findFirst({
+        where: { id, deletedAt: null },
       });
 
       if (!livestream) {
@@ -81,15 +113,17 @@ class DatabaseService {
 
   /**
    * List all livestreams with optional filters
+   * Soft-deleted livestreams are excluded
    */
   async listLivestreams(filters?: {
     status?: LivestreamStatus;
     createdBy?: string;
+    visibilities?: LivestreamVisibility[];
     limit?: number;
     offset?: number;
   }): Promise<Livestream[]> {
     try {
-      const where: Prisma.LivestreamWhereInput = {};
+      const where: Prisma.LivestreamWhereInput = { deletedAt: null };
 
       if (filters?.status) {
         where.status = filters.status;
@@ -99,6 +133,10 @@ class DatabaseService {
         where.createdBy = filters.createdBy;
       }
 
+      if (filters?.visibilities) {
+        where.visibility = { in: filters.visibilities };
+      }
+
       return await this.prisma.livestream.findMany({
         where,
         take: filters?.limit,
@@ -110,6 +148,33 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Count livestreams by status (every status included, soft-deleted livestreams excluded)
+   */
+  async countLivestreamsByStatus(): Promise<Record<LivestreamStatus, number>> {
+    try {
+      const groups = await this.prisma.livestream.groupBy({
+        by: ['status'],
+        where: { deletedAt: null },
+        _count: { _all: true },
+      });
+
+      const counts: Record<LivestreamStatus, number> = {
+        SCHEDULED: 0,
+        LIVE: 0,
+        ENDED: 0,
+        ERROR: 0,
+      };
+      for (const group of groups) {
+        counts[group.status] = group._count._all;
+      }
+
+      return counts;
+    } catch (error) {
+      throw new DatabaseError('Failed to count livestreams by status');
+    }
+  }
+
   /**
    * Update a livestream
    */
@@ -132,6 +197,140 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Soft delete a livestream (hidden from lookups and listings, history is kept)
+   */
+  async softDeleteLivestream(id: string): Promise<Livestream> {
+    return this.updateLivestream(id, { deletedAt: new Date() });
+  }
+
+  /**
+   * Attach an ingress to a livestream (TRANSACTION-SAFE)
+   * Only applies if the livestream has no ingress, so concurrent requests cannot both attach one
+   * @returns Updated livestream, or null if the livestream already has an ingress
+   */
+  async setLivestreamIngress(
+    id: string,
+    ingress: { ingressId: string; ingressType: IngressType; ingressUrl: string; ingressStreamKey: string }
+  ): Promise<Livestream | null> {
+    try {
+      const result = await this.prisma.livestream.updateMany({
+        where: { id, ingressId: null },
+        data: { ...ingress, ingressPublishing: false },
+      });
+
+      if (result.count === 0) {
+        return null;
+      }
+
+      return await this.prisma.livestream.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError('Failed to set livestream ingress');
+    }
+  }
+
+  /**
+   * Detach an ingress from its livestream
+   * @returns true if the ingress was attached to a livestream
+   */
+  async clearLivestreamIngress(ingressId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.livestream.updateMany({
+        where: { ingressId },
+        data: {
+          ingressId: null,
+          ingressType: null,
+          ingressUrl: null,
+          ingressStreamKey: null,
+          ingressPublishing: false,
+        },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to clear livestream ingress');
+    }
+  }
+
+  /**
+   * Record whether an ingress is publishing (from ingress_started / ingress_ended webhooks)
+   * @returns true if the ingress is attached to a livestream
+   */
+  async updateIngressPublishing(ingressId: string, publishing: boolean): Promise<boolean> {
+    try {
+      const result = await this.prisma.livestream.updateMany({
+        where: { ingressId },
+        data: { ingressPublishing: publishing },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to update ingress status');
+    }
+  }
+
+  /**
+   * Change livestream status and record the transition (TRANSACTION-SAFE)
+   * The update only applies if the livestream is still in fromStatus, so concurrent
+   * transitions (e.g. webhook vs reconciliation) cannot both succeed
+   * @param id - Livestream ID
+   * @param fromStatus - Status the livestream is expected to be in
+   * @param toStatus - New status
+   * @param context - Who/what caused the transition (recorded in history)
+   * @param data - Additional fields to update (startedAt, endedAt, ...)
+   * @returns Updated livestream, or null if the status was no longer fromStatus
+   */
+  async transitionLivestreamStatus(
+    id: string,
+    fromStatus: LivestreamStatus,
+    toStatus: LivestreamStatus,
+    context: TransitionContext,
+    data: Omit<Prisma.LivestreamUpdateManyMutationInput, 'status'> = {}
+  ): Promise<Livestream | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Conditional update - acts as an optimistic lock on the current status
+        const result = await tx.livestream.updateMany({
+          where: { id, status: fromStatus },
+          data: { ...data, status: toStatus },
+        });
+
+        if (result.count === 0) {
+          return null;
+        }
+
+        await tx.livestreamStatusTransition.create({
+          data: {
+            livestreamId: id,
+            fromStatus,
+            toStatus,
+            source: context.source,
+            actorId: context.actorId,
+            reason: context.reason,
+          },
+        });
+
+        return await tx.livestream.findUnique({ where: { id } });
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to transition livestream status');
+    }
+  }
+
+  /**
+   * List status transitions for a livestream (oldest first)
+   */
+  async listStatusTransitions(livestreamId: string): Promise<LivestreamStatusTransition[]> {
+    try {
+      return await this.prisma.livestreamStatusTransition.findMany({
+        where: { livestreamId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list livestream status history');
+    }
+  }
+
   /**
    * Delete a livestream
    */
@@ -216,7 +415,7 @@ class DatabaseService {
     livestreamId?: string;
     userId?: string;
     status?: 'JOINED' | 'LEFT';
-    role?: 'HOST' | 'VIEWER';
+    roles?: ParticipantRole[];
     limit?: number;
     offset?: number;
   }): Promise<any[]> {
@@ -235,8 +434,8 @@ class DatabaseService {
         where.status = filters.status;
       }
 
-      if (filters?.role) {
-        where.role = filters.role;
+      if (filters?.roles && filters.roles.length > 0) {
+        where.role = { in: filters.roles };
       }
 
       return await this.prisma.participant.findMany({
@@ -320,11 +519,14 @@ class DatabaseService {
    * Mark participant as left by LiveKit participant SID (TRANSACTION-SAFE)
    * Uses LiveKit's unique participant session ID to target the exact participant
    * @param livekitParticipantSid - LiveKit's unique participant session ID
-   * @returns true if participant was updated, false if already LEFT or not found
+   * @param unconfirmed - User and livestream whose JOINED session without a SID is marked
+   *   instead when no participant has the SID (participant_left processed before participant_joined)
+   * @returns The updated participant, or null if already LEFT or not found
    */
   async markParticipantAsLeftBySid(
-    livekitParticipantSid: string
-  ): Promise<boolean> {
+    livekitParticipantSid: string,
+    unconfirmed?: { userId: string; livestreamId: string }
+  ): Promise<Participant | null> {
     try {
       const result = await this.prisma.$transaction(async (tx) => {
         // Find the participant by LiveKit SID
@@ -332,21 +534,35 @@ class DatabaseService {
           where: { livekitParticipantSid },
         });
 
-        // If not found or already LEFT, return false (idempotent)
+        if (!participant && unconfirmed) {
+          // The SID is only stored once participant_joined is applied - end the most recent
+          // session still waiting for it, and keep the SID to record which one ended
+          const session = await tx.participant.findFirst({
+            where: { ...unconfirmed, status: 'JOINED', livekitParticipantSid: null },
+            orderBy: { joinedAt: 'desc' },
+          });
+
+          return session
+            ? await tx.participant.update({
+                where: { id: session.id },
+                data: { status: 'LEFT', leftAt: new Date(), livekitParticipantSid },
+              })
+            : null;
+        }
+
+        // If not found or already LEFT, return null (idempotent)
         if (!participant || participant.status === 'LEFT') {
-          return false;
+          return null;
         }
 
         // Update to LEFT status
-        await tx.participant.update({
+        return await tx.participant.update({
           where: { id: participant.id },
           data: {
             status: 'LEFT',
             leftAt: new Date(),
           },
         });
-
-        return true;
       });
 
       return result;
@@ -354,7 +570,7 @@ class DatabaseService {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         if (error.code === 'P2025') {
           // Participant not found
-          return false;
+          return null;
         }
       }
       throw new DatabaseError('Failed to update participant status');
@@ -362,47 +578,1220 @@ class DatabaseService {
   }
 
   /**
-   * Check if webhook has been processed (for deduplication)
-   * @param webhookId - Unique webhook ID from LiveKit
-   * @returns true if webhook was already processed, false otherwise
+   * Mark all JOINED participants of a livestream as left
+   * Used when the host ends the stream (covers participants without a LiveKit SID)
+   * @param livestreamId - Livestream ID
+   * @returns Participants marked as left
    */
-  async checkWebhookProcessed(webhookId: string): Promise<boolean> {
+  async markAllParticipantsAsLeft(livestreamId: string): Promise<Participant[]> {
     try {
-      const existing = await this.prisma.webhookEvent.findUnique({
-        where: { id: webhookId },
+      return await this.prisma.participant.updateManyAndReturn({
+        where: { livestreamId, status: 'JOINED' },
+        data: {
+          status: 'LEFT',
+          leftAt: new Date(),
+        },
       });
-      return existing !== null;
     } catch (error) {
-      throw new DatabaseError('Failed to check webhook deduplication');
+      throw new DatabaseError('Failed to update participant status');
     }
   }
 
   /**
-   * Record webhook as processed (for deduplication)
-   * @param webhookId - Unique webhook ID from LiveKit
-   * @param event - Event type (participant_joined, participant_left, etc.)
+   * List all participant sessions of a livestream (for analytics)
    */
-  async recordWebhookProcessed(webhookId: string, event: string): Promise<void> {
+  async listParticipantSessions(
+    livestreamId: string
+  ): Promise<Array<{ userId: string; joinedAt: Date; leftAt: Date | null }>> {
     try {
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24); // 24-hour TTL
+      return await this.prisma.participant.findMany({
+        where: { livestreamId },
+        select: { userId: true, joinedAt: true, leftAt: true },
+        orderBy: { joinedAt: 'asc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list participant sessions');
+    }
+  }
 
-      await this.prisma.webhookEvent.create({
-        data: {
-          id: webhookId,
-          event,
-          expiresAt,
-        },
+  /**
+   * Aggregate totals over all livestreams of a creator (soft-deleted ones excluded)
+   * Hours live count LIVE livestreams up to now, failed ones up to when they failed;
+   * viewers exclude the creator
+   */
+  async getCreatorTotals(userId: string): Promise<{
+    totalStreams: number;
+    liveStreams: number;
+    secondsLive: number;
+    uniqueViewers: number;
+  }> {
+    try {
+      const [totals] = await this.prisma.$queryRaw<
+        Array<{ totalStreams: number; liveStreams: number; secondsLive: number }>
+      >`
+        SELECT
+          COUNT(*)::int AS "totalStreams",
+          COUNT(*) FILTER (WHERE status = 'LIVE')::int AS "liveStreams",
+          COALESCE(SUM(EXTRACT(EPOCH FROM (${BROADCAST_END_SQL} - "startedAt"))), 0)::float8 AS "secondsLive"
+        FROM livestreams
+        WHERE "createdBy" = ${userId} AND "deletedAt" IS NULL
+      `;
+
+      const [viewers] = await this.prisma.$queryRaw<Array<{ uniqueViewers: number }>>`
+        SELECT COUNT(DISTINCT p."userId")::int AS "uniqueViewers"
+        FROM participants p
+        JOIN livestreams l ON l.id = p."livestreamId"
+        WHERE l."createdBy" = ${userId} AND l."deletedAt" IS NULL AND p."userId" <> ${userId}
+      `;
+
+      return {
+        totalStreams: totals?.totalStreams ?? 0,
+        liveStreams: totals?.liveStreams ?? 0,
+        secondsLive: totals?.secondsLive ?? 0,
+        uniqueViewers: viewers?.uniqueViewers ?? 0,
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to aggregate creator totals');
+    }
+  }
+
+  /**
+   * List a creator's livestreams with the highest peak concurrent viewers
+   * Peak comes from the persisted stats, or the viewer count samples while LIVE
+   */
+  async listCreatorTopStreams(userId: string, limit: number): Promise<CreatorTopStream[]> {
+    try {
+      return await this.prisma.$queryRaw<CreatorTopStream[]>`
+        SELECT
+          l.id,
+          l.title,
+          l.status::text AS status,
+          l."startedAt",
+          COALESCE(
+            s."peakConcurrentViewers",
+            (SELECT MAX(v."viewerCount") FROM viewer_count_samples v WHERE v."livestreamId" = l.id),
+            0
+          )::int AS "peakViewers",
+          (
+            SELECT COUNT(DISTINCT p."userId")
+            FROM participants p
+            WHERE p."livestreamId" = l.id AND p."userId" <> l."createdBy"
+          )::int AS "uniqueViewers"
+        FROM livestreams l
+        LEFT JOIN livestream_stats s ON s."livestreamId" = l.id
+        WHERE l."createdBy" = ${userId} AND l."deletedAt" IS NULL AND l."startedAt" IS NOT NULL
+        ORDER BY "peakViewers" DESC, l."startedAt" DESC
+        LIMIT ${limit}
+      `;
+    } catch (error) {
+      throw new DatabaseError('Failed to list creator top streams');
+    }
+  }
+
+  /**
+   * Weekly livestream count, hours live and unique viewers of a creator
+   * for the last `weeks` weeks (UTC, weeks start on Monday - empty weeks included)
+   */
+  async listCreatorWeeklyTrends(userId: string, weeks: number): Promise<CreatorWeeklyTrend[]> {
+    try {
+      const rows = await this.prisma.$queryRaw<
+        Array<{ weekStart: Date; streams: number; secondsLive: number; uniqueViewers: number }>
+      >`
+        WITH weeks AS (
+          SELECT generate_series(
+            date_trunc('week', now() AT TIME ZONE 'UTC') - ((${weeks - 1})::int * interval '1 week'),
+            date_trunc('week', now() AT TIME ZONE 'UTC'),
+            interval '1 week'
+          ) AS week
+        ),
+        streams AS (
+          SELECT
+            id,
+            date_trunc('week', "startedAt") AS week,
+            EXTRACT(EPOCH FROM (${BROADCAST_END_SQL} - "startedAt")) AS seconds
+          FROM livestreams
+          WHERE "createdBy" = ${userId}
+            AND "deletedAt" IS NULL
+            AND "startedAt" >= (SELECT MIN(week) FROM weeks)
+        ),
+        stream_weeks AS (
+          SELECT week, COUNT(*) AS streams, SUM(seconds) AS seconds
+          FROM streams
+          GROUP BY week
+        ),
+        viewer_weeks AS (
+          SELECT s.week, COUNT(DISTINCT p."userId") AS viewers
+          FROM streams s
+          JOIN participants p ON p."livestreamId" = s.id
+          WHERE p."userId" <> ${userId}
+          GROUP BY s.week
+        )
+        SELECT
+          w.week AS "weekStart",
+          COALESCE(sw.streams, 0)::int AS streams,
+          COALESCE(sw.seconds, 0)::float8 AS "secondsLive",
+          COALESCE(vw.viewers, 0)::int AS "uniqueViewers"
+        FROM weeks w
+        LEFT JOIN stream_weeks sw ON sw.week = w.week
+        LEFT JOIN viewer_weeks vw ON vw.week = w.week
+        ORDER BY w.week
+      `;
+
+      return rows.map(row => ({
+        weekStart: row.weekStart,
+        streams: row.streams,
+        hoursLive: Math.round((row.secondsLive / 3600) * 100) / 100,
+        uniqueViewers: row.uniqueViewers,
+      }));
+    } catch (error) {
+      throw new DatabaseError('Failed to list creator weekly trends');
+    }
+  }
+
+  /**
+   * Create an invite (join code) for a livestream
+   */
+  async createInvite(data: Prisma.InviteUncheckedCreateInput): Promise<Invite> {
+    try {
+      return await this.prisma.invite.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Livestream not found');
+        }
+      }
+      throw new DatabaseError('Failed to create invite');
+    }
+  }
+
+  /**
+   * Get an invite by ID
+   */
+  async getInviteById(id: string): Promise<Invite | null> {
+    try {
+      return await this.prisma.invite.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch invite');
+    }
+  }
+
+  /**
+   * List invites for a livestream (newest first)
+   */
+  async listInvites(livestreamId: string): Promise<Invite[]> {
+    try {
+      return await this.prisma.invite.findMany({
+        where: { livestreamId },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list invites');
+    }
+  }
+
+  /**
+   * Revoke an invite (its code can no longer be used)
+   * @returns true if the invite was revoked, false if not found or already revoked
+   */
+  async revokeInvite(livestreamId: string, inviteId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.invite.updateMany({
+        where: { id: inviteId, livestreamId, revokedAt: null },
+        data: { revokedAt: new Date() },
       });
+      return result.count > 0;
     } catch (error) {
+      throw new DatabaseError('Failed to revoke invite');
+    }
+  }
+
+  /**
+   * Count JOINED participants of a livestream
+   */
+  async countActiveParticipants(livestreamId: string): Promise<number> {
+    try {
+      return await this.prisma.participant.count({
+        where: { livestreamId, status: 'JOINED' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to count participants');
+    }
+  }
+
+  /**
+   * Create a participant record if the livestream has room for it (TRANSACTION-SAFE)
+   * The livestream row is locked while counting JOINED participants, so concurrent
+   * joins cannot exceed the capacity. When an invite is given, one use is consumed
+   * only if the invite is still valid (not revoked, not expired, uses left)
+   * @param data - Participant record to create
+   * @param capacity - Maximum number of JOINED participants (including this one), null for no limit
+   * @param inviteId - Invite to consume (optional)
+   * @returns Created participant, or null if the invite could not be consumed
+   * @throws CapacityError if the livestream is full
+   */
+  async createParticipantWithinCapacity(
+    data: Prisma.ParticipantUncheckedCreateInput,
+    capacity: number | null,
+    inviteId?: string
+  ): Promise<Participant | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM livestreams WHERE id = ${data.livestreamId} FOR UPDATE`;
+
+        if (capacity !== null) {
+          const activeCount = await tx.participant.count({
+            where: { livestreamId: data.livestreamId, status: 'JOINED' },
+          });
+
+          if (activeCount >= capacity) {
+            throw new CapacityError();
+          }
+        }
+
+        if (inviteId) {
+          const now = new Date();
+          const consumed = await tx.invite.updateMany({
+            where: {
+              id: inviteId,
+              livestreamId: data.livestreamId,
+              revokedAt: null,
+              AND: [
+                { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+                { OR: [{ maxUses: null }, { useCount: { lt: tx.invite.fields.maxUses } }] },
+              ],
+            },
+            data: { useCount: { increment: 1 } },
+          });
+
+          if (consumed.count === 0) {
+            return null;
+          }
+        }
+
+        return await tx.participant.create({ data });
+      });
+    } catch (error) {
+      if (error instanceof CapacityError) {
+        throw error;
+      }
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
-        if (error.code === 'P2002') {
-          // Duplicate webhook ID - this is expected in race conditions
-          console.log(`[Database] Webhook ${webhookId} already recorded (race condition)`);
-          return;
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Livestream not found');
         }
       }
-      throw new DatabaseError('Failed to record webhook');
+      throw new DatabaseError('Failed to create participant record');
+    }
+  }
+
+  /**
+   * Grant a user a role for a livestream (idempotent - replaces an existing invite's role)
+   */
+  async createRoleInvite(data: {
+    livestreamId: string;
+    userId: string;
+    role: ParticipantRole;
+    invitedBy: string;
+  }): Promise<RoleInvite> {
+    try {
+      return await this.prisma.roleInvite.upsert({
+        where: {
+          livestreamId_userId: { livestreamId: data.livestreamId, userId: data.userId },
+        },
+        create: data,
+        update: { role: data.role, invitedBy: data.invitedBy },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to create role invite');
+    }
+  }
+
+  /**
+   * Get a user's role invite for a livestream, if any
+   */
+  async getRoleInvite(livestreamId: string, userId: string): Promise<RoleInvite | null> {
+    try {
+      return await this.prisma.roleInvite.findUnique({
+        where: { livestreamId_userId: { livestreamId, userId } },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch role invite');
+    }
+  }
+
+  /**
+   * List role invites for a livestream (oldest first)
+   */
+  async listRoleInvites(livestreamId: string): Promise<RoleInvite[]> {
+    try {
+      return await this.prisma.roleInvite.findMany({
+        where: { livestreamId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list role invites');
+    }
+  }
+
+  /**
+   * Revoke a user's role invite for a livestream
+   * @returns true if an invite was removed, false if the user had none
+   */
+  async deleteRoleInvite(livestreamId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.roleInvite.deleteMany({
+        where: { livestreamId, userId },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete role invite');
+    }
+  }
+
+  /**
+   * Ban a user from a livestream (idempotent - updates the reason if already banned)
+   */
+  async createBan(data: {
+    livestreamId: string;
+    userId: string;
+    bannedBy: string;
+    reason?: string;
+  }): Promise<LivestreamBan> {
+    try {
+      return await this.prisma.livestreamBan.upsert({
+        where: {
+          livestreamId_userId: { livestreamId: data.livestreamId, userId: data.userId },
+        },
+        create: data,
+        update: { bannedBy: data.bannedBy, reason: data.reason },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to create ban');
+    }
+  }
+
+  /**
+   * Get a user's ban for a livestream, if any
+   */
+  async getBan(livestreamId: string, userId: string): Promise<LivestreamBan | null> {
+    try {
+      return await this.prisma.livestreamBan.findUnique({
+        where: { livestreamId_userId: { livestreamId, userId } },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch ban');
+    }
+  }
+
+  /**
+   * List bans for a livestream (newest first)
+   */
+  async listBans(livestreamId: string): Promise<LivestreamBan[]> {
+    try {
+      return await this.prisma.livestreamBan.findMany({
+        where: { livestreamId },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list bans');
+    }
+  }
+
+  /**
+   * Remove a user's ban for a livestream
+   * @returns true if a ban was removed, false if the user was not banned
+   */
+  async deleteBan(livestreamId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.livestreamBan.deleteMany({
+        where: { livestreamId, userId },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete ban');
+    }
+  }
+
+  /**
+   * Create a recording record for a started egress
+   */
+  async createRecording(data: Prisma.RecordingUncheckedCreateInput): Promise<Recording> {
+    try {
+      return await this.prisma.recording.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Livestream not found');
+        }
+      }
+      throw new DatabaseError('Failed to create recording');
+    }
+  }
+
+  /**
+   * Get a recording by ID
+   */
+  async getRecordingById(id: string): Promise<Recording | null> {
+    try {
+      return await this.prisma.recording.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch recording');
+    }
+  }
+
+  /**
+   * Get a recording by LiveKit egress ID
+   */
+  async getRecordingByEgressId(egressId: string): Promise<Recording | null> {
+    try {
+      return await this.prisma.recording.findUnique({ where: { egressId } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch recording');
+    }
+  }
+
+  /**
+   * List recordings for a livestream (newest first)
+   * @param livestreamId - Livestream ID
+   * @param statuses - Only include recordings with these statuses (default: all)
+   */
+  async listRecordings(
+    livestreamId: string,
+    statuses?: RecordingStatus[]
+  ): Promise<Recording[]> {
+    try {
+      return await this.prisma.recording.findMany({
+        where: {
+          livestreamId,
+          ...(statuses && { status: { in: statuses } }),
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list recordings');
+    }
+  }
+
+  /**
+   * Update a recording by LiveKit egress ID
+   * @param fromStatuses - Only update a recording in one of these statuses (optional)
+   * @returns Updated recording, or null if no recording has this egress ID (and status)
+   */
+  async updateRecordingByEgressId(
+    egressId: string,
+    data: Prisma.RecordingUpdateInput,
+    fromStatuses?: RecordingStatus[]
+  ): Promise<Recording | null> {
+    try {
+      return await this.prisma.recording.update({
+        where: fromStatuses ? { egressId, status: { in: fromStatuses } } : { egressId },
+        data,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          return null;
+        }
+      }
+      throw new DatabaseError('Failed to update recording');
+    }
+  }
+
+  /**
+   * Create a simulcast destination for a livestream
+   */
+  async createStreamDestination(
+    data: Prisma.StreamDestinationUncheckedCreateInput
+  ): Promise<StreamDestination> {
+    try {
+      return await this.prisma.streamDestination.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Livestream not found');
+        }
+      }
+      throw new DatabaseError('Failed to create stream destination');
+    }
+  }
+
+  /**
+   * Get a simulcast destination by ID
+   */
+  async getStreamDestinationById(id: string): Promise<StreamDestination | null> {
+    try {
+      return await this.prisma.streamDestination.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch stream destination');
+    }
+  }
+
+  /**
+   * Get a simulcast destination by the LiveKit egress ID of its current/last push
+   */
+  async getStreamDestinationByEgressId(egressId: string): Promise<StreamDestination | null> {
+    try {
+      return await this.prisma.streamDestination.findUnique({ where: { egressId } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch stream destination');
+    }
+  }
+
+  /**
+   * List simulcast destinations for a livestream (oldest first)
+   */
+  async listStreamDestinations(livestreamId: string): Promise<StreamDestination[]> {
+    try {
+      return await this.prisma.streamDestination.findMany({
+        where: { livestreamId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list stream destinations');
+    }
+  }
+
+  /**
+   * Update a simulcast destination
+   * @returns Updated destination, or null if it was deleted
+   */
+  async updateStreamDestination(
+    id: string,
+    data: Prisma.StreamDestinationUpdateInput
+  ): Promise<StreamDestination | null> {
+    try {
+      return await this.prisma.streamDestination.update({
+        where: { id },
+        data,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          return null;
+        }
+      }
+      throw new DatabaseError('Failed to update stream destination');
+    }
+  }
+
+  /**
+   * Delete a simulcast destination
+   * @returns true if the destination existed
+   */
+  async deleteStreamDestination(livestreamId: string, id: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.streamDestination.deleteMany({
+        where: { id, livestreamId },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete stream destination');
+    }
+  }
+
+  /**
+   * Create a chat message
+   */
+  async createChatMessage(data: Prisma.ChatMessageUncheckedCreateInput): Promise<ChatMessage> {
+    try {
+      return await this.prisma.chatMessage.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Livestream not found');
+        }
+      }
+      throw new DatabaseError('Failed to create chat message');
+    }
+  }
+
+  /**
+   * Get a chat message by ID (including deleted messages)
+   */
+  async getChatMessageById(id: string): Promise<ChatMessage | null> {
+    try {
+      return await this.prisma.chatMessage.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch chat message');
+    }
+  }
+
+  /**
+   * List chat messages of a livestream, newest first (deleted messages are excluded)
+   * @param livestreamId - Livestream ID
+   * @param options.before - Only messages older than this message (cursor - compared by
+   *   createdAt and ID, so it still works once the cursor message is deleted)
+   * @param options.limit - Maximum number of messages
+   */
+  async listChatMessages(
+    livestreamId: string,
+    options: { before?: { createdAt: Date; id: string }; limit: number }
+  ): Promise<ChatMessage[]> {
+    const { before } = options;
+
+    try {
+      return await this.prisma.chatMessage.findMany({
+        where: {
+          livestreamId,
+          deletedAt: null,
+          ...(before && {
+            OR: [
+              { createdAt: { lt: before.createdAt } },
+              { createdAt: before.createdAt, id: { lt: before.id } },
+            ],
+          }),
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: options.limit,
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list chat messages');
+    }
+  }
+
+  /**
+   * Soft delete a chat message
+   * @returns true if the message was deleted by this call (false if already deleted)
+   */
+  async deleteChatMessage(id: string, deletedBy: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.chatMessage.updateMany({
+        where: { id, deletedAt: null },
+        data: { deletedAt: new Date(), deletedBy },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete chat message');
+    }
+  }
+
+  /**
+   * Get the persisted analytics of a livestream
+   */
+  async getLivestreamStats(livestreamId: string): Promise<LivestreamStats | null> {
+    try {
+      return await this.prisma.livestreamStats.findUnique({ where: { livestreamId } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch livestream stats');
+    }
+  }
+
+  /**
+   * Create or replace the persisted analytics of a livestream
+   */
+  async upsertLivestreamStats(
+    data: Prisma.LivestreamStatsUncheckedCreateInput
+  ): Promise<LivestreamStats> {
+    try {
+      return await this.prisma.livestreamStats.upsert({
+        where: { livestreamId: data.livestreamId },
+        create: data,
+        update: data,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Livestream not found');
+        }
+      }
+      throw new DatabaseError('Failed to save livestream stats');
+    }
+  }
+
+  /**
+   * Record viewer count samples (one per LIVE livestream)
+   * @returns Number of samples recorded
+   */
+  async createViewerCountSamples(
+    samples: Array<{ livestreamId: string; viewerCount: number; sampledAt: Date }>
+  ): Promise<number> {
+    try {
+      const result = await this.prisma.viewerCountSample.createMany({ data: samples });
+      return result.count;
+    } catch (error) {
+      throw new DatabaseError('Failed to record viewer count samples');
+    }
+  }
+
+  /**
+   * List viewer count samples of a livestream within a time window (oldest first)
+   */
+  async listViewerCountSamples(
+    livestreamId: string,
+    from: Date,
+    to: Date
+  ): Promise<Array<{ viewerCount: number; sampledAt: Date }>> {
+    try {
+      return await this.prisma.viewerCountSample.findMany({
+        where: { livestreamId, sampledAt: { gte: from, lte: to } },
+        select: { viewerCount: true, sampledAt: true },
+        orderBy: { sampledAt: 'asc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list viewer count samples');
+    }
+  }
+
+  /**
+   * Create a poll
+   */
+  async createPoll(data: Prisma.PollUncheckedCreateInput): Promise<Poll> {
+    try {
+      return await this.prisma.poll.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Livestream not found');
+        }
+      }
+      throw new DatabaseError('Failed to create poll');
+    }
+  }
+
+  /**
+   * Get a poll by ID
+   */
+  async getPollById(id: string): Promise<Poll | null> {
+    try {
+      return await this.prisma.poll.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch poll');
+    }
+  }
+
+  /**
+   * List polls of a livestream, newest first
+   */
+  async listPolls(livestreamId: string): Promise<Poll[]> {
+    try {
+      return await this.prisma.poll.findMany({
+        where: { livestreamId },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list polls');
+    }
+  }
+
+  /**
+   * Close an OPEN poll
+   * @returns true if the poll was closed by this call (false if already closed)
+   */
+  async closePoll(id: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.poll.updateMany({
+        where: { id, status: 'OPEN' },
+        data: { status: 'CLOSED', closedAt: new Date() },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to close poll');
+    }
+  }
+
+  /**
+   * Close all OPEN polls of a livestream (livestream ended)
+   * @returns Number of polls closed
+   */
+  async closeAllPolls(livestreamId: string): Promise<number> {
+    try {
+      const result = await this.prisma.poll.updateMany({
+        where: { livestreamId, status: 'OPEN' },
+        data: { status: 'CLOSED', closedAt: new Date() },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new DatabaseError('Failed to close polls');
+    }
+  }
+
+  /**
+   * Record a user's vote (voting again changes the vote)
+   */
+  async upsertPollVote(pollId: string, userId: string, optionIndex: number): Promise<PollVote> {
+    try {
+      return await this.prisma.pollVote.upsert({
+        where: { pollId_userId: { pollId, userId } },
+        create: { pollId, userId, optionIndex },
+        update: { optionIndex },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2003') {
+          throw new NotFoundError('Poll not found');
+        }
+      }
+      throw new DatabaseError('Failed to record poll vote');
+    }
+  }
+
+  /**
+   * Count votes per option of the given polls
+   */
+  async countPollVotes(
+    pollIds: string[]
+  ): Promise<Array<{ pollId: string; optionIndex: number; count: number }>> {
+    try {
+      const groups = await this.prisma.pollVote.groupBy({
+        by: ['pollId', 'optionIndex'],
+        where: { pollId: { in: pollIds } },
+        _count: { _all: true },
+      });
+
+      return groups.map(group => ({
+        pollId: group.pollId,
+        optionIndex: group.optionIndex,
+        count: group._count._all,
+      }));
+    } catch (error) {
+      throw new DatabaseError('Failed to count poll votes');
+    }
+  }
+
+  /**
+   * Get a user's votes in the given polls
+   */
+  async listPollVotesByUser(pollIds: string[], userId: string): Promise<PollVote[]> {
+    try {
+      return await this.prisma.pollVote.findMany({
+        where: { pollId: { in: pollIds }, userId },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list poll votes');
+    }
+  }
+
+  /**
+   * Create an outbound webhook subscription
+   */
+  async createWebhookSubscription(
+    data: Prisma.WebhookSubscriptionCreateInput
+  ): Promise<WebhookSubscription> {
+    try {
+      return await this.prisma.webhookSubscription.create({ data });
+    } catch (error) {
+      throw new DatabaseError('Failed to create webhook subscription');
+    }
+  }
+
+  /**
+   * Get an outbound webhook subscription by ID
+   */
+  async getWebhookSubscriptionById(id: string): Promise<WebhookSubscription | null> {
+    try {
+      return await this.prisma.webhookSubscription.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch webhook subscription');
+    }
+  }
+
+  /**
+   * List outbound webhook subscriptions (oldest first)
+   * @param filters Only active subscriptions / subscriptions to an event type
+   */
+  async listWebhookSubscriptions(filters?: {
+    active?: boolean;
+    event?: string;
+  }): Promise<WebhookSubscription[]> {
+    try {
+      return await this.prisma.webhookSubscription.findMany({
+        where: {
+          active: filters?.active,
+          events: filters?.event ? { has: filters.event } : undefined,
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list webhook subscriptions');
+    }
+  }
+
+  /**
+   * Update an outbound webhook subscription
+   * @returns Updated subscription, or null if it was deleted
+   */
+  async updateWebhookSubscription(
+    id: string,
+    data: Prisma.WebhookSubscriptionUpdateInput
+  ): Promise<WebhookSubscription | null> {
+    try {
+      return await this.prisma.webhookSubscription.update({
+        where: { id },
+        data,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          return null;
+        }
+      }
+      throw new DatabaseError('Failed to update webhook subscription');
+    }
+  }
+
+  /**
+   * Delete an outbound webhook subscription and its delivery log
+   * @returns true if the subscription existed
+   */
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.webhookSubscription.deleteMany({ where: { id } });
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete webhook subscription');
+    }
+  }
+
+  /**
+   * Create the deliveries of an event (one per subscription)
+   */
+  async createWebhookDeliveries(
+    data: Prisma.WebhookDeliveryCreateManyInput[]
+  ): Promise<WebhookDelivery[]> {
+    try {
+      return await this.prisma.webhookDelivery.createManyAndReturn({ data });
+    } catch (error) {
+      throw new DatabaseError('Failed to create webhook deliveries');
+    }
+  }
+
+  /**
+   * Get a webhook delivery with its subscription
+   */
+  async getWebhookDeliveryById(
+    id: string
+  ): Promise<(WebhookDelivery & { subscription: WebhookSubscription }) | null> {
+    try {
+      return await this.prisma.webhookDelivery.findUnique({
+        where: { id },
+        include: { subscription: true },
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to fetch webhook delivery');
+    }
+  }
+
+  /**
+   * Update a webhook delivery
+   * @returns Updated delivery, or null if it was deleted (with its subscription)
+   */
+  async updateWebhookDelivery(
+    id: string,
+    data: Prisma.WebhookDeliveryUpdateInput
+  ): Promise<WebhookDelivery | null> {
+    try {
+      return await this.prisma.webhookDelivery.update({
+        where: { id },
+        data,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          return null;
+        }
+      }
+      throw new DatabaseError('Failed to update webhook delivery');
+    }
+  }
+
+  /**
+   * List the deliveries of a subscription (newest first)
+   * @param filters Delivery status, maximum number of deliveries
+   */
+  async listWebhookDeliveries(
+    subscriptionId: string,
+    filters: { status?: WebhookDeliveryStatus; limit: number }
+  ): Promise<WebhookDelivery[]> {
+    try {
+      return await this.prisma.webhookDelivery.findMany({
+        where: { subscriptionId, status: filters.status },
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+      });
+    } catch (error) {
+      throw new DatabaseError('Failed to list webhook deliveries');
+    }
+  }
+
+  /**
+   * Remove finished (delivered or dead-lettered) webhook deliveries from the delivery log
+   * @param before Remove deliveries last updated before this time
+   * @returns Number of records deleted
+   */
+  async cleanupOldWebhookDeliveries(before: Date): Promise<number> {
+    try {
+      const result = await this.prisma.webhookDelivery.deleteMany({
+        where: {
+          status: { in: ['DELIVERED', 'DEAD_LETTERED'] },
+          updatedAt: { lt: before },
+        },
+      });
+      return result.count;
+    } catch (error) {
+      throw new DatabaseError('Failed to cleanup old webhook deliveries');
+    }
+  }
+
+  /**
+   * Claim a webhook event for processing (deduplication and retries)
+   * Creates the event on first delivery; a PENDING or FAILED event, or a PROCESSING event whose
+   * lease expired (crashed worker), is claimed again. The conditional update is atomic, so only
+   * one worker can hold the lease at a time
+   *
+   * @param webhookId - Unique webhook ID from LiveKit
+   * @param event - Event type (participant_joined, participant_left, etc.)
+   * @param leaseId - Identifies this processing attempt (passed to complete/fail)
+   * @param leaseMs - How long the lease is held before another worker may claim the event
+   */
+  async claimWebhookEvent(
+    webhookId: string,
+    event: string,
+    leaseId: string,
+    leaseMs: number
+  ): Promise<WebhookClaimResult> {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + leaseMs);
+
+    try {
+      const expiresAt = new Date(now);
+      expiresAt.setHours(expiresAt.getHours() + 24); // 24-hour TTL
+
+      await this.prisma.webhookEvent.create({
+        data: {
+          id: webhookId,
+          event,
+          status: 'PROCESSING',
+          attempts: 1,
+          leaseId,
+          leaseExpiresAt,
+          expiresAt,
+        },
+      });
+      return { status: 'claimed' };
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw new DatabaseError('Failed to claim webhook');
+      }
+      // Duplicate webhook ID - the event was seen before, try to take it over below
+    }
+
+    try {
+      const result = await this.prisma.webhookEvent.updateMany({
+        where: {
+          id: webhookId,
+          OR: [
+            { status: { in: ['PENDING', 'FAILED'] } },
+            { status: 'PROCESSING', leaseExpiresAt: { lt: now } },
+          ],
+        },
+        data: {
+          status: 'PROCESSING',
+          attempts: { increment: 1 },
+          leaseId,
+          leaseExpiresAt,
+        },
+      });
+      if (result.count > 0) {
+        return { status: 'claimed' };
+      }
+
+      const existing = await this.prisma.webhookEvent.findUnique({
+        where: { id: webhookId },
+        select: { status: true, leaseExpiresAt: true },
+      });
+      if (existing?.status === 'DONE') {
+        return { status: 'done' };
+      }
+      // No lease if the event was released in between - it can be claimed right away
+      return { status: 'in_progress', leaseExpiresAt: existing?.leaseExpiresAt ?? now };
+    } catch (error) {
+      throw new DatabaseError('Failed to claim webhook');
+    }
+  }
+
+  /**
+   * Mark a claimed webhook event as processed
+   * @param webhookId - Unique webhook ID from LiveKit
+   * @param leaseId - Lease returned by the claim
+   * @returns false if the lease was lost (expired and claimed by another worker)
+   */
+  async completeWebhookEvent(webhookId: string, leaseId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.webhookEvent.updateMany({
+        where: { id: webhookId, status: 'PROCESSING', leaseId },
+        data: {
+          status: 'DONE',
+          leaseId: null,
+          leaseExpiresAt: null,
+          error: null,
+          processedAt: new Date(),
+        },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to complete webhook');
+    }
+  }
+
+  /**
+   * Mark a claimed webhook event as failed so a retry can claim it again
+   * @param webhookId - Unique webhook ID from LiveKit
+   * @param leaseId - Lease returned by the claim
+   * @param errorMessage - Error of the failed attempt
+   * @returns false if the lease was lost (expired and claimed by another worker)
+   */
+  async failWebhookEvent(
+    webhookId: string,
+    leaseId: string,
+    errorMessage: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.prisma.webhookEvent.updateMany({
+        where: { id: webhookId, status: 'PROCESSING', leaseId },
+        data: {
+          status: 'FAILED',
+          leaseId: null,
+          leaseExpiresAt: null,
+          error: errorMessage.slice(0, 500),
+        },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to record webhook failure');
+    }
+  }
+
+  /**
+   * Reset a webhook event to PENDING so it is processed again, even if it is DONE (replay)
+   * Events held by a worker with an unexpired lease are not reset
+   * @param webhookId - Unique webhook ID from LiveKit
+   * @returns true if the event was reset
+   */
+  async resetWebhookEvent(webhookId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.webhookEvent.updateMany({
+        where: {
+          id: webhookId,
+          OR: [
+            { status: { not: 'PROCESSING' } },
+            { leaseExpiresAt: { lt: new Date() } },
+          ],
+        },
+        data: {
+          status: 'PENDING',
+          leaseId: null,
+          leaseExpiresAt: null,
+        },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to reset webhook');
     }
   }
 
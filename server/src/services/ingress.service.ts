@@ -0,0 +1,208 @@
+/**
+ * Ingress Service - Publish into a livestream from OBS and other encoders
+ * The creator gets an RTMP or WHIP ingress (LiveKit Ingress) bound to the livestream's room.
+ * The stream URL and key are stored on the livestream and only returned to the creator;
+ * the ingress is revoked when the livestream ends
+ *
+ * Publishing state is kept in sync by the ingress_started / ingress_ended webhooks
+ */
+
+import { databaseService } from './database.service.js';
+import { livekitService } from './livekit.service.js';
+import type {
+  CreateIngressRequest,
+  IngressResponse,
+  IngressType,
+  Livestream,
+  WebhookIngressInfo,
+} from '../types/livestream.types.js';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Ingress' });
+
+const INGRESS_TYPES: IngressType[] = ['RTMP', 'WHIP'];
+
+class IngressService {
+  /**
+   * Identity the ingress publishes as in the LiveKit room (not an application user)
+   * @param livestreamId Livestream ID
+   */
+  getParticipantIdentity(livestreamId: string): string {
+    return `ingress-${livestreamId}`;
+  }
+
+  /**
+   * Create an ingress for a LIVE livestream
+   * Authorization: Only the creator can create an ingress
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   * @param data Create request data (inputType defaults to RTMP)
+   */
+  async createIngress(
+    livestreamId: string,
+    requestingUserId: string,
+    data: CreateIngressRequest
+  ): Promise<IngressResponse> {
+    const inputType = data.inputType ?? 'RTMP';
+    if (!INGRESS_TYPES.includes(inputType)) {
+      throw new ValidationError(`Input type must be one of ${INGRESS_TYPES.join(', ')}`);
+    }
+
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the creator of the livestream can create an ingress');
+    }
+
+    if (livestream.status !== 'LIVE') {
+      throw new ValidationError(
+        `Cannot create an ingress for livestream with status ${livestream.status}. Livestream must be LIVE.`
+      );
+    }
+
+    if (livestream.ingressId) {
+      throw new ConflictError('Livestream already has an ingress. Delete it to create a new one.');
+    }
+
+    const ingress = await livekitService.createIngress(livestream.roomName, inputType, {
+      identity: this.getParticipantIdentity(livestream.id),
+      name: 'Host',
+    });
+
+    const updated = await databaseService.setLivestreamIngress(livestreamId, {
+      ingressId: ingress.ingressId,
+      ingressType: inputType,
+      ingressUrl: ingress.url,
+      ingressStreamKey: ingress.streamKey,
+    });
+
+    if (!updated) {
+      // A concurrent request attached an ingress first - drop ours
+      await this.deleteLiveKitIngress(ingress.ingressId);
+      throw new ConflictError('Livestream already has an ingress. Delete it to create a new one.');
+    }
+
+    log.info(`Created ${inputType} ingress ${ingress.ingressId} for livestream ${livestreamId}`);
+
+    return this.formatIngressResponse(updated);
+  }
+
+  /**
+   * Get the ingress of a livestream (stream URL and key)
+   * Authorization: Only the creator can see the ingress
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   */
+  async getIngress(livestreamId: string, requestingUserId: string): Promise<IngressResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the creator of the livestream can see its ingress');
+    }
+
+    if (!livestream.ingressId) {
+      throw new NotFoundError(`Livestream ${livestreamId} has no ingress`);
+    }
+
+    return this.formatIngressResponse(livestream);
+  }
+
+  /**
+   * Delete the ingress of a livestream (the stream key stops working)
+   * Authorization: Only the creator can delete the ingress
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   */
+  async deleteIngress(livestreamId: string, requestingUserId: string): Promise<void> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the creator of the livestream can delete its ingress');
+    }
+
+    // Idempotent operation - nothing to delete
+    if (!livestream.ingressId) {
+      return;
+    }
+
+    await livekitService.deleteIngress(livestream.ingressId);
+    await databaseService.clearLivestreamIngress(livestream.ingressId);
+
+    log.info(`Deleted ingress ${livestream.ingressId} of livestream ${livestreamId}`);
+  }
+
+  /**
+   * Revoke the ingress of a livestream that ended
+   * Best effort: logs instead of throwing, so ending the livestream is not failed by the ingress
+   *
+   * @param livestream Livestream as last read
+   */
+  async revokeIngress(livestream: Livestream): Promise<void> {
+    if (!livestream.ingressId) {
+      return;
+    }
+
+    try {
+      await this.deleteLiveKitIngress(livestream.ingressId);
+      await databaseService.clearLivestreamIngress(livestream.ingressId);
+
+      log.info(`Revoked ingress ${livestream.ingressId} of livestream ${livestream.id}`);
+    } catch (error) {
+      log.error(`Failed to revoke ingress of livestream ${livestream.id}`, { error });
+    }
+  }
+
+  /**
+   * Apply an ingress webhook (ingress_started, ingress_ended) to its livestream
+   *
+   * @param ingressInfo Ingress info from the webhook payload
+   * @param publishing True for ingress_started, false for ingress_ended
+   */
+  async handleIngressEvent(ingressInfo: WebhookIngressInfo, publishing: boolean): Promise<void> {
+    const updated = await databaseService.updateIngressPublishing(ingressInfo.ingressId, publishing);
+
+    if (!updated) {
+      // Ingress was revoked (or not created through the API)
+      log.warn(`No livestream found for ingress ${ingressInfo.ingressId}`);
+      return;
+    }
+
+    if (ingressInfo.state?.error) {
+      log.warn(`Ingress ${ingressInfo.ingressId} error: ${ingressInfo.state.error}`);
+    }
+
+    log.info(`Ingress ${ingressInfo.ingressId} ${publishing ? 'started' : 'stopped'} publishing`);
+  }
+
+  /**
+   * Delete an ingress in LiveKit, ignoring failures (it may already be gone)
+   */
+  private async deleteLiveKitIngress(ingressId: string): Promise<void> {
+    try {
+      await livekitService.deleteIngress(ingressId);
+    } catch (error) {
+      log.warn(`Failed to delete LiveKit ingress ${ingressId}`, { error });
+    }
+  }
+
+  /**
+   * Format livestream ingress for API response
+   */
+  private formatIngressResponse(livestream: Livestream): IngressResponse {
+    return {
+      livestreamId: livestream.id,
+      ingressId: livestream.ingressId!,
+      inputType: livestream.ingressType!,
+      url: livestream.ingressUrl!,
+      streamKey: livestream.ingressStreamKey!,
+      publishing: livestream.ingressPublishing,
+    };
+  }
+}
+
+// Export singleton instance
+export const ingressService = new IngressService();
@@ -0,0 +1,251 @@
+/**
+ * Invite Service - Shareable join codes for livestreams
+ * Codes are signed so they cannot be guessed from an invite ID, and can be limited
+ * by expiry and number of uses. Each code grants a role (VIEWER, CO_HOST or MODERATOR).
+ *
+ * Code format: <inviteId>.<HMAC-SHA256(inviteId), base64url>
+ *
+ * Configuration:
+ * - INVITE_CODE_SECRET: HMAC key used to sign codes (codes stop working if it changes)
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { databaseService } from './database.service.js';
+import type {
+  CreateInviteRequest,
+  Invite,
+  InviteResponse,
+  ParticipantRole,
+} from '../types/livestream.types.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Invite' });
+
+const INVITE_ROLES: ParticipantRole[] = ['VIEWER', 'CO_HOST', 'MODERATOR'];
+
+class InviteService {
+  private secret: Buffer;
+
+  constructor() {
+    const secret = process.env.INVITE_CODE_SECRET;
+
+    if (secret) {
+      this.secret = Buffer.from(secret);
+    } else {
+      this.secret = randomBytes(32);
+      log.warn(
+        'INVITE_CODE_SECRET is not set - using a random secret, invite codes will stop working on restart'
+      );
+    }
+  }
+
+  /**
+   * Create an invite for a livestream
+   * Authorization: Only the creator can create invites
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   * @param data Create invite request data
+   * @returns The invite, including its code (only returned here)
+   */
+  async createInvite(
+    livestreamId: string,
+    requestingUserId: string,
+    data: CreateInviteRequest
+  ): Promise<InviteResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can create invites'
+      );
+    }
+
+    if (livestream.status === 'ENDED') {
+      throw new ValidationError('Cannot create invites for a livestream that has ended');
+    }
+
+    const role = data.role ?? 'VIEWER';
+    if (!INVITE_ROLES.includes(role)) {
+      throw new ValidationError(`Role must be one of ${INVITE_ROLES.join(', ')}`);
+    }
+
+    const maxUses = this.parseMaxUses(data);
+    const expiresAt = data.expiresAt ? this.parseExpiresAt(data.expiresAt) : null;
+
+    const invite = await databaseService.createInvite({
+      livestreamId,
+      role,
+      maxUses,
+      expiresAt,
+      createdBy: requestingUserId,
+    });
+
+    return {
+      ...this.formatInviteResponse(invite),
+      code: this.signCode(invite.id),
+    };
+  }
+
+  /**
+   * List invites for a livestream (codes are not included)
+   * Authorization: Only the creator can list invites
+   */
+  async listInvites(livestreamId: string, requestingUserId: string): Promise<InviteResponse[]> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can view invites'
+      );
+    }
+
+    const invites = await databaseService.listInvites(livestreamId);
+    return invites.map(invite => this.formatInviteResponse(invite));
+  }
+
+  /**
+   * Revoke an invite so its code can no longer be used
+   * Authorization: Only the creator can revoke invites
+   */
+  async revokeInvite(
+    livestreamId: string,
+    requestingUserId: string,
+    inviteId: string
+  ): Promise<void> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can revoke invites'
+      );
+    }
+
+    const revoked = await databaseService.revokeInvite(livestreamId, inviteId);
+    if (!revoked) {
+      throw new NotFoundError(`Active invite with ID ${inviteId} not found`);
+    }
+  }
+
+  /**
+   * Resolve an invite code for a livestream and check it can still be used
+   * Does not consume a use - that happens atomically when the participant is created
+   *
+   * @param livestreamId Livestream the caller is joining
+   * @param code Invite code presented by the caller
+   */
+  async resolveInvite(livestreamId: string, code: string): Promise<Invite> {
+    const inviteId = this.verifyCode(code);
+    const invite = inviteId ? await databaseService.getInviteById(inviteId) : null;
+
+    if (!invite || invite.livestreamId !== livestreamId) {
+      throw new AuthorizationError('Invalid invite code');
+    }
+
+    if (invite.revokedAt) {
+      throw new AuthorizationError('Invite code has been revoked');
+    }
+
+    if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+      throw new AuthorizationError('Invite code has expired');
+    }
+
+    if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+      throw new AuthorizationError('Invite code has already been used');
+    }
+
+    return invite;
+  }
+
+  /**
+   * Build the signed code for an invite ID
+   */
+  signCode(inviteId: string): string {
+    return `${inviteId}.${this.sign(inviteId)}`;
+  }
+
+  /**
+   * Verify a code's signature
+   * @returns The invite ID, or null if the code is malformed or the signature is wrong
+   */
+  verifyCode(code: string): string | null {
+    const separatorIndex = code.lastIndexOf('.');
+    if (separatorIndex <= 0) {
+      return null;
+    }
+
+    const inviteId = code.substring(0, separatorIndex);
+    const presented = Buffer.from(code.substring(separatorIndex + 1));
+    const expected = Buffer.from(this.sign(inviteId));
+
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      return null;
+    }
+
+    return inviteId;
+  }
+
+  private sign(inviteId: string): string {
+    return createHmac('sha256', this.secret).update(`invite:${inviteId}`).digest('base64url');
+  }
+
+  /**
+   * Resolve maxUses from the request (singleUse is shorthand for maxUses: 1)
+   */
+  private parseMaxUses(data: CreateInviteRequest): number | null {
+    if (data.singleUse) {
+      if (data.maxUses !== undefined && data.maxUses !== 1) {
+        throw new ValidationError('singleUse cannot be combined with maxUses other than 1');
+      }
+      return 1;
+    }
+
+    if (data.maxUses === undefined || data.maxUses === null) {
+      return null;
+    }
+
+    if (!Number.isInteger(data.maxUses) || data.maxUses < 1) {
+      throw new ValidationError('maxUses must be a positive integer');
+    }
+
+    return data.maxUses;
+  }
+
+  /**
+   * Parse and validate an invite expiry (ISO 8601, must be in the future)
+   */
+  private parseExpiresAt(value: string): Date {
+    const expiresAt = new Date(value);
+
+    if (Number.isNaN(expiresAt.getTime())) {
+      throw new ValidationError('expiresAt must be a valid ISO 8601 date');
+    }
+
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('expiresAt must be in the future');
+    }
+
+    return expiresAt;
+  }
+
+  /**
+   * Format invite for API response
+   */
+  private formatInviteResponse(invite: Invite): InviteResponse {
+    return {
+      id: invite.id,
+      livestreamId: invite.livestreamId,
+      role: invite.role,
+      maxUses: invite.maxUses,
+      useCount: invite.useCount,
+      expiresAt: invite.expiresAt,
+      createdBy: invite.createdBy,
+      createdAt: invite.createdAt,
+      revokedAt: invite.revokedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const inviteService = new InviteService();
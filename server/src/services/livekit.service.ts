@@ -1,14 +1,54 @@
 /**
  * LiveKit Service - Handles all LiveKit API interactions
- * Manages room creation, deletion, and listing with the LiveKit server
+ * Manages room creation, deletion, and listing with the LiveKit server,
+ * room recordings and simulcast through LiveKit Egress, and RTMP/WHIP ingress through LiveKit Ingress
+ *
+ * Recording configuration:
+ * - RECORDING_FILEPATH: File path template (default: recordings/{room_name}-{time}.mp4)
+ * - RECORDING_S3_BUCKET: Upload recordings to this S3 bucket (default: egress server disk)
+ * - RECORDING_S3_REGION, RECORDING_S3_ENDPOINT: Region / endpoint (S3-compatible storage)
+ * - RECORDING_S3_ACCESS_KEY, RECORDING_S3_SECRET: S3 credentials
+ * - RECORDING_S3_FORCE_PATH_STYLE: Use path-style URLs (e.g. MinIO)
  */
 
-import { RoomServiceClient, AccessToken, WebhookReceiver } from 'livekit-server-sdk';
-import type { LiveKitRoomOptions } from '../types/livestream.types.js';
+import {
+  RoomServiceClient,
+  AccessToken,
+  WebhookReceiver,
+  EgressClient,
+  IngressClient,
+  IngressInput,
+  EncodedFileOutput,
+  EncodedFileType,
+  S3Upload,
+  StreamOutput,
+  StreamProtocol,
+  type EgressInfo,
+  type IngressInfo,
+  type ParticipantPermission,
+} from 'livekit-server-sdk';
+import { decodeJwt } from 'jose';
+import { SpanKind } from '@opentelemetry/api';
+import type { IngressType, LiveKitRoomOptions, ParticipantRole } from '../types/livestream.types.js';
+import { metricsService } from './metrics.service.js';
+import { tracingService } from './tracing.service.js';
 import { LiveKitError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'LiveKit' });
+
+/**
+ * Whether a LiveKit API call failed because the room or participant does not exist
+ * (the SDK does not export its TwirpError class)
+ */
+function isNotFoundError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'not_found';
+}
 
 class LiveKitService {
   private client: RoomServiceClient;
+  private egressClient: EgressClient;
+  private ingressClient: IngressClient;
   private livekitUrl: string;
   private apiKey: string;
   private apiSecret: string;
@@ -29,9 +69,24 @@ class LiveKitService {
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
     this.client = new RoomServiceClient(livekitUrl, apiKey, apiSecret);
+    this.egressClient = new EgressClient(livekitUrl, apiKey, apiSecret);
+    this.ingressClient = new IngressClient(livekitUrl, apiKey, apiSecret);
     this.webhookReceiver = new WebhookReceiver(apiKey, apiSecret);
   }
 
+  /**
+   * Run a LiveKit API call in a client span and record its latency and errors
+   * @param operation API operation name (e.g. createRoom)
+   * @param call The API call
+   */
+  private call<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    return tracingService.withSpan(
+      `livekit ${operation}`,
+      { kind: SpanKind.CLIENT, attributes: { 'rpc.system': 'livekit', 'rpc.method': operation } },
+      () => metricsService.trackLiveKitCall(operation, call)
+    );
+  }
+
   /**
    * Create a new room in LiveKit
    * @param options Room creation options
@@ -39,11 +94,13 @@ class LiveKitService {
    */
   async createRoom(options: LiveKitRoomOptions) {
     try {
-      const room = await this.client.createRoom({
-        name: options.name,
-        emptyTimeout: options.emptyTimeout,
-        maxParticipants: options.maxParticipants,
-      });
+      const room = await this.call('createRoom', () =>
+        this.client.createRoom({
+          name: options.name,
+          emptyTimeout: options.emptyTimeout,
+          maxParticipants: options.maxParticipants,
+        })
+      );
 
       return room;
     } catch (error) {
@@ -60,7 +117,7 @@ class LiveKitService {
    */
   async listRooms() {
     try {
-      const rooms = await this.client.listRooms();
+      const rooms = await this.call('listRooms', () => this.client.listRooms());
       return rooms;
     } catch (error) {
       if (error instanceof Error) {
@@ -76,7 +133,7 @@ class LiveKitService {
    */
   async deleteRoom(roomName: string) {
     try {
-      await this.client.deleteRoom(roomName);
+      await this.call('deleteRoom', () => this.client.deleteRoom(roomName));
     } catch (error) {
       if (error instanceof Error) {
         throw new LiveKitError(`Failed to delete LiveKit room: ${error.message}`);
@@ -100,17 +157,263 @@ class LiveKitService {
     }
   }
 
+  /**
+   * Get a participant in a room, including its published tracks
+   * @param roomName Name of the room
+   * @param identity Participant identity (user ID)
+   */
+  async getParticipant(roomName: string, identity: string) {
+    try {
+      return await this.call('getParticipant', () =>
+        this.client.getParticipant(roomName, identity)
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to get LiveKit participant: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to get LiveKit participant');
+    }
+  }
+
+  /**
+   * Find a participant in a room
+   * @param roomName Name of the room
+   * @param identity Participant identity (user ID)
+   * @returns The participant, or null if it is not connected to the room
+   */
+  async findParticipant(roomName: string, identity: string) {
+    try {
+      return await this.call('getParticipant', () =>
+        this.client.getParticipant(roomName, identity)
+      );
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to get LiveKit participant: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to get LiveKit participant');
+    }
+  }
+
+  /**
+   * Remove a participant from a room (disconnects them)
+   * Note: LiveKit lets a removed participant rejoin with a valid token
+   * @param roomName Name of the room
+   * @param identity Participant identity (user ID)
+   */
+  async removeParticipant(roomName: string, identity: string) {
+    try {
+      await this.call('removeParticipant', () => this.client.removeParticipant(roomName, identity));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to remove LiveKit participant: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to remove LiveKit participant');
+    }
+  }
+
+  /**
+   * Mute or unmute a track published by a participant
+   * @param roomName Name of the room
+   * @param identity Participant identity (user ID)
+   * @param trackSid SID of the published track
+   * @param muted True to mute, false to unmute
+   * @returns Updated track information
+   */
+  async mutePublishedTrack(
+    roomName: string,
+    identity: string,
+    trackSid: string,
+    muted: boolean
+  ) {
+    try {
+      return await this.call('mutePublishedTrack', () =>
+        this.client.mutePublishedTrack(roomName, identity, trackSid, muted)
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to mute LiveKit track: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to mute LiveKit track');
+    }
+  }
+
+  /**
+   * Update a participant's permissions, metadata or name
+   * Permissions are replaced atomically - pass the full desired permission set
+   * @param roomName Name of the room
+   * @param identity Participant identity (user ID)
+   * @param options Fields to update
+   * @returns Updated participant information
+   */
+  async updateParticipant(
+    roomName: string,
+    identity: string,
+    options: {
+      metadata?: string;
+      permission?: Partial<ParticipantPermission>;
+      name?: string;
+    }
+  ) {
+    try {
+      return await this.call('updateParticipant', () =>
+        this.client.updateParticipant(roomName, identity, options)
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to update LiveKit participant: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to update LiveKit participant');
+    }
+  }
+
+  /**
+   * Start recording a room (room composite egress to an MP4 file)
+   * @param roomName Name of the room to record
+   * @returns Egress information (egressId identifies the recording)
+   */
+  async startRoomRecording(roomName: string): Promise<EgressInfo> {
+    try {
+      return await this.call('startRoomCompositeEgress', () =>
+        this.egressClient.startRoomCompositeEgress(roomName, {
+          file: this.buildRecordingOutput(),
+        })
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to start recording: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to start recording');
+    }
+  }
+
+  /**
+   * Start pushing a room to an external RTMP destination (room composite stream egress)
+   * @param roomName Name of the room to push
+   * @param url Full RTMP URL, including the stream key
+   * @returns Egress information (egressId identifies the push)
+   */
+  async startStreamEgress(roomName: string, url: string): Promise<EgressInfo> {
+    try {
+      return await this.call('startRoomCompositeEgress', () =>
+        this.egressClient.startRoomCompositeEgress(roomName, {
+          stream: new StreamOutput({ protocol: StreamProtocol.RTMP, urls: [url] }),
+        })
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to start stream egress: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to start stream egress');
+    }
+  }
+
+  /**
+   * Stop an egress (a recording file is finalized and uploaded asynchronously)
+   * @param egressId LiveKit egress ID
+   */
+  async stopEgress(egressId: string): Promise<EgressInfo> {
+    try {
+      return await this.call('stopEgress', () => this.egressClient.stopEgress(egressId));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to stop egress: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to stop egress');
+    }
+  }
+
+  /**
+   * Build the recording file output from the RECORDING_* configuration
+   */
+  buildRecordingOutput(): EncodedFileOutput {
+    const filepath = process.env.RECORDING_FILEPATH || 'recordings/{room_name}-{time}.mp4';
+    const bucket = process.env.RECORDING_S3_BUCKET;
+
+    if (!bucket) {
+      return new EncodedFileOutput({ fileType: EncodedFileType.MP4, filepath });
+    }
+
+    return new EncodedFileOutput({
+      fileType: EncodedFileType.MP4,
+      filepath,
+      output: {
+        case: 's3',
+        value: new S3Upload({
+          bucket,
+          region: process.env.RECORDING_S3_REGION || '',
+          endpoint: process.env.RECORDING_S3_ENDPOINT || '',
+          accessKey: process.env.RECORDING_S3_ACCESS_KEY || '',
+          secret: process.env.RECORDING_S3_SECRET || '',
+          forcePathStyle: process.env.RECORDING_S3_FORCE_PATH_STYLE === 'true',
+        }),
+      },
+    });
+  }
+
+  /**
+   * Create an ingress that publishes an external stream (OBS, ...) into a room
+   * @param roomName Name of the room to publish to
+   * @param inputType RTMP or WHIP
+   * @param participant Identity and display name of the ingress participant
+   * @returns Ingress information (url and streamKey for the encoder)
+   */
+  async createIngress(
+    roomName: string,
+    inputType: IngressType,
+    participant: { identity: string; name: string }
+  ): Promise<IngressInfo> {
+    try {
+      return await this.call('createIngress', () =>
+        this.ingressClient.createIngress(
+          inputType === 'WHIP' ? IngressInput.WHIP_INPUT : IngressInput.RTMP_INPUT,
+          {
+            name: roomName,
+            roomName,
+            participantIdentity: participant.identity,
+            participantName: participant.name,
+          }
+        )
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to create ingress: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to create ingress');
+    }
+  }
+
+  /**
+   * Delete an ingress (disconnects the encoder, the stream key stops working)
+   * @param ingressId LiveKit ingress ID
+   */
+  async deleteIngress(ingressId: string): Promise<void> {
+    try {
+      await this.call('deleteIngress', () => this.ingressClient.deleteIngress(ingressId));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new LiveKitError(`Failed to delete ingress: ${error.message}`);
+      }
+      throw new LiveKitError('Failed to delete ingress');
+    }
+  }
+
   /**
    * Generate an access token for a participant to join a room
-   * @param options Token generation options
+   * @param options Token generation options (ttlSeconds defaults to TOKEN_EXPIRATION_HOURS,
+   *   permission replaces the grants of the role)
    * @returns JWT token string
    */
   async generateAccessToken(options: {
     roomName: string;
     participantIdentity: string;
     participantName: string;
-    role: 'HOST' | 'VIEWER';
+    role: ParticipantRole;
     metadata?: string;
+    ttlSeconds?: number;
+    permission?: Pick<ParticipantPermission, 'canPublish' | 'canPublishData' | 'canSubscribe'>;
   }): Promise<string> {
     try {
       const expirationHours = parseInt(process.env.TOKEN_EXPIRATION_HOURS || '24', 10);
@@ -118,12 +421,21 @@ class LiveKitService {
         identity: options.participantIdentity,
         name: options.participantName,
         metadata: options.metadata,
-        ttl: `${expirationHours}h`, // Set expiration as time span string (e.g., "24h")
+        // Set expiration as time span string (e.g., "24h") or seconds
+        ttl: options.ttlSeconds ?? `${expirationHours}h`,
       });
 
-      // Grant permissions based on role
-      if (options.role === 'HOST') {
-        // Host can publish audio/video and subscribe to others
+      if (options.permission) {
+        // Explicit permissions (e.g. the current ones of a participant already in the room)
+        token.addGrant({
+          roomJoin: true,
+          room: options.roomName,
+          canPublish: options.permission.canPublish,
+          canPublishData: options.permission.canPublishData,
+          canSubscribe: options.permission.canSubscribe,
+        });
+      } else if (options.role === 'HOST' || options.role === 'CO_HOST') {
+        // Host and co-hosts can publish audio/video and subscribe to others
         token.addGrant({
           roomJoin: true,
           room: options.roomName,
@@ -131,6 +443,15 @@ class LiveKitService {
           canPublishData: true,
           canSubscribe: true,
         });
+      } else if (options.role === 'MODERATOR') {
+        // Moderator cannot publish audio/video, but can send data messages (e.g. notices)
+        token.addGrant({
+          roomJoin: true,
+          room: options.roomName,
+          canPublish: false,
+          canPublishData: true,
+          canSubscribe: true,
+        });
       } else {
         // Viewer can only subscribe (watch/listen)
         token.addGrant({
@@ -151,6 +472,20 @@ class LiveKitService {
     }
   }
 
+  /**
+   * Read the expiration time of an access token generated by this service
+   * @param token JWT token string
+   */
+  getTokenExpiresAt(token: string): Date {
+    const { exp } = decodeJwt(token);
+
+    if (exp === undefined) {
+      throw new LiveKitError('Access token has no expiration');
+    }
+
+    return new Date(exp * 1000);
+  }
+
   /**
    * Verify webhook signature from LiveKit
    * @param body Raw request body
@@ -175,7 +510,7 @@ class LiveKitService {
 
       return null;
     } catch (error) {
-      console.error('Webhook verification error:', error);
+      log.error('Webhook verification error', { error });
       // Invalid signature or malformed webhook
       return null;
     }
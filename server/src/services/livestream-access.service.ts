@@ -0,0 +1,76 @@
+/**
+ * Livestream Access Service - Who may see the content of a PRIVATE livestream
+ * (participants, history, state, chat, polls, recordings, viewer counts and live events)
+ *
+ * Allowed: the creator, allowlisted users, users with a role invite and anyone who joined
+ * the livestream (past or present session). PUBLIC and UNLISTED livestreams are open to everyone
+ */
+
+import { databaseService } from './database.service.js';
+import type { Livestream } from '../types/livestream.types.js';
+import { AuthorizationError } from '../utils/errors.js';
+
+class LivestreamAccessService {
+  /**
+   * Check whether a user may access the content of a livestream
+   * @param livestream Livestream being accessed
+   * @param userId Authenticated user ID (undefined for anonymous requests)
+   */
+  async canAccessLivestream(livestream: Livestream, userId: string | undefined): Promise<boolean> {
+    if (livestream.visibility !== 'PRIVATE' || livestream.createdBy === userId) {
+      return true;
+    }
+
+    if (!userId) {
+      return false;
+    }
+
+    if (livestream.allowedUserIds.includes(userId)) {
+      return true;
+    }
+
+    const [roleInvite, sessions] = await Promise.all([
+      databaseService.getRoleInvite(livestream.id, userId),
+      databaseService.listParticipants({ livestreamId: livestream.id, userId, limit: 1 }),
+    ]);
+
+    return roleInvite !== null || sessions.length > 0;
+  }
+
+  /**
+   * Throw unless a user may access the content of a livestream
+   * @param livestream Livestream being accessed
+   * @param userId Authenticated user ID (undefined for anonymous requests)
+   * @param message Error message when access is denied
+   * @throws AuthorizationError if the livestream is PRIVATE and the user has no access
+   */
+  async assertCanAccessLivestream(
+    livestream: Livestream,
+    userId: string | undefined,
+    message = 'This private livestream is not available'
+  ): Promise<void> {
+    if (!(await this.canAccessLivestream(livestream, userId))) {
+      throw new AuthorizationError(message);
+    }
+  }
+
+  /**
+   * Load a livestream and throw unless a user may access its content
+   * @param livestreamId Livestream ID
+   * @param userId Authenticated user ID (undefined for anonymous requests)
+   * @param message Error message when access is denied
+   * @throws NotFoundError if the livestream does not exist
+   * @throws AuthorizationError if the livestream is PRIVATE and the user has no access
+   */
+  async assertCanAccessLivestreamById(
+    livestreamId: string,
+    userId: string | undefined,
+    message?: string
+  ): Promise<void> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+    await this.assertCanAccessLivestream(livestream, userId, message);
+  }
+}
+
+// Singleton instance
+export const livestreamAccessService = new LivestreamAccessService();
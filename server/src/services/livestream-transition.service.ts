@@ -0,0 +1,115 @@
+/**
+ * Livestream Transition Service - Livestream status state machine
+ * Every status change goes through here so that illegal transitions are rejected,
+ * each change is recorded in the livestream's status history and LIVE / ENDED are
+ * published to outbound webhook subscribers
+ *
+ * Allowed transitions:
+ *   SCHEDULED -> LIVE | ENDED | ERROR
+ *   LIVE      -> ENDED | ERROR
+ *   ERROR     -> ENDED
+ *   ENDED     -> (terminal)
+ */
+
+import type { Prisma } from '@prisma/client';
+import { databaseService } from './database.service.js';
+import { outboundWebhookService } from './outbound-webhook.service.js';
+import type {
+  Livestream,
+  LivestreamStatus,
+  TransitionContext,
+} from '../types/livestream.types.js';
+import { InvalidTransitionError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Transition' });
+
+const ALLOWED_TRANSITIONS: Record<LivestreamStatus, readonly LivestreamStatus[]> = {
+  SCHEDULED: ['LIVE', 'ENDED', 'ERROR'],
+  LIVE: ['ENDED', 'ERROR'],
+  ERROR: ['ENDED'],
+  ENDED: [],
+};
+
+// Outbound webhook events published when a livestream enters these statuses
+const STATUS_EVENTS: Partial<Record<LivestreamStatus, 'livestream.live' | 'livestream.ended'>> = {
+  LIVE: 'livestream.live',
+  ENDED: 'livestream.ended',
+};
+
+class LivestreamTransitionService {
+  /**
+   * Check whether a status transition is allowed by the state machine
+   */
+  canTransition(from: LivestreamStatus, to: LivestreamStatus): boolean {
+    return ALLOWED_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Move a livestream to a new status and record the transition
+   * Fails if the transition is not allowed, or if another process changed the
+   * status since `livestream` was read (the transition is applied atomically)
+   *
+   * @param livestream Livestream as last read (its status is the expected current status)
+   * @param to Target status
+   * @param context Who/what is causing the transition
+   * @param data Additional fields to update alongside the status (startedAt, endedAt, ...)
+   */
+  async transition(
+    livestream: Livestream,
+    to: LivestreamStatus,
+    context: TransitionContext,
+    data?: Omit<Prisma.LivestreamUpdateManyMutationInput, 'status'>
+  ): Promise<Livestream> {
+    const from = livestream.status;
+
+    if (!this.canTransition(from, to)) {
+      throw new InvalidTransitionError(
+        `Cannot transition livestream ${livestream.id} from ${from} to ${to}`
+      );
+    }
+
+    const updated = await databaseService.transitionLivestreamStatus(
+      livestream.id,
+      from,
+      to,
+      context,
+      data
+    );
+
+    if (!updated) {
+      throw new InvalidTransitionError(
+        `Livestream ${livestream.id} is no longer ${from}, cannot transition to ${to}`
+      );
+    }
+
+    log.info(
+      `Livestream ${livestream.id}: ${from} -> ${to} (${context.source}${context.actorId ? `, actor: ${context.actorId}` : ''})`
+    );
+
+    const event = STATUS_EVENTS[to];
+    if (event) {
+      await outboundWebhookService.publishLivestreamEvent(event, updated, context);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Mark a livestream as ERROR after a failed operation
+   * Best effort: logs instead of throwing, so the original failure is what surfaces
+   *
+   * @param livestream Livestream as last read
+   * @param context Who/what detected the failure (reason should describe it)
+   */
+  async markError(livestream: Livestream, context: TransitionContext): Promise<void> {
+    try {
+      await this.transition(livestream, 'ERROR', context);
+    } catch (error) {
+      log.error(`Failed to mark livestream ${livestream.id} as ERROR`, { error });
+    }
+  }
+}
+
+// Export singleton instance
+export const livestreamTransitionService = new LivestreamTransitionService();
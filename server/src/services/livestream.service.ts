@@ -3,84 +3,336 @@
  * Coordinates between LiveKit and Database services to manage livestream lifecycle
  */
 
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
 import { databaseService } from './database.service.js';
 import { livekitService } from './livekit.service.js';
 import { stateService } from './state.service.js';
+import { queueService } from './queue.service.js';
+import { livestreamTransitionService } from './livestream-transition.service.js';
+import { inviteService } from './invite.service.js';
+import { waitingRoomService } from './waiting-room.service.js';
+import { recordingService } from './recording.service.js';
+import { ingressService } from './ingress.service.js';
+import { simulcastService } from './simulcast.service.js';
+import { pollService } from './poll.service.js';
+import { analyticsService } from './analytics.service.js';
+import { outboundWebhookService } from './outbound-webhook.service.js';
+import { moderationService } from './moderation.service.js';
 import type {
   CreateLivestreamRequest,
+  RescheduleLivestreamRequest,
   LivestreamResponse,
   Livestream,
+  LivestreamVisibility,
   JoinLivestreamRequest,
   JoinLivestreamResponse,
-  LeaveLivestreamRequest,
+  Participant,
   ParticipantResponse,
+  ParticipantRole,
+  RefreshTokenResponse,
+  RoleInvite,
+  RoleInviteRequest,
+  RoleInviteResponse,
+  StatusTransitionResponse,
+  TransitionContext,
+  WaitingRoomResponse,
+  WaitingRoomStatusResponse,
   WebhookEvent
 } from '../types/livestream.types.js';
-import { ValidationError, ConflictError, AuthorizationError } from '../utils/errors.js';
+import {
+  ValidationError,
+  ConflictError,
+  AuthorizationError,
+  NotFoundError,
+  CapacityError,
+} from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Livestream Service' });
+
+// A scheduled start job may fire slightly early (timer drift) - tolerate this much
+const SCHEDULED_START_TOLERANCE_MS = 1000;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const VISIBILITIES: LivestreamVisibility[] = ['PUBLIC', 'UNLISTED', 'PRIVATE'];
+const PASSCODE_KEY_LENGTH = 32;
+
+const PARTICIPANT_ROLES: ParticipantRole[] = ['HOST', 'CO_HOST', 'MODERATOR', 'VIEWER'];
+const INVITABLE_ROLES: ParticipantRole[] = ['CO_HOST', 'MODERATOR'];
+// Roles that run the livestream - never queued, not limited by maxParticipants
+const CAPACITY_EXEMPT_ROLES: ParticipantRole[] = ['HOST', 'CO_HOST'];
+
+/**
+ * Lifetime of issued access tokens (TOKEN_REFRESH_TTL_MINUTES, default: 15)
+ * Clients refresh them while their session is JOINED, so a kicked or banned user
+ * is left with a token that expires soon
+ */
+function getTokenTtlSeconds(): number {
+  return parseInt(process.env.TOKEN_REFRESH_TTL_MINUTES || '15', 10) * 60;
+}
 
 class LivestreamService {
   /**
    * Create a new livestream
    * 1. Validate input
    * 2. Create database record
-   * 3. Create LiveKit room
-   * 4. Update database with LIVE status
+   * 3. If scheduledStartAt is set: queue a delayed start job and return (stays SCHEDULED)
+   * 4. Otherwise create LiveKit room and update database with LIVE status
+   *
+   * @param data Create request data
+   * @param createdBy Authenticated user ID creating the livestream
    */
-  async createLivestream(data: CreateLivestreamRequest): Promise<LivestreamResponse> {
+  async createLivestream(
+    data: CreateLivestreamRequest,
+    createdBy: string
+  ): Promise<LivestreamResponse> {
     // Validate input
     this.validateCreateRequest(data);
 
     // Sanitize room name (LiveKit compatible: alphanumeric, hyphens, underscores)
     const sanitizedRoomName = this.sanitizeRoomName(data.roomName);
 
-    // Create database record with SCHEDULED status
+    const scheduledStartAt = data.scheduledStartAt
+      ? this.parseScheduledStartAt(data.scheduledStartAt)
+      : null;
+
+    const visibility = data.visibility ?? 'PUBLIC';
+    const passcodeHash = data.passcode ? await this.hashPasscode(data.passcode) : null;
+
+    // Create database record with SCHEDULED status (recorded as the first history entry)
     const livestream = await databaseService.createLivestream({
       roomName: sanitizedRoomName,
       title: data.title,
       description: data.description,
-      createdBy: data.createdBy,
+      createdBy,
       maxParticipants: data.maxParticipants ?? 100,
       emptyTimeout: data.emptyTimeout ?? 86400,
       metadata: (data.metadata ?? undefined) as any,
       status: 'SCHEDULED',
+      visibility,
+      passcodeHash,
+      allowedUserIds: data.allowedUserIds ?? [],
+      scheduledStartAt,
+      statusTransitions: {
+        create: { toStatus: 'SCHEDULED', source: 'API', actorId: createdBy },
+      },
     });
 
-    try {
-      // Create LiveKit room
-      await livekitService.createRoom({
-        name: sanitizedRoomName,
-        emptyTimeout: livestream.emptyTimeout,
-        maxParticipants: livestream.maxParticipants,
-      });
+    await outboundWebhookService.publishLivestreamEvent('livestream.created', livestream);
 
-      // Update database with LIVE status and startedAt timestamp
-      const startedAt = new Date();
-      const updatedLivestream = await databaseService.updateLivestream(livestream.id, {
-        status: 'LIVE',
-        startedAt,
-      });
+    const context: TransitionContext = { source: 'API', actorId: createdBy };
 
-      // Initialize stream state in Redis
-      await stateService.initializeState(
-        updatedLivestream.id,
-        {
-          userId: data.createdBy,
-          displayName: data.title, // Using title as display name for creator
-        },
-        startedAt
-      );
+    // Scheduled livestream - the schedule worker will start it at scheduledStartAt
+    if (scheduledStartAt) {
+      try {
+        await queueService.scheduleLivestreamStart(livestream.id, scheduledStartAt);
+      } catch (error) {
+        await livestreamTransitionService.markError(livestream, {
+          ...context,
+          reason: 'Failed to queue scheduled start',
+        });
+
+        throw error;
+      }
+
+      return this.formatLivestreamResponse(livestream);
+    }
 
+    try {
+      const updatedLivestream = await this.goLive(livestream, context);
       return this.formatLivestreamResponse(updatedLivestream);
     } catch (error) {
       // If LiveKit room creation fails, update database to ERROR status
-      await databaseService.updateLivestream(livestream.id, {
-        status: 'ERROR',
+      await livestreamTransitionService.markError(livestream, {
+        ...context,
+        reason: 'Failed to start livestream',
       });
 
       throw error;
     }
   }
 
+  /**
+   * Start a SCHEDULED livestream (called by the schedule worker at scheduledStartAt)
+   * Skips livestreams that were cancelled, deleted, already started or rescheduled later
+   *
+   * @param livestreamId Livestream ID
+   * @param isFinalAttempt Whether this is the last retry (marks ERROR on failure)
+   */
+  async startScheduledLivestream(
+    livestreamId: string,
+    isFinalAttempt: boolean
+  ): Promise<void> {
+    let livestream: Livestream;
+    try {
+      livestream = await databaseService.getLivestreamById(livestreamId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        log.info(`Scheduled livestream ${livestreamId} no longer exists, skipping start`);
+        return;
+      }
+      throw error;
+    }
+
+    if (livestream.status !== 'SCHEDULED') {
+      log.info(`Livestream ${livestreamId} is ${livestream.status}, skipping scheduled start`);
+      return;
+    }
+
+    // Stale job from before a reschedule - the new job will start it
+    if (
+      livestream.scheduledStartAt &&
+      livestream.scheduledStartAt.getTime() > Date.now() + SCHEDULED_START_TOLERANCE_MS
+    ) {
+      log.info(
+        `Livestream ${livestreamId} was rescheduled to ${livestream.scheduledStartAt.toISOString()}, skipping`
+      );
+      return;
+    }
+
+    try {
+      await this.goLive(livestream, { source: 'SCHEDULER' });
+      log.info(`Scheduled livestream ${livestreamId} is now LIVE`);
+    } catch (error) {
+      // Leave SCHEDULED while retries remain so the next attempt can start it
+      if (isFinalAttempt) {
+        await livestreamTransitionService.markError(livestream, {
+          source: 'SCHEDULER',
+          reason: 'Scheduled start failed after all retries',
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Reschedule a SCHEDULED livestream to a new start time
+   * Authorization: Only the creator can reschedule
+   *
+   * @param id Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   * @param data Reschedule request data
+   */
+  async rescheduleLivestream(
+    id: string,
+    requestingUserId: string,
+    data: RescheduleLivestreamRequest
+  ): Promise<LivestreamResponse> {
+    const livestream = await databaseService.getLivestreamById(id);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can reschedule it'
+      );
+    }
+
+    if (livestream.status !== 'SCHEDULED') {
+      throw new ValidationError(
+        `Cannot reschedule livestream with status ${livestream.status}. Livestream must be SCHEDULED.`
+      );
+    }
+
+    if (!data.scheduledStartAt) {
+      throw new ValidationError('scheduledStartAt is required');
+    }
+    const scheduledStartAt = this.parseScheduledStartAt(data.scheduledStartAt);
+
+    // Replaces the pending start job - fails (before saving the new time) if it is already running
+    await queueService.scheduleLivestreamStart(id, scheduledStartAt);
+
+    const updatedLivestream = await databaseService.updateLivestream(id, {
+      scheduledStartAt,
+    });
+
+    return this.formatLivestreamResponse(updatedLivestream);
+  }
+
+  /**
+   * Cancel a SCHEDULED livestream before it goes live
+   * Removes the pending start job and marks the livestream ENDED (startedAt stays null)
+   * Authorization: Only the creator can cancel
+   *
+   * @param id Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   */
+  async cancelScheduledLivestream(
+    id: string,
+    requestingUserId: string
+  ): Promise<LivestreamResponse> {
+    const livestream = await databaseService.getLivestreamById(id);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can cancel it'
+      );
+    }
+
+    if (livestream.status !== 'SCHEDULED') {
+      throw new ValidationError(
+        `Cannot cancel livestream with status ${livestream.status}. Livestream must be SCHEDULED.`
+      );
+    }
+
+    await queueService.cancelLivestreamStart(id);
+
+    const updatedLivestream = await livestreamTransitionService.transition(
+      livestream,
+      'ENDED',
+      { source: 'API', actorId: requestingUserId, reason: 'Cancelled before start' },
+      { endedAt: new Date() }
+    );
+
+    return this.formatLivestreamResponse(updatedLivestream);
+  }
+
+  /**
+   * Create the LiveKit room, mark the livestream LIVE and initialize its stream state
+   * @param livestream SCHEDULED livestream to start
+   * @param context Who/what is starting the livestream
+   */
+  private async goLive(livestream: Livestream, context: TransitionContext): Promise<Livestream> {
+    // Create LiveKit room
+    // maxParticipants is enforced when joining - LiveKit gets headroom for the HOST
+    // and CO_HOSTs, who join even when the livestream is full
+    const staffHeadroom = parseInt(process.env.ROOM_STAFF_HEADROOM || '10', 10);
+    await livekitService.createRoom({
+      name: livestream.roomName,
+      emptyTimeout: livestream.emptyTimeout,
+      maxParticipants: livestream.maxParticipants + staffHeadroom,
+    });
+
+    // Update database with LIVE status and startedAt timestamp
+    const startedAt = new Date();
+    const updatedLivestream = await livestreamTransitionService.transition(
+      livestream,
+      'LIVE',
+      context,
+      { startedAt }
+    );
+
+    // Initialize stream state in Redis
+    await stateService.initializeState(
+      updatedLivestream.id,
+      {
+        userId: livestream.createdBy,
+        displayName: livestream.title, // Using title as display name for creator
+      },
+      startedAt
+    );
+
+    // Start restreaming to the simulcast destinations
+    await simulcastService.startAll(updatedLivestream);
+
+    return updatedLivestream;
+  }
+
   /**
    * Get a livestream by ID
    */
@@ -90,38 +342,111 @@ class LivestreamService {
   }
 
   /**
-   * List all livestreams
+   * Get the status history of a livestream (oldest first)
    */
-  async listLivestreams(filters?: {
-    status?: 'SCHEDULED' | 'LIVE' | 'ENDED' | 'ERROR';
-    createdBy?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<LivestreamResponse[]> {
-    const livestreams = await databaseService.listLivestreams(filters);
+  async getLivestreamHistory(id: string): Promise<StatusTransitionResponse[]> {
+    // Verify livestream exists (404 otherwise)
+    await databaseService.getLivestreamById(id);
+
+    const transitions = await databaseService.listStatusTransitions(id);
+    return transitions.map(t => ({
+      id: t.id,
+      livestreamId: t.livestreamId,
+      fromStatus: t.fromStatus,
+      toStatus: t.toStatus,
+      source: t.source,
+      actorId: t.actorId,
+      reason: t.reason,
+      createdAt: t.createdAt,
+    }));
+  }
+
+  /**
+   * List livestreams
+   * Only PUBLIC livestreams are listed, except when the caller lists their own
+   * (createdBy = requestingUserId), which includes UNLISTED and PRIVATE ones
+   *
+   * @param filters List filters
+   * @param requestingUserId Authenticated user ID, if the caller is authenticated
+   */
+  async listLivestreams(
+    filters?: {
+      status?: 'SCHEDULED' | 'LIVE' | 'ENDED' | 'ERROR';
+      createdBy?: string;
+      visibility?: LivestreamVisibility;
+      limit?: number;
+      offset?: number;
+    },
+    requestingUserId?: string
+  ): Promise<LivestreamResponse[]> {
+    const { visibility, ...rest } = filters ?? {};
+    const listingOwn = !!requestingUserId && rest.createdBy === requestingUserId;
+
+    if (visibility && !VISIBILITIES.includes(visibility)) {
+      throw new ValidationError(`Visibility must be one of ${VISIBILITIES.join(', ')}`);
+    }
+
+    if (visibility && visibility !== 'PUBLIC' && !listingOwn) {
+      throw new AuthorizationError(
+        'Unlisted and private livestreams are only listed for their creator'
+      );
+    }
+
+    const visibilities: LivestreamVisibility[] = visibility
+      ? [visibility]
+      : listingOwn ? VISIBILITIES : ['PUBLIC'];
+
+    const livestreams = await databaseService.listLivestreams({ ...rest, visibilities });
     return livestreams.map(ls => this.formatLivestreamResponse(ls));
   }
 
   /**
-   * Delete a livestream (soft delete)
-   * 1. Verify the livestream exists
-   * 2. Check authorization (only creator can delete)
-   * 3. Delete the LiveKit room (disconnects all participants)
-   * 4. Update database status to ENDED
+   * End a broadcast (host-initiated) - the livestream stays queryable as ENDED
+   * Authorization: Only the creator can end
    *
    * @param id Livestream ID
-   * @param requestingUserId User ID making the delete request
+   * @param requestingUserId Authenticated user ID making the request
    */
-  async deleteLivestream(id: string, requestingUserId: string): Promise<LivestreamResponse> {
-    // Get the livestream
+  async endLivestream(id: string, requestingUserId: string): Promise<LivestreamResponse> {
     const livestream = await databaseService.getLivestreamById(id);
 
-    // Check if already ended
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can end it'
+      );
+    }
+
+    // Idempotent operation - return success if already ended
     if (livestream.status === 'ENDED') {
-      // Idempotent operation - return success if already ended
       return this.formatLivestreamResponse(livestream);
     }
 
+    if (livestream.status === 'SCHEDULED') {
+      throw new ValidationError(
+        'Cannot end a livestream that has not started. Cancel the scheduled livestream instead.'
+      );
+    }
+
+    const updatedLivestream = await this.endBroadcast(livestream, {
+      source: 'API',
+      actorId: requestingUserId,
+    });
+
+    return this.formatLivestreamResponse(updatedLivestream);
+  }
+
+  /**
+   * Delete a livestream (soft delete)
+   * Ends it first if it is still SCHEDULED or running, then hides it from the API
+   * Authorization: Only the creator can delete
+   *
+   * @param id Livestream ID
+   * @param requestingUserId Authenticated user ID making the delete request
+   */
+  async deleteLivestream(id: string, requestingUserId: string): Promise<LivestreamResponse> {
+    // Get the livestream (404 if already deleted)
+    const livestream = await databaseService.getLivestreamById(id);
+
     // Authorization check: only creator can delete
     if (livestream.createdBy !== requestingUserId) {
       throw new AuthorizationError(
@@ -129,22 +454,115 @@ class LivestreamService {
       );
     }
 
-    // Delete the LiveKit room (this will disconnect all participants)
+    const context: TransitionContext = {
+      source: 'API',
+      actorId: requestingUserId,
+      reason: 'Livestream deleted',
+    };
+
+    if (livestream.status === 'SCHEDULED') {
+      // A scheduled livestream has no room yet - just drop its pending start
+      await queueService.cancelLivestreamStart(id);
+      await livestreamTransitionService.transition(livestream, 'ENDED', context, {
+        endedAt: new Date(),
+      });
+    } else if (livestream.status !== 'ENDED') {
+      await this.endBroadcast(livestream, context);
+    }
+
+    const deletedLivestream = await databaseService.softDeleteLivestream(id);
+
+    return this.formatLivestreamResponse(deletedLivestream);
+  }
+
+  /**
+   * Stop a running (LIVE or ERROR) livestream
+   * 1. Update database status to ENDED
+   * 2. Delete the LiveKit room (disconnects all participants)
+   * 3. Release what the livestream still holds (see releaseEndedLivestream)
+   *
+   * The status changes first: deleting the room triggers room_finished, and the webhook
+   * worker must find the livestream already ENDED rather than end it concurrently
+   */
+  private async endBroadcast(
+    livestream: Livestream,
+    context: TransitionContext
+  ): Promise<Livestream> {
+    const updatedLivestream = await livestreamTransitionService.transition(
+      livestream,
+      'ENDED',
+      context,
+      { endedAt: new Date() }
+    );
+
     try {
       await livekitService.deleteRoom(livestream.roomName);
     } catch (error) {
-      // Log error but continue with database update
+      // Log error but continue with cleanup
       // The room might already be deleted or not exist in LiveKit
-      console.warn(`Failed to delete LiveKit room ${livestream.roomName}:`, error);
+      log.warn(`Failed to delete LiveKit room ${livestream.roomName}`, { error });
     }
 
-    // Update database with ENDED status and endedAt timestamp
-    const updatedLivestream = await databaseService.updateLivestream(id, {
-      status: 'ENDED',
-      endedAt: new Date(),
-    });
+    const participantsLeft = await this.releaseEndedLivestream(livestream);
 
-    return this.formatLivestreamResponse(updatedLivestream);
+    log.info(
+      `Livestream ${livestream.id} ended, marked ${participantsLeft.length} participants as left`
+    );
+
+    return updatedLivestream;
+  }
+
+  /**
+   * Release everything a livestream that just ENDED still holds
+   * Used by the API, the room_finished webhook and the reconciliation job
+   * 1. Mark all JOINED participants as LEFT (publishing participant.left for each)
+   * 2. Stop simulcasts, clean up stream state and notify SSE clients
+   * 3. Clear the waiting room, close polls, persist analytics and revoke the ingress
+   *
+   * @param livestream Livestream that was transitioned to ENDED
+   * @returns Participants marked as LEFT
+   */
+  async releaseEndedLivestream(livestream: Livestream): Promise<Participant[]> {
+    const participantsLeft = await this.markAllParticipantsAsLeft(livestream.id);
+
+    await simulcastService.stopAll(livestream);
+    await stateService.handleRoomEnded(livestream.id);
+    await waitingRoomService.clear(livestream.id);
+    await pollService.closeAll(livestream.id);
+    await analyticsService.persistStats(livestream.id);
+    await ingressService.revokeIngress(livestream);
+
+    return participantsLeft;
+  }
+
+  /**
+   * Disconnect a user who joined the LiveKit room without being allowed to
+   * @param reason Why the user may not stay (logged)
+   */
+  private async removeFromLiveKitRoom(
+    livestream: Livestream,
+    userId: string,
+    reason: string
+  ): Promise<void> {
+    log.warn(`Removing ${userId} from room ${livestream.roomName}: ${reason}`);
+
+    try {
+      await livekitService.removeParticipant(livestream.roomName, userId);
+    } catch (error) {
+      // The participant may have already disconnected from LiveKit
+      log.warn(`Failed to remove ${userId} from LiveKit room ${livestream.roomName}`, { error });
+    }
+  }
+
+  /**
+   * Mark all JOINED participants of a livestream as LEFT, publishing participant.left for each
+   */
+  private async markAllParticipantsAsLeft(livestreamId: string): Promise<Participant[]> {
+    const participantsLeft = await databaseService.markAllParticipantsAsLeft(livestreamId);
+    for (const participant of participantsLeft) {
+      await outboundWebhookService.publishParticipantEvent('participant.left', participant);
+    }
+    return participantsLeft;
   }
 
   /**
@@ -159,10 +577,6 @@ class LivestreamService {
       throw new ValidationError('Title is required');
     }
 
-    if (!data.createdBy || data.createdBy.trim().length === 0) {
-      throw new ValidationError('Creator ID (createdBy) is required');
-    }
-
     if (data.maxParticipants !== undefined && data.maxParticipants < 1) {
       throw new ValidationError('Max participants must be at least 1');
     }
@@ -170,6 +584,99 @@ class LivestreamService {
     if (data.emptyTimeout !== undefined && data.emptyTimeout < 0) {
       throw new ValidationError('Empty timeout cannot be negative');
     }
+
+    if (data.visibility !== undefined && !VISIBILITIES.includes(data.visibility)) {
+      throw new ValidationError(`Visibility must be one of ${VISIBILITIES.join(', ')}`);
+    }
+
+    if (data.visibility === 'PRIVATE') {
+      if (!data.passcode && !data.allowedUserIds?.length) {
+        throw new ValidationError(
+          'Private livestreams require a passcode or at least one allowed user'
+        );
+      }
+    } else if (data.passcode || data.allowedUserIds?.length) {
+      throw new ValidationError('passcode and allowedUserIds are only supported for PRIVATE livestreams');
+    }
+
+    if (data.passcode !== undefined && data.passcode.length < 4) {
+      throw new ValidationError('Passcode must be at least 4 characters');
+    }
+  }
+
+  /**
+   * Check a user may join a PRIVATE livestream
+   * Allowed: the creator, allowlisted users, holders of an invite code or role invite,
+   * or anyone presenting the correct passcode
+   */
+  private async checkPrivateAccess(
+    livestream: Livestream,
+    userId: string,
+    data: JoinLivestreamRequest,
+    hasInviteCode: boolean
+  ): Promise<void> {
+    if (
+      hasInviteCode ||
+      livestream.createdBy === userId ||
+      livestream.allowedUserIds.includes(userId)
+    ) {
+      return;
+    }
+
+    if (await databaseService.getRoleInvite(livestream.id, userId)) {
+      return;
+    }
+
+    if (data.passcode && livestream.passcodeHash) {
+      if (await this.verifyPasscode(data.passcode, livestream.passcodeHash)) {
+        return;
+      }
+      throw new AuthorizationError('Incorrect passcode');
+    }
+
+    throw new AuthorizationError(
+      'This livestream is private. A passcode or invitation is required to join.'
+    );
+  }
+
+  /**
+   * Hash a passcode for storage (scrypt, "salt:hash" in hex)
+   */
+  private async hashPasscode(passcode: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(passcode, salt, PASSCODE_KEY_LENGTH);
+    return `${salt.toString('hex')}:${hash.toString('hex')}`;
+  }
+
+  /**
+   * Check a passcode against a stored hash (constant-time)
+   */
+  private async verifyPasscode(passcode: string, storedHash: string): Promise<boolean> {
+    const [saltHex, hashHex] = storedHash.split(':');
+    if (!saltHex || !hashHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(passcode, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Parse and validate a scheduled start time (ISO 8601, must be in the future)
+   */
+  private parseScheduledStartAt(value: string): Date {
+    const scheduledStartAt = new Date(value);
+
+    if (Number.isNaN(scheduledStartAt.getTime())) {
+      throw new ValidationError('scheduledStartAt must be a valid ISO 8601 date');
+    }
+
+    if (scheduledStartAt.getTime() <= Date.now()) {
+      throw new ValidationError('scheduledStartAt must be in the future');
+    }
+
+    return scheduledStartAt;
   }
 
   /**
@@ -189,17 +696,22 @@ class LivestreamService {
    * Join a livestream
    * 1. Verify the livestream exists and is LIVE
    * 2. Validate the join request
-   * 3. Check if user is already joined
-   * 4. Create participant record
-   * 5. Generate access token
+   * 3. Check the user is not banned and not already joined
+   * 4. Resolve the invite code (if any) and check the requested role is allowed
+   * 5. Create participant record if there is room (consuming one invite use atomically)
+   *    - If the livestream is full, the user is placed in the waiting room instead
+   *    - HOST and CO_HOST always join, even when the livestream is full
+   * 6. Generate access token
    *
    * @param livestreamId The livestream ID
+   * @param userId Authenticated user ID joining the livestream
    * @param data Join request data
    */
   async joinLivestream(
     livestreamId: string,
+    userId: string,
     data: JoinLivestreamRequest
-  ): Promise<JoinLivestreamResponse> {
+  ): Promise<JoinLivestreamResponse | WaitingRoomResponse> {
     // Validate input
     this.validateJoinRequest(data);
 
@@ -213,9 +725,15 @@ class LivestreamService {
       );
     }
 
+    // Banned users never get a token
+    const ban = await databaseService.getBan(livestreamId, userId);
+    if (ban) {
+      throw new AuthorizationError('You have been banned from this livestream');
+    }
+
     // Check if user is already an active participant
     const existingParticipant = await databaseService.getActiveParticipant(
-      data.userId,
+      userId,
       livestreamId
     );
 
@@ -225,87 +743,321 @@ class LivestreamService {
       );
     }
 
+    // Invite codes grant their role (validated now, consumed with the participant record)
+    const invite = data.inviteCode
+      ? await inviteService.resolveInvite(livestreamId, data.inviteCode)
+      : null;
+
+    if (livestream.visibility === 'PRIVATE') {
+      await this.checkPrivateAccess(livestream, userId, data, invite !== null);
+    }
+
+    if (invite && data.role && data.role !== invite.role) {
+      throw new ValidationError(`This invite code grants the ${invite.role} role`);
+    }
+
+    const role = data.role ?? invite!.role;
+
     // Only the creator can join as HOST
-    if (data.role === 'HOST' && livestream.createdBy !== data.userId) {
+    if (role === 'HOST' && livestream.createdBy !== userId) {
       throw new AuthorizationError(
         'Only the livestream creator can join as HOST'
       );
     }
 
+    // CO_HOST and MODERATOR require a role invite or an invite code from the creator
+    if ((role === 'CO_HOST' || role === 'MODERATOR') && !invite) {
+      const roleInvite = await databaseService.getRoleInvite(livestreamId, userId);
+      if (!roleInvite || roleInvite.role !== role) {
+        throw new AuthorizationError(
+          `Joining as ${role} requires an invite from the livestream creator`
+        );
+      }
+    }
+
     // Create participant record
-    const participant = await databaseService.createParticipant({
-      livestream: { connect: { id: livestreamId } },
-      userId: data.userId,
+    const participantData = {
+      userId,
       displayName: data.displayName,
-      role: data.role,
-      status: 'JOINED',
+      role,
+      status: 'JOINED' as const,
       metadata: (data.metadata || undefined) as any,
-    });
+    };
+
+    let capacity: number | null = null;
+
+    if (!CAPACITY_EXEMPT_ROLES.includes(role)) {
+      // Waiting users keep their place - only admitted users may take a slot while others wait
+      const admitted = await waitingRoomService.isAdmitted(livestreamId, userId);
+      if (!admitted && (await waitingRoomService.getQueueLength(livestreamId)) > 0) {
+        return await waitingRoomService.enqueue(livestreamId, userId);
+      }
+
+      // Slots reserved for other admitted users are not available
+      const reserved = await waitingRoomService.countReservations(livestreamId, userId);
+      capacity = livestream.maxParticipants - reserved;
+    }
+
+    let participant;
+    try {
+      participant = await databaseService.createParticipantWithinCapacity(
+        { ...participantData, livestreamId },
+        capacity,
+        invite?.id
+      );
+    } catch (error) {
+      if (error instanceof CapacityError) {
+        return await waitingRoomService.enqueue(livestreamId, userId);
+      }
+      throw error;
+    }
+
+    // Another join used up, or the creator revoked, the invite since it was resolved
+    if (!participant) {
+      throw new AuthorizationError('Invite code is no longer valid');
+    }
+
+    await waitingRoomService.completeAdmission(livestreamId, userId);
 
     // Generate access token
     const token = await livekitService.generateAccessToken({
       roomName: livestream.roomName,
-      participantIdentity: data.userId,
+      participantIdentity: userId,
       participantName: data.displayName,
-      role: data.role,
+      role,
       metadata: JSON.stringify(data.metadata || {}),
+      ttlSeconds: getTokenTtlSeconds(),
     });
 
     return {
       token,
       url: livekitService.getLiveKitUrl(),
+      expiresAt: livekitService.getTokenExpiresAt(token),
       participant: this.formatParticipantResponse(participant),
     };
   }
 
+  /**
+   * Re-issue a short-lived access token for an active participant
+   * Keeps the existing participant session (no new Participant record), so a
+   * long-running viewer never has to rejoin when their token is about to expire
+   *
+   * The grants are the participant's current permissions in the room, not the defaults of
+   * their role - permissions revoked by a moderator stay revoked
+   *
+   * Configuration:
+   * - TOKEN_REFRESH_TTL_MINUTES: Lifetime of issued tokens (default: 15)
+   *
+   * @param livestreamId The livestream ID
+   * @param userId Authenticated user ID of the participant
+   */
+  async refreshToken(livestreamId: string, userId: string): Promise<RefreshTokenResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.status !== 'LIVE') {
+      throw new ValidationError(
+        `Cannot refresh token for livestream with status ${livestream.status}. Livestream must be LIVE.`
+      );
+    }
+
+    // Only a JOINED session can be refreshed - kicked/left users must rejoin
+    const participant = await databaseService.getActiveParticipant(userId, livestreamId);
+    if (!participant) {
+      throw new NotFoundError('User is not an active participant in this livestream');
+    }
+
+    const ban = await databaseService.getBan(livestreamId, userId);
+    if (ban) {
+      throw new AuthorizationError('You have been banned from this livestream');
+    }
+
+    // Moderators change permissions in LiveKit only - read them back from the room
+    // (a participant who is reconnecting is not in the room: the role grants apply)
+    const permission = (await livekitService.findParticipant(livestream.roomName, userId))
+      ?.permission;
+
+    const token = await livekitService.generateAccessToken({
+      roomName: livestream.roomName,
+      participantIdentity: userId,
+      participantName: participant.displayName,
+      role: participant.role,
+      metadata: JSON.stringify(participant.metadata || {}),
+      ttlSeconds: getTokenTtlSeconds(),
+      permission: permission && {
+        canPublish: permission.canPublish,
+        canPublishData: permission.canPublishData,
+        canSubscribe: permission.canSubscribe,
+      },
+    });
+
+    return {
+      token,
+      url: livekitService.getLiveKitUrl(),
+      expiresAt: livekitService.getTokenExpiresAt(token),
+    };
+  }
+
   /**
    * Leave a livestream
-   * Updates participant status to LEFT
+   * Updates participant status to LEFT and admits the next waiting user
    *
    * @param livestreamId The livestream ID
-   * @param data Leave request data
+   * @param userId Authenticated user ID leaving the livestream
    */
   async leaveLivestream(
     livestreamId: string,
-    data: LeaveLivestreamRequest
+    userId: string
   ): Promise<void> {
-    // Validate input
-    if (!data.userId || data.userId.trim().length === 0) {
-      throw new ValidationError('User ID is required');
-    }
-
     // Verify livestream exists
-    await databaseService.getLivestreamById(livestreamId);
+    const livestream = await databaseService.getLivestreamById(livestreamId);
 
     // Get active participant to retrieve LiveKit SID
     const participant = await databaseService.getActiveParticipant(
-      data.userId,
+      userId,
       livestreamId
     );
 
     if (!participant) {
       // Already left or never joined - idempotent operation
-      console.log(
-        `[Service] Participant ${data.userId} not found or already left`
-      );
+      log.info(`Participant ${userId} not found or already left`);
       return;
     }
 
     // Use SID-based method for transaction safety
     if (participant.livekitParticipantSid) {
-      await databaseService.markParticipantAsLeftBySid(
+      const leftParticipant = await databaseService.markParticipantAsLeftBySid(
         participant.livekitParticipantSid
       );
+
+      if (leftParticipant) {
+        await outboundWebhookService.publishParticipantEvent('participant.left', leftParticipant);
+      }
     } else {
       // This shouldn't happen in normal flow, but log warning
-      console.warn(
-        `[Service] Participant ${data.userId} has no LiveKit SID - cannot mark as left safely`
-      );
+      log.warn(`Participant ${userId} has no LiveKit SID - cannot mark as left safely`);
       throw new ValidationError('Participant missing LiveKit SID');
     }
 
     // Update stream state
-    await stateService.handleParticipantLeft(livestreamId, data.userId);
+    await stateService.handleParticipantLeft(livestreamId, userId);
+
+    // Hand the free slot to the waiting room
+    await waitingRoomService.admitNext(livestream);
+  }
+
+  /**
+   * Get the authenticated user's waiting room status for a full livestream
+   *
+   * @param livestreamId The livestream ID
+   * @param userId Authenticated user ID
+   */
+  async getWaitingRoomStatus(
+    livestreamId: string,
+    userId: string
+  ): Promise<WaitingRoomStatusResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    return await waitingRoomService.getStatus(livestream, userId);
+  }
+
+  /**
+   * Leave the waiting room of a livestream (idempotent)
+   *
+   * @param livestreamId The livestream ID
+   * @param userId Authenticated user ID
+   */
+  async leaveWaitingRoom(livestreamId: string, userId: string): Promise<void> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    await waitingRoomService.leave(livestream, userId);
+  }
+
+  /**
+   * Invite a user to join a livestream as CO_HOST or MODERATOR
+   * Re-inviting a user replaces their previous role
+   * Authorization: Only the creator can invite
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   * @param data Role invite request data
+   */
+  async inviteToRole(
+    livestreamId: string,
+    requestingUserId: string,
+    data: RoleInviteRequest
+  ): Promise<RoleInviteResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can invite co-hosts and moderators'
+      );
+    }
+
+    if (!data.userId || data.userId.trim().length === 0) {
+      throw new ValidationError('userId is required');
+    }
+
+    if (!data.role || !INVITABLE_ROLES.includes(data.role)) {
+      throw new ValidationError(`Role must be one of ${INVITABLE_ROLES.join(', ')}`);
+    }
+
+    if (data.userId === livestream.createdBy) {
+      throw new ValidationError('The creator already hosts this livestream');
+    }
+
+    const roleInvite = await databaseService.createRoleInvite({
+      livestreamId,
+      userId: data.userId,
+      role: data.role,
+      invitedBy: requestingUserId,
+    });
+
+    return this.formatRoleInviteResponse(roleInvite);
+  }
+
+  /**
+   * List role invites for a livestream
+   * Authorization: Only the creator can list invites
+   */
+  async listRoleInvites(
+    livestreamId: string,
+    requestingUserId: string
+  ): Promise<RoleInviteResponse[]> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can view role invites'
+      );
+    }
+
+    const roleInvites = await databaseService.listRoleInvites(livestreamId);
+    return roleInvites.map(invite => this.formatRoleInviteResponse(invite));
+  }
+
+  /**
+   * Revoke a user's role invite (they can no longer join with that role)
+   * Does not disconnect a current session - use the kick endpoint for that
+   * Authorization: Only the creator can revoke invites
+   */
+  async revokeRoleInvite(
+    livestreamId: string,
+    requestingUserId: string,
+    userId: string
+  ): Promise<void> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can revoke role invites'
+      );
+    }
+
+    const removed = await databaseService.deleteRoleInvite(livestreamId, userId);
+    if (!removed) {
+      throw new NotFoundError(`User ${userId} has no role invite for this livestream`);
+    }
   }
 
   /**
@@ -315,10 +1067,17 @@ class LivestreamService {
     livestreamId?: string;
     userId?: string;
     status?: 'JOINED' | 'LEFT';
-    role?: 'HOST' | 'VIEWER';
+    roles?: ParticipantRole[];
     limit?: number;
     offset?: number;
   }): Promise<ParticipantResponse[]> {
+    const invalidRole = filters?.roles?.find(role => !PARTICIPANT_ROLES.includes(role));
+    if (invalidRole) {
+      throw new ValidationError(
+        `Invalid role filter ${invalidRole}. Must be one of ${PARTICIPANT_ROLES.join(', ')}`
+      );
+    }
+
     const participants = await databaseService.listParticipants(filters);
     return participants.map(p => this.formatParticipantResponse(p));
   }
@@ -330,7 +1089,7 @@ class LivestreamService {
    * @param event Webhook event from LiveKit
    */
   async handleWebhookEvent(event: WebhookEvent): Promise<void> {
-    console.log(`[Service] Processing webhook event: ${event.event}`);
+    log.info(`Processing webhook event: ${event.event}`);
 
     try {
       switch (event.event) {
@@ -342,71 +1101,91 @@ class LivestreamService {
             );
 
             if (livestream) {
+              const userId = event.participant.identity;
+
+              // The ingress (OBS) publishes as its own participant, without a session
+              if (userId === ingressService.getParticipantIdentity(livestream.id)) {
+                log.info(`Ingress joined room ${event.room.name}`);
+                break;
+              }
+
+              // A kicked or banned user can reconnect until their token expires - only users
+              // with a JOINED session and no ban may stay in the room
+              if (await moderationService.isBanned(livestream.id, userId)) {
+                await this.removeFromLiveKitRoom(livestream, userId, 'banned');
+                break;
+              }
+
               const updated = await databaseService.updateParticipantWithLiveKitSids(
-                event.participant.identity, // userId
+                userId,
                 livestream.id,
                 event.participant.sid, // LiveKit participant SID
                 event.room.sid // LiveKit room SID
               );
 
               if (updated) {
-                console.log(
-                  `[Service] Participant ${event.participant.identity} joined room ${event.room.name} (SID: ${event.participant.sid})`
+                log.info(
+                  `Participant ${userId} joined room ${event.room.name} (SID: ${event.participant.sid})`
                 );
 
+                await outboundWebhookService.publishParticipantEvent('participant.joined', updated);
+
                 // Update stream state (no SSE broadcast - internal state only)
-                await stateService.handleParticipantJoined(
-                  livestream.id,
-                  event.participant.identity
-                );
+                await stateService.handleParticipantJoined(livestream.id, userId);
+              } else if (!(await databaseService.getActiveParticipant(userId, livestream.id))) {
+                await this.removeFromLiveKitRoom(livestream, userId, 'no active session');
               } else {
-                console.warn(
-                  `[Service] Could not find participant record for ${event.participant.identity} in ${event.room.name}`
-                );
+                log.warn(`Participant ${userId} already has a LiveKit SID in ${event.room.name}`);
               }
             } else {
-              console.warn(
-                `[Service] Received participant_joined for unknown room: ${event.room.name}`
-              );
+              log.warn(`Received participant_joined for unknown room: ${event.room.name}`);
             }
           } else {
-            console.warn(
-              `[Service] Received participant_joined webhook with missing data`
-            );
+            log.warn(`Received participant_joined webhook with missing data`);
           }
           break;
 
         case 'participant_left':
           // LiveKit confirmed participant left - use SID-based method (TRANSACTION-SAFE)
           if (event.participant && event.room) {
+            const livestream = await databaseService.getLivestreamByRoomName(
+              event.room.name
+            );
+
+            // Processed before participant_joined (out-of-order delivery or a deferred job),
+            // the SID is not stored yet - the session of the user is marked instead. The join
+            // is then dropped as stale
             const updated = await databaseService.markParticipantAsLeftBySid(
-              event.participant.sid
+              event.participant.sid,
+              livestream
+                ? { userId: event.participant.identity, livestreamId: livestream.id }
+                : undefined
             );
 
             if (updated) {
-              console.log(
-                `[Service] Participant ${event.participant.identity} left room (SID: ${event.participant.sid})`
+              log.info(
+                `Participant ${event.participant.identity} left room (SID: ${event.participant.sid})`
               );
 
+              await outboundWebhookService.publishParticipantEvent('participant.left', updated);
+
               // Update stream state (no SSE broadcast - internal state only)
-              const livestream = await databaseService.getLivestreamByRoomName(
-                event.room.name
-              );
               if (livestream) {
                 await stateService.handleParticipantLeft(
                   livestream.id,
                   event.participant.identity
                 );
+
+                // Hand the free slot to the waiting room
+                await waitingRoomService.admitNext(livestream);
               }
             } else {
-              console.log(
-                `[Service] Participant ${event.participant.identity} already marked as left or not found (SID: ${event.participant.sid})`
+              log.info(
+                `Participant ${event.participant.identity} already marked as left or not found (SID: ${event.participant.sid})`
               );
             }
           } else {
-            console.warn(
-              `[Service] Received participant_left webhook with missing participant data`
-            );
+            log.warn(`Received participant_left webhook with missing participant data`);
           }
           break;
 
@@ -425,7 +1204,7 @@ class LivestreamService {
                   'room_started',
                   state
                 );
-                console.log(`[Service] Room ${event.room.name} started - broadcast SSE event`);
+                log.info(`Room ${event.room.name} started - broadcast SSE event`);
               }
             }
           }
@@ -439,52 +1218,68 @@ class LivestreamService {
             );
 
             if (livestream) {
-              const activeParticipants = await databaseService.listParticipants({
-                livestreamId: livestream.id,
-                status: 'JOINED',
-              });
-
-              // Mark all active participants as left using SID-based method
-              let updatedCount = 0;
-              for (const participant of activeParticipants) {
-                if (participant.livekitParticipantSid) {
-                  const updated = await databaseService.markParticipantAsLeftBySid(
-                    participant.livekitParticipantSid
-                  );
-                  if (updated) updatedCount++;
-                } else {
-                  // This shouldn't happen - log warning
-                  console.warn(
-                    `[Service] Participant ${participant.userId} has no LiveKit SID (room: ${event.room.name})`
-                  );
-                }
-              }
+              // Update database livestream status to ENDED
+              // (already ENDED if the host ended or deleted it via the API)
+              if (livestreamTransitionService.canTransition(livestream.status, 'ENDED')) {
+                await livestreamTransitionService.transition(
+                  livestream,
+                  'ENDED',
+                  { source: 'WEBHOOK', reason: 'LiveKit room finished' },
+                  { endedAt: new Date() }
+                );
 
-              console.log(
-                `[Service] Room ${event.room.name} finished, marked ${updatedCount} participants as left`
-              );
+                log.info(`Livestream ${livestream.id} marked as ENDED in database`);
 
-              // Update database livestream status to ENDED
-              await databaseService.updateLivestream(livestream.id, {
-                status: 'ENDED',
-                endedAt: new Date(),
-              });
+                // Mark participants as left, update state and broadcast SSE event
+                const participantsLeft = await this.releaseEndedLivestream(livestream);
 
-              console.log(
-                `[Service] Livestream ${livestream.id} marked as ENDED in database`
-              );
+                log.info(
+                  `Room ${event.room.name} finished, marked ${participantsLeft.length} participants as left`
+                );
+              } else {
+                // Sessions joined while the livestream was being ended
+                const participantsLeft = await this.markAllParticipantsAsLeft(livestream.id);
 
-              // Handle room ended - updates state and broadcasts SSE event
-              await stateService.handleRoomEnded(livestream.id);
+                log.info(
+                  `Room ${event.room.name} finished, marked ${participantsLeft.length} participants as left`
+                );
+              }
             }
           }
           break;
 
+        case 'egress_started':
+        case 'egress_updated':
+        case 'egress_ended':
+          // Simulcast push or recording status changed - keep destinations / recordings in sync
+          if (event.egressInfo) {
+            const handled = await simulcastService.handleEgressEvent(event.egressInfo);
+            if (!handled) {
+              await recordingService.handleEgressEvent(event.egressInfo);
+            }
+          } else {
+            log.warn(`Received ${event.event} webhook with missing egress info`);
+          }
+          break;
+
+        case 'ingress_started':
+        case 'ingress_ended':
+          // Encoder (OBS, ...) started or stopped publishing through the ingress
+          if (event.ingressInfo) {
+            await ingressService.handleIngressEvent(
+              event.ingressInfo,
+              event.event === 'ingress_started'
+            );
+          } else {
+            log.warn(`Received ${event.event} webhook with missing ingress info`);
+          }
+          break;
+
         default:
-          console.log(`[Service] Unhandled webhook event: ${event.event}`);
+          log.info(`Unhandled webhook event: ${event.event}`);
       }
     } catch (error) {
-      console.error('[Service] Error handling webhook event:', error);
+      log.error('Error handling webhook event', { error });
       // Throw error so worker can retry
       throw error;
     }
@@ -494,16 +1289,17 @@ class LivestreamService {
    * Validate join livestream request
    */
   private validateJoinRequest(data: JoinLivestreamRequest): void {
-    if (!data.userId || data.userId.trim().length === 0) {
-      throw new ValidationError('User ID is required');
-    }
-
     if (!data.displayName || data.displayName.trim().length === 0) {
       throw new ValidationError('Display name is required');
     }
 
-    if (!data.role || !['HOST', 'VIEWER'].includes(data.role)) {
-      throw new ValidationError('Role must be either HOST or VIEWER');
+    // Role may be omitted when joining with an invite code (the invite's role is used)
+    if (!data.role && !data.inviteCode) {
+      throw new ValidationError('Role is required');
+    }
+
+    if (data.role && !PARTICIPANT_ROLES.includes(data.role)) {
+      throw new ValidationError(`Role must be one of ${PARTICIPANT_ROLES.join(', ')}`);
     }
   }
 
@@ -517,17 +1313,34 @@ class LivestreamService {
       title: livestream.title,
       description: livestream.description,
       status: livestream.status,
+      visibility: livestream.visibility,
+      hasPasscode: livestream.passcodeHash !== null,
       createdBy: livestream.createdBy,
       maxParticipants: livestream.maxParticipants,
       emptyTimeout: livestream.emptyTimeout,
       metadata: livestream.metadata as Record<string, unknown> | null,
       createdAt: livestream.createdAt,
       updatedAt: livestream.updatedAt,
+      scheduledStartAt: livestream.scheduledStartAt,
       startedAt: livestream.startedAt,
       endedAt: livestream.endedAt,
     };
   }
 
+  /**
+   * Format role invite for API response
+   */
+  private formatRoleInviteResponse(roleInvite: RoleInvite): RoleInviteResponse {
+    return {
+      id: roleInvite.id,
+      livestreamId: roleInvite.livestreamId,
+      userId: roleInvite.userId,
+      role: roleInvite.role,
+      invitedBy: roleInvite.invitedBy,
+      createdAt: roleInvite.createdAt,
+    };
+  }
+
   /**
    * Format participant for API response
    */
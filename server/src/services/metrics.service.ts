@@ -0,0 +1,269 @@
+/**
+ * Metrics Service - Prometheus metrics for the orchestrator internals
+ * Exposed in the Prometheus text format by GET /metrics
+ *
+ * Event metrics (HTTP requests, LiveKit API calls, webhook jobs, reconciliation runs)
+ * are recorded where they happen; snapshot metrics (queue depth, SSE connections,
+ * livestreams by status) are set from a snapshot taken on each scrape
+ */
+
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import type { LivestreamStatus } from '../types/livestream.types.js';
+
+const PREFIX = 'orchestrator_';
+
+/**
+ * Reconciliation run results (see runReconciliation)
+ */
+interface ReconciliationRunStats {
+  staleLivestreams: number;
+  participantsUpdated: number;
+  errors: number;
+}
+
+/**
+ * State sampled on each scrape
+ */
+export interface MetricsSnapshot {
+  webhookQueue: { waiting: number; active: number; completed: number; failed: number } | null;
+  webhookDeadLetter?: number | null; // Jobs in the webhook dead-letter queue
+  sse: { activeConnections: number; subscribedStreams: number } | null;
+  livestreamsByStatus: Record<LivestreamStatus, number> | null;
+}
+
+class MetricsService {
+  private registry: Registry;
+
+  private httpRequestDuration: Histogram<'method' | 'route' | 'status_code'>;
+  private livekitRequestDuration: Histogram<'operation'>;
+  private livekitErrors: Counter<'operation'>;
+  private webhookJobs: Counter<'result'>;
+  private webhookStaleEvents: Counter<'event'>;
+  private webhookQueueJobs: Gauge<'state'>;
+  private webhookDeadLetterJobs: Gauge;
+  private sseConnections: Gauge;
+  private sseSubscribedStreams: Gauge;
+  private livestreams: Gauge<'status'>;
+  private reconciliationRuns: Counter;
+  private reconciliationDuration: Histogram;
+  private reconciliationStaleLivestreams: Counter;
+  private reconciliationParticipantsUpdated: Counter;
+  private reconciliationErrors: Counter;
+  private reconciliationLastRun: Gauge;
+
+  constructor() {
+    this.registry = new Registry();
+    collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+
+    this.httpRequestDuration = new Histogram({
+      name: `${PREFIX}http_request_duration_seconds`,
+      help: 'HTTP request latency by route',
+      labelNames: ['method', 'route', 'status_code'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers: [this.registry],
+    });
+
+    this.livekitRequestDuration = new Histogram({
+      name: `${PREFIX}livekit_request_duration_seconds`,
+      help: 'LiveKit API call latency by operation',
+      labelNames: ['operation'],
+      buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers: [this.registry],
+    });
+
+    this.livekitErrors = new Counter({
+      name: `${PREFIX}livekit_request_errors_total`,
+      help: 'Failed LiveKit API calls by operation',
+      labelNames: ['operation'],
+      registers: [this.registry],
+    });
+
+    this.webhookJobs = new Counter({
+      name: `${PREFIX}webhook_jobs_total`,
+      help: 'Webhook job attempts on this instance (result: completed or failed - failed attempts may be retried)',
+      labelNames: ['result'],
+      registers: [this.registry],
+    });
+
+    this.webhookStaleEvents = new Counter({
+      name: `${PREFIX}webhook_stale_events_total`,
+      help: 'LiveKit webhooks dropped because a newer event of the same room, participant, egress or ingress was already applied',
+      labelNames: ['event'],
+      registers: [this.registry],
+    });
+
+    this.webhookQueueJobs = new Gauge({
+      name: `${PREFIX}webhook_queue_jobs`,
+      help: 'Jobs in the webhook queue by state',
+      labelNames: ['state'],
+      registers: [this.registry],
+    });
+
+    this.webhookDeadLetterJobs = new Gauge({
+      name: `${PREFIX}webhook_dead_letter_jobs`,
+      help: 'Webhook jobs that failed every attempt and wait in the dead-letter queue',
+      registers: [this.registry],
+    });
+
+    this.sseConnections = new Gauge({
+      name: `${PREFIX}sse_connections`,
+      help: 'Open SSE connections on this instance',
+      registers: [this.registry],
+    });
+
+    this.sseSubscribedStreams = new Gauge({
+      name: `${PREFIX}sse_subscribed_streams`,
+      help: 'Livestreams with at least one SSE connection on this instance',
+      registers: [this.registry],
+    });
+
+    this.livestreams = new Gauge({
+      name: `${PREFIX}livestreams`,
+      help: 'Livestreams by status (soft-deleted excluded)',
+      labelNames: ['status'],
+      registers: [this.registry],
+    });
+
+    this.reconciliationRuns = new Counter({
+      name: `${PREFIX}reconciliation_runs_total`,
+      help: 'Reconciliation runs',
+      registers: [this.registry],
+    });
+
+    this.reconciliationDuration = new Histogram({
+      name: `${PREFIX}reconciliation_duration_seconds`,
+      help: 'Reconciliation run duration',
+      buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60],
+      registers: [this.registry],
+    });
+
+    this.reconciliationStaleLivestreams = new Counter({
+      name: `${PREFIX}reconciliation_stale_livestreams_total`,
+      help: 'Stale LIVE livestreams found by reconciliation',
+      registers: [this.registry],
+    });
+
+    this.reconciliationParticipantsUpdated = new Counter({
+      name: `${PREFIX}reconciliation_participants_updated_total`,
+      help: 'Participants marked as LEFT by reconciliation',
+      registers: [this.registry],
+    });
+
+    this.reconciliationErrors = new Counter({
+      name: `${PREFIX}reconciliation_errors_total`,
+      help: 'Errors during reconciliation',
+      registers: [this.registry],
+    });
+
+    this.reconciliationLastRun = new Gauge({
+      name: `${PREFIX}reconciliation_last_run_timestamp_seconds`,
+      help: 'Unix time of the last completed reconciliation run',
+      registers: [this.registry],
+    });
+  }
+
+  /**
+   * Record a finished HTTP request
+   * @param route Matched route pattern (e.g. /api/v1/livestreams/:id) - keeps label cardinality low
+   */
+  observeHttpRequest(method: string, route: string, statusCode: number, durationSeconds: number): void {
+    this.httpRequestDuration.observe(
+      { method, route, status_code: String(statusCode) },
+      durationSeconds
+    );
+  }
+
+  /**
+   * Time a LiveKit API call, counting it as an error if it throws
+   * @param operation API operation name (e.g. createRoom)
+   * @param call The API call
+   */
+  async trackLiveKitCall<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    const endTimer = this.livekitRequestDuration.startTimer({ operation });
+
+    try {
+      return await call();
+    } catch (error) {
+      this.livekitErrors.inc({ operation });
+      throw error;
+    } finally {
+      endTimer();
+    }
+  }
+
+  /**
+   * Record a webhook job attempt
+   */
+  recordWebhookJob(result: 'completed' | 'failed'): void {
+    this.webhookJobs.inc({ result });
+  }
+
+  /**
+   * Record a webhook dropped as stale (out of order)
+   */
+  recordStaleWebhook(event: string): void {
+    this.webhookStaleEvents.inc({ event });
+  }
+
+  /**
+   * Record a reconciliation run
+   */
+  recordReconciliation(stats: ReconciliationRunStats, durationSeconds: number): void {
+    this.reconciliationRuns.inc();
+    this.reconciliationDuration.observe(durationSeconds);
+    this.reconciliationStaleLivestreams.inc(stats.staleLivestreams);
+    this.reconciliationParticipantsUpdated.inc(stats.participantsUpdated);
+    this.reconciliationErrors.inc(stats.errors);
+    this.reconciliationLastRun.setToCurrentTime();
+  }
+
+  /**
+   * Set the snapshot metrics and render all metrics in the Prometheus text format
+   * Components that could not be sampled (null) are reset
+   */
+  async getMetrics(snapshot: MetricsSnapshot): Promise<string> {
+    this.webhookQueueJobs.reset();
+    if (snapshot.webhookQueue) {
+      for (const [state, count] of Object.entries(snapshot.webhookQueue)) {
+        this.webhookQueueJobs.set({ state }, count);
+      }
+    }
+
+    this.webhookDeadLetterJobs.reset();
+    if (snapshot.webhookDeadLetter != null) {
+      this.webhookDeadLetterJobs.set(snapshot.webhookDeadLetter);
+    }
+
+    this.sseConnections.reset();
+    this.sseSubscribedStreams.reset();
+    if (snapshot.sse) {
+      this.sseConnections.set(snapshot.sse.activeConnections);
+      this.sseSubscribedStreams.set(snapshot.sse.subscribedStreams);
+    }
+
+    this.livestreams.reset();
+    if (snapshot.livestreamsByStatus) {
+      for (const [status, count] of Object.entries(snapshot.livestreamsByStatus)) {
+        this.livestreams.set({ status }, count);
+      }
+    }
+
+    return this.registry.metrics();
+  }
+
+  /**
+   * Content type of the metrics output
+   */
+  getContentType(): string {
+    return this.registry.contentType;
+  }
+}
+
+// Singleton instance
+export const metricsService = new MetricsService();
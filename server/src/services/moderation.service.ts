@@ -0,0 +1,318 @@
+/**
+ * Moderation Service - Host moderation of livestream participants
+ * Kick, mute, permission changes and a persistent per-livestream ban list
+ *
+ * Actions are authorized for the livestream creator (livestream.createdBy) and users
+ * the creator invited as MODERATOR
+ */
+
+import { TrackType } from 'livekit-server-sdk';
+import { databaseService } from './database.service.js';
+import { livekitService } from './livekit.service.js';
+import { outboundWebhookService } from './outbound-webhook.service.js';
+import { stateService } from './state.service.js';
+import { waitingRoomService } from './waiting-room.service.js';
+import type {
+  Livestream,
+  LivestreamBan,
+  BanParticipantRequest,
+  BanResponse,
+  MuteParticipantRequest,
+  MuteParticipantResponse,
+  UpdateParticipantPermissionsRequest,
+  ParticipantPermissionsResponse,
+} from '../types/livestream.types.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Moderation' });
+
+class ModerationService {
+  /**
+   * Remove a participant from a LIVE livestream (they may rejoin unless banned)
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (creator or moderator)
+   * @param targetUserId User ID of the participant to remove
+   */
+  async kickParticipant(
+    livestreamId: string,
+    requestingUserId: string,
+    targetUserId: string
+  ): Promise<void> {
+    const livestream = await this.getModeratedLivestream(livestreamId, requestingUserId);
+    this.assertLive(livestream);
+    this.assertNotCreator(livestream, targetUserId);
+
+    const removed = await this.removeFromRoom(livestream, targetUserId);
+    if (!removed) {
+      throw new NotFoundError('User is not an active participant in this livestream');
+    }
+
+    log.info(`${targetUserId} was kicked from livestream ${livestreamId}`);
+  }
+
+  /**
+   * Mute (or unmute) a participant's published tracks
+   * Without a trackSid, all of the participant's audio tracks are affected
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (creator or moderator)
+   * @param targetUserId User ID of the participant to mute
+   * @param data Mute request data
+   */
+  async muteParticipant(
+    livestreamId: string,
+    requestingUserId: string,
+    targetUserId: string,
+    data: MuteParticipantRequest
+  ): Promise<MuteParticipantResponse> {
+    const livestream = await this.getModeratedLivestream(livestreamId, requestingUserId);
+    this.assertLive(livestream);
+    this.assertNotCreator(livestream, targetUserId);
+
+    const muted = data.muted ?? true;
+    const participant = await livekitService.getParticipant(livestream.roomName, targetUserId);
+
+    const trackSids = data.trackSid
+      ? [data.trackSid]
+      : participant.tracks
+          .filter(track => track.type === TrackType.AUDIO)
+          .map(track => track.sid);
+
+    if (data.trackSid && !participant.tracks.some(track => track.sid === data.trackSid)) {
+      throw new NotFoundError(`Track ${data.trackSid} is not published by ${targetUserId}`);
+    }
+
+    for (const trackSid of trackSids) {
+      await livekitService.mutePublishedTrack(livestream.roomName, targetUserId, trackSid, muted);
+    }
+
+    log.info(
+      `${muted ? 'Muted' : 'Unmuted'} ${trackSids.length} track(s) of ${targetUserId} in livestream ${livestreamId}`
+    );
+
+    return { userId: targetUserId, muted, trackSids };
+  }
+
+  /**
+   * Change what a participant may do in the LiveKit room (e.g. revoke publishing)
+   * Omitted permissions keep their current value
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (creator or moderator)
+   * @param targetUserId User ID of the participant to update
+   * @param data Permissions to change
+   */
+  async updateParticipantPermissions(
+    livestreamId: string,
+    requestingUserId: string,
+    targetUserId: string,
+    data: UpdateParticipantPermissionsRequest
+  ): Promise<ParticipantPermissionsResponse> {
+    const livestream = await this.getModeratedLivestream(livestreamId, requestingUserId);
+    this.assertLive(livestream);
+    this.assertNotCreator(livestream, targetUserId);
+
+    const hasChanges = ['canPublish', 'canPublishData', 'canSubscribe'].some(
+      key => typeof data[key as keyof UpdateParticipantPermissionsRequest] === 'boolean'
+    );
+    if (!hasChanges) {
+      throw new ValidationError(
+        'At least one of canPublish, canPublishData or canSubscribe is required'
+      );
+    }
+
+    // LiveKit replaces permissions atomically - merge with the current ones
+    const participant = await livekitService.getParticipant(livestream.roomName, targetUserId);
+    const current = participant.permission;
+
+    const updated = await livekitService.updateParticipant(livestream.roomName, targetUserId, {
+      permission: {
+        ...current,
+        canPublish: data.canPublish ?? current?.canPublish ?? false,
+        canPublishData: data.canPublishData ?? current?.canPublishData ?? false,
+        canSubscribe: data.canSubscribe ?? current?.canSubscribe ?? true,
+      },
+    });
+
+    return {
+      userId: targetUserId,
+      canPublish: updated.permission?.canPublish ?? false,
+      canPublishData: updated.permission?.canPublishData ?? false,
+      canSubscribe: updated.permission?.canSubscribe ?? false,
+    };
+  }
+
+  /**
+   * Ban a user from a livestream and remove them if they are currently in it
+   * Bans can be issued before the livestream goes live
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (creator or moderator)
+   * @param data Ban request data
+   */
+  async banParticipant(
+    livestreamId: string,
+    requestingUserId: string,
+    data: BanParticipantRequest
+  ): Promise<BanResponse> {
+    if (!data.userId || data.userId.trim().length === 0) {
+      throw new ValidationError('userId is required');
+    }
+
+    const livestream = await this.getModeratedLivestream(livestreamId, requestingUserId);
+    this.assertNotCreator(livestream, data.userId);
+
+    const ban = await databaseService.createBan({
+      livestreamId,
+      userId: data.userId,
+      bannedBy: requestingUserId,
+      reason: data.reason,
+    });
+
+    if (livestream.status === 'LIVE') {
+      await this.removeFromRoom(livestream, data.userId);
+    }
+
+    log.info(`${data.userId} was banned from livestream ${livestreamId}`);
+
+    return this.formatBanResponse(ban);
+  }
+
+  /**
+   * Lift a user's ban from a livestream
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (creator or moderator)
+   * @param targetUserId Banned user ID
+   */
+  async unbanParticipant(
+    livestreamId: string,
+    requestingUserId: string,
+    targetUserId: string
+  ): Promise<void> {
+    await this.getModeratedLivestream(livestreamId, requestingUserId);
+
+    const removed = await databaseService.deleteBan(livestreamId, targetUserId);
+    if (!removed) {
+      throw new NotFoundError(`User ${targetUserId} is not banned from this livestream`);
+    }
+  }
+
+  /**
+   * List bans for a livestream
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (creator or moderator)
+   */
+  async listBans(livestreamId: string, requestingUserId: string): Promise<BanResponse[]> {
+    await this.getModeratedLivestream(livestreamId, requestingUserId);
+
+    const bans = await databaseService.listBans(livestreamId);
+    return bans.map(ban => this.formatBanResponse(ban));
+  }
+
+  /**
+   * Check whether a user is banned from a livestream
+   */
+  async isBanned(livestreamId: string, userId: string): Promise<boolean> {
+    const ban = await databaseService.getBan(livestreamId, userId);
+    return ban !== null;
+  }
+
+  /**
+   * Disconnect a user from the LiveKit room and mark their session as LEFT
+   * @returns false if the user had no active session
+   */
+  private async removeFromRoom(livestream: Livestream, userId: string): Promise<boolean> {
+    const participant = await databaseService.getActiveParticipant(userId, livestream.id);
+    if (!participant) {
+      return false;
+    }
+
+    try {
+      await livekitService.removeParticipant(livestream.roomName, userId);
+    } catch (error) {
+      // The participant may have already disconnected from LiveKit
+      log.warn(`Failed to remove ${userId} from LiveKit room ${livestream.roomName}`, { error });
+    }
+
+    // Mark LEFT now - the participant_left webhook will find the session already closed
+    const leftParticipant = participant.livekitParticipantSid
+      ? await databaseService.markParticipantAsLeftBySid(participant.livekitParticipantSid)
+      : await databaseService.updateParticipant(participant.id, {
+          status: 'LEFT',
+          leftAt: new Date(),
+        });
+
+    if (leftParticipant) {
+      await outboundWebhookService.publishParticipantEvent('participant.left', leftParticipant);
+    }
+
+    await stateService.handleParticipantLeft(livestream.id, userId);
+    await waitingRoomService.admitNext(livestream);
+
+    return true;
+  }
+
+  /**
+   * Get a livestream and verify the caller is allowed to moderate it
+   * (the creator, a user invited as MODERATOR, or a participant who joined as MODERATOR
+   * with an invite code)
+   * Also used by chat moderation
+   */
+  async getModeratedLivestream(
+    livestreamId: string,
+    requestingUserId: string
+  ): Promise<Livestream> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy === requestingUserId) {
+      return livestream;
+    }
+
+    const [roleInvite, participant] = await Promise.all([
+      databaseService.getRoleInvite(livestreamId, requestingUserId),
+      databaseService.getActiveParticipant(requestingUserId, livestreamId),
+    ]);
+    if (roleInvite?.role !== 'MODERATOR' && participant?.role !== 'MODERATOR') {
+      throw new AuthorizationError(
+        'Only the creator or a moderator of the livestream can moderate it'
+      );
+    }
+
+    return livestream;
+  }
+
+  private assertLive(livestream: Livestream): void {
+    if (livestream.status !== 'LIVE') {
+      throw new ValidationError(
+        `Cannot moderate participants of livestream with status ${livestream.status}. Livestream must be LIVE.`
+      );
+    }
+  }
+
+  private assertNotCreator(livestream: Livestream, targetUserId: string): void {
+    if (livestream.createdBy === targetUserId) {
+      throw new ValidationError('The livestream creator cannot be moderated');
+    }
+  }
+
+  /**
+   * Format ban for API response
+   */
+  private formatBanResponse(ban: LivestreamBan): BanResponse {
+    return {
+      id: ban.id,
+      livestreamId: ban.livestreamId,
+      userId: ban.userId,
+      bannedBy: ban.bannedBy,
+      reason: ban.reason,
+      createdAt: ban.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const moderationService = new ModerationService();
@@ -0,0 +1,479 @@
+/**
+ * Outbound Webhook Service - Orchestrator events POSTed to endpoints registered by other services
+ * Each event is stored as one delivery per subscribed endpoint (the delivery log) and sent by the
+ * delivery worker, with retries and exponential backoff. Deliveries that fail every attempt are
+ * dead-lettered: kept in the log with the last error, not retried
+ *
+ * Requests are signed with the subscription's secret:
+ *   X-Orchestrator-Signature: sha256=<hex HMAC-SHA256 of "<X-Orchestrator-Timestamp>.<body>">
+ * Receivers should compare it in constant time and reject old timestamps (replays)
+ *
+ * Configuration:
+ * - OUTBOUND_WEBHOOK_TIMEOUT_MS: Timeout of each delivery request (default: 10000)
+ * - OUTBOUND_WEBHOOK_MAX_ATTEMPTS: Delivery attempts before dead-lettering (default: 8, see queue service)
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import { databaseService } from './database.service.js';
+import { queueService } from './queue.service.js';
+import type {
+  Livestream,
+  Participant,
+  TransitionContext,
+} from '../types/livestream.types.js';
+import type {
+  CreateWebhookSubscriptionRequest,
+  LivestreamEventData,
+  OutboundWebhookEventData,
+  OutboundWebhookEventType,
+  OutboundWebhookPayload,
+  ParticipantEventData,
+  UpdateWebhookSubscriptionRequest,
+  WebhookDelivery,
+  WebhookDeliveryResponse,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+  WebhookSubscriptionResponse,
+} from '../types/webhook.types.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Outbound Webhooks' });
+
+const EVENT_TYPES: OutboundWebhookEventType[] = [
+  'livestream.created',
+  'livestream.live',
+  'livestream.ended',
+  'participant.joined',
+  'participant.left',
+];
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'DELIVERED', 'DEAD_LETTERED'];
+
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_ERROR_LENGTH = 500;
+const DEFAULT_DELIVERIES_LIMIT = 50;
+const MAX_DELIVERIES_LIMIT = 200;
+
+class OutboundWebhookService {
+  private timeoutMs = parseInt(process.env.OUTBOUND_WEBHOOK_TIMEOUT_MS || '10000', 10);
+
+  /**
+   * Register a webhook subscription
+   * The signing secret is generated here and only returned in this response
+   *
+   * @param data Endpoint URL, event types and description
+   * @param createdBy Service registering the subscription
+   */
+  async createSubscription(
+    data: CreateWebhookSubscriptionRequest,
+    createdBy: string
+  ): Promise<WebhookSubscriptionResponse> {
+    const subscription = await databaseService.createWebhookSubscription({
+      url: this.validateUrl(data.url),
+      events: this.validateEvents(data.events),
+      description: this.validateDescription(data.description),
+      secret: `whsec_${randomBytes(32).toString('base64url')}`,
+      createdBy,
+    });
+
+    log.info(`Webhook subscription ${subscription.id} created by ${createdBy}`, {
+      url: subscription.url,
+      events: subscription.events,
+    });
+
+    return { ...this.formatSubscriptionResponse(subscription), secret: subscription.secret };
+  }
+
+  /**
+   * List all webhook subscriptions
+   */
+  async listSubscriptions(): Promise<WebhookSubscriptionResponse[]> {
+    const subscriptions = await databaseService.listWebhookSubscriptions();
+    return subscriptions.map(subscription => this.formatSubscriptionResponse(subscription));
+  }
+
+  /**
+   * Get a webhook subscription
+   */
+  async getSubscription(id: string): Promise<WebhookSubscriptionResponse> {
+    return this.formatSubscriptionResponse(await this.getSubscriptionRecord(id));
+  }
+
+  /**
+   * Update a webhook subscription (URL, events, description, active)
+   * Deactivated subscriptions receive no new events; queued deliveries are still sent
+   */
+  async updateSubscription(
+    id: string,
+    data: UpdateWebhookSubscriptionRequest
+  ): Promise<WebhookSubscriptionResponse> {
+    if (data.active !== undefined && typeof data.active !== 'boolean') {
+      throw new ValidationError('active must be a boolean');
+    }
+
+    const subscription = await databaseService.updateWebhookSubscription(id, {
+      url: data.url !== undefined ? this.validateUrl(data.url) : undefined,
+      events: data.events !== undefined ? this.validateEvents(data.events) : undefined,
+      description:
+        data.description !== undefined ? this.validateDescription(data.description) : undefined,
+      active: data.active,
+    });
+
+    if (!subscription) {
+      throw new NotFoundError('Webhook subscription not found');
+    }
+
+    return this.formatSubscriptionResponse(subscription);
+  }
+
+  /**
+   * Delete a webhook subscription and its delivery log (queued deliveries are dropped)
+   */
+  async deleteSubscription(id: string): Promise<void> {
+    const deleted = await databaseService.deleteWebhookSubscription(id);
+
+    if (!deleted) {
+      throw new NotFoundError('Webhook subscription not found');
+    }
+
+    log.info(`Webhook subscription ${id} deleted`);
+  }
+
+  /**
+   * List the delivery log of a subscription (newest first)
+   *
+   * @param id Subscription ID
+   * @param options status (PENDING, DELIVERED or DEAD_LETTERED), limit (default 50, max 200)
+   */
+  async listDeliveries(
+    id: string,
+    options: { status?: string; limit?: number } = {}
+  ): Promise<WebhookDeliveryResponse[]> {
+    if (
+      options.status !== undefined &&
+      !DELIVERY_STATUSES.includes(options.status as WebhookDeliveryStatus)
+    ) {
+      throw new ValidationError(`status must be one of ${DELIVERY_STATUSES.join(', ')}`);
+    }
+
+    const limit = options.limit ?? DEFAULT_DELIVERIES_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERIES_LIMIT) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_DELIVERIES_LIMIT}`);
+    }
+
+    await this.getSubscriptionRecord(id);
+
+    const deliveries = await databaseService.listWebhookDeliveries(id, {
+      status: options.status as WebhookDeliveryStatus | undefined,
+      limit,
+    });
+    return deliveries.map(delivery => this.formatDeliveryResponse(delivery));
+  }
+
+  /**
+   * Publish a livestream event (livestream.created, livestream.live, livestream.ended)
+   * @param context What caused the status change (live and ended events)
+   */
+  async publishLivestreamEvent(
+    type: 'livestream.created' | 'livestream.live' | 'livestream.ended',
+    livestream: Livestream,
+    context?: TransitionContext
+  ): Promise<void> {
+    const data = { livestream: this.formatLivestreamData(livestream) };
+
+    if (type === 'livestream.created') {
+      await this.publish(type, data);
+    } else {
+      await this.publish(type, { ...data, source: context?.source ?? 'API', reason: context?.reason });
+    }
+  }
+
+  /**
+   * Publish a participant event (participant.joined, participant.left)
+   */
+  async publishParticipantEvent(
+    type: 'participant.joined' | 'participant.left',
+    participant: Participant
+  ): Promise<void> {
+    await this.publish(type, { participant: this.formatParticipantData(participant) });
+  }
+
+  /**
+   * Queue an event for every active subscription to its type
+   * Best effort: logs instead of throwing, so publishing never fails the operation that
+   * caused the event
+   */
+  async publish<T extends OutboundWebhookEventType>(
+    type: T,
+    data: OutboundWebhookEventData[T]
+  ): Promise<void> {
+    try {
+      const subscriptions = await databaseService.listWebhookSubscriptions({
+        active: true,
+        event: type,
+      });
+
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const payload: OutboundWebhookPayload<T> = {
+        id: randomUUID(),
+        type,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      const deliveries = await databaseService.createWebhookDeliveries(
+        subscriptions.map(subscription => ({
+          subscriptionId: subscription.id,
+          eventId: payload.id,
+          event: type,
+          // Dates become ISO strings, as in the request body
+          payload: JSON.parse(JSON.stringify(payload)),
+        }))
+      );
+
+      await queueService.addWebhookDeliveryJobs(deliveries.map(delivery => delivery.id));
+
+      log.info(`Queued ${type} event ${payload.id} for ${deliveries.length} subscription(s)`);
+    } catch (error) {
+      log.error(`Failed to publish ${type} event`, { error });
+    }
+  }
+
+  /**
+   * Send a queued delivery (called by the delivery worker)
+   * Throws when the endpoint fails so the queue retries; after the final attempt
+   * the delivery is dead-lettered
+   *
+   * @param deliveryId Delivery log record
+   * @param isFinalAttempt Whether the queue will not retry this delivery again
+   */
+  async deliver(deliveryId: string, isFinalAttempt: boolean): Promise<void> {
+    const delivery = await databaseService.getWebhookDeliveryById(deliveryId);
+
+    if (!delivery) {
+      log.info(`Webhook delivery ${deliveryId} no longer exists (subscription deleted), skipping`);
+      return;
+    }
+
+    if (delivery.status !== 'PENDING') {
+      log.info(`Webhook delivery ${deliveryId} is ${delivery.status}, skipping`);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    let responseStatus: number | null = null;
+
+    try {
+      const response = await fetch(delivery.subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'livestream-orchestrator-webhooks',
+          'X-Orchestrator-Event': delivery.event,
+          'X-Orchestrator-Delivery': delivery.id,
+          'X-Orchestrator-Timestamp': timestamp,
+          'X-Orchestrator-Signature': this.sign(delivery.subscription.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual', // A redirect is a failed delivery, not a request to another URL
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      responseStatus = response.status;
+      await response.body?.cancel(); // The response body is not used
+
+      if (!response.ok) {
+        throw new Error(`Endpoint responded with HTTP ${response.status}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await databaseService.updateWebhookDelivery(deliveryId, {
+        status: isFinalAttempt ? 'DEAD_LETTERED' : 'PENDING',
+        attempts: { increment: 1 },
+        responseStatus,
+        error: message.slice(0, MAX_ERROR_LENGTH),
+      });
+
+      if (isFinalAttempt) {
+        log.warn(`Webhook delivery ${deliveryId} dead-lettered after the final attempt: ${message}`, {
+          subscriptionId: delivery.subscriptionId,
+          event: delivery.event,
+        });
+      }
+
+      throw error;
+    }
+
+    await databaseService.updateWebhookDelivery(deliveryId, {
+      status: 'DELIVERED',
+      attempts: { increment: 1 },
+      responseStatus,
+      error: null,
+      deliveredAt: new Date(),
+    });
+
+    log.info(`Delivered ${delivery.event} to subscription ${delivery.subscriptionId}`, {
+      deliveryId,
+      responseStatus,
+    });
+  }
+
+  /**
+   * Signature header value for a request body
+   * @param secret Subscription signing secret
+   * @param timestamp Unix time in seconds (X-Orchestrator-Timestamp)
+   * @param body Raw request body
+   */
+  sign(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Get a subscription record (404 if it does not exist)
+   */
+  private async getSubscriptionRecord(id: string): Promise<WebhookSubscription> {
+    const subscription = await databaseService.getWebhookSubscriptionById(id);
+
+    if (!subscription) {
+      throw new NotFoundError('Webhook subscription not found');
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Validate an endpoint URL (http or https)
+   */
+  private validateUrl(url: unknown): string {
+    if (typeof url !== 'string' || url.trim().length === 0 || url.length > MAX_URL_LENGTH) {
+      throw new ValidationError(`url is required (at most ${MAX_URL_LENGTH} characters)`);
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      throw new ValidationError('url must be a valid URL');
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new ValidationError('url must start with http:// or https://');
+    }
+
+    return parsed.toString();
+  }
+
+  /**
+   * Validate subscribed event types (at least one, duplicates removed)
+   */
+  private validateEvents(events: unknown): OutboundWebhookEventType[] {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new ValidationError('events must be a non-empty array');
+    }
+
+    const unknownEvents = events.filter(event => !EVENT_TYPES.includes(event));
+    if (unknownEvents.length > 0) {
+      throw new ValidationError(
+        `Unknown event type(s): ${unknownEvents.join(', ')}. Supported: ${EVENT_TYPES.join(', ')}`
+      );
+    }
+
+    return [...new Set(events as OutboundWebhookEventType[])];
+  }
+
+  /**
+   * Validate a description (empty or null clears it)
+   */
+  private validateDescription(description: unknown): string | null {
+    if (description === undefined || description === null) {
+      return null;
+    }
+
+    if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new ValidationError(
+        `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`
+      );
+    }
+
+    return description.trim() || null;
+  }
+
+  /**
+   * Livestream in event payloads (no passcode or ingress credentials)
+   */
+  private formatLivestreamData(livestream: Livestream): LivestreamEventData {
+    return {
+      id: livestream.id,
+      roomName: livestream.roomName,
+      title: livestream.title,
+      status: livestream.status,
+      visibility: livestream.visibility,
+      createdBy: livestream.createdBy,
+      scheduledStartAt: livestream.scheduledStartAt,
+      startedAt: livestream.startedAt,
+      endedAt: livestream.endedAt,
+    };
+  }
+
+  /**
+   * Participant in event payloads
+   */
+  private formatParticipantData(participant: Participant): ParticipantEventData {
+    return {
+      id: participant.id,
+      livestreamId: participant.livestreamId,
+      userId: participant.userId,
+      displayName: participant.displayName,
+      role: participant.role,
+      joinedAt: participant.joinedAt,
+      leftAt: participant.leftAt,
+    };
+  }
+
+  /**
+   * Format subscription for API response (without the secret)
+   */
+  private formatSubscriptionResponse(
+    subscription: WebhookSubscription
+  ): WebhookSubscriptionResponse {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      events: subscription.events,
+      description: subscription.description,
+      active: subscription.active,
+      createdBy: subscription.createdBy,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+
+  /**
+   * Format delivery for API response (without the payload)
+   */
+  private formatDeliveryResponse(delivery: WebhookDelivery): WebhookDeliveryResponse {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      createdAt: delivery.createdAt,
+      updatedAt: delivery.updatedAt,
+      deliveredAt: delivery.deliveredAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const outboundWebhookService = new OutboundWebhookService();
@@ -0,0 +1,298 @@
+/**
+ * Poll Service - Live polls created by the livestream creator
+ * Polls and votes are stored in the database; changes are pushed as poll_update SSE events.
+ * Vote results are broadcast at most once per second per poll
+ */
+
+import { databaseService } from './database.service.js';
+import { livestreamAccessService } from './livestream-access.service.js';
+import { stateService } from './state.service.js';
+import type {
+  CreatePollRequest,
+  Poll,
+  PollResponse,
+  VotePollRequest,
+} from '../types/livestream.types.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Poll' });
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+const MAX_QUESTION_LENGTH = 200;
+const MAX_OPTION_LENGTH = 100;
+const RESULTS_BROADCAST_DELAY_MS = 1000;
+
+class PollService {
+  // Pending results broadcasts by poll ID (votes within the delay share one broadcast)
+  private pendingBroadcasts: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Create a poll and broadcast it
+   * Authorization: Only the creator can create polls
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (must be the creator)
+   * @param data Question and answer options
+   */
+  async createPoll(
+    livestreamId: string,
+    requestingUserId: string,
+    data: CreatePollRequest
+  ): Promise<PollResponse> {
+    const question = typeof data.question === 'string' ? data.question.trim() : '';
+    const options = Array.isArray(data.options)
+      ? data.options.map(option => (typeof option === 'string' ? option.trim() : ''))
+      : [];
+
+    if (question.length === 0 || question.length > MAX_QUESTION_LENGTH) {
+      throw new ValidationError(`question must be 1-${MAX_QUESTION_LENGTH} characters`);
+    }
+
+    if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+      throw new ValidationError(`options must contain ${MIN_OPTIONS}-${MAX_OPTIONS} answers`);
+    }
+
+    if (options.some(option => option.length === 0 || option.length > MAX_OPTION_LENGTH)) {
+      throw new ValidationError(`Each option must be 1-${MAX_OPTION_LENGTH} characters`);
+    }
+
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the livestream creator can create polls');
+    }
+
+    if (livestream.status !== 'LIVE') {
+      throw new ValidationError(
+        `Cannot create a poll for livestream with status ${livestream.status}. Livestream must be LIVE.`
+      );
+    }
+
+    const poll = await databaseService.createPoll({
+      livestreamId,
+      question,
+      options,
+      createdBy: requestingUserId,
+    });
+
+    const response = this.formatPollResponse(poll, new Array(options.length).fill(0));
+    await stateService.broadcastPollUpdate(livestreamId, response);
+
+    log.info(`Poll ${poll.id} created for livestream ${livestreamId}`);
+
+    return response;
+  }
+
+  /**
+   * List polls of a livestream with results (newest first)
+   * Polls of PRIVATE livestreams are limited to users with access (see livestreamAccessService)
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (optional - adds myVote)
+   */
+  async listPolls(
+    livestreamId: string,
+    requestingUserId: string | undefined
+  ): Promise<PollResponse[]> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    await livestreamAccessService.assertCanAccessLivestream(
+      livestream,
+      requestingUserId,
+      'Polls of this private livestream are not available'
+    );
+
+    const polls = await databaseService.listPolls(livestreamId);
+    if (polls.length === 0) {
+      return [];
+    }
+
+    const pollIds = polls.map(poll => poll.id);
+    const counts = await databaseService.countPollVotes(pollIds);
+    const votes = requestingUserId
+      ? await databaseService.listPollVotesByUser(pollIds, requestingUserId)
+      : [];
+
+    return polls.map(poll => {
+      const results = new Array<number>(poll.options.length).fill(0);
+      for (const count of counts) {
+        if (count.pollId === poll.id) {
+          results[count.optionIndex] = count.count;
+        }
+      }
+
+      const response = this.formatPollResponse(poll, results);
+      if (requestingUserId) {
+        response.myVote = votes.find(vote => vote.pollId === poll.id)?.optionIndex ?? null;
+      }
+
+      return response;
+    });
+  }
+
+  /**
+   * Vote in an OPEN poll (voting again changes the vote)
+   * Authorization: Only JOINED participants can vote
+   *
+   * @param livestreamId Livestream ID
+   * @param pollId Poll ID
+   * @param userId Authenticated user ID
+   * @param data Index of the chosen option
+   */
+  async vote(
+    livestreamId: string,
+    pollId: string,
+    userId: string,
+    data: VotePollRequest
+  ): Promise<void> {
+    const poll = await this.getLivestreamPoll(livestreamId, pollId);
+
+    if (poll.status !== 'OPEN') {
+      throw new ValidationError('Poll is closed');
+    }
+
+    if (
+      !Number.isInteger(data.optionIndex) ||
+      data.optionIndex < 0 ||
+      data.optionIndex >= poll.options.length
+    ) {
+      throw new ValidationError(`optionIndex must be between 0 and ${poll.options.length - 1}`);
+    }
+
+    const participant = await databaseService.getActiveParticipant(userId, livestreamId);
+    if (!participant) {
+      throw new AuthorizationError('Only participants who joined the livestream can vote');
+    }
+
+    await databaseService.upsertPollVote(pollId, userId, data.optionIndex);
+
+    this.scheduleResultsBroadcast(livestreamId, pollId);
+  }
+
+  /**
+   * Close a poll and broadcast the final results
+   * Authorization: Only the creator can close polls
+   *
+   * @param livestreamId Livestream ID
+   * @param pollId Poll ID
+   * @param requestingUserId Authenticated user ID (must be the creator)
+   */
+  async closePoll(
+    livestreamId: string,
+    pollId: string,
+    requestingUserId: string
+  ): Promise<PollResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the livestream creator can close polls');
+    }
+
+    await this.getLivestreamPoll(livestreamId, pollId);
+
+    // Idempotent operation - already closed polls are returned as they are
+    const closed = await databaseService.closePoll(pollId);
+
+    const pending = this.pendingBroadcasts.get(pollId);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingBroadcasts.delete(pollId);
+    }
+
+    const response = await this.getPollResults(pollId);
+
+    if (closed) {
+      await stateService.broadcastPollUpdate(livestreamId, response);
+      log.info(`Poll ${pollId} of livestream ${livestreamId} closed`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Close all OPEN polls of a livestream that ended (best effort)
+   */
+  async closeAll(livestreamId: string): Promise<void> {
+    try {
+      const closed = await databaseService.closeAllPolls(livestreamId);
+      if (closed > 0) {
+        log.info(`Closed ${closed} open polls of ended livestream ${livestreamId}`);
+      }
+    } catch (error) {
+      log.error(`Failed to close polls of livestream ${livestreamId}`, { error });
+    }
+  }
+
+  /**
+   * Broadcast the poll results once the current delay window ends
+   */
+  private scheduleResultsBroadcast(livestreamId: string, pollId: string): void {
+    if (this.pendingBroadcasts.has(pollId)) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      this.pendingBroadcasts.delete(pollId);
+
+      try {
+        const response = await this.getPollResults(pollId);
+        await stateService.broadcastPollUpdate(livestreamId, response);
+      } catch (error) {
+        log.error(`Failed to broadcast results of poll ${pollId}`, { error });
+      }
+    }, RESULTS_BROADCAST_DELAY_MS);
+
+    this.pendingBroadcasts.set(pollId, timeout);
+  }
+
+  /**
+   * Get a poll with its current results
+   */
+  private async getPollResults(pollId: string): Promise<PollResponse> {
+    const poll = await databaseService.getPollById(pollId);
+    if (!poll) {
+      throw new NotFoundError(`Poll with ID ${pollId} not found`);
+    }
+
+    const results = new Array<number>(poll.options.length).fill(0);
+    for (const count of await databaseService.countPollVotes([pollId])) {
+      results[count.optionIndex] = count.count;
+    }
+
+    return this.formatPollResponse(poll, results);
+  }
+
+  /**
+   * Get a poll and check it belongs to the livestream
+   */
+  private async getLivestreamPoll(livestreamId: string, pollId: string): Promise<Poll> {
+    const poll = await databaseService.getPollById(pollId);
+    if (!poll || poll.livestreamId !== livestreamId) {
+      throw new NotFoundError(`Poll with ID ${pollId} not found`);
+    }
+
+    return poll;
+  }
+
+  /**
+   * Format poll for API response
+   * @param results Vote count per option (same order as poll.options)
+   */
+  private formatPollResponse(poll: Poll, results: number[]): PollResponse {
+    return {
+      id: poll.id,
+      livestreamId: poll.livestreamId,
+      question: poll.question,
+      options: poll.options.map((text, index) => ({ text, votes: results[index] ?? 0 })),
+      totalVotes: results.reduce((sum, count) => sum + count, 0),
+      status: poll.status,
+      createdAt: poll.createdAt,
+      closedAt: poll.closedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const pollService = new PollService();
@@ -1,5 +1,14 @@
-import { Queue, Worker, QueueEvents } from 'bullmq';
+import { Queue, Worker, QueueEvents, DelayedError } from 'bullmq';
 import { Redis } from 'ioredis';
+import { SpanKind } from '@opentelemetry/api';
+import { metricsService } from './metrics.service.js';
+import { tracingService, type TraceCarrier } from './tracing.service.js';
+import { ConflictError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { getRequestId, runWithRequestId } from '../utils/request-context.js';
+
+const log = logger.child({ component: 'Queue' });
+const workerLog = logger.child({ component: 'Worker' });
 
 /**
  * Queue Service for managing webhook processing with BullMQ
@@ -8,22 +17,77 @@ import { Redis } from 'ioredis';
  * - Webhooks are added to queue immediately upon receipt
  * - Worker processes jobs from queue with concurrency control
  * - Automatic retries with exponential backoff
+ * - Jobs that fail every attempt are moved to a dead-letter queue for inspection and replay
+ * - Processors can defer a job (DeferJobError) without using up an attempt
  * - Redis-based for horizontal scalability
+ * - Scheduled livestream starts use delayed jobs on a separate queue
+ * - Outbound webhooks (events sent to subscribed services) use a delivery queue
+ *
+ * Configuration:
+ * - WEBHOOK_QUEUE_CONCURRENCY: Parallel webhook jobs per worker (default: 10)
+ * - OUTBOUND_WEBHOOK_MAX_ATTEMPTS: Delivery attempts before dead-lettering (default: 8)
  */
 
+// Span attributes of webhook jobs (OpenTelemetry messaging conventions)
+const WEBHOOK_SPAN_ATTRIBUTES = {
+  'messaging.system': 'bullmq',
+  'messaging.destination.name': 'webhooks',
+};
+
 // Webhook job data structure
 export interface WebhookJob {
   webhookId: string;
   event: string;
   payload: any;
   receivedAt: string;
+  requestId?: string; // ID of the webhook request - worker logs are correlated with it
+  traceContext?: TraceCarrier; // Trace of the webhook request - the worker span continues it
+}
+
+// Dead-lettered webhook job data structure (a webhook job that failed every attempt)
+export interface DeadLetterWebhookJob extends WebhookJob {
+  failedReason: string; // Error of the last attempt
+  attemptsMade: number;
+  deadLetteredAt: string; // ISO timestamp
+}
+
+/**
+ * Thrown by a job processor to run the job again later without using up an attempt
+ * (e.g. another worker is processing a webhook of the same room)
+ */
+export class DeferJobError extends Error {
+  constructor(
+    public readonly delayMs: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DeferJobError';
+  }
+}
+
+// Scheduled livestream start job data structure
+export interface ScheduledStartJob {
+  livestreamId: string;
+  scheduledStartAt: string; // ISO timestamp the job was scheduled for
+  requestId?: string; // ID of the request that scheduled the livestream
+}
+
+// Outbound webhook delivery job data structure
+export interface WebhookDeliveryJob {
+  deliveryId: string; // Delivery log record holding the payload and subscription
+  requestId?: string; // ID of the request that caused the event
 }
 
 class QueueService {
   private connection: Redis;
   private webhookQueue: Queue<WebhookJob>;
-  private queueEvents: QueueEvents;
+  private deadLetterQueue: Queue<DeadLetterWebhookJob>;
+  private scheduleQueue: Queue<ScheduledStartJob>;
+  private deliveryQueue: Queue<WebhookDeliveryJob>;
+  private queueEvents: QueueEvents | null = null;
   private worker: Worker<WebhookJob> | null = null;
+  private scheduleWorker: Worker<ScheduledStartJob> | null = null;
+  private deliveryWorker: Worker<WebhookDeliveryJob> | null = null;
 
   constructor() {
     // Initialize Redis connection
@@ -47,25 +111,57 @@ class QueueService {
       },
     });
 
-    // Queue events for monitoring
-    this.queueEvents = new QueueEvents('webhooks', {
+    // Initialize webhook dead-letter queue
+    // No worker consumes it - jobs wait there until they are replayed or discarded
+    this.deadLetterQueue = new Queue<DeadLetterWebhookJob>('webhooks-dead-letter', {
       connection: this.connection,
     });
 
-    // Event listeners for monitoring
-    this.setupEventListeners();
+    // Initialize scheduled start queue (delayed jobs, one per livestream)
+    this.scheduleQueue = new Queue<ScheduledStartJob>('livestream-schedule', {
+      connection: this.connection,
+      defaultJobOptions: {
+        attempts: 3, // Retry up to 3 times (e.g. LiveKit temporarily unavailable)
+        backoff: {
+          type: 'exponential',
+          delay: 5000, // Start with 5 seconds, doubles each retry
+        },
+        removeOnComplete: true, // Frees the job ID so the livestream can be rescheduled
+        removeOnFail: 100, // Keep last 100 failed jobs for analysis
+      },
+    });
+
+    // Initialize outbound webhook delivery queue (one job per event and subscription)
+    this.deliveryQueue = new Queue<WebhookDeliveryJob>('webhook-deliveries', {
+      connection: this.connection,
+      defaultJobOptions: {
+        attempts: parseInt(process.env.OUTBOUND_WEBHOOK_MAX_ATTEMPTS || '8', 10),
+        backoff: {
+          type: 'exponential',
+          delay: 10000, // Start with 10 seconds, doubles each retry (~21 minutes over 8 attempts)
+        },
+        removeOnComplete: true, // The delivery log keeps the outcome
+        removeOnFail: 100, // Keep last 100 dead-lettered jobs for analysis
+      },
+    });
+
   }
 
   /**
    * Setup event listeners for queue monitoring
+   * Created with the worker - processes that only add jobs don't need them
    */
   private setupEventListeners(): void {
+    this.queueEvents = new QueueEvents('webhooks', {
+      connection: this.connection,
+    });
+
     this.queueEvents.on('completed', ({ jobId }) => {
-      console.log(`[Queue] Job ${jobId} completed successfully`);
+      log.info(`Job ${jobId} completed successfully`);
     });
 
     this.queueEvents.on('failed', ({ jobId, failedReason }) => {
-      console.error(`[Queue] Job ${jobId} failed: ${failedReason}`);
+      log.error(`Job ${jobId} failed: ${failedReason}`);
     });
 
     // Note: 'retrying' is not a standard QueueEvents event in BullMQ
@@ -78,13 +174,198 @@ class QueueService {
    * @returns Job ID
    */
   async addWebhookJob(webhookData: WebhookJob): Promise<string> {
-    const job = await this.webhookQueue.add('process-webhook', webhookData, {
-      jobId: webhookData.webhookId, // Use webhook ID as job ID for deduplication
-    });
-    console.log(`[Queue] Added webhook job ${job.id} (event: ${webhookData.event})`);
+    return tracingService.withSpan(
+      'webhooks publish',
+      { kind: SpanKind.PRODUCER, attributes: WEBHOOK_SPAN_ATTRIBUTES },
+      async span => {
+        const job = await this.webhookQueue.add(
+          'process-webhook',
+          { ...webhookData, traceContext: tracingService.injectContext() },
+          {
+            jobId: webhookData.webhookId, // Use webhook ID as job ID for deduplication
+          }
+        );
+        span.setAttribute('messaging.message.id', job.id!);
+        log.info(`Added webhook job ${job.id} (event: ${webhookData.event})`);
+        return job.id!;
+      }
+    );
+  }
+
+  /**
+   * Re-add a dead-lettered webhook to the processing queue
+   * Uses a new job ID - the failed job may still be kept under the webhook ID
+   * @param webhookData - The webhook job data
+   * @returns Job ID
+   */
+  async replayWebhookJob(webhookData: WebhookJob): Promise<string> {
+    const job = await this.webhookQueue.add(
+      'process-webhook',
+      {
+        webhookId: webhookData.webhookId,
+        event: webhookData.event,
+        payload: webhookData.payload,
+        receivedAt: webhookData.receivedAt,
+        requestId: getRequestId(), // Correlate the replay with the request that triggered it
+        traceContext: tracingService.injectContext(),
+      },
+      {
+        jobId: `${webhookData.webhookId}-replay-${Date.now()}`,
+      }
+    );
+    log.info(`Replaying webhook ${webhookData.webhookId} as job ${job.id}`);
     return job.id!;
   }
 
+  /**
+   * Move a webhook job that failed its final attempt to the dead-letter queue
+   * @param job - The failed job data
+   * @param attemptsMade - Attempts including the failed one
+   * @param error - Error of the final attempt
+   */
+  private async moveToDeadLetter(
+    job: WebhookJob,
+    attemptsMade: number,
+    error: unknown
+  ): Promise<void> {
+    await this.deadLetterQueue.add(
+      'dead-letter-webhook',
+      {
+        webhookId: job.webhookId,
+        event: job.event,
+        payload: job.payload,
+        receivedAt: job.receivedAt,
+        requestId: job.requestId,
+        failedReason: error instanceof Error ? error.message : String(error),
+        attemptsMade,
+        deadLetteredAt: new Date().toISOString(),
+      },
+      {
+        jobId: job.webhookId, // One entry per webhook
+      }
+    );
+    workerLog.warn(
+      `Moved webhook ${job.webhookId} to the dead-letter queue after ${attemptsMade} attempts`
+    );
+  }
+
+  /**
+   * List dead-lettered webhook jobs (newest first)
+   * @param start - Offset
+   * @param limit - Maximum number of jobs
+   */
+  async getDeadLetterJobs(start: number, limit: number): Promise<DeadLetterWebhookJob[]> {
+    const jobs = await this.deadLetterQueue.getWaiting(start, start + limit - 1);
+    return jobs.filter(job => job).map(job => job.data);
+  }
+
+  /**
+   * Get a dead-lettered webhook job
+   * @param webhookId - LiveKit webhook ID
+   * @returns The job data, or null if it is not in the dead-letter queue
+   */
+  async getDeadLetterJob(webhookId: string): Promise<DeadLetterWebhookJob | null> {
+    const job = await this.deadLetterQueue.getJob(webhookId);
+    return job ? job.data : null;
+  }
+
+  /**
+   * Remove a webhook job from the dead-letter queue
+   * @param webhookId - LiveKit webhook ID
+   * @returns true if a job was removed
+   */
+  async removeDeadLetterJob(webhookId: string): Promise<boolean> {
+    return (await this.deadLetterQueue.remove(webhookId)) === 1;
+  }
+
+  /**
+   * Remove every job from the dead-letter queue
+   * @returns Number of jobs removed
+   */
+  async clearDeadLetterJobs(): Promise<number> {
+    const count = await this.deadLetterQueue.getWaitingCount();
+    await this.deadLetterQueue.drain();
+    return count;
+  }
+
+  /**
+   * Schedule a livestream to start at a future time
+   * Replaces any existing pending start job for the same livestream
+   * @param livestreamId - Livestream to start
+   * @param startAt - When the livestream should go live
+   * @throws ConflictError if the start job is already running (too late to reschedule)
+   */
+  async scheduleLivestreamStart(livestreamId: string, startAt: Date): Promise<void> {
+    const existing = await this.scheduleQueue.getJob(this.getScheduledStartJobId(livestreamId));
+    if (existing && !(await this.cancelLivestreamStart(livestreamId))) {
+      throw new ConflictError('The livestream is already starting and can no longer be rescheduled');
+    }
+
+    const delay = Math.max(0, startAt.getTime() - Date.now());
+    const job = await this.scheduleQueue.add(
+      'start-livestream',
+      { livestreamId, scheduledStartAt: startAt.toISOString(), requestId: getRequestId() },
+      {
+        jobId: this.getScheduledStartJobId(livestreamId), // One pending start per livestream
+        delay,
+      }
+    );
+
+    // BullMQ ignores an add whose job ID exists - the start job became active in the meantime
+    if (job.data.scheduledStartAt !== startAt.toISOString()) {
+      throw new ConflictError('The livestream is already starting and can no longer be rescheduled');
+    }
+
+    log.info(
+      `Scheduled livestream ${livestreamId} to start at ${startAt.toISOString()} (job ${job.id})`
+    );
+  }
+
+  /**
+   * Cancel a pending scheduled start for a livestream
+   * @param livestreamId - Livestream whose start job should be removed
+   * @returns true if a pending job was removed
+   */
+  async cancelLivestreamStart(livestreamId: string): Promise<boolean> {
+    const job = await this.scheduleQueue.getJob(this.getScheduledStartJobId(livestreamId));
+    if (!job) {
+      return false;
+    }
+
+    // Active jobs are locked by the worker and cannot be removed
+    const state = await job.getState();
+    if (state === 'active') {
+      return false;
+    }
+
+    await job.remove();
+    log.info(`Removed scheduled start job for livestream ${livestreamId}`);
+    return true;
+  }
+
+  /**
+   * Job ID for a livestream's scheduled start (deterministic for lookup/dedup)
+   */
+  private getScheduledStartJobId(livestreamId: string): string {
+    return `start-${livestreamId}`;
+  }
+
+  /**
+   * Queue outbound webhook deliveries
+   * @param deliveryIds - Delivery log records to send
+   */
+  async addWebhookDeliveryJobs(deliveryIds: string[]): Promise<void> {
+    const requestId = getRequestId();
+
+    await this.deliveryQueue.addBulk(
+      deliveryIds.map(deliveryId => ({
+        name: 'deliver-webhook',
+        data: { deliveryId, requestId },
+        opts: { jobId: deliveryId },
+      }))
+    );
+  }
+
   /**
    * Start webhook worker
    * @param processor - Function to process webhook jobs
@@ -97,12 +378,43 @@ class QueueService {
 
     this.worker = new Worker<WebhookJob>(
       'webhooks',
-      async (job) => {
-        console.log(
-          `[Worker] Processing webhook job ${job.id} (event: ${job.data.event})`
-        );
-        await processor(job.data);
-      },
+      async (job, token) =>
+        // Restore the webhook request ID and trace so this job can be traced to the request
+        runWithRequestId(job.data.requestId ?? `job-${job.id}`, () =>
+          tracingService.runWithContext(job.data.traceContext, () =>
+            tracingService.withSpan(
+              `webhooks process ${job.data.event}`,
+              {
+                kind: SpanKind.CONSUMER,
+                attributes: {
+                  ...WEBHOOK_SPAN_ATTRIBUTES,
+                  'messaging.message.id': job.id!,
+                  'messaging.bullmq.attempt': job.attemptsMade + 1,
+                },
+              },
+              async () => {
+                workerLog.info(`Processing webhook job ${job.id} (event: ${job.data.event})`);
+                try {
+                  await processor(job.data);
+                } catch (error) {
+                  if (error instanceof DeferJobError) {
+                    // Not a failure - wait in the delayed set, the attempt is not counted
+                    workerLog.info(`Deferring webhook job ${job.id}: ${error.message}`);
+                    await job.moveToDelayed(Date.now() + error.delayMs, token);
+                    throw new DelayedError();
+                  }
+
+                  // Dead-letter before BullMQ marks the final attempt as failed
+                  const maxAttempts = job.opts.attempts ?? 1;
+                  if (job.attemptsMade + 1 >= maxAttempts) {
+                    await this.moveToDeadLetter(job.data, job.attemptsMade + 1, error);
+                  }
+                  throw error;
+                }
+              }
+            )
+          )
+        ),
       {
         connection: this.connection,
         concurrency,
@@ -110,39 +422,135 @@ class QueueService {
     );
 
     this.worker.on('completed', (job) => {
-      console.log(`[Worker] Completed job ${job.id}`);
+      workerLog.info(`Completed job ${job.id}`, { requestId: job.data.requestId });
+      metricsService.recordWebhookJob('completed');
     });
 
     this.worker.on('failed', (job, err) => {
-      console.error(`[Worker] Failed job ${job?.id}:`, err.message);
+      workerLog.error(`Failed job ${job?.id}`, { error: err, requestId: job?.data.requestId });
+      metricsService.recordWebhookJob('failed');
     });
 
-    console.log(`[Queue] Worker started with concurrency ${concurrency}`);
+    // Event listeners for monitoring
+    this.setupEventListeners();
+
+    log.info(`Worker started with concurrency ${concurrency}`);
+  }
+
+  /**
+   * Start scheduled livestream start worker
+   * @param processor - Function to start a livestream; receives whether this is the last retry
+   */
+  startScheduleWorker(
+    processor: (job: ScheduledStartJob, isFinalAttempt: boolean) => Promise<void>
+  ): void {
+    this.scheduleWorker = new Worker<ScheduledStartJob>(
+      'livestream-schedule',
+      async (job) =>
+        runWithRequestId(job.data.requestId ?? `job-${job.id}`, async () => {
+          workerLog.info(
+            `Processing scheduled start job ${job.id} (livestream: ${job.data.livestreamId})`
+          );
+          const maxAttempts = job.opts.attempts ?? 1;
+          await processor(job.data, job.attemptsMade + 1 >= maxAttempts);
+        }),
+      {
+        connection: this.connection,
+        concurrency: 5,
+      }
+    );
+
+    this.scheduleWorker.on('failed', (job, err) => {
+      workerLog.error(`Failed scheduled start job ${job?.id}`, {
+        error: err,
+        requestId: job?.data.requestId,
+      });
+    });
+
+    log.info('Schedule worker started');
+  }
+
+  /**
+   * Start outbound webhook delivery worker
+   * @param processor - Function to deliver a webhook; receives whether this is the last attempt
+   */
+  startDeliveryWorker(
+    processor: (job: WebhookDeliveryJob, isFinalAttempt: boolean) => Promise<void>
+  ): void {
+    this.deliveryWorker = new Worker<WebhookDeliveryJob>(
+      'webhook-deliveries',
+      async (job) =>
+        runWithRequestId(job.data.requestId ?? `job-${job.id}`, async () => {
+          const maxAttempts = job.opts.attempts ?? 1;
+          await processor(job.data, job.attemptsMade + 1 >= maxAttempts);
+        }),
+      {
+        connection: this.connection,
+        concurrency: 5,
+      }
+    );
+
+    this.deliveryWorker.on('failed', (job, err) => {
+      workerLog.warn(`Failed webhook delivery job ${job?.id}: ${err.message}`, {
+        requestId: job?.data.requestId,
+      });
+    });
+
+    log.info('Delivery worker started');
+  }
+
+  /**
+   * Stop the outbound webhook delivery worker (waits for in-flight deliveries)
+   */
+  async stopDeliveryWorker(): Promise<void> {
+    if (this.deliveryWorker) {
+      await this.deliveryWorker.close();
+      this.deliveryWorker = null;
+      log.info('Delivery worker closed');
+    }
+  }
+
+  /**
+   * Stop the scheduled start worker (waits for in-flight jobs)
+   */
+  async stopScheduleWorker(): Promise<void> {
+    if (this.scheduleWorker) {
+      await this.scheduleWorker.close();
+      this.scheduleWorker = null;
+      log.info('Schedule worker closed');
+    }
   }
 
   /**
    * Stop worker and close connections gracefully
    */
   async shutdown(): Promise<void> {
-    console.log('[Queue] Shutting down gracefully...');
+    log.info('Shutting down gracefully...');
 
-    // Close worker
+    // Close workers
     if (this.worker) {
       await this.worker.close();
-      console.log('[Queue] Worker closed');
+      log.info('Worker closed');
     }
+    await this.stopScheduleWorker();
+    await this.stopDeliveryWorker();
 
     // Close queue events
-    await this.queueEvents.close();
-    console.log('[Queue] Queue events closed');
+    if (this.queueEvents) {
+      await this.queueEvents.close();
+      log.info('Queue events closed');
+    }
 
-    // Close queue
+    // Close queues
     await this.webhookQueue.close();
-    console.log('[Queue] Queue closed');
+    await this.deadLetterQueue.close();
+    await this.scheduleQueue.close();
+    await this.deliveryQueue.close();
+    log.info('Queues closed');
 
     // Close Redis connection
     await this.connection.quit();
-    console.log('[Queue] Redis connection closed');
+    log.info('Redis connection closed');
   }
 
   /**
@@ -155,13 +563,15 @@ class QueueService {
     active: number;
     completed: number;
     failed: number;
+    deadLettered: number;
   }> {
     try {
-      const [waiting, active, completed, failed] = await Promise.all([
+      const [waiting, active, completed, failed, deadLettered] = await Promise.all([
         this.webhookQueue.getWaitingCount(),
         this.webhookQueue.getActiveCount(),
         this.webhookQueue.getCompletedCount(),
         this.webhookQueue.getFailedCount(),
+        this.deadLetterQueue.getWaitingCount(),
       ]);
 
       return {
@@ -171,6 +581,7 @@ class QueueService {
         active,
         completed,
         failed,
+        deadLettered,
       };
     } catch (error) {
       return {
@@ -180,6 +591,7 @@ class QueueService {
         active: -1,
         completed: -1,
         failed: -1,
+        deadLettered: -1,
       };
     }
   }
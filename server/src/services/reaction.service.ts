@@ -0,0 +1,50 @@
+/**
+ * Reaction Service - Emoji reactions for livestreams
+ * Reactions are not stored - the state service aggregates them and broadcasts
+ * one reaction_burst SSE event per livestream per second
+ */
+
+import { databaseService } from './database.service.js';
+import { stateService } from './state.service.js';
+import type { SendReactionRequest } from '../types/livestream.types.js';
+import { AuthorizationError, ValidationError } from '../utils/errors.js';
+
+export const ALLOWED_REACTIONS = ['❤️', '👍', '😂', '😮', '👏', '🔥'];
+
+class ReactionService {
+  /**
+   * Send a reaction to a LIVE livestream
+   * Authorization: Only JOINED participants can react
+   *
+   * @param livestreamId Livestream ID
+   * @param userId Authenticated user ID
+   * @param data Reaction emoji (one of ALLOWED_REACTIONS)
+   */
+  async sendReaction(
+    livestreamId: string,
+    userId: string,
+    data: SendReactionRequest
+  ): Promise<void> {
+    if (!ALLOWED_REACTIONS.includes(data.emoji)) {
+      throw new ValidationError(`emoji must be one of: ${ALLOWED_REACTIONS.join(' ')}`);
+    }
+
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.status !== 'LIVE') {
+      throw new ValidationError(
+        `Cannot react to livestream with status ${livestream.status}. Livestream must be LIVE.`
+      );
+    }
+
+    const participant = await databaseService.getActiveParticipant(userId, livestreamId);
+    if (!participant) {
+      throw new AuthorizationError('Only participants who joined the livestream can react');
+    }
+
+    stateService.recordReaction(livestreamId, data.emoji);
+  }
+}
+
+// Export singleton instance
+export const reactionService = new ReactionService();
@@ -0,0 +1,245 @@
+/**
+ * Recording Service - Livestream recordings through LiveKit Egress
+ * Recordings are room composite MP4 files (output configured in the LiveKit service).
+ * Their status is kept in sync by the egress_* webhooks, so ENDED livestreams can be
+ * replayed from the recordings catalog
+ *
+ * Status flow: STARTING -> ACTIVE -> ENDING -> COMPLETE | FAILED | ABORTED
+ */
+
+import { EgressStatus } from 'livekit-server-sdk';
+import { databaseService } from './database.service.js';
+import { livekitService } from './livekit.service.js';
+import { livestreamAccessService } from './livestream-access.service.js';
+import type {
+  Recording,
+  RecordingResponse,
+  RecordingStatus,
+  WebhookEgressInfo,
+} from '../types/livestream.types.js';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Recording' });
+
+const EGRESS_STATUSES: Record<string, RecordingStatus> = {
+  EGRESS_STARTING: 'STARTING',
+  EGRESS_ACTIVE: 'ACTIVE',
+  EGRESS_ENDING: 'ENDING',
+  EGRESS_COMPLETE: 'COMPLETE',
+  EGRESS_FAILED: 'FAILED',
+  EGRESS_ABORTED: 'ABORTED',
+  EGRESS_LIMIT_REACHED: 'COMPLETE', // Stopped at the egress time limit - the file is still usable
+};
+
+const ACTIVE_STATUSES: RecordingStatus[] = ['STARTING', 'ACTIVE', 'ENDING'];
+
+class RecordingService {
+  /**
+   * Start recording a LIVE livestream
+   * Authorization: Only the creator can start a recording
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   */
+  async startRecording(livestreamId: string, requestingUserId: string): Promise<RecordingResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the creator of the livestream can start a recording');
+    }
+
+    if (livestream.status !== 'LIVE') {
+      throw new ValidationError(
+        `Cannot record livestream with status ${livestream.status}. Livestream must be LIVE.`
+      );
+    }
+
+    const activeRecordings = await databaseService.listRecordings(livestreamId, ACTIVE_STATUSES);
+    if (activeRecordings.length > 0) {
+      throw new ConflictError('Livestream is already being recorded');
+    }
+
+    const egress = await livekitService.startRoomRecording(livestream.roomName);
+
+    const recording = await databaseService.createRecording({
+      livestreamId,
+      egressId: egress.egressId,
+      status: this.toRecordingStatus(egress.status) ?? 'STARTING',
+      startedBy: requestingUserId,
+    });
+
+    log.info(
+      `Started recording ${recording.id} for livestream ${livestreamId} (egress: ${egress.egressId})`
+    );
+
+    return this.formatRecordingResponse(recording);
+  }
+
+  /**
+   * Stop a recording (the file is finalized asynchronously - see egress_ended)
+   * Authorization: Only the creator can stop a recording
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   * @param recordingId Recording ID
+   */
+  async stopRecording(
+    livestreamId: string,
+    requestingUserId: string,
+    recordingId: string
+  ): Promise<RecordingResponse> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError('Only the creator of the livestream can stop a recording');
+    }
+
+    const recording = await databaseService.getRecordingById(recordingId);
+    if (!recording || recording.livestreamId !== livestreamId) {
+      throw new NotFoundError(`Recording with ID ${recordingId} not found`);
+    }
+
+    // Already stopping or finished - nothing to do (idempotent)
+    if (recording.status !== 'STARTING' && recording.status !== 'ACTIVE') {
+      return this.formatRecordingResponse(recording);
+    }
+
+    await livekitService.stopEgress(recording.egressId);
+
+    // egress_ended may already have stored the final status - never move it back to ENDING
+    const updated = await databaseService.updateRecordingByEgressId(
+      recording.egressId,
+      { status: 'ENDING' },
+      ['STARTING', 'ACTIVE']
+    );
+
+    log.info(`Stopping recording ${recording.id} (egress: ${recording.egressId})`);
+
+    return this.formatRecordingResponse(
+      updated ?? (await databaseService.getRecordingById(recording.id)) ?? recording
+    );
+  }
+
+  /**
+   * List recordings of a livestream
+   * The creator sees every recording, other users only COMPLETE (replayable) ones.
+   * Recordings of PRIVATE livestreams are limited to users with access (see livestreamAccessService)
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID (optional)
+   */
+  async listRecordings(
+    livestreamId: string,
+    requestingUserId?: string
+  ): Promise<RecordingResponse[]> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+    const isCreator = requestingUserId !== undefined && livestream.createdBy === requestingUserId;
+
+    await livestreamAccessService.assertCanAccessLivestream(
+      livestream,
+      requestingUserId,
+      'Recordings of this private livestream are not available'
+    );
+
+    const recordings = await databaseService.listRecordings(
+      livestreamId,
+      isCreator ? undefined : ['COMPLETE']
+    );
+
+    return recordings.map(recording => this.formatRecordingResponse(recording));
+  }
+
+  /**
+   * Apply an egress webhook (egress_started, egress_updated, egress_ended) to its recording
+   * Webhooks can be processed out of order, so a finished recording is never reopened
+   *
+   * @param egressInfo Egress info from the webhook payload
+   */
+  async handleEgressEvent(egressInfo: WebhookEgressInfo): Promise<void> {
+    const recording = await databaseService.getRecordingByEgressId(egressInfo.egressId);
+
+    if (!recording) {
+      // Egress not started through the API, or egress_started arrived before the record was created
+      log.warn(`No recording found for egress ${egressInfo.egressId}`);
+      return;
+    }
+
+    const status = this.toRecordingStatus(egressInfo.status);
+    if (!status) {
+      log.warn(`Unknown egress status ${egressInfo.status} for egress ${egressInfo.egressId}`);
+      return;
+    }
+
+    if (!ACTIVE_STATUSES.includes(recording.status) && ACTIVE_STATUSES.includes(status)) {
+      log.info(
+        `Ignoring ${status} update for finished recording ${recording.id} (${recording.status})`
+      );
+      return;
+    }
+
+    const file = egressInfo.fileResults?.[0];
+
+    await databaseService.updateRecordingByEgressId(egressInfo.egressId, {
+      status,
+      startedAt: this.fromNanoseconds(egressInfo.startedAt),
+      endedAt: this.fromNanoseconds(egressInfo.endedAt),
+      error: egressInfo.error || null,
+      ...(file && {
+        filename: file.filename || null,
+        location: file.location || null,
+        duration: file.duration ? Math.round(Number(file.duration) / 1e9) : null,
+        size: file.size ? BigInt(file.size) : null,
+      }),
+    });
+
+    log.info(`Recording ${recording.id} is ${status} (egress: ${egressInfo.egressId})`);
+  }
+
+  /**
+   * Map a LiveKit egress status (enum value or protobuf JSON name) to a recording status
+   */
+  private toRecordingStatus(status: string | number | undefined): RecordingStatus | undefined {
+    if (status === undefined) {
+      return undefined;
+    }
+
+    const name = typeof status === 'number' ? EgressStatus[status] : status;
+    return name ? EGRESS_STATUSES[name] : undefined;
+  }
+
+  /**
+   * Convert a Unix timestamp in nanoseconds (0 = unset) to a Date
+   */
+  private fromNanoseconds(value: string | number | undefined): Date | undefined {
+    if (!value || BigInt(value) === 0n) {
+      return undefined;
+    }
+
+    return new Date(Number(BigInt(value) / 1_000_000n));
+  }
+
+  /**
+   * Format recording for API response
+   */
+  private formatRecordingResponse(recording: Recording): RecordingResponse {
+    return {
+      id: recording.id,
+      livestreamId: recording.livestreamId,
+      egressId: recording.egressId,
+      status: recording.status,
+      startedBy: recording.startedBy,
+      filename: recording.filename,
+      location: recording.location,
+      duration: recording.duration,
+      size: recording.size === null ? null : Number(recording.size),
+      error: recording.error,
+      createdAt: recording.createdAt,
+      startedAt: recording.startedAt,
+      endedAt: recording.endedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const recordingService = new RecordingService();
@@ -0,0 +1,390 @@
+/**
+ * Simulcast Service - Restream a livestream to external RTMP destinations (YouTube, Twitch, ...)
+ * Each destination gets its own room composite stream egress (LiveKit Egress), started when
+ * the livestream goes LIVE (or when the destination is added to a LIVE livestream) and
+ * stopped when it ends. Destination status follows the egress_* webhooks and is exposed
+ * in the stream state (destination_update SSE event)
+ *
+ * Stream keys are encrypted at rest with AES-256-GCM and never returned by the API
+ *
+ * Configuration:
+ * - STREAM_KEY_ENCRYPTION_KEY: Secret the encryption key is derived from
+ *   (stored stream keys cannot be decrypted if it changes)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { EgressStatus } from 'livekit-server-sdk';
+import { databaseService } from './database.service.js';
+import { livekitService } from './livekit.service.js';
+import { stateService } from './state.service.js';
+import type {
+  CreateStreamDestinationRequest,
+  Livestream,
+  StreamDestination,
+  StreamDestinationResponse,
+  StreamDestinationStatus,
+  WebhookEgressInfo,
+} from '../types/livestream.types.js';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Simulcast' });
+
+const EGRESS_STATUSES: Record<string, StreamDestinationStatus> = {
+  EGRESS_STARTING: 'STARTING',
+  EGRESS_ACTIVE: 'ACTIVE',
+  EGRESS_ENDING: 'STOPPING',
+  EGRESS_COMPLETE: 'IDLE',
+  EGRESS_LIMIT_REACHED: 'IDLE',
+  EGRESS_FAILED: 'FAILED',
+  EGRESS_ABORTED: 'FAILED', // Could not start (e.g. the destination rejected the connection)
+};
+
+const PUSHING_STATUSES: StreamDestinationStatus[] = ['STARTING', 'ACTIVE', 'STOPPING'];
+
+const RTMP_URL_PATTERN = /^rtmps?:\/\/\S+$/;
+
+class SimulcastService {
+  private encryptionKey: Buffer;
+
+  constructor() {
+    const secret = process.env.STREAM_KEY_ENCRYPTION_KEY;
+
+    if (secret) {
+      this.encryptionKey = createHash('sha256').update(secret).digest();
+    } else {
+      this.encryptionKey = randomBytes(32);
+      log.warn(
+        'STREAM_KEY_ENCRYPTION_KEY is not set - using a random key, stored stream keys cannot be used after restart'
+      );
+    }
+  }
+
+  /**
+   * List simulcast destinations of a livestream
+   * Authorization: Only the creator can see destinations
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   */
+  async listDestinations(
+    livestreamId: string,
+    requestingUserId: string
+  ): Promise<StreamDestinationResponse[]> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can see its simulcast destinations'
+      );
+    }
+
+    const destinations = await databaseService.listStreamDestinations(livestreamId);
+    return destinations.map(destination => this.formatDestinationResponse(destination));
+  }
+
+  /**
+   * Add a simulcast destination (pushing starts right away if the livestream is LIVE)
+   * Authorization: Only the creator can add destinations
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   * @param data Destination name, RTMP URL and stream key
+   */
+  async addDestination(
+    livestreamId: string,
+    requestingUserId: string,
+    data: CreateStreamDestinationRequest
+  ): Promise<StreamDestinationResponse> {
+    this.validateCreateRequest(data);
+
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can add simulcast destinations'
+      );
+    }
+
+    if (livestream.status === 'ENDED') {
+      throw new ValidationError('Cannot add a simulcast destination to an ENDED livestream');
+    }
+
+    let destination = await databaseService.createStreamDestination({
+      livestreamId,
+      name: data.name.trim(),
+      rtmpUrl: data.rtmpUrl.trim().replace(/\/+$/, ''),
+      streamKeyEncrypted: this.encryptStreamKey(data.streamKey.trim()),
+      createdBy: requestingUserId,
+    });
+
+    log.info(
+      `Added destination ${destination.id} (${destination.name}) to livestream ${livestreamId}`
+    );
+
+    if (livestream.status === 'LIVE') {
+      destination = await this.startDestination(livestream, destination);
+      await this.syncState(livestreamId);
+    }
+
+    return this.formatDestinationResponse(destination);
+  }
+
+  /**
+   * Remove a simulcast destination (stops pushing to it)
+   * Authorization: Only the creator can remove destinations
+   *
+   * @param livestreamId Livestream ID
+   * @param requestingUserId Authenticated user ID making the request
+   * @param destinationId Destination ID
+   */
+  async removeDestination(
+    livestreamId: string,
+    requestingUserId: string,
+    destinationId: string
+  ): Promise<void> {
+    const livestream = await databaseService.getLivestreamById(livestreamId);
+
+    if (livestream.createdBy !== requestingUserId) {
+      throw new AuthorizationError(
+        'Only the creator of the livestream can remove simulcast destinations'
+      );
+    }
+
+    const destination = await databaseService.getStreamDestinationById(destinationId);
+    if (!destination || destination.livestreamId !== livestreamId) {
+      throw new NotFoundError(`Stream destination with ID ${destinationId} not found`);
+    }
+
+    await this.stopDestination(destination);
+    await databaseService.deleteStreamDestination(livestreamId, destinationId);
+
+    log.info(`Removed destination ${destinationId} from livestream ${livestreamId}`);
+
+    if (livestream.status === 'LIVE') {
+      await this.syncState(livestreamId);
+    }
+  }
+
+  /**
+   * Start pushing to every destination of a livestream that just went LIVE
+   * Best effort: a failing destination is marked FAILED, going LIVE is not failed
+   *
+   * @param livestream Livestream that is now LIVE
+   */
+  async startAll(livestream: Livestream): Promise<void> {
+    try {
+      const destinations = await databaseService.listStreamDestinations(livestream.id);
+      if (destinations.length === 0) {
+        return;
+      }
+
+      for (const destination of destinations) {
+        await this.startDestination(livestream, destination);
+      }
+
+      await this.syncState(livestream.id);
+    } catch (error) {
+      log.error(`Failed to start destinations of livestream ${livestream.id}`, { error });
+    }
+  }
+
+  /**
+   * Stop pushing to every destination of a livestream that ended
+   * Best effort: logs instead of throwing, so ending the livestream is not failed by simulcast
+   *
+   * @param livestream Livestream that is ending
+   */
+  async stopAll(livestream: Livestream): Promise<void> {
+    try {
+      const destinations = await databaseService.listStreamDestinations(livestream.id);
+      const pushing = destinations.filter(destination =>
+        PUSHING_STATUSES.includes(destination.status)
+      );
+      if (pushing.length === 0) {
+        return;
+      }
+
+      for (const destination of pushing) {
+        await this.stopDestination(destination);
+        await databaseService.updateStreamDestination(destination.id, { status: 'IDLE' });
+      }
+
+      await this.syncState(livestream.id);
+    } catch (error) {
+      log.error(`Failed to stop destinations of livestream ${livestream.id}`, { error });
+    }
+  }
+
+  /**
+   * Apply an egress webhook (egress_started, egress_updated, egress_ended) to its destination
+   * Webhooks can be processed out of order, so a finished push is never reopened
+   *
+   * @param egressInfo Egress info from the webhook payload
+   * @returns true if the egress belongs to a simulcast destination
+   */
+  async handleEgressEvent(egressInfo: WebhookEgressInfo): Promise<boolean> {
+    const destination = await databaseService.getStreamDestinationByEgressId(egressInfo.egressId);
+
+    if (!destination) {
+      return false;
+    }
+
+    const name =
+      typeof egressInfo.status === 'number' ? EgressStatus[egressInfo.status] : egressInfo.status;
+    const status = name ? EGRESS_STATUSES[name] : undefined;
+
+    if (!status) {
+      log.warn(`Unknown egress status ${egressInfo.status} for egress ${egressInfo.egressId}`);
+      return true;
+    }
+
+    if (!PUSHING_STATUSES.includes(destination.status) && PUSHING_STATUSES.includes(status)) {
+      log.info(
+        `Ignoring ${status} update for finished push to destination ${destination.id} (${destination.status})`
+      );
+      return true;
+    }
+
+    await databaseService.updateStreamDestination(destination.id, {
+      status,
+      error: status === 'FAILED' ? egressInfo.error || 'Stream egress failed' : null,
+    });
+
+    log.info(`Destination ${destination.id} is ${status} (egress: ${egressInfo.egressId})`);
+
+    await this.syncState(destination.livestreamId);
+    return true;
+  }
+
+  /**
+   * Start a stream egress to a destination
+   * Marks the destination FAILED (instead of throwing) if the egress cannot be started
+   */
+  private async startDestination(
+    livestream: Livestream,
+    destination: StreamDestination
+  ): Promise<StreamDestination> {
+    let data;
+
+    try {
+      const url = `${destination.rtmpUrl}/${this.decryptStreamKey(destination.streamKeyEncrypted)}`;
+      const egress = await livekitService.startStreamEgress(livestream.roomName, url);
+
+      data = { status: 'STARTING' as const, egressId: egress.egressId, error: null };
+      log.info(
+        `Started pushing livestream ${livestream.id} to destination ${destination.id} (egress: ${egress.egressId})`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to start stream egress';
+      data = { status: 'FAILED' as const, error: message };
+      log.error(
+        `Failed to push livestream ${livestream.id} to destination ${destination.id}`,
+        { error }
+      );
+    }
+
+    return (await databaseService.updateStreamDestination(destination.id, data)) ?? destination;
+  }
+
+  /**
+   * Stop the stream egress of a destination, ignoring failures (it may already be gone)
+   */
+  private async stopDestination(destination: StreamDestination): Promise<void> {
+    if (!destination.egressId || !PUSHING_STATUSES.includes(destination.status)) {
+      return;
+    }
+
+    try {
+      await livekitService.stopEgress(destination.egressId);
+    } catch (error) {
+      log.warn(
+        `Failed to stop egress ${destination.egressId} of destination ${destination.id}`,
+        { error }
+      );
+    }
+  }
+
+  /**
+   * Publish the current destination statuses in the stream state
+   */
+  private async syncState(livestreamId: string): Promise<void> {
+    const destinations = await databaseService.listStreamDestinations(livestreamId);
+
+    await stateService.updateDestinations(
+      livestreamId,
+      destinations.map(destination => ({
+        id: destination.id,
+        name: destination.name,
+        status: destination.status,
+        error: destination.error,
+      }))
+    );
+  }
+
+  /**
+   * Validate add destination request
+   */
+  private validateCreateRequest(data: CreateStreamDestinationRequest): void {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new ValidationError('Destination name is required');
+    }
+
+    if (!data.rtmpUrl || !RTMP_URL_PATTERN.test(data.rtmpUrl.trim())) {
+      throw new ValidationError('RTMP URL must start with rtmp:// or rtmps://');
+    }
+
+    if (!data.streamKey || data.streamKey.trim().length === 0) {
+      throw new ValidationError('Stream key is required');
+    }
+  }
+
+  /**
+   * Encrypt a stream key (AES-256-GCM) as "iv:authTag:ciphertext" (base64)
+   */
+  private encryptStreamKey(streamKey: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(streamKey, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+  }
+
+  /**
+   * Decrypt a stream key encrypted with encryptStreamKey
+   */
+  private decryptStreamKey(encrypted: string): string {
+    const [iv, authTag, ciphertext] = encrypted.split(':').map(part => Buffer.from(part, 'base64'));
+
+    if (!iv || !authTag || !ciphertext) {
+      throw new Error('Stream key is not in the expected format');
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+      decipher.setAuthTag(authTag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch (error) {
+      throw new Error('Stream key could not be decrypted (was STREAM_KEY_ENCRYPTION_KEY changed?)');
+    }
+  }
+
+  /**
+   * Format simulcast destination for API response (without the stream key)
+   */
+  private formatDestinationResponse(destination: StreamDestination): StreamDestinationResponse {
+    return {
+      id: destination.id,
+      livestreamId: destination.livestreamId,
+      name: destination.name,
+      rtmpUrl: destination.rtmpUrl,
+      status: destination.status,
+      error: destination.error,
+      createdAt: destination.createdAt,
+      updatedAt: destination.updatedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const simulcastService = new SimulcastService();
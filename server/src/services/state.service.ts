@@ -1,11 +1,22 @@
 import { Redis } from 'ioredis';
 import type { Response } from 'express';
 import type {
+  ChatMessageDeletedEvent,
+  ChatMessageResponse,
+  DestinationState,
   StreamState,
   StreamStateEvent,
   StateEventType,
   HostInfo,
+  PollResponse,
+  ReactionBurstEvent,
+  WaitingRoomUpdate,
 } from '../types/livestream.types.js';
+import { SpanKind } from '@opentelemetry/api';
+import { tracingService } from './tracing.service.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'State Service' });
 
 /**
  * State Service for managing real-time stream state
@@ -15,6 +26,7 @@ import type {
  * - Redis Pub/Sub for broadcasting state changes
  * - Server-Sent Events (SSE) for client subscriptions
  * - Viewer count throttling to prevent excessive broadcasts
+ * - Reaction aggregation (one reaction_burst event per livestream per second)
  */
 
 interface SSEConnection {
@@ -30,12 +42,18 @@ interface ViewerCountThrottle {
   lastBroadcastTime: number;
 }
 
+interface ReactionBuffer {
+  counts: Record<string, number>; // Emoji -> count since the last flush
+  flushTimeout: NodeJS.Timeout;
+}
+
 class StateService {
   private redisClient: Redis;
   private redisPubClient: Redis;
   private redisSubClient: Redis;
   private sseConnections: Map<string, SSEConnection[]> = new Map();
   private viewerCountThrottles: Map<string, ViewerCountThrottle> = new Map();
+  private reactionBuffers: Map<string, ReactionBuffer> = new Map();
   private subscribedChannels: Set<string> = new Set(); // Track Redis Pub/Sub subscriptions
 
   // Configuration
@@ -43,6 +61,7 @@ class StateService {
   private readonly VIEWER_COUNT_THROTTLE_MS = 5000; // 5 seconds
   private readonly VIEWER_COUNT_THRESHOLD_PERCENT = 0.1; // 10%
   private readonly VIEWER_COUNT_THRESHOLD_ABSOLUTE = 5; // 5 viewers
+  private readonly REACTION_FLUSH_MS = 1000; // 1 second
   private readonly SSE_IDLE_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
   private readonly SSE_HEARTBEAT_INTERVAL_MS = 30 * 1000; // 30 seconds
 
@@ -71,7 +90,7 @@ class StateService {
       this.handleRedisMessage(channel, message);
     });
 
-    console.log('[State Service] Initialized Redis connections');
+    log.info('Initialized Redis connections');
   }
 
   /**
@@ -83,7 +102,7 @@ class StateService {
       // Extract livestreamId from channel name (format: stream:events:{livestreamId})
       const livestreamId = this.extractLivestreamIdFromChannel(channel);
       if (!livestreamId) {
-        console.warn(`[State Service] Invalid channel format: ${channel}`);
+        log.warn(`Invalid channel format: ${channel}`);
         return;
       }
 
@@ -91,7 +110,7 @@ class StateService {
       const event: StreamStateEvent = JSON.parse(message);
       this.broadcastToSSEClients(livestreamId, event);
     } catch (error) {
-      console.error('[State Service] Error handling Redis message:', error);
+      log.error('Error handling Redis message', { error });
     }
   }
 
@@ -127,7 +146,7 @@ class StateService {
     };
 
     await this.setState(livestreamId, state);
-    console.log(`[State Service] Initialized state for stream ${livestreamId}`);
+    log.info(`Initialized state for stream ${livestreamId}`);
 
     return state;
   }
@@ -138,7 +157,7 @@ class StateService {
   async getState(livestreamId: string): Promise<StreamState | null> {
     try {
       const key = this.getStateKey(livestreamId);
-      const stateJson = await this.redisClient.get(key);
+      const stateJson = await this.traceRedis('GET', () => this.redisClient.get(key));
 
       if (!stateJson) {
         return null;
@@ -146,10 +165,7 @@ class StateService {
 
       return JSON.parse(stateJson) as StreamState;
     } catch (error) {
-      console.error(
-        `[State Service] Error getting state for ${livestreamId}:`,
-        error
-      );
+      log.error(`Error getting state for ${livestreamId}`, { error });
       return null;
     }
   }
@@ -164,7 +180,9 @@ class StateService {
     const key = this.getStateKey(livestreamId);
     const stateJson = JSON.stringify(state);
 
-    await this.redisClient.setex(key, this.STATE_TTL, stateJson);
+    await this.traceRedis('SETEX', () =>
+      this.redisClient.setex(key, this.STATE_TTL, stateJson)
+    );
   }
 
   /**
@@ -176,9 +194,7 @@ class StateService {
   ): Promise<void> {
     const state = await this.getState(livestreamId);
     if (!state) {
-      console.warn(
-        `[State Service] State not found for ${livestreamId}, skipping participant join`
-      );
+      log.warn(`State not found for ${livestreamId}, skipping participant join`);
       return;
     }
 
@@ -194,9 +210,7 @@ class StateService {
       }
 
       await this.setState(livestreamId, state);
-      console.log(
-        `[State Service] Participant ${userId} joined ${livestreamId}, viewer count: ${state.viewerCount}`
-      );
+      log.info(`Participant ${userId} joined ${livestreamId}, viewer count: ${state.viewerCount}`);
 
       // Check if we should broadcast viewer count update
       await this.checkAndBroadcastViewerCount(livestreamId, state);
@@ -212,9 +226,7 @@ class StateService {
   ): Promise<void> {
     const state = await this.getState(livestreamId);
     if (!state) {
-      console.warn(
-        `[State Service] State not found for ${livestreamId}, skipping participant leave`
-      );
+      log.warn(`State not found for ${livestreamId}, skipping participant leave`);
       return;
     }
 
@@ -225,9 +237,7 @@ class StateService {
       state.viewerCount = state.participants.length;
 
       await this.setState(livestreamId, state);
-      console.log(
-        `[State Service] Participant ${userId} left ${livestreamId}, viewer count: ${state.viewerCount}`
-      );
+      log.info(`Participant ${userId} left ${livestreamId}, viewer count: ${state.viewerCount}`);
 
       // Check if we should broadcast viewer count update
       await this.checkAndBroadcastViewerCount(livestreamId, state);
@@ -240,15 +250,15 @@ class StateService {
   async handleRoomEnded(livestreamId: string): Promise<void> {
     const state = await this.getState(livestreamId);
     if (!state) {
-      console.warn(
-        `[State Service] State not found for ${livestreamId}, skipping room end`
-      );
+      log.warn(`State not found for ${livestreamId}, skipping room end`);
       return;
     }
 
+    this.discardReactions(livestreamId);
+
     state.status = 'ENDED';
     await this.setState(livestreamId, state);
-    console.log(`[State Service] Stream ${livestreamId} ended`);
+    log.info(`Stream ${livestreamId} ended`);
 
     // Broadcast room_ended event
     await this.broadcastStateEvent(livestreamId, 'room_ended', state);
@@ -257,6 +267,25 @@ class StateService {
     this.closeConnectionsForStream(livestreamId);
   }
 
+  /**
+   * Update simulcast destination statuses and broadcast them
+   */
+  async updateDestinations(
+    livestreamId: string,
+    destinations: DestinationState[]
+  ): Promise<void> {
+    const state = await this.getState(livestreamId);
+    if (!state) {
+      log.warn(`State not found for ${livestreamId}, skipping destination update`);
+      return;
+    }
+
+    state.destinations = destinations;
+    await this.setState(livestreamId, state);
+
+    await this.broadcastStateEvent(livestreamId, 'destination_update', state);
+  }
+
   /**
    * Check if viewer count update should be broadcast based on throttling rules
    */
@@ -313,9 +342,68 @@ class StateService {
         'viewer_count_update',
         state
       );
-      console.log(
-        `[State Service] Broadcast viewer count update for ${livestreamId}: ${currentCount}`
-      );
+      log.info(`Broadcast viewer count update for ${livestreamId}: ${currentCount}`);
+    }
+  }
+
+  /**
+   * Count a reaction - reactions are aggregated and broadcast as one
+   * reaction_burst event per livestream per second (instead of one event per reaction)
+   */
+  recordReaction(livestreamId: string, emoji: string): void {
+    let buffer = this.reactionBuffers.get(livestreamId);
+
+    // First reaction in this window - flush the window when it ends
+    if (!buffer) {
+      buffer = {
+        counts: {},
+        flushTimeout: setTimeout(() => {
+          this.flushReactions(livestreamId).catch(error => {
+            log.error(`Failed to broadcast reactions for ${livestreamId}`, { error });
+          });
+        }, this.REACTION_FLUSH_MS),
+      };
+      this.reactionBuffers.set(livestreamId, buffer);
+    }
+
+    buffer.counts[emoji] = (buffer.counts[emoji] ?? 0) + 1;
+  }
+
+  /**
+   * Broadcast the reactions aggregated in the current window
+   */
+  private async flushReactions(livestreamId: string): Promise<void> {
+    const buffer = this.reactionBuffers.get(livestreamId);
+    if (!buffer) {
+      return;
+    }
+
+    this.reactionBuffers.delete(livestreamId);
+
+    const burst: ReactionBurstEvent = {
+      livestreamId,
+      counts: buffer.counts,
+      total: Object.values(buffer.counts).reduce((sum, count) => sum + count, 0),
+    };
+
+    const event: StreamStateEvent = {
+      type: 'reaction_burst',
+      data: burst,
+      timestamp: new Date().toISOString(),
+    };
+
+    const channel = this.getPubSubChannel(livestreamId);
+    await this.publish(channel, event);
+  }
+
+  /**
+   * Drop reactions that have not been broadcast yet
+   */
+  private discardReactions(livestreamId: string): void {
+    const buffer = this.reactionBuffers.get(livestreamId);
+    if (buffer) {
+      clearTimeout(buffer.flushTimeout);
+      this.reactionBuffers.delete(livestreamId);
     }
   }
 
@@ -334,13 +422,83 @@ class StateService {
     };
 
     const channel = this.getPubSubChannel(livestreamId);
-    await this.redisPubClient.publish(channel, JSON.stringify(event));
+    await this.publish(channel, event);
+
+    log.info(`Broadcast ${eventType} event for ${livestreamId}`);
+  }
+
+  /**
+   * Broadcast a waiting room snapshot via Redis Pub/Sub
+   * Queued clients use it to show their position and to join once admitted
+   */
+  async broadcastWaitingRoomUpdate(
+    livestreamId: string,
+    update: WaitingRoomUpdate
+  ): Promise<void> {
+    const event: StreamStateEvent = {
+      type: 'waiting_room_update',
+      data: update,
+      timestamp: new Date().toISOString(),
+    };
+
+    const channel = this.getPubSubChannel(livestreamId);
+    await this.publish(channel, event);
 
-    console.log(
-      `[State Service] Broadcast ${eventType} event for ${livestreamId}`
+    log.info(
+      `Broadcast waiting_room_update event for ${livestreamId} (queue: ${update.queueLength}, admitted: ${update.admittedCount})`
     );
   }
 
+  /**
+   * Broadcast a new chat message via Redis Pub/Sub
+   */
+  async broadcastChatMessage(
+    livestreamId: string,
+    message: ChatMessageResponse
+  ): Promise<void> {
+    const event: StreamStateEvent = {
+      type: 'chat_message',
+      data: message,
+      timestamp: new Date().toISOString(),
+    };
+
+    const channel = this.getPubSubChannel(livestreamId);
+    await this.publish(channel, event);
+  }
+
+  /**
+   * Broadcast a chat message deletion via Redis Pub/Sub (clients remove the message)
+   */
+  async broadcastChatMessageDeleted(
+    livestreamId: string,
+    deleted: ChatMessageDeletedEvent
+  ): Promise<void> {
+    const event: StreamStateEvent = {
+      type: 'chat_message_deleted',
+      data: deleted,
+      timestamp: new Date().toISOString(),
+    };
+
+    const channel = this.getPubSubChannel(livestreamId);
+    await this.publish(channel, event);
+
+    log.info(`Broadcast chat_message_deleted event for ${livestreamId} (message: ${deleted.id})`);
+  }
+
+  /**
+   * Broadcast a poll (created, results changed or closed) via Redis Pub/Sub
+   */
+  async broadcastPollUpdate(livestreamId: string, poll: PollResponse): Promise<void> {
+    const event: StreamStateEvent = {
+      type: 'poll_update',
+      data: poll,
+      timestamp: new Date().toISOString(),
+    };
+
+    const channel = this.getPubSubChannel(livestreamId);
+    await this.publish(channel, event);
+  }
+
   /**
    * Subscribe to state events for a livestream (SSE)
    */
@@ -372,9 +530,7 @@ class StateService {
     this.sseConnections.get(livestreamId)!.push(connection);
 
     const connectionCount = this.sseConnections.get(livestreamId)!.length;
-    console.log(
-      `[State Service] SSE connection established for ${livestreamId} (total: ${connectionCount})`
-    );
+    log.info(`SSE connection established for ${livestreamId} (total: ${connectionCount})`);
 
     // Subscribe to Redis channel if this is the first connection for this stream
     if (connectionCount === 1) {
@@ -396,8 +552,8 @@ class StateService {
 
       // Close connection if idle for too long (zombie connection)
       if (idleTime > this.SSE_IDLE_TIMEOUT_MS) {
-        console.log(
-          `[State Service] Closing idle SSE connection for ${livestreamId} (idle: ${Math.round(idleTime / 1000)}s)`
+        log.info(
+          `Closing idle SSE connection for ${livestreamId} (idle: ${Math.round(idleTime / 1000)}s)`
         );
         this.closeConnection(connection);
         return;
@@ -409,10 +565,7 @@ class StateService {
         connection.lastActivity = now;
       } catch (error) {
         // Connection already closed, clean up
-        console.error(
-          `[State Service] Error sending heartbeat to ${livestreamId}:`,
-          error
-        );
+        log.error(`Error sending heartbeat to ${livestreamId}`, { error });
         this.closeConnection(connection);
       }
     }, this.SSE_HEARTBEAT_INTERVAL_MS);
@@ -432,16 +585,14 @@ class StateService {
 
     // Check if already subscribed
     if (this.subscribedChannels.has(channel)) {
-      console.log(
-        `[State Service] Already subscribed to channel: ${channel}`
-      );
+      log.info(`Already subscribed to channel: ${channel}`);
       return;
     }
 
     // Subscribe to channel
-    await this.redisSubClient.subscribe(channel);
+    await this.traceRedis('SUBSCRIBE', () => this.redisSubClient.subscribe(channel));
     this.subscribedChannels.add(channel);
-    console.log(`[State Service] Subscribed to Redis channel: ${channel}`);
+    log.info(`Subscribed to Redis channel: ${channel}`);
   }
 
   /**
@@ -460,9 +611,7 @@ class StateService {
       this.sendSSEEvent(connection.res, event.type, event.data);
     });
 
-    console.log(
-      `[State Service] Broadcast ${event.type} to ${connections.length} SSE clients for ${livestreamId}`
-    );
+    log.info(`Broadcast ${event.type} to ${connections.length} SSE clients for ${livestreamId}`);
   }
 
   /**
@@ -483,7 +632,7 @@ class StateService {
         }
       }
     } catch (error) {
-      console.error('[State Service] Error sending SSE event:', error);
+      log.error('Error sending SSE event', { error });
     }
   }
 
@@ -501,7 +650,7 @@ class StateService {
       // Close the response stream
       connection.res.end();
     } catch (error) {
-      console.error('[State Service] Error closing connection:', error);
+      log.error('Error closing connection', { error });
     }
 
     // Remove from connections map
@@ -529,9 +678,7 @@ class StateService {
       }
 
       connections.splice(index, 1);
-      console.log(
-        `[State Service] SSE connection closed for ${livestreamId} (remaining: ${connections.length})`
-      );
+      log.info(`SSE connection closed for ${livestreamId} (remaining: ${connections.length})`);
 
       // Unsubscribe from Redis if no more connections
       if (connections.length === 0) {
@@ -561,15 +708,13 @@ class StateService {
         // Close response stream
         connection.res.end();
       } catch (error) {
-        console.error('[State Service] Error closing SSE connection:', error);
+        log.error('Error closing SSE connection', { error });
       }
     });
 
     this.sseConnections.delete(livestreamId);
     this.unsubscribeFromRedisChannel(livestreamId);
-    console.log(
-      `[State Service] Closed ${connections.length} SSE connections for ${livestreamId}`
-    );
+    log.info(`Closed ${connections.length} SSE connections for ${livestreamId}`);
   }
 
   /**
@@ -582,12 +727,33 @@ class StateService {
 
     // Only unsubscribe if currently subscribed
     if (this.subscribedChannels.has(channel)) {
-      await this.redisSubClient.unsubscribe(channel);
+      await this.traceRedis('UNSUBSCRIBE', () => this.redisSubClient.unsubscribe(channel));
       this.subscribedChannels.delete(channel);
-      console.log(`[State Service] Unsubscribed from Redis channel: ${channel}`);
+      log.info(`Unsubscribed from Redis channel: ${channel}`);
     }
   }
 
+  /**
+   * Publish an event to a Redis Pub/Sub channel
+   */
+  private async publish(channel: string, event: unknown): Promise<void> {
+    await this.traceRedis('PUBLISH', () => this.redisPubClient.publish(channel, JSON.stringify(event)));
+  }
+
+  /**
+   * Run a Redis command in a client span
+   */
+  private traceRedis<T>(command: string, fn: () => Promise<T>): Promise<T> {
+    return tracingService.withSpan(
+      `redis ${command}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: { 'db.system.name': 'redis', 'db.operation.name': command },
+      },
+      fn
+    );
+  }
+
   /**
    * Get Redis key for stream state
    */
@@ -624,7 +790,7 @@ class StateService {
         subscribedStreams: this.sseConnections.size,
       };
     } catch (error) {
-      console.error('[State Service] Health check failed:', error);
+      log.error('Health check failed', { error });
       return {
         isHealthy: false,
         activeConnections: 0,
@@ -637,13 +803,18 @@ class StateService {
    * Shutdown gracefully
    */
   async shutdown(): Promise<void> {
-    console.log('[State Service] Shutting down gracefully...');
+    log.info('Shutting down gracefully...');
 
     // Close all SSE connections
     for (const [livestreamId] of this.sseConnections) {
       this.closeConnectionsForStream(livestreamId);
     }
 
+    // Drop pending reaction bursts
+    for (const [livestreamId] of this.reactionBuffers) {
+      this.discardReactions(livestreamId);
+    }
+
     // Clear subscribed channels tracking
     this.subscribedChannels.clear();
 
@@ -655,7 +826,7 @@ class StateService {
     await this.redisPubClient.quit();
     await this.redisSubClient.quit();
 
-    console.log('[State Service] Shutdown complete');
+    log.info('Shutdown complete');
   }
 }
 
@@ -0,0 +1,206 @@
+/**
+ * Tracing Service - OpenTelemetry tracing across the API, queue and LiveKit calls
+ *
+ * Spans:
+ * - HTTP requests (tracing middleware, continues an incoming W3C traceparent)
+ * - Prisma operations (Prisma instrumentation)
+ * - LiveKit API calls, Redis operations of the state service
+ * - Webhook jobs - the trace context is stored in the job data by addWebhookJob
+ *   and restored by the worker, so processing shows up in the webhook request's trace
+ *
+ * Configuration:
+ * - OTEL_TRACES_EXPORTER: otlp, file or none (default: none - tracing disabled)
+ * - OTEL_EXPORTER_OTLP_ENDPOINT: OTLP/HTTP collector (default: http://localhost:4318)
+ * - OTEL_TRACES_FILE: File the file exporter appends spans to (default: traces.jsonl)
+ * - OTEL_SERVICE_NAME: Service name (default: livestream-orchestrator)
+ */
+
+import { appendFileSync } from 'node:fs';
+import {
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+  type Attributes,
+  type Span,
+  type Tracer,
+} from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { PrismaInstrumentation, registerInstrumentations } from '@prisma/instrumentation';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Tracing' });
+
+const TRACER_NAME = 'livestream-orchestrator';
+
+/**
+ * Serialized trace context (W3C traceparent / tracestate), stored in job data
+ */
+export type TraceCarrier = Record<string, string>;
+
+/**
+ * Span exporter that appends finished spans to a file, one JSON object per line
+ * Meant for tests and local debugging without a collector
+ */
+class FileSpanExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    try {
+      const lines = spans.map(span =>
+        JSON.stringify({
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          parentSpanId: span.parentSpanContext?.spanId,
+          name: span.name,
+          kind: SpanKind[span.kind],
+          startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+          durationMs: hrTimeToMilliseconds(span.duration),
+          status: span.status,
+          attributes: span.attributes,
+          events: span.events.map(event => ({ name: event.name, attributes: event.attributes })),
+        })
+      );
+
+      appendFileSync(this.filePath, lines.map(line => `${line}\n`).join(''));
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error: error as Error });
+    }
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+class TracingService {
+  private provider: NodeTracerProvider | null = null;
+
+  // Proxy tracer - spans are no-ops until start() registers a provider
+  private tracer: Tracer = trace.getTracer(TRACER_NAME);
+
+  /**
+   * Start exporting spans (OTEL_TRACES_EXPORTER) and register the Prisma instrumentation
+   * Call before the server handles requests
+   */
+  start(): void {
+    const exporterName = process.env.OTEL_TRACES_EXPORTER || 'none';
+
+    if (exporterName === 'none') {
+      log.info('Tracing disabled (OTEL_TRACES_EXPORTER=none)');
+      return;
+    }
+
+    let exporter: SpanExporter;
+    if (exporterName === 'otlp') {
+      exporter = new OTLPTraceExporter();
+    } else if (exporterName === 'file') {
+      exporter = new FileSpanExporter(process.env.OTEL_TRACES_FILE || 'traces.jsonl');
+    } else {
+      log.warn(`Unknown OTEL_TRACES_EXPORTER "${exporterName}", tracing disabled`);
+      return;
+    }
+
+    this.provider = new NodeTracerProvider({
+      resource: resourceFromAttributes({
+        [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || TRACER_NAME,
+      }),
+      // Export file spans as they end (ordered, nothing lost on exit), batch network exports
+      spanProcessors: [
+        exporterName === 'file'
+          ? new SimpleSpanProcessor(exporter)
+          : new BatchSpanProcessor(exporter),
+      ],
+    });
+
+    // Sets the global tracer provider, the async context manager and the W3C propagator
+    this.provider.register();
+
+    registerInstrumentations({
+      tracerProvider: this.provider,
+      instrumentations: [new PrismaInstrumentation()],
+    });
+
+    log.info(`Tracing enabled (exporter: ${exporterName})`);
+  }
+
+  /**
+   * Flush pending spans and stop exporting
+   */
+  async shutdown(): Promise<void> {
+    if (this.provider) {
+      await this.provider.shutdown();
+      this.provider = null;
+      log.info('Tracing stopped');
+    }
+  }
+
+  /**
+   * Get the tracer (for spans that outlive a single call, e.g. HTTP requests)
+   */
+  getTracer(): Tracer {
+    return this.tracer;
+  }
+
+  /**
+   * Run a function in a new active span (child of the current span)
+   * The span records the exception and an error status if the function throws
+   *
+   * @param name Span name
+   * @param options Span kind and attributes
+   * @param fn Function to run
+   */
+  async withSpan<T>(
+    name: string,
+    options: { kind?: SpanKind; attributes?: Attributes },
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    return this.tracer.startActiveSpan(name, options, async span => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        if (error instanceof Error) {
+          span.recordException(error);
+        }
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Serialize the current trace context (empty when there is no active span)
+   */
+  injectContext(): TraceCarrier {
+    const carrier: TraceCarrier = {};
+    propagation.inject(context.active(), carrier);
+    return carrier;
+  }
+
+  /**
+   * Run a function in a trace context serialized by injectContext()
+   * Without a carrier the function starts a new trace
+   */
+  runWithContext<T>(carrier: TraceCarrier | undefined, fn: () => T): T {
+    return context.with(propagation.extract(ROOT_CONTEXT, carrier ?? {}), fn);
+  }
+}
+
+// Singleton instance
+export const tracingService = new TracingService();
@@ -0,0 +1,269 @@
+import { Redis } from 'ioredis';
+import { randomUUID } from 'node:crypto';
+import { databaseService } from './database.service.js';
+import { stateService } from './state.service.js';
+import type {
+  Livestream,
+  WaitingRoomResponse,
+  WaitingRoomStatusResponse,
+} from '../types/livestream.types.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Waiting Room' });
+
+/**
+ * Waiting Room Service - Queue for users joining a full livestream
+ *
+ * Architecture:
+ * - Waiting users stored in a Redis sorted set per livestream (score = enqueue time)
+ * - When a slot frees up, the head of the queue is admitted: a slot is reserved for
+ *   them (second sorted set, score = reservation expiry) and a waiting_room_update
+ *   event is broadcast over SSE; waiting clients then fetch their own status and call
+ *   join again once admitted
+ * - The broadcast only carries counts - SSE subscribers never see who is waiting
+ * - Reserved slots count against maxParticipants for everyone else
+ * - Reservations that are not used within the admission window expire
+ */
+class WaitingRoomService {
+  private redisClient: Redis;
+
+  // Configuration
+  private readonly QUEUE_TTL = 24 * 60 * 60; // 24 hours in seconds (same as stream state)
+  private readonly ADMISSION_WINDOW_MS = 60 * 1000; // 1 minute to join once admitted
+  private readonly ADMISSION_LOCK_MS = 5000; // 5 seconds
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+    this.redisClient = new Redis(redisUrl, {
+      maxRetriesPerRequest: null,
+      enableReadyCheck: false,
+    });
+  }
+
+  /**
+   * Add a user to the waiting room (keeps their place if already waiting)
+   * @returns The user's position in the queue
+   */
+  async enqueue(livestreamId: string, userId: string): Promise<WaitingRoomResponse> {
+    const queueKey = this.getQueueKey(livestreamId);
+
+    await this.redisClient
+      .multi()
+      .zadd(queueKey, 'NX', Date.now(), userId)
+      .expire(queueKey, this.QUEUE_TTL)
+      .exec();
+
+    const [rank, queueLength] = await Promise.all([
+      this.redisClient.zrank(queueKey, userId),
+      this.redisClient.zcard(queueKey),
+    ]);
+
+    log.info(`User ${userId} waiting for ${livestreamId} (position: ${rank! + 1}/${queueLength})`);
+
+    await this.broadcastUpdate(livestreamId);
+
+    return {
+      queued: true,
+      position: rank! + 1,
+      queueLength,
+    };
+  }
+
+  /**
+   * Get a user's waiting room status
+   * Also admits waiting users if slots are free (e.g. after an unused reservation expired)
+   */
+  async getStatus(livestream: Livestream, userId: string): Promise<WaitingRoomStatusResponse> {
+    await this.admitNext(livestream);
+
+    const queueKey = this.getQueueKey(livestream.id);
+    const [rank, queueLength, admissionExpiry] = await Promise.all([
+      this.redisClient.zrank(queueKey, userId),
+      this.redisClient.zcard(queueKey),
+      this.redisClient.zscore(this.getAdmittedKey(livestream.id), userId),
+    ]);
+
+    const admitted = admissionExpiry !== null && Number(admissionExpiry) > Date.now();
+
+    return {
+      position: rank === null ? null : rank + 1,
+      queueLength,
+      admitted,
+      admissionExpiresAt: admitted ? new Date(Number(admissionExpiry)) : null,
+    };
+  }
+
+  /**
+   * Remove a user from the waiting room (also gives up a reserved slot)
+   */
+  async leave(livestream: Livestream, userId: string): Promise<void> {
+    const [removedFromQueue, removedFromAdmitted] = await Promise.all([
+      this.redisClient.zrem(this.getQueueKey(livestream.id), userId),
+      this.redisClient.zrem(this.getAdmittedKey(livestream.id), userId),
+    ]);
+
+    if (removedFromQueue + removedFromAdmitted === 0) {
+      return;
+    }
+
+    log.info(`User ${userId} left the waiting room for ${livestream.id}`);
+
+    // A released reservation frees a slot for the next user
+    if (removedFromAdmitted > 0) {
+      await this.admitNext(livestream);
+    } else {
+      await this.broadcastUpdate(livestream.id);
+    }
+  }
+
+  /**
+   * Check whether a user has an unexpired reserved slot
+   */
+  async isAdmitted(livestreamId: string, userId: string): Promise<boolean> {
+    const admissionExpiry = await this.redisClient.zscore(this.getAdmittedKey(livestreamId), userId);
+    return admissionExpiry !== null && Number(admissionExpiry) > Date.now();
+  }
+
+  /**
+   * Get the number of users waiting
+   */
+  async getQueueLength(livestreamId: string): Promise<number> {
+    return await this.redisClient.zcard(this.getQueueKey(livestreamId));
+  }
+
+  /**
+   * Count unexpired reserved slots held by users other than `excludeUserId`
+   */
+  async countReservations(livestreamId: string, excludeUserId: string): Promise<number> {
+    const admittedKey = this.getAdmittedKey(livestreamId);
+    const [reserved, ownAdmitted] = await Promise.all([
+      this.redisClient.zcount(admittedKey, `(${Date.now()}`, '+inf'),
+      this.isAdmitted(livestreamId, excludeUserId),
+    ]);
+
+    return ownAdmitted ? reserved - 1 : reserved;
+  }
+
+  /**
+   * Clear a user's waiting room entries once they have joined
+   */
+  async completeAdmission(livestreamId: string, userId: string): Promise<void> {
+    const [removedFromQueue, removedFromAdmitted] = await Promise.all([
+      this.redisClient.zrem(this.getQueueKey(livestreamId), userId),
+      this.redisClient.zrem(this.getAdmittedKey(livestreamId), userId),
+    ]);
+
+    if (removedFromQueue + removedFromAdmitted > 0) {
+      await this.broadcastUpdate(livestreamId);
+    }
+  }
+
+  /**
+   * Admit waiting users into free slots
+   * Called when a participant leaves. Best effort: logs instead of throwing, so the
+   * caller's operation (leave, kick, webhook) is not failed by the waiting room
+   */
+  async admitNext(livestream: Livestream): Promise<void> {
+    const lockKey = `${this.getQueueKey(livestream.id)}:lock`;
+    const lockToken = randomUUID();
+
+    try {
+      // Serialize admissions so concurrent leaves cannot admit more users than there are slots
+      const locked = await this.redisClient.set(lockKey, lockToken, 'PX', this.ADMISSION_LOCK_MS, 'NX');
+      if (!locked) {
+        return;
+      }
+
+      try {
+        const now = Date.now();
+        const admittedKey = this.getAdmittedKey(livestream.id);
+
+        // Drop reservations that were not used in time
+        const expired = await this.redisClient.zremrangebyscore(admittedKey, '-inf', now);
+
+        const [activeCount, reserved] = await Promise.all([
+          databaseService.countActiveParticipants(livestream.id),
+          this.redisClient.zcard(admittedKey),
+        ]);
+
+        const freeSlots = livestream.maxParticipants - activeCount - reserved;
+        if (freeSlots <= 0) {
+          if (expired > 0) {
+            await this.broadcastUpdate(livestream.id);
+          }
+          return;
+        }
+
+        // ZPOPMIN returns [member, score, member, score, ...]
+        const popped = await this.redisClient.zpopmin(this.getQueueKey(livestream.id), freeSlots);
+        const userIds = popped.filter((_, index) => index % 2 === 0);
+
+        if (userIds.length > 0) {
+          const admissionExpiry = now + this.ADMISSION_WINDOW_MS;
+          await this.redisClient
+            .multi()
+            .zadd(admittedKey, ...userIds.flatMap(userId => [admissionExpiry, userId]))
+            .expire(admittedKey, this.QUEUE_TTL)
+            .exec();
+
+          log.info(`Admitted ${userIds.length} user(s) to ${livestream.id}: ${userIds.join(', ')}`);
+        }
+
+        if (userIds.length > 0 || expired > 0) {
+          await this.broadcastUpdate(livestream.id);
+        }
+      } finally {
+        if ((await this.redisClient.get(lockKey)) === lockToken) {
+          await this.redisClient.del(lockKey);
+        }
+      }
+    } catch (error) {
+      log.error(`Failed to admit waiting users for ${livestream.id}`, { error });
+    }
+  }
+
+  /**
+   * Remove the waiting room of a livestream (when it ends)
+   */
+  async clear(livestreamId: string): Promise<void> {
+    await this.redisClient.del(this.getQueueKey(livestreamId), this.getAdmittedKey(livestreamId));
+  }
+
+  /**
+   * Broadcast the number of waiting and admitted users over SSE
+   */
+  private async broadcastUpdate(livestreamId: string): Promise<void> {
+    const [queueLength, admittedCount] = await Promise.all([
+      this.redisClient.zcard(this.getQueueKey(livestreamId)),
+      this.redisClient.zcount(this.getAdmittedKey(livestreamId), `(${Date.now()}`, '+inf'),
+    ]);
+
+    await stateService.broadcastWaitingRoomUpdate(livestreamId, { queueLength, admittedCount });
+  }
+
+  /**
+   * Get Redis key for the waiting queue
+   */
+  private getQueueKey(livestreamId: string): string {
+    return `stream:queue:${livestreamId}`;
+  }
+
+  /**
+   * Get Redis key for admitted users (reserved slots)
+   */
+  private getAdmittedKey(livestreamId: string): string {
+    return `stream:admitted:${livestreamId}`;
+  }
+
+  /**
+   * Shutdown gracefully
+   */
+  async shutdown(): Promise<void> {
+    await this.redisClient.quit();
+    log.info('Redis connection closed');
+  }
+}
+
+// Singleton instance
+export const waitingRoomService = new WaitingRoomService();
@@ -0,0 +1,162 @@
+/**
+ * Webhook Dead-Letter Service - LiveKit webhooks that failed every processing attempt
+ * The queue service moves them to the dead-letter queue; services inspect, replay or discard them
+ *
+ * Replaying resets the webhook's processing state to PENDING first, so it is processed again
+ * even if it was recorded as DONE
+ */
+
+import { databaseService } from './database.service.js';
+import { queueService, type DeadLetterWebhookJob } from './queue.service.js';
+import type {
+  FailedWebhookResponse,
+  ReplayFailedWebhooksResponse,
+} from '../types/webhook.types.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Webhook Dead Letter' });
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const REPLAY_BATCH_SIZE = 100;
+
+class WebhookDeadLetterService {
+  /**
+   * List dead-lettered webhooks (newest first)
+   *
+   * @param options offset (default 0), limit (default 50, max 200)
+   */
+  async listFailedWebhooks(
+    options: { offset?: number; limit?: number } = {}
+  ): Promise<FailedWebhookResponse[]> {
+    const offset = options.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ValidationError('offset must be a non-negative integer');
+    }
+
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+
+    const jobs = await queueService.getDeadLetterJobs(offset, limit);
+    return jobs.map(job => this.formatFailedWebhookResponse(job));
+  }
+
+  /**
+   * Get a dead-lettered webhook
+   * @param webhookId LiveKit webhook ID
+   */
+  async getFailedWebhook(webhookId: string): Promise<FailedWebhookResponse> {
+    return this.formatFailedWebhookResponse(await this.getDeadLetterJob(webhookId));
+  }
+
+  /**
+   * Re-queue a dead-lettered webhook for processing and remove it from the dead-letter queue
+   * @param webhookId LiveKit webhook ID
+   * @returns ID of the new webhook job
+   */
+  async replayFailedWebhook(webhookId: string): Promise<string> {
+    return this.replay(await this.getDeadLetterJob(webhookId));
+  }
+
+  /**
+   * Re-queue every dead-lettered webhook
+   * Webhooks that cannot be re-queued stay in the dead-letter queue and are counted as failed
+   */
+  async replayAllFailedWebhooks(): Promise<ReplayFailedWebhooksResponse> {
+    let replayed = 0;
+    let failed = 0;
+
+    // Replayed jobs leave the queue, so each batch starts after the ones that failed
+    for (;;) {
+      const jobs = await queueService.getDeadLetterJobs(failed, REPLAY_BATCH_SIZE);
+      if (jobs.length === 0) {
+        break;
+      }
+
+      for (const job of jobs) {
+        try {
+          await this.replay(job);
+          replayed++;
+        } catch (error) {
+          log.error(`Failed to replay webhook ${job.webhookId}`, { error });
+          failed++;
+        }
+      }
+    }
+
+    log.info(`Replayed ${replayed} dead-lettered webhooks (${failed} failed)`);
+    return { replayed, failed };
+  }
+
+  /**
+   * Discard a dead-lettered webhook without processing it
+   * @param webhookId LiveKit webhook ID
+   */
+  async discardFailedWebhook(webhookId: string): Promise<void> {
+    const removed = await queueService.removeDeadLetterJob(webhookId);
+
+    if (!removed) {
+      throw new NotFoundError('Failed webhook not found');
+    }
+
+    log.info(`Discarded dead-lettered webhook ${webhookId}`);
+  }
+
+  /**
+   * Discard every dead-lettered webhook
+   * @returns Number of webhooks discarded
+   */
+  async discardAllFailedWebhooks(): Promise<number> {
+    const discarded = await queueService.clearDeadLetterJobs();
+
+    log.info(`Discarded ${discarded} dead-lettered webhooks`);
+    return discarded;
+  }
+
+  /**
+   * Replay a dead-lettered webhook: reset its processing state, re-queue it, then remove it
+   * from the dead-letter queue (a failed re-queue leaves it there)
+   */
+  private async replay(job: DeadLetterWebhookJob): Promise<string> {
+    await databaseService.resetWebhookEvent(job.webhookId);
+    const jobId = await queueService.replayWebhookJob(job);
+    await queueService.removeDeadLetterJob(job.webhookId);
+
+    log.info(`Replayed dead-lettered webhook ${job.webhookId} (event: ${job.event})`);
+    return jobId;
+  }
+
+  /**
+   * Get a dead-lettered webhook job or throw NotFoundError
+   */
+  private async getDeadLetterJob(webhookId: string): Promise<DeadLetterWebhookJob> {
+    const job = await queueService.getDeadLetterJob(webhookId);
+
+    if (!job) {
+      throw new NotFoundError('Failed webhook not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Format a dead-letter job for API responses (the payload is not included)
+   */
+  private formatFailedWebhookResponse(job: DeadLetterWebhookJob): FailedWebhookResponse {
+    return {
+      webhookId: job.webhookId,
+      event: job.event,
+      roomName: job.payload?.room?.name ?? null,
+      receivedAt: job.receivedAt,
+      deadLetteredAt: job.deadLetteredAt,
+      attempts: job.attemptsMade,
+      error: job.failedReason,
+    };
+  }
+}
+
+// Singleton instance
+export const webhookDeadLetterService = new WebhookDeadLetterService();
@@ -0,0 +1,235 @@
+import { Redis } from 'ioredis';
+import { randomUUID } from 'node:crypto';
+import type { WebhookEvent } from '../types/livestream.types.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Webhook Ordering' });
+
+// Events that make an event of the same second stale (LiveKit createdAt has a resolution of
+// seconds): a join is older than a leave of the same participant, and participant events are
+// older than the room_finished that closed the session
+const SAME_SECOND_STALE: Record<string, string[]> = {
+  participant_left: ['participant_joined'],
+  room_finished: ['participant_joined', 'participant_left'],
+};
+
+// Delete / extend a lock only if it is still held with the given token (atomic compare-and-set)
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Webhook Ordering Service - Applies LiveKit webhooks of a room in createdAt order
+ *
+ * Architecture:
+ * - Webhooks of one room are processed one at a time (per-room lock in Redis); webhooks of
+ *   different rooms still run in parallel
+ * - The room lock is extended while a webhook is applied, so a slow handler keeps it
+ * - The createdAt and type of the last applied event are kept per room, participant, egress and
+ *   ingress (Redis hash per room); an event older than one already applied for the same target
+ *   is stale and dropped - e.g. a participant_joined arriving after the participant's
+ *   participant_left, or a join that happened before room_finished
+ * - LiveKit's createdAt has a resolution of seconds: events of the same second are ordered by
+ *   type (see SAME_SECOND_STALE), and are otherwise not stale
+ */
+class WebhookOrderingService {
+  private redisClient: Redis;
+
+  // Configuration
+  private readonly ORDER_TTL = 24 * 60 * 60; // 24 hours in seconds (same as webhook deduplication)
+  private readonly ROOM_LOCK_MS = 30 * 1000; // 30 seconds - extended while the webhook is applied
+  private readonly ROOM_LOCK_EXTEND_INTERVAL_MS = 10 * 1000; // 10 seconds
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+    this.redisClient = new Redis(redisUrl, {
+      maxRetriesPerRequest: null,
+      enableReadyCheck: false,
+    });
+  }
+
+  /**
+   * Room a webhook belongs to (null for events without a room)
+   */
+  getRoomName(event: WebhookEvent): string | null {
+    return event.room?.name || event.egressInfo?.roomName || event.ingressInfo?.roomName || null;
+  }
+
+  /**
+   * Ordering fields of a webhook
+   * - check: fields whose last applied createdAt makes the event stale when newer
+   * - record: fields set to the event's createdAt once it is applied
+   *
+   * Participant events are also checked against room events: a participant event from before
+   * room_started / room_finished belongs to an earlier room session
+   */
+  getOrderingFields(event: WebhookEvent): { check: string[]; record: string[] } {
+    switch (event.event) {
+      case 'room_started':
+      case 'room_finished':
+        return { check: ['room'], record: ['room'] };
+
+      case 'participant_joined':
+      case 'participant_left': {
+        if (!event.participant?.identity) {
+          return { check: ['room'], record: [] };
+        }
+        const field = `participant:${event.participant.identity}`;
+        return { check: ['room', field], record: [field] };
+      }
+
+      case 'egress_started':
+      case 'egress_updated':
+      case 'egress_ended': {
+        if (!event.egressInfo?.egressId) {
+          return { check: [], record: [] };
+        }
+        const field = `egress:${event.egressInfo.egressId}`;
+        return { check: [field], record: [field] };
+      }
+
+      case 'ingress_started':
+      case 'ingress_ended': {
+        if (!event.ingressInfo?.ingressId) {
+          return { check: [], record: [] };
+        }
+        const field = `ingress:${event.ingressInfo.ingressId}`;
+        return { check: [field], record: [field] };
+      }
+
+      default:
+        return { check: [], record: [] };
+    }
+  }
+
+  /**
+   * Lock a room for processing one webhook
+   * @returns Lock token (pass to releaseRoomLock), or null if another worker holds the lock
+   */
+  async acquireRoomLock(roomName: string): Promise<string | null> {
+    const lockToken = randomUUID();
+    const locked = await this.redisClient.set(
+      this.getLockKey(roomName),
+      lockToken,
+      'PX',
+      this.ROOM_LOCK_MS,
+      'NX'
+    );
+    return locked ? lockToken : null;
+  }
+
+  /**
+   * Keep extending a room lock until the returned function is called
+   * Call after acquireRoomLock, stop before releaseRoomLock
+   * @returns Function that stops extending the lock
+   */
+  keepRoomLock(roomName: string, lockToken: string): () => void {
+    const timer = setInterval(() => {
+      this.redisClient
+        .eval(EXTEND_LOCK_SCRIPT, 1, this.getLockKey(roomName), lockToken, this.ROOM_LOCK_MS)
+        .then(extended => {
+          if (extended === 0) {
+            log.warn(`Lock of room ${roomName} was lost while applying a webhook`);
+          }
+        })
+        .catch(error => {
+          log.error(`Failed to extend lock of room ${roomName}`, { error });
+        });
+    }, this.ROOM_LOCK_EXTEND_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Release a room lock (only if it is still held with this token)
+   */
+  async releaseRoomLock(roomName: string, lockToken: string): Promise<void> {
+    await this.redisClient.eval(RELEASE_LOCK_SCRIPT, 1, this.getLockKey(roomName), lockToken);
+  }
+
+  /**
+   * Check whether a newer event was already applied for the same room, participant, egress
+   * or ingress. Call while holding the room lock
+   */
+  async isStale(roomName: string, event: WebhookEvent): Promise<boolean> {
+    const createdAt = this.getCreatedAt(event);
+    const { check } = this.getOrderingFields(event);
+    if (createdAt === null || check.length === 0) {
+      return false;
+    }
+
+    const applied = await this.redisClient.hmget(this.getOrderKey(roomName), ...check);
+    return applied.some(value => value !== null && this.isOlderThanApplied(event, createdAt, value));
+  }
+
+  /**
+   * Record that an event was applied. Call while holding the room lock, after isStale
+   */
+  async recordApplied(roomName: string, event: WebhookEvent): Promise<void> {
+    const createdAt = this.getCreatedAt(event);
+    const { record } = this.getOrderingFields(event);
+    if (createdAt === null || record.length === 0) {
+      return;
+    }
+
+    const orderKey = this.getOrderKey(roomName);
+    const value = `${createdAt}:${event.event}`;
+    await this.redisClient
+      .multi()
+      .hset(orderKey, Object.fromEntries(record.map(field => [field, value])))
+      .expire(orderKey, this.ORDER_TTL)
+      .exec();
+  }
+
+  /**
+   * Check whether an event happened before an applied one ("<createdAt>:<event type>")
+   */
+  private isOlderThanApplied(event: WebhookEvent, createdAt: number, applied: string): boolean {
+    const [appliedAt, appliedEvent] = applied.split(':');
+    if (Number(appliedAt) !== createdAt) {
+      return Number(appliedAt) > createdAt;
+    }
+    return appliedEvent !== undefined && !!SAME_SECOND_STALE[appliedEvent]?.includes(event.event);
+  }
+
+  /**
+   * LiveKit createdAt in Unix seconds (a string in the webhook JSON), null if missing
+   */
+  private getCreatedAt(event: WebhookEvent): number | null {
+    const createdAt = Number(event.createdAt);
+    return Number.isFinite(createdAt) && createdAt > 0 ? createdAt : null;
+  }
+
+  /**
+   * Get Redis key for a room's processing lock
+   */
+  private getLockKey(roomName: string): string {
+    return `webhook:room:${roomName}:lock`;
+  }
+
+  /**
+   * Get Redis key for the createdAt of the last applied events of a room
+   */
+  private getOrderKey(roomName: string): string {
+    return `webhook:room:${roomName}:applied`;
+  }
+
+  /**
+   * Shutdown gracefully
+   */
+  async shutdown(): Promise<void> {
+    await this.redisClient.quit();
+    log.info('Redis connection closed');
+  }
+}
+
+// Singleton instance
+export const webhookOrderingService = new WebhookOrderingService();
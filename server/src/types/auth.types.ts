@@ -0,0 +1,29 @@
+/**
+ * Type definitions for API authentication
+ */
+
+/**
+ * How the caller was authenticated
+ * - jwt: End-user bearer token signed by our identity provider
+ * - api_key: Trusted backend service (service-to-service call)
+ */
+export type AuthMethod = 'jwt' | 'api_key';
+
+/**
+ * Authenticated caller attached to the request by the auth middleware
+ */
+export interface AuthenticatedUser {
+  id: string; // User ID (JWT `sub` claim, or the user a service acts on behalf of)
+  displayName?: string; // JWT `name` claim, when present
+  method: AuthMethod;
+  serviceName?: string; // Set for api_key callers
+}
+
+// Augment Express so route handlers get a typed `req.user`
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
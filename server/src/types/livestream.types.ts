@@ -3,33 +3,81 @@
  */
 
 import type {
+  ChatMessage,
+  IngressType,
+  Invite,
   Livestream,
+  LivestreamBan,
+  LivestreamStats,
   LivestreamStatus,
+  LivestreamStatusTransition,
+  LivestreamVisibility,
   Participant,
   ParticipantRole,
-  ParticipantStatus
+  ParticipantStatus,
+  Poll,
+  PollStatus,
+  PollVote,
+  Recording,
+  RecordingStatus,
+  RoleInvite,
+  StreamDestination,
+  StreamDestinationStatus,
+  TransitionSource
 } from '@prisma/client';
 
 // Re-export Prisma types
 export type {
+  ChatMessage,
+  IngressType,
+  Invite,
   Livestream,
+  LivestreamBan,
+  LivestreamStats,
   LivestreamStatus,
+  LivestreamStatusTransition,
+  LivestreamVisibility,
   Participant,
   ParticipantRole,
-  ParticipantStatus
+  ParticipantStatus,
+  Poll,
+  PollStatus,
+  PollVote,
+  Recording,
+  RecordingStatus,
+  RoleInvite,
+  StreamDestination,
+  StreamDestinationStatus,
+  TransitionSource
 };
 
+/**
+ * Roles the creator can grant through a role invite
+ */
+export type InvitableRole = Extract<ParticipantRole, 'CO_HOST' | 'MODERATOR'>;
+
 /**
  * Request body for creating a new livestream
+ * The creator is the authenticated caller (req.user), not a body field
  */
 export interface CreateLivestreamRequest {
   roomName: string;
   title: string;
   description?: string;
-  createdBy: string;
   maxParticipants?: number;
   emptyTimeout?: number;
   metadata?: Record<string, unknown>;
+  scheduledStartAt?: string; // ISO 8601 - omit to go live immediately
+  visibility?: LivestreamVisibility; // Default: PUBLIC
+  passcode?: string; // PRIVATE only
+  allowedUserIds?: string[]; // PRIVATE only - users who may join without the passcode
+}
+
+/**
+ * Request body for rescheduling a SCHEDULED livestream
+ */
+export interface RescheduleLivestreamRequest {
+  scheduledStartAt: string; // ISO 8601, must be in the future
 }
 
 /**
@@ -41,16 +89,42 @@ export interface LivestreamResponse {
   title: string;
   description: string | null;
   status: LivestreamStatus;
+  visibility: LivestreamVisibility;
+  hasPasscode: boolean;
   createdBy: string;
   maxParticipants: number;
   emptyTimeout: number;
   metadata: Record<string, unknown> | null;
   createdAt: Date;
   updatedAt: Date;
+  scheduledStartAt: Date | null;
   startedAt: Date | null;
   endedAt: Date | null;
 }
 
+/**
+ * Who/what is causing a livestream status transition (recorded in the history)
+ */
+export interface TransitionContext {
+  source: TransitionSource;
+  actorId?: string; // User ID for API-initiated transitions
+  reason?: string;
+}
+
+/**
+ * Response format for livestream status history entries
+ */
+export interface StatusTransitionResponse {
+  id: string;
+  livestreamId: string;
+  fromStatus: LivestreamStatus | null;
+  toStatus: LivestreamStatus;
+  source: TransitionSource;
+  actorId: string | null;
+  reason: string | null;
+  createdAt: Date;
+}
+
 /**
  * LiveKit room creation options
  */
@@ -71,11 +145,13 @@ export interface ErrorResponse {
 
 /**
  * Request body for joining a livestream
+ * The joining user is the authenticated caller (req.user), not a body field
  */
 export interface JoinLivestreamRequest {
-  userId: string;
   displayName: string;
-  role: ParticipantRole;
+  role?: ParticipantRole; // Required unless joining with an inviteCode (defaults to the invite's role)
+  inviteCode?: string;
+  passcode?: string; // Required for PRIVATE livestreams unless allowlisted or invited
   metadata?: Record<string, unknown>;
 }
 
@@ -85,14 +161,38 @@ export interface JoinLivestreamRequest {
 export interface JoinLivestreamResponse {
   token: string;
   url: string;
+  expiresAt: Date; // Token expiration - refresh before this via POST /:id/token/refresh
   participant: ParticipantResponse;
 }
 
 /**
- * Request body for leaving a livestream
+ * Response format for join livestream endpoint when the livestream is full
+ * The user is placed in the waiting room and admitted when a slot frees up
+ * (watch for waiting_room_update SSE events, then call join again)
  */
-export interface LeaveLivestreamRequest {
-  userId: string;
+export interface WaitingRoomResponse {
+  queued: true;
+  position: number; // 1-based position in the waiting room
+  queueLength: number;
+}
+
+/**
+ * Response format for waiting room status endpoint
+ */
+export interface WaitingRoomStatusResponse {
+  position: number | null; // Null if not waiting (or already admitted)
+  queueLength: number;
+  admitted: boolean; // True if a slot is reserved - join before admissionExpiresAt
+  admissionExpiresAt: Date | null;
+}
+
+/**
+ * Response format for token refresh endpoint
+ */
+export interface RefreshTokenResponse {
+  token: string;
+  url: string;
+  expiresAt: Date;
 }
 
 /**
@@ -112,6 +212,376 @@ export interface ParticipantResponse {
   leftAt: Date | null;
 }
 
+/**
+ * Request body for creating an invite (join code)
+ */
+export interface CreateInviteRequest {
+  role?: Exclude<ParticipantRole, 'HOST'>; // Default: VIEWER
+  expiresAt?: string; // ISO 8601, must be in the future - omit for no expiry
+  maxUses?: number; // Omit for unlimited
+  singleUse?: boolean; // Shorthand for maxUses: 1
+}
+
+/**
+ * Response format for invite endpoints
+ */
+export interface InviteResponse {
+  id: string;
+  livestreamId: string;
+  code?: string; // Only returned when the invite is created
+  role: ParticipantRole;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: Date | null;
+  createdBy: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
+/**
+ * Request body for inviting a user as CO_HOST or MODERATOR
+ */
+export interface RoleInviteRequest {
+  userId: string;
+  role: InvitableRole;
+}
+
+/**
+ * Response format for role invite endpoints
+ */
+export interface RoleInviteResponse {
+  id: string;
+  livestreamId: string;
+  userId: string;
+  role: ParticipantRole;
+  invitedBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Request body for muting a participant
+ * Without trackSid, all of the participant's published audio tracks are muted
+ */
+export interface MuteParticipantRequest {
+  trackSid?: string;
+  muted?: boolean; // Default: true (false unmutes)
+}
+
+/**
+ * Request body for updating a participant's permissions in the LiveKit room
+ * Omitted fields keep their current value
+ */
+export interface UpdateParticipantPermissionsRequest {
+  canPublish?: boolean;
+  canPublishData?: boolean;
+  canSubscribe?: boolean;
+}
+
+/**
+ * Response format for the mute participant endpoint
+ */
+export interface MuteParticipantResponse {
+  userId: string;
+  muted: boolean;
+  trackSids: string[]; // Tracks whose mute state was changed
+}
+
+/**
+ * Response format for the update participant permissions endpoint
+ */
+export interface ParticipantPermissionsResponse {
+  userId: string;
+  canPublish: boolean;
+  canPublishData: boolean;
+  canSubscribe: boolean;
+}
+
+/**
+ * Request body for banning a user from a livestream
+ */
+export interface BanParticipantRequest {
+  userId: string;
+  reason?: string;
+}
+
+/**
+ * Response format for livestream ban endpoints
+ */
+export interface BanResponse {
+  id: string;
+  livestreamId: string;
+  userId: string;
+  bannedBy: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Response format for recording endpoints
+ */
+export interface RecordingResponse {
+  id: string;
+  livestreamId: string;
+  egressId: string;
+  status: RecordingStatus;
+  startedBy: string;
+  filename: string | null;
+  location: string | null;
+  duration: number | null; // Seconds
+  size: number | null; // Bytes
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  endedAt: Date | null;
+}
+
+/**
+ * Egress info in LiveKit webhook payloads (egress_started, egress_updated, egress_ended)
+ * Protobuf JSON encoding: enums as names, int64 values (nanoseconds, bytes) as strings
+ */
+export interface WebhookEgressInfo {
+  egressId: string;
+  roomName?: string;
+  status?: string | number; // EGRESS_STARTING, EGRESS_ACTIVE, ...
+  startedAt?: string | number;
+  endedAt?: string | number;
+  error?: string;
+  fileResults?: Array<{
+    filename?: string;
+    location?: string;
+    duration?: string | number;
+    size?: string | number;
+  }>;
+}
+
+/**
+ * Request body for sending a chat message
+ */
+export interface SendChatMessageRequest {
+  content: string;
+}
+
+/**
+ * Response format for chat messages (also the chat_message SSE event)
+ */
+export interface ChatMessageResponse {
+  id: string;
+  livestreamId: string;
+  userId: string;
+  displayName: string;
+  role: ParticipantRole;
+  content: string;
+  createdAt: Date;
+}
+
+/**
+ * Page of chat history (oldest first)
+ * nextCursor is passed as "before" to load older messages (null when there are none)
+ */
+export interface ChatHistoryResponse {
+  messages: ChatMessageResponse[];
+  nextCursor: string | null;
+}
+
+/**
+ * chat_message_deleted SSE event
+ */
+export interface ChatMessageDeletedEvent {
+  id: string;
+  livestreamId: string;
+  deletedBy: string;
+}
+
+/**
+ * Point of the retention curve - viewers watching at an offset into the livestream
+ */
+export interface RetentionPoint {
+  offsetSeconds: number; // From startedAt
+  viewers: number; // Concurrent viewers at this offset
+  percent: number; // Of unique viewers (0-100)
+}
+
+/**
+ * Response format for livestream analytics
+ * final is true for ENDED livestreams (persisted stats); LIVE livestreams are computed up to now
+ */
+export interface LivestreamAnalyticsResponse {
+  livestreamId: string;
+  final: boolean;
+  uniqueViewers: number;
+  totalWatchTimeSeconds: number;
+  averageWatchTimeSeconds: number;
+  peakConcurrentViewers: number;
+  timeToPeakSeconds: number | null;
+  durationSeconds: number;
+  retention: RetentionPoint[];
+  computedAt: Date;
+}
+
+/**
+ * Point of a downsampled viewer count series (one time bucket)
+ */
+export interface ViewerCountPoint {
+  timestamp: Date; // Bucket start
+  average: number; // Average of the samples in the bucket (1 decimal)
+  max: number;
+}
+
+/**
+ * Response format for the viewer count series endpoint
+ * Buckets without samples are left out
+ */
+export interface ViewerCountSeriesResponse {
+  livestreamId: string;
+  from: Date;
+  to: Date;
+  bucketSeconds: number;
+  points: ViewerCountPoint[];
+}
+
+/**
+ * Livestream in the creator summary's top streams
+ */
+export interface CreatorTopStream {
+  id: string;
+  title: string;
+  status: LivestreamStatus;
+  startedAt: Date;
+  peakViewers: number;
+  uniqueViewers: number;
+}
+
+/**
+ * Creator activity in one week (weeks start on Monday, UTC)
+ */
+export interface CreatorWeeklyTrend {
+  weekStart: Date;
+  streams: number; // Livestreams started that week
+  hoursLive: number;
+  uniqueViewers: number;
+}
+
+/**
+ * Response format for the creator summary (aggregated over all the creator's livestreams)
+ */
+export interface CreatorSummaryResponse {
+  userId: string;
+  totalStreams: number;
+  liveStreams: number;
+  totalHoursLive: number;
+  totalUniqueViewers: number;
+  topStreams: CreatorTopStream[];
+  weeklyTrends: CreatorWeeklyTrend[]; // Oldest first, including weeks without livestreams
+}
+
+/**
+ * Request body for sending a reaction
+ */
+export interface SendReactionRequest {
+  emoji: string;
+}
+
+/**
+ * reaction_burst SSE event - reactions received in the last aggregation window
+ */
+export interface ReactionBurstEvent {
+  livestreamId: string;
+  counts: Record<string, number>; // Emoji -> count
+  total: number;
+}
+
+/**
+ * Request body for creating a poll
+ */
+export interface CreatePollRequest {
+  question: string;
+  options: string[];
+}
+
+/**
+ * Request body for voting in a poll
+ */
+export interface VotePollRequest {
+  optionIndex: number;
+}
+
+/**
+ * Poll option with its current vote count
+ */
+export interface PollOptionResult {
+  text: string;
+  votes: number;
+}
+
+/**
+ * Response format for polls (also the poll_update SSE event)
+ */
+export interface PollResponse {
+  id: string;
+  livestreamId: string;
+  question: string;
+  options: PollOptionResult[];
+  totalVotes: number;
+  status: PollStatus;
+  createdAt: Date;
+  closedAt: Date | null;
+  myVote?: number | null; // Option index the requesting user voted for (not in SSE events)
+}
+
+/**
+ * Request body for adding a simulcast destination
+ */
+export interface CreateStreamDestinationRequest {
+  name: string;
+  rtmpUrl: string; // rtmp:// or rtmps:// server URL
+  streamKey: string; // Encrypted at rest, never returned
+}
+
+/**
+ * Response format for simulcast destination endpoints (the stream key is never returned)
+ */
+export interface StreamDestinationResponse {
+  id: string;
+  livestreamId: string;
+  name: string;
+  rtmpUrl: string;
+  status: StreamDestinationStatus;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Request body for creating an ingress
+ */
+export interface CreateIngressRequest {
+  inputType?: IngressType; // Default: RTMP
+}
+
+/**
+ * Response format for ingress endpoints (creator only - contains the stream key)
+ */
+export interface IngressResponse {
+  livestreamId: string;
+  ingressId: string;
+  inputType: IngressType;
+  url: string;
+  streamKey: string;
+  publishing: boolean;
+}
+
+/**
+ * Ingress info in LiveKit webhook payloads (ingress_started, ingress_ended)
+ */
+export interface WebhookIngressInfo {
+  ingressId: string;
+  roomName?: string;
+  state?: {
+    status?: string | number; // ENDPOINT_INACTIVE, ENDPOINT_PUBLISHING, ...
+    error?: string;
+  };
+}
+
 /**
  * LiveKit webhook event types
  */
@@ -127,21 +597,35 @@ export interface WebhookEvent {
     identity: string;
     name: string;
   };
-  createdAt: number;
+  egressInfo?: WebhookEgressInfo;
+  ingressInfo?: WebhookIngressInfo;
+  createdAt: number | string; // Unix seconds (int64 - a string in the webhook JSON)
 }
 
 /**
- * Webhook deduplication check result
+ * Result of claiming a webhook event for processing
+ * - claimed: the caller holds the lease and must complete or fail the event
+ * - done: already processed (duplicate delivery)
+ * - in_progress: another worker holds a lease, until leaseExpiresAt
  */
-export interface WebhookDeduplicationResult {
-  isDuplicate: boolean;
-  previouslyProcessedAt?: Date;
-}
+export type WebhookClaimResult =
+  | { status: 'claimed' }
+  | { status: 'done' }
+  | { status: 'in_progress'; leaseExpiresAt: Date };
 
 /**
  * Stream state event types (SSE broadcasts)
  */
-export type StateEventType = 'room_started' | 'room_ended' | 'viewer_count_update';
+export type StateEventType =
+  | 'room_started'
+  | 'room_ended'
+  | 'viewer_count_update'
+  | 'waiting_room_update'
+  | 'destination_update'
+  | 'chat_message'
+  | 'chat_message_deleted'
+  | 'reaction_burst'
+  | 'poll_update';
 
 /**
  * Host information in stream state
@@ -151,6 +635,16 @@ export interface HostInfo {
   displayName: string;
 }
 
+/**
+ * Simulcast destination status in stream state
+ */
+export interface DestinationState {
+  id: string;
+  name: string;
+  status: StreamDestinationStatus;
+  error: string | null;
+}
+
 /**
  * Real-time stream state (stored in Redis)
  */
@@ -163,6 +657,15 @@ export interface StreamState {
   totalViewers: number; // All-time total
   peakViewerCount: number; // Highest concurrent
   hostInfo: HostInfo;
+  destinations?: DestinationState[]; // Simulcast destinations (set once the livestream has any)
+}
+
+/**
+ * Waiting room snapshot (waiting_room_update SSE event)
+ */
+export interface WaitingRoomUpdate {
+  queueLength: number; // Users waiting
+  admittedCount: number; // Users with a reserved slot (not joined yet)
 }
 
 /**
@@ -170,6 +673,12 @@ export interface StreamState {
  */
 export interface StreamStateEvent {
   type: StateEventType;
-  data: StreamState;
+  data:
+    | StreamState
+    | WaitingRoomUpdate
+    | ChatMessageResponse
+    | ChatMessageDeletedEvent
+    | ReactionBurstEvent
+    | PollResponse;
   timestamp: string;
 }
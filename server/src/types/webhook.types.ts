@@ -0,0 +1,161 @@
+/**
+ * Type definitions for outbound webhooks (orchestrator events sent to other services)
+ * and for LiveKit webhooks that failed processing (dead-letter queue)
+ */
+
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+} from '@prisma/client';
+import type {
+  LivestreamStatus,
+  LivestreamVisibility,
+  ParticipantRole,
+  TransitionSource,
+} from './livestream.types.js';
+
+// Re-export Prisma types
+export type { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription };
+
+/**
+ * Events that can be subscribed to
+ */
+export type OutboundWebhookEventType =
+  | 'livestream.created'
+  | 'livestream.live'
+  | 'livestream.ended'
+  | 'participant.joined'
+  | 'participant.left';
+
+/**
+ * Request body for registering a webhook subscription
+ */
+export interface CreateWebhookSubscriptionRequest {
+  url: string; // http:// or https:// endpoint
+  events: OutboundWebhookEventType[];
+  description?: string;
+}
+
+/**
+ * Request body for updating a webhook subscription (all fields optional)
+ */
+export interface UpdateWebhookSubscriptionRequest {
+  url?: string;
+  events?: OutboundWebhookEventType[];
+  description?: string | null;
+  active?: boolean;
+}
+
+/**
+ * Response format for webhook subscription endpoints
+ */
+export interface WebhookSubscriptionResponse {
+  id: string;
+  url: string;
+  events: string[];
+  description: string | null;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  secret?: string; // Signing secret - only returned when the subscription is created
+}
+
+/**
+ * Response format for the delivery log
+ */
+export interface WebhookDeliveryResponse {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt: Date | null;
+}
+
+/**
+ * Livestream in livestream.* event payloads
+ */
+export interface LivestreamEventData {
+  id: string;
+  roomName: string;
+  title: string;
+  status: LivestreamStatus;
+  visibility: LivestreamVisibility;
+  createdBy: string;
+  scheduledStartAt: Date | null;
+  startedAt: Date | null;
+  endedAt: Date | null;
+}
+
+/**
+ * Data of livestream status change events (livestream.live, livestream.ended)
+ */
+export interface LivestreamStatusEventData {
+  livestream: LivestreamEventData;
+  source: TransitionSource; // What caused the change (API, SCHEDULER, WEBHOOK, RECONCILIATION)
+  reason?: string;
+}
+
+/**
+ * Participant in participant.* event payloads
+ */
+export interface ParticipantEventData {
+  id: string;
+  livestreamId: string;
+  userId: string;
+  displayName: string;
+  role: ParticipantRole;
+  joinedAt: Date;
+  leftAt: Date | null;
+}
+
+/**
+ * Data of each event type
+ */
+export interface OutboundWebhookEventData {
+  'livestream.created': { livestream: LivestreamEventData };
+  'livestream.live': LivestreamStatusEventData;
+  'livestream.ended': LivestreamStatusEventData;
+  'participant.joined': { participant: ParticipantEventData };
+  'participant.left': { participant: ParticipantEventData };
+}
+
+/**
+ * Body POSTed to subscribed endpoints
+ */
+export interface OutboundWebhookPayload<
+  T extends OutboundWebhookEventType = OutboundWebhookEventType,
+> {
+  id: string; // Event ID (the same for every subscription receiving the event)
+  type: T;
+  createdAt: string;
+  data: OutboundWebhookEventData[T];
+}
+
+/**
+ * Response format for a LiveKit webhook in the dead-letter queue
+ */
+export interface FailedWebhookResponse {
+  webhookId: string; // LiveKit webhook ID
+  event: string;
+  roomName: string | null;
+  receivedAt: string;
+  deadLetteredAt: string;
+  attempts: number;
+  error: string; // Error of the last attempt
+}
+
+/**
+ * Result of replaying every dead-lettered webhook
+ */
+export interface ReplayFailedWebhooksResponse {
+  replayed: number;
+  failed: number; // Webhooks that could not be re-queued (still in the dead-letter queue)
+}
@@ -33,6 +33,18 @@ export class ConflictError extends AppError {
   }
 }
 
+export class InvalidTransitionError extends AppError {
+  constructor(message: string = 'Invalid livestream status transition') {
+    super(message, 409);
+  }
+}
+
+export class CapacityError extends AppError {
+  constructor(message: string = 'Livestream is full') {
+    super(message, 409);
+  }
+}
+
 export class LiveKitError extends AppError {
   constructor(message: string = 'LiveKit operation failed') {
     super(message, 502);
@@ -50,3 +62,9 @@ export class AuthorizationError extends AppError {
     super(message, 403);
   }
 }
+
+export class AuthenticationError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401);
+  }
+}
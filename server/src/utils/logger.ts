@@ -0,0 +1,100 @@
+/**
+ * Structured Logger
+ * Writes one JSON object per line: { time, level, component, msg, requestId, traceId, ...fields }
+ *
+ * - LOG_LEVEL: debug, info, warn or error (default: info)
+ * - requestId is added automatically inside a request or job (see request-context.ts)
+ * - traceId / spanId are added inside an OpenTelemetry span (when tracing is enabled)
+ * - Errors in fields are serialized with their name, message and stack
+ */
+
+import { trace } from '@opentelemetry/api';
+import { getRequestId } from './request-context.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const configuredLevel = process.env.LOG_LEVEL as LogLevel | undefined;
+const MIN_LEVEL = LOG_LEVELS[configuredLevel ?? 'info'] ?? LOG_LEVELS.info;
+
+/**
+ * JSON.stringify replacer - Error properties are not enumerable
+ */
+function serializeValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+
+  return value;
+}
+
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  /**
+   * Create a logger that adds the given fields to every entry
+   * @param bindings Fields to add (e.g. { component: 'State Service' })
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Write an entry (fields override the bindings and the context request ID)
+   */
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LOG_LEVELS[level] < MIN_LEVEL) {
+      return;
+    }
+
+    const spanContext = trace.getActiveSpan()?.spanContext();
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      ...this.bindings,
+      msg: message,
+      requestId: getRequestId(),
+      traceId: spanContext?.traceId,
+      spanId: spanContext?.spanId,
+      ...fields,
+    };
+
+    const line = JSON.stringify(entry, serializeValue);
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+// Root logger - services use logger.child({ component: '...' })
+export const logger = new Logger();
@@ -0,0 +1,32 @@
+/**
+ * Request Context
+ * Carries the request ID through async calls (AsyncLocalStorage), so every log
+ * written while handling a request or a queued job can be correlated
+ *
+ * - API requests: set by the request ID middleware (X-Request-Id header or generated)
+ * - Queue jobs: the ID is stored in the job data and restored by the worker
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with a request ID available to everything it calls
+ * @param requestId Request ID
+ * @param fn Function to run
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return storage.run({ requestId }, fn);
+}
+
+/**
+ * Get the request ID of the current request or job, if any
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
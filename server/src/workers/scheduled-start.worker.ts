@@ -0,0 +1,62 @@
+/**
+ * Scheduled Start Worker
+ * Starts SCHEDULED livestreams when their delayed job fires (at scheduledStartAt)
+ *
+ * Features:
+ * - Delayed jobs: One BullMQ job per livestream, replaced on reschedule, removed on cancel
+ * - Stale job protection: Skips livestreams that are no longer SCHEDULED or were moved later
+ * - Automatic retries: Failed starts retry with exponential backoff, ERROR after the last attempt
+ */
+
+import { queueService, type ScheduledStartJob } from '../services/queue.service.js';
+import { livestreamService } from '../services/livestream.service.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Scheduled Start Worker' });
+
+/**
+ * Process a single scheduled start job
+ * @param job - Scheduled start job data from queue
+ * @param isFinalAttempt - Whether BullMQ will not retry this job again
+ */
+async function processScheduledStart(
+  job: ScheduledStartJob,
+  isFinalAttempt: boolean
+): Promise<void> {
+  const { livestreamId, scheduledStartAt } = job;
+
+  log.info(`Starting scheduled livestream ${livestreamId} (scheduled for ${scheduledStartAt})`);
+
+  try {
+    await livestreamService.startScheduledLivestream(livestreamId, isFinalAttempt);
+  } catch (error) {
+    log.error(`Error starting scheduled livestream ${livestreamId}`, { error });
+
+    // Throw error to trigger BullMQ retry mechanism
+    throw error;
+  }
+}
+
+/**
+ * Start the scheduled start worker
+ * Call this function when server starts
+ */
+export function startScheduledStartWorker(): void {
+  log.info('Starting scheduled start worker...');
+
+  queueService.startScheduleWorker(processScheduledStart);
+
+  log.info('Scheduled start worker started successfully');
+}
+
+/**
+ * Stop the scheduled start worker gracefully
+ * Call this function when server shuts down
+ */
+export async function stopScheduledStartWorker(): Promise<void> {
+  log.info('Stopping scheduled start worker...');
+
+  await queueService.stopScheduleWorker();
+
+  log.info('Scheduled start worker stopped');
+}
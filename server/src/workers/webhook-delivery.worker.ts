@@ -0,0 +1,49 @@
+/**
+ * Webhook Delivery Worker
+ * Sends outbound webhooks (orchestrator events) to subscribed endpoints
+ *
+ * Features:
+ * - Signed requests: HMAC-SHA256 of the body with the subscription's secret
+ * - Automatic retries: Failed deliveries retry with exponential backoff
+ * - Dead-lettering: Deliveries that fail every attempt stay in the delivery log as DEAD_LETTERED
+ */
+
+import { queueService, type WebhookDeliveryJob } from '../services/queue.service.js';
+import { outboundWebhookService } from '../services/outbound-webhook.service.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Webhook Delivery Worker' });
+
+/**
+ * Process a single delivery job
+ * @param job - Delivery job data from queue
+ * @param isFinalAttempt - Whether BullMQ will not retry this job again
+ */
+async function processDelivery(job: WebhookDeliveryJob, isFinalAttempt: boolean): Promise<void> {
+  // Errors are recorded in the delivery log - rethrown to trigger BullMQ retry mechanism
+  await outboundWebhookService.deliver(job.deliveryId, isFinalAttempt);
+}
+
+/**
+ * Start the webhook delivery worker
+ * Call this function when server starts
+ */
+export function startWebhookDeliveryWorker(): void {
+  log.info('Starting webhook delivery worker...');
+
+  queueService.startDeliveryWorker(processDelivery);
+
+  log.info('Webhook delivery worker started successfully');
+}
+
+/**
+ * Stop the webhook delivery worker gracefully
+ * Call this function when server shuts down
+ */
+export async function stopWebhookDeliveryWorker(): Promise<void> {
+  log.info('Stopping webhook delivery worker...');
+
+  await queueService.stopDeliveryWorker();
+
+  log.info('Webhook delivery worker stopped');
+}
@@ -4,51 +4,136 @@
  *
  * Features:
  * - Deduplication: Prevents processing same webhook multiple times
+ * - Processing state: A worker claims a webhook with a lease; failed webhooks are reprocessed on retry
  * - Transaction safety: Uses database transactions for consistency
  * - Automatic retries: Failed jobs retry with exponential backoff
  * - Concurrency control: Processes multiple webhooks in parallel (configurable)
+ * - Per-room ordering: Webhooks of one room are processed one at a time; stale events are dropped
  */
 
-import { queueService, type WebhookJob } from '../services/queue.service.js';
+import { randomUUID } from 'node:crypto';
+import { DeferJobError, queueService, type WebhookJob } from '../services/queue.service.js';
 import { livestreamService } from '../services/livestream.service.js';
 import { databaseService } from '../services/database.service.js';
+import { metricsService } from '../services/metrics.service.js';
+import { webhookOrderingService } from '../services/webhook-ordering.service.js';
 import type { WebhookEvent } from '../types/livestream.types.js';
+import { logger } from '../utils/logger.js';
+
+const log = logger.child({ component: 'Webhook Worker' });
+
+// How long a worker holds a webhook before another worker may claim it (crashed worker)
+const PROCESSING_LEASE_MS = 60 * 1000;
+
+// Delay before retrying a webhook whose room is locked by another worker
+const ROOM_BUSY_RETRY_MS = 250;
 
 /**
  * Process a single webhook job
+ * Webhooks of the same room are processed one at a time, in LiveKit createdAt order
  * @param job - Webhook job data from queue
  */
 async function processWebhook(job: WebhookJob): Promise<void> {
-  const { webhookId, event, payload } = job;
+  const { webhookId, event } = job;
+  const payload = job.payload as WebhookEvent;
+
+  log.info(`Processing webhook ${webhookId} (event: ${event})`);
 
-  console.log(`[Worker] Processing webhook ${webhookId} (event: ${event})`);
+  const roomName = webhookOrderingService.getRoomName(payload);
+  if (!roomName) {
+    await applyWebhook(job, payload, null);
+    return;
+  }
+
+  // Step 1: Lock the room - another webhook of this room is being processed otherwise
+  const lockToken = await webhookOrderingService.acquireRoomLock(roomName);
+  if (!lockToken) {
+    throw new DeferJobError(ROOM_BUSY_RETRY_MS, `room ${roomName} is busy`);
+  }
 
+  const stopExtendingLock = webhookOrderingService.keepRoomLock(roomName, lockToken);
   try {
-    // Step 1: Check if webhook was already processed (deduplication)
-    const alreadyProcessed = await databaseService.checkWebhookProcessed(webhookId);
-
-    if (alreadyProcessed) {
-      console.log(
-        `[Worker] Webhook ${webhookId} already processed (deduplication skip)`
-      );
-      return; // Idempotent - don't process again
-    }
+    await applyWebhook(job, payload, roomName);
+  } finally {
+    stopExtendingLock();
+    await webhookOrderingService.releaseRoomLock(roomName, lockToken);
+  }
+}
+
+/**
+ * Apply a webhook once (deduplication) unless a newer event of its room was already applied
+ * @param roomName - Room of the webhook (its lock is held), null for events without a room
+ */
+async function applyWebhook(
+  job: WebhookJob,
+  payload: WebhookEvent,
+  roomName: string | null
+): Promise<void> {
+  const { webhookId, event } = job;
 
-    // Step 2: Record webhook as being processed (prevents race conditions)
-    // This happens BEFORE processing to handle concurrent workers
-    await databaseService.recordWebhookProcessed(webhookId, event);
+  // Step 2: Claim the webhook (deduplication - only one worker processes it at a time)
+  const leaseId = randomUUID();
+  const claim = await databaseService.claimWebhookEvent(
+    webhookId,
+    event,
+    leaseId,
+    PROCESSING_LEASE_MS
+  );
 
-    // Step 3: Process the webhook event via livestream service
+  if (claim.status === 'done') {
+    log.info(`Webhook ${webhookId} already processed (deduplication skip)`);
+    return; // Idempotent - don't process again
+  }
+
+  if (claim.status === 'in_progress') {
+    // Try again once the lease expires (a crashed worker never releases it), or find the
+    // webhook done by then - without using up an attempt
+    throw new DeferJobError(
+      Math.max(claim.leaseExpiresAt.getTime() - Date.now(), 0),
+      `webhook ${webhookId} is being processed by another worker`
+    );
+  }
+
+  try {
+    // Step 3: Drop the webhook if a newer event for the same target was already applied
+    if (roomName && (await webhookOrderingService.isStale(roomName, payload))) {
+      log.warn(`Dropping stale webhook ${webhookId} (event: ${event}, room: ${roomName})`);
+      metricsService.recordStaleWebhook(event);
+      await databaseService.completeWebhookEvent(webhookId, leaseId);
+      return;
+    }
+
+    // Step 4: Process the webhook event via livestream service
     // This will handle all the business logic (updating participants, etc.)
-    await livestreamService.handleWebhookEvent(payload as WebhookEvent);
+    await livestreamService.handleWebhookEvent(payload);
 
-    console.log(`[Worker] Successfully processed webhook ${webhookId}`);
+    if (roomName) {
+      await webhookOrderingService.recordApplied(roomName, payload).catch(error => {
+        // Only weakens stale detection for later events of this room
+        log.error(`Failed to record order of webhook ${webhookId}`, { error });
+      });
+    }
   } catch (error) {
-    console.error(`[Worker] Error processing webhook ${webhookId}:`, error);
+    log.error(`Error processing webhook ${webhookId}`, { error });
+
+    // Step 5a: Release the claim so the retry processes the webhook again
+    const message = error instanceof Error ? error.message : String(error);
+    await databaseService.failWebhookEvent(webhookId, leaseId, message).catch(failError => {
+      // The lease expires, so the retry can still claim it
+      log.error(`Failed to record failure of webhook ${webhookId}`, { error: failError });
+    });
 
     // Throw error to trigger BullMQ retry mechanism
     throw error;
   }
+
+  // Step 5b: Mark the webhook as processed
+  const completed = await databaseService.completeWebhookEvent(webhookId, leaseId);
+  if (!completed) {
+    log.warn(`Lease of webhook ${webhookId} expired during processing - it may be processed again`);
+  }
+
+  log.info(`Successfully processed webhook ${webhookId}`);
 }
 
 /**
@@ -56,12 +141,12 @@ async function processWebhook(job: WebhookJob): Promise<void> {
  * Call this function when server starts
  */
 export function startWebhookWorker(): void {
-  console.log('[Worker] Starting webhook worker...');
+  log.info('Starting webhook worker...');
 
   // Start the worker with our processing function
   queueService.startWorker(processWebhook);
 
-  console.log('[Worker] Webhook worker started successfully');
+  log.info('Webhook worker started successfully');
 }
 
 /**
@@ -69,9 +154,10 @@ export function startWebhookWorker(): void {
  * Call this function when server shuts down
  */
 export async function stopWebhookWorker(): Promise<void> {
-  console.log('[Worker] Stopping webhook worker...');
+  log.info('Stopping webhook worker...');
 
   await queueService.shutdown();
+  await webhookOrderingService.shutdown();
 
-  console.log('[Worker] Webhook worker stopped');
+  log.info('Webhook worker stopped');
 }